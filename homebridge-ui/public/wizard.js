@@ -234,6 +234,7 @@
     const temperatureOffset = typeof device.temperatureOffset === 'number' ? device.temperatureOffset : 0;
     const humidityOffset = typeof device.humidityOffset === 'number' ? device.humidityOffset : 0;
     const useFahrenheit = device.useFahrenheit === true;
+    const cloudFallback = device.isCloudFallbackEnabled === true;
     const serial = typeof device.serial === 'string' ? device.serial : '';
     const collapseId = `device-settings-${serial.replace(/[^a-zA-Z0-9]/g, '-')}`;
 
@@ -290,6 +291,14 @@
               <span class="text-muted d-block" style="font-size: 0.75em;">Log temperatures in °F (HomeKit display follows your iOS settings)</span>
             </label>
           </div>
+          <div class="form-check form-switch mb-2">
+            <input class="form-check-input cloud-fallback-check" type="checkbox" role="switch"
+              data-serial="${escapeHtml(device.serial)}" ${cloudFallback ? 'checked' : ''}>
+            <label class="form-check-label small">
+              Cloud Fallback
+              <span class="text-muted d-block" style="font-size: 0.75em;">Control the device through the Dyson cloud when it is unreachable on the LAN${device.iotCredentials ? '' : ' (re-sync to fetch the cloud credentials)'}</span>
+            </label>
+          </div>
           ${hasHeating ? `
             <label class="form-label small text-muted mb-1">Heating Service</label>
             <select class="form-select form-select-sm heating-service-select" data-serial="${escapeHtml(device.serial)}">
@@ -370,6 +379,7 @@
         productType: device.productType,
         localCredentials: device.localCredentials,
         ipAddress: device.ipAddress,
+        hostname: device.hostname,
       });
       checkbox.checked = response.continuousMonitoring;
       device.isContinuousMonitoringEnabled = response.continuousMonitoring;
@@ -445,6 +455,7 @@
             productType: dev.productType,
             localCredentials: dev.localCredentials,
             ipAddress: dev.ipAddress,
+            hostname: dev.hostname,
             enabled,
           });
           hb.toast.success(`Continuous monitoring ${enabled ? 'enabled' : 'disabled'}`);
@@ -506,6 +517,19 @@
       });
     });
 
+    container.querySelectorAll('.cloud-fallback-check').forEach((checkbox) => {
+      checkbox.addEventListener('change', (e) => {
+        const device = state.devices.find((d) => d.serial === e.target.dataset.serial);
+        if (!device) {
+          return;
+        }
+        device.isCloudFallbackEnabled = e.target.checked;
+        if (onChange) {
+          onChange();
+        }
+      });
+    });
+
     container.querySelectorAll('.use-fahrenheit-check').forEach((checkbox) => {
       checkbox.addEventListener('change', (e) => {
         const device = state.devices.find((d) => d.serial === e.target.dataset.serial);
@@ -570,6 +594,7 @@
             productType: device.productType,
             localCredentials: device.localCredentials,
             ipAddress: device.ipAddress,
+            hostname: device.hostname,
             enabled,
           });
           hb.toast.success(`Continuous monitoring ${enabled ? 'enabled' : 'disabled'}`);
@@ -644,6 +669,7 @@
       }
       state.devices = validDevices.map((d) => ({
         ...d,
+        version: d.firmwareVersion,
         productName: productTypes[d.productType] || `Unknown (${d.productType})`,
         hasHeating: heatingProductTypes.includes(d.productType),
         hasJetFocus: jetFocusProductTypes.includes(d.productType),
@@ -670,6 +696,16 @@
         if (d.ipAddress) {
           deviceConfig.ipAddress = d.ipAddress;
         }
+        if (d.version) {
+          deviceConfig.firmwareVersion = d.version;
+        }
+        // Cloud credentials are bearer tokens, so only keep them for devices that use them
+        if (d.isCloudFallbackEnabled === true) {
+          deviceConfig.isCloudFallbackEnabled = true;
+          if (d.iotCredentials) {
+            deviceConfig.iotCredentials = d.iotCredentials;
+          }
+        }
         if (d.isContinuousMonitoringEnabled) {
           deviceConfig.isContinuousMonitoringEnabled = true;
         }
@@ -764,8 +800,10 @@
     hb.showSpinner();
 
     try {
-      const response = await hb.request('/get-devices', { token: state.authToken });
-      state.devices = response.devices;
+      const response = await hb.request('/get-devices', { token: state.authToken, countryCode: el.country.value });
+      // Keep cloud fallback on for devices that had it, so a re-sync refreshes their credentials
+      const cloudFallbackSerials = new Set(state.devices.filter((d) => d.isCloudFallbackEnabled === true).map((d) => d.serial));
+      state.devices = response.devices.map((d) => (cloudFallbackSerials.has(d.serial) ? { ...d, isCloudFallbackEnabled: true } : d));
       state.isResync = false;
 
       if (state.devices.length === 0) {
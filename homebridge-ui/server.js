@@ -14,16 +14,17 @@
 
 import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
 import { createDecipheriv } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
 
-import { getProductTypeDisplayNames, getDeviceFeatures, getHeatingDevices } from '../dist/config/index.js';
+import { getDysonApiBaseUrl, getProductTypeDisplayNames, getDeviceFeatures, getHeatingDevices } from '../dist/config/index.js';
 import { DysonMqttClient } from '../dist/protocol/mqttClient.js';
+import { ProxyMqttTransport } from '../dist/protocol/mqttTransport.js';
 import { MdnsDiscovery } from '../dist/discovery/mdnsDiscovery.js';
 
 // =============================================================================
 // Constants
 // =============================================================================
 
-const DYSON_API_BASE_URL = 'https://appapi.cp.dyson.com';
 const REQUEST_TIMEOUT = 15000;
 
 const DECRYPT_KEY = Buffer.from([
@@ -47,8 +48,13 @@ const DEFAULT_HEADERS = {
 // HTTP Client (native fetch)
 // =============================================================================
 
+/**
+ * Call the Dyson API host that serves the account's country
+ * @param {string} endpoint - Path and query, e.g. `/v2/provisioningservice/manifest`
+ * @param {object} [options] - `method`, `headers` and `body`, plus the account's `countryCode`
+ */
 async function dysonRequest(endpoint, options = {}) {
-  const url = `${DYSON_API_BASE_URL}${endpoint}`;
+  const url = `${getDysonApiBaseUrl(options.countryCode)}${endpoint}`;
   const method = options.method || 'GET';
 
   console.log(`[DysonUI] ${method} ${endpoint}`);
@@ -168,7 +174,7 @@ async function handleAuthenticate(ctx, payload) {
   try {
     // Step 0: Provision API (unlocks the client IP for subsequent auth calls)
     console.log('[DysonUI] Step 0: Provision API');
-    await dysonRequest('/v1/provisioningservice/application/Android/version', { method: 'GET' });
+    await dysonRequest('/v1/provisioningservice/application/Android/version', { method: 'GET', countryCode });
 
     // Step 1: Check user status
     // country/culture are query params (matching the Dyson Android app); the API
@@ -178,6 +184,7 @@ async function handleAuthenticate(ctx, payload) {
     const culture = encodeURIComponent(`en-${countryCode}`);
     const status = await dysonRequest(`/v3/userregistration/email/userstatus?country=${country}`, {
       method: 'POST',
+      countryCode,
       body: JSON.stringify({ email }),
     });
 
@@ -189,6 +196,7 @@ async function handleAuthenticate(ctx, payload) {
     console.log('[DysonUI] Step 2: Request OTP');
     const auth = await dysonRequest(`/v3/userregistration/email/auth?country=${country}&culture=${culture}`, {
       method: 'POST',
+      countryCode,
       body: JSON.stringify({ email }),
     });
 
@@ -231,6 +239,7 @@ async function handleVerifyOtp(ctx, payload) {
   try {
     const response = await dysonRequest(`/v3/userregistration/email/verify?country=${encodeURIComponent(countryCode)}`, {
       method: 'POST',
+      countryCode,
       body: JSON.stringify({ email, password, challengeId: ctx.challengeId, otpCode }),
     });
 
@@ -260,8 +269,41 @@ async function handleVerifyOtp(ctx, payload) {
   }
 }
 
+/**
+ * Fetch the cloud MQTT broker credentials for a device
+ * Returns undefined if the account has none for this device
+ */
+async function fetchIotCredentials(token, serial, countryCode) {
+  try {
+    const response = await dysonRequest('/v2/authorize/iot-credentials', {
+      method: 'POST',
+      countryCode,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ Serial: serial }),
+    });
+    const credentials = response?.IoTCredentials;
+    if (!response?.Endpoint || !credentials) {
+      return undefined;
+    }
+    return {
+      endpoint: response.Endpoint,
+      clientId: credentials.ClientId,
+      customAuthorizerName: credentials.CustomAuthorizerName,
+      tokenKey: credentials.TokenKey,
+      tokenValue: credentials.TokenValue,
+      tokenSignature: credentials.TokenSignature,
+    };
+  } catch (error) {
+    console.log(`[DysonUI] No IoT credentials for ${serial}: ${error.message}`);
+    return undefined;
+  }
+}
+
 async function handleGetDevices(payload) {
-  const { token } = payload;
+  const { token, countryCode } = payload;
 
   if (!token) {
     throw new RequestError('Token is required', { status: 400 });
@@ -273,6 +315,7 @@ async function handleGetDevices(payload) {
   try {
     const manifest = await dysonRequest('/v2/provisioningservice/manifest', {
       method: 'GET',
+      countryCode,
       headers: { Authorization: `Bearer ${token}` },
     });
 
@@ -284,9 +327,9 @@ async function handleGetDevices(payload) {
       const serial = d.Serial || d.serialNumber;
       const productType = d.ProductType || d.type;
       const name = d.Name || d.name || d.productName;
-      const version = d.Version || '';
+      const version = d.Version || d.connectedConfiguration?.firmware?.version || '';
       const autoUpdate = d.AutoUpdate ?? d.connectedConfiguration?.firmware?.autoUpdate ?? false;
-      const newVersionAvailable = d.NewVersionAvailable ?? false;
+      const newVersionAvailable = d.NewVersionAvailable ?? d.connectedConfiguration?.firmware?.newVersionAvailable ?? false;
 
       // Credentials: v2 uses LocalCredentials, v3 uses connectedConfiguration.mqtt.localBrokerCredentials
       const rawCredentials = d.LocalCredentials || d.connectedConfiguration?.mqtt?.localBrokerCredentials || '';
@@ -309,6 +352,14 @@ async function handleGetDevices(payload) {
       };
     });
 
+    // Cloud MQTT credentials let the plugin fall back to the cloud broker
+    // when the LAN is unreachable. A device without them still works locally.
+    // The wizard only saves them for devices with cloud fallback switched on.
+    const iotCredentials = await Promise.all(devices.map((device) => fetchIotCredentials(token, device.serial, countryCode)));
+    devices.forEach((device, index) => {
+      device.iotCredentials = iotCredentials[index];
+    });
+
     return { success: true, devices };
   } catch (error) {
     console.error('[DysonUI] Get devices error:', error.message);
@@ -342,10 +393,10 @@ const MQTT_TIMEOUT = 10000;
 const MDNS_TIMEOUT = 5000;
 
 /**
- * Get device IP - uses config IP first, falls back to mDNS discovery
+ * Get device IP - uses config IP or host name first, falls back to mDNS discovery
  * @param {object} ctx - Server context with access to config
  * @param {string} serial - Device serial number
- * @param {string} [configIp] - IP address from config (if available)
+ * @param {string} [configIp] - IP address or host name from config (if available); a host name is resolved when connecting
  * @returns {Promise<{ip: string, discovered: boolean}>} IP and whether it was discovered
  */
 async function getDeviceIp(_ctx, serial, configIp) {
@@ -375,19 +426,133 @@ async function getDeviceIp(_ctx, serial, configIp) {
   }
 }
 
+/**
+ * Get the plugin's local MQTT proxy settings, if the proxy is enabled
+ * @param {object} ctx - Server context with access to the Homebridge config path
+ * @returns {Promise<object|null>} Proxy settings from the platform config
+ */
+async function getMqttProxyConfig(ctx) {
+  if (!ctx.homebridgeConfigPath) {
+    return null;
+  }
+  try {
+    const config = JSON.parse(await readFile(ctx.homebridgeConfigPath, 'utf8'));
+    const platform = (config.platforms || []).find((p) => p.platform === 'DysonPureCool');
+    return platform?.mqttProxy?.isEnabled ? platform.mqttProxy : null;
+  } catch (error) {
+    console.error('[DysonUI] Failed to read Homebridge config:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Connect to a device through the plugin's local MQTT proxy
+ * Shares the plugin's session instead of opening a second one on the device.
+ * @param {boolean} [isWrite] - Whether the client will send commands, which a
+ *   read-only proxy refuses
+ * @returns {Promise<DysonMqttClient|null>} Connected client, or null if the proxy
+ *   is disabled, read-only for a write, or not running (e.g. Homebridge is stopped)
+ */
+async function connectViaProxy(ctx, { serial, productType, localCredentials }, isWrite = false) {
+  const proxyConfig = await getMqttProxyConfig(ctx);
+  if (!proxyConfig) {
+    return null;
+  }
+  if (isWrite && proxyConfig.isReadOnly) {
+    console.log('[DysonUI] MQTT proxy is read-only, connecting to the device directly');
+    return null;
+  }
+
+  const client = new DysonMqttClient({
+    host: '',
+    serial,
+    credentials: localCredentials,
+    productType,
+    timeout: MQTT_TIMEOUT,
+    autoReconnect: false,
+    transport: new ProxyMqttTransport(proxyConfig),
+  });
+
+  try {
+    await client.connect();
+    console.log(`[DysonUI] Connected to ${serial} through the plugin's MQTT proxy`);
+    return client;
+  } catch (error) {
+    console.log(`[DysonUI] MQTT proxy unavailable (${error.message}), connecting to the device directly`);
+    return null;
+  }
+}
+
+/**
+ * Request the current state from a connected client and disconnect
+ * @returns {Promise<boolean>} Whether continuous monitoring is on
+ */
+async function readContinuousMonitoring(client) {
+  await client.subscribeToStatus();
+
+  // Request current state and wait for response
+  const state = await new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error('Timeout waiting for device state'));
+    }, MQTT_TIMEOUT);
+
+    client.on('message', (msg) => {
+      if (msg.data?.msg === 'CURRENT-STATE') {
+        clearTimeout(timeout);
+        resolve(msg.data);
+      }
+    });
+
+    client.requestCurrentState().catch(reject);
+  });
+
+  await client.disconnect();
+
+  // Parse continuous monitoring state from rhtm field
+  return state['product-state']?.rhtm === 'ON';
+}
+
+/**
+ * Send continuous monitoring on a connected client and disconnect
+ */
+async function sendContinuousMonitoring(client, enabled) {
+  // Send STATE-SET command
+  const command = {
+    msg: 'STATE-SET',
+    time: new Date().toISOString(),
+    'mode-reason': 'LAPP',
+    data: {
+      rhtm: enabled ? 'ON' : 'OFF',
+    },
+  };
+
+  await client.publishCommand(command);
+  await client.disconnect();
+}
 
 /**
  * Get device state via MQTT
  */
 async function handleGetDeviceState(ctx, payload) {
-  const { serial, productType, localCredentials, ipAddress } = payload;
+  const { serial, productType, localCredentials, ipAddress, hostname } = payload;
 
   if (!serial || !productType || !localCredentials) {
     throw new RequestError('Missing device info (serial, productType, localCredentials)', { status: 400 });
   }
 
+  const proxyClient = await connectViaProxy(ctx, payload);
+  if (proxyClient) {
+    try {
+      const continuousMonitoring = await readContinuousMonitoring(proxyClient);
+      return { success: true, continuousMonitoring };
+    } catch (error) {
+      await proxyClient.disconnect().catch(() => {});
+      throw new RequestError(`Failed to get device state: ${error.message}`, { status: 500 });
+    }
+  }
+
   // Get device IP - use config IP first, fall back to mDNS
-  const { ip, discovered } = await getDeviceIp(ctx, serial, ipAddress);
+  const { ip, discovered } = await getDeviceIp(ctx, serial, hostname || ipAddress);
 
   // If config IP fails, try mDNS discovery
   if (!ip) {
@@ -407,28 +572,7 @@ async function handleGetDeviceState(ctx, payload) {
 
   try {
     await client.connect();
-    await client.subscribeToStatus();
-
-    // Request current state and wait for response
-    const state = await new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Timeout waiting for device state'));
-      }, MQTT_TIMEOUT);
-
-      client.on('message', (msg) => {
-        if (msg.data?.msg === 'CURRENT-STATE') {
-          clearTimeout(timeout);
-          resolve(msg.data);
-        }
-      });
-
-      client.requestCurrentState().catch(reject);
-    });
-
-    await client.disconnect();
-
-    // Parse continuous monitoring state from rhtm field
-    const continuousMonitoring = state['product-state']?.rhtm === 'ON';
+    const continuousMonitoring = await readContinuousMonitoring(client);
 
     console.log(`[DysonUI] Device state: continuousMonitoring=${continuousMonitoring}`);
 
@@ -452,7 +596,7 @@ async function handleGetDeviceState(ctx, payload) {
       const freshResult = await getDeviceIp(ctx, serial, null);
       if (freshResult.ip && freshResult.ip !== ipAddress) {
         // Retry with freshly discovered IP
-        return handleGetDeviceState(ctx, { ...payload, ipAddress: freshResult.ip, _retried: true });
+        return handleGetDeviceState(ctx, { ...payload, ipAddress: freshResult.ip, hostname: undefined, _retried: true });
       }
     }
 
@@ -464,7 +608,7 @@ async function handleGetDeviceState(ctx, payload) {
  * Set continuous monitoring via MQTT
  */
 async function handleSetContinuousMonitoring(ctx, payload) {
-  const { serial, productType, localCredentials, enabled, ipAddress } = payload;
+  const { serial, productType, localCredentials, enabled, ipAddress, hostname } = payload;
 
   if (!serial || !productType || !localCredentials) {
     throw new RequestError('Missing device info (serial, productType, localCredentials)', { status: 400 });
@@ -474,8 +618,19 @@ async function handleSetContinuousMonitoring(ctx, payload) {
     throw new RequestError('enabled must be a boolean', { status: 400 });
   }
 
+  const proxyClient = await connectViaProxy(ctx, payload, true);
+  if (proxyClient) {
+    try {
+      await sendContinuousMonitoring(proxyClient, enabled);
+      return { success: true, continuousMonitoring: enabled };
+    } catch (error) {
+      await proxyClient.disconnect().catch(() => {});
+      throw new RequestError(`Failed to set continuous monitoring: ${error.message}`, { status: 500 });
+    }
+  }
+
   // Get device IP - use config IP first, fall back to mDNS
-  const { ip, discovered } = await getDeviceIp(ctx, serial, ipAddress);
+  const { ip, discovered } = await getDeviceIp(ctx, serial, hostname || ipAddress);
   if (!ip) {
     throw new RequestError(`Device ${serial} not found on network`, { status: 404 });
   }
@@ -493,19 +648,7 @@ async function handleSetContinuousMonitoring(ctx, payload) {
 
   try {
     await client.connect();
-
-    // Send STATE-SET command
-    const command = {
-      msg: 'STATE-SET',
-      time: new Date().toISOString(),
-      'mode-reason': 'LAPP',
-      data: {
-        rhtm: enabled ? 'ON' : 'OFF',
-      },
-    };
-
-    await client.publishCommand(command);
-    await client.disconnect();
+    await sendContinuousMonitoring(client, enabled);
 
     console.log(`[DysonUI] Continuous monitoring set to ${enabled}`);
 
@@ -529,7 +672,7 @@ async function handleSetContinuousMonitoring(ctx, payload) {
       const freshResult = await getDeviceIp(ctx, serial, null);
       if (freshResult.ip && freshResult.ip !== ipAddress) {
         // Retry with freshly discovered IP
-        return handleSetContinuousMonitoring(ctx, { ...payload, ipAddress: freshResult.ip, _retried: true });
+        return handleSetContinuousMonitoring(ctx, { ...payload, ipAddress: freshResult.ip, hostname: undefined, _retried: true });
       }
     }
 
@@ -0,0 +1,57 @@
+/**
+ * Replay a recorded MQTT session against the plugin's device model
+ *
+ * Usage: npx tsx scripts/replay-mqtt.ts <recording.jsonl> <product-type> [--realtime]
+ *
+ * Recordings are written by the per-device "Record MQTT Traffic" option to
+ * dyson-mqtt-<serial>.jsonl in the Homebridge storage directory. The product
+ * type selects the catalog entry the device is modelled from.
+ *
+ * Prints every state change the replay produces and the final device state.
+ */
+
+import { MqttReplay } from '../src/protocol/mqttReplay.js';
+import { DysonLinkDevice } from '../src/devices/dysonLinkDevice.js';
+import { getDeviceModelName } from '../src/config/deviceCatalog.js';
+
+const [filePath, productType] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+const realtime = process.argv.includes('--realtime');
+
+if (!filePath || !productType) {
+  console.error('Usage: npx tsx scripts/replay-mqtt.ts <recording.jsonl> <product-type> [--realtime]');
+  process.exit(1);
+}
+
+const replay = await MqttReplay.fromFile(filePath, { realtime });
+
+console.log('='.repeat(60));
+console.log('Dyson MQTT Replay');
+console.log('='.repeat(60));
+console.log(`Recording: ${filePath}`);
+console.log(`Model: ${getDeviceModelName(productType)}`);
+console.log('='.repeat(60));
+
+const device = new DysonLinkDevice(
+  {
+    serial: 'REPLAY',
+    productType,
+    name: 'Replay',
+    credentials: '',
+    ipAddress: '127.0.0.1',
+  },
+  undefined,
+  replay.connect,
+);
+
+device.on('stateChange', (state) => {
+  console.log(`[${new Date().toISOString()}] state:`, JSON.stringify(state));
+});
+
+await device.connect();
+await replay.whenFinished();
+
+console.log('\nFinal state:');
+console.log(JSON.stringify(device.getState(), null, 2));
+console.log(`\nPlugin published ${replay.published.length} message(s) during replay`);
+
+await device.disconnect();
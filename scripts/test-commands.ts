@@ -7,7 +7,10 @@
  * If multiple devices are configured, specify the index (0-based) as argument
  *
  * This script connects to the device and lets you test individual commands
- * to verify they are being received and acted upon.
+ * to verify they are being received and acted upon. If the plugin's local
+ * MQTT proxy is enabled (`mqttProxy.isEnabled`) and accepts commands (not
+ * `isReadOnly`), it connects through the proxy so the plugin stays connected;
+ * otherwise it connects to the device.
  */
 
 import { readFileSync } from 'fs';
@@ -15,6 +18,10 @@ import { join } from 'path';
 import mqtt from 'mqtt';
 import readline from 'readline';
 import { getDeviceByProductType } from '../src/config/deviceCatalog.js';
+import { MQTT_CONNECT_VARIANTS } from '../src/protocol/mqttClient.js';
+import { LocalMqttTransport, ProxyMqttTransport } from '../src/protocol/mqttTransport.js';
+import type { MqttTransport } from '../src/protocol/mqttTransport.js';
+import type { MqttProxyOptions } from '../src/protocol/mqttProxy.js';
 
 interface DeviceConfig {
   serial: string;
@@ -27,6 +34,7 @@ interface DeviceConfig {
 interface PlatformConfig {
   platform: string;
   devices?: DeviceConfig[];
+  mqttProxy?: MqttProxyOptions & { isEnabled?: boolean };
 }
 
 interface HomebridgeConfig {
@@ -34,7 +42,7 @@ interface HomebridgeConfig {
 }
 
 // Load configuration from Homebridge config file
-function loadConfig(deviceIndex = 0): DeviceConfig {
+function loadConfig(deviceIndex = 0): { device: DeviceConfig; mqttProxy?: PlatformConfig['mqttProxy'] } {
   const configPath = join(process.cwd(), 'test', 'hbConfig', 'config.json');
 
   let configData: HomebridgeConfig;
@@ -65,7 +73,7 @@ function loadConfig(deviceIndex = 0): DeviceConfig {
     process.exit(1);
   }
 
-  return dysonPlatform.devices[deviceIndex];
+  return { device: dysonPlatform.devices[deviceIndex], mqttProxy: dysonPlatform.mqttProxy };
 }
 
 // Parse command line arguments
@@ -88,9 +96,7 @@ if (isNaN(deviceIndex)) {
   process.exit(1);
 }
 
-const config = loadConfig(deviceIndex);
-
-const MQTT_PORT = 1883;
+const { device: config, mqttProxy } = loadConfig(deviceIndex);
 
 // Determine if this is a Pure Cool Link device (TP02, DP01) - uses fpwr/auto protocol
 // Note: HP02 (455) is called "Hot+Cool Link" but uses fmod like newer devices
@@ -109,22 +115,26 @@ console.log(`Is Link Series: ${isLinkSeries}`);
 console.log(`IP Address: ${config.ipAddress}`);
 console.log('='.repeat(60));
 
-const brokerUrl = `mqtt://${config.ipAddress}:${MQTT_PORT}`;
-const statusTopic = `${config.productType}/${config.serial}/status/current`;
-const commandTopic = `${config.productType}/${config.serial}/command`;
+// Share the plugin's session through its proxy when enabled, so the plugin stays connected.
+// A read-only proxy would refuse the commands this script sends.
+const transport: MqttTransport = mqttProxy?.isEnabled && !mqttProxy.isReadOnly
+  ? new ProxyMqttTransport(mqttProxy)
+  : new LocalMqttTransport(config.ipAddress, config.serial, config.localCredentials);
+
+const brokerUrl = transport.getBrokerUrl();
+const topicRoot = `${transport.topicPrefix ?? ''}${config.productType}/${config.serial}`;
+const statusTopic = `${topicRoot}/status/current`;
+const commandTopic = `${topicRoot}/command`;
 
-console.log(`\nConnecting to: ${brokerUrl}`);
+console.log(`\nConnecting to: ${brokerUrl}${transport.name === 'proxy' ? ' (plugin MQTT proxy)' : ''}`);
 console.log(`Command topic: ${commandTopic}\n`);
 
 const client = mqtt.connect(brokerUrl, {
-  username: config.serial,
-  password: config.localCredentials,
+  ...transport.getConnectOptions(MQTT_CONNECT_VARIANTS[0]),
   clientId: `test_commands_${Date.now()}`,
   keepalive: 30,
   connectTimeout: 10000,
   reconnectPeriod: 0,
-  clean: true,
-  protocolVersion: 4,
 });
 
 // Track current device state
@@ -13,9 +13,12 @@ import type {
 } from 'homebridge';
 
 import type { DysonDevice } from '../devices/dysonDevice.js';
-import type { DeviceState } from '../devices/types.js';
+import type { CommandExpiredError, ConnectionHealth, DeviceState } from '../devices/types.js';
 import { getDeviceModelName } from '../config/index.js';
 
+/** Firmware revision shown until the real version is known */
+const DEFAULT_FIRMWARE_VERSION = '1.0.0';
+
 /**
  * Configuration for DysonAccessory
  */
@@ -46,6 +49,8 @@ export abstract class DysonAccessory {
   private readonly boundHandleConnect: () => void;
   private readonly boundHandleDisconnect: () => void;
   private readonly boundHandleDebug: (message: string) => void;
+  private readonly boundHandleStale: (health: ConnectionHealth) => void;
+  private readonly boundHandleCommandExpired: (error: CommandExpiredError) => void;
 
   /**
    * Create a new DysonAccessory
@@ -66,11 +71,16 @@ export abstract class DysonAccessory {
     this.boundHandleConnect = this.handleConnect.bind(this);
     this.boundHandleDisconnect = this.handleDisconnect.bind(this);
     this.boundHandleDebug = (message: string) => this.log.debug(message);
+    this.boundHandleStale = this.handleStale.bind(this);
+    this.boundHandleCommandExpired = (error: CommandExpiredError) =>
+      this.log.warn(`${this.accessory.displayName}: ${error.message}`);
 
     this.device.on('stateChange', this.boundHandleStateChange);
     this.device.on('connect', this.boundHandleConnect);
     this.device.on('disconnect', this.boundHandleDisconnect);
     this.device.on('debug', this.boundHandleDebug);
+    this.device.on('stale', this.boundHandleStale);
+    this.device.on('commandExpired', this.boundHandleCommandExpired);
 
     // Set up device-specific services
     this.setupServices();
@@ -90,11 +100,13 @@ export abstract class DysonAccessory {
    * Handle device state changes
    *
    * Can be overridden by subclasses to update service characteristics.
+   * Overrides must call super so firmware changes still reach HomeKit.
    *
    * @param state - New device state
    */
-  protected handleStateChange(_state: DeviceState): void {
+  protected handleStateChange(state: DeviceState): void {
     this.log.debug('Device state changed for', this.accessory.displayName);
+    this.updateFirmwareVersion(state);
     // Subclasses should override to update their services
   }
 
@@ -117,6 +129,24 @@ export abstract class DysonAccessory {
     this.log.warn('Device disconnected:', this.accessory.displayName);
   }
 
+  /**
+   * Handle a stale connection
+   *
+   * Called when the device stops answering state requests while its
+   * connection is still open. The device reconnects on its own.
+   *
+   * @param health - Connection health when the connection was declared stale
+   */
+  protected handleStale(health: ConnectionHealth): void {
+    const lastSeen = health.lastMessageAt
+      ? `, last message ${Math.round((Date.now() - health.lastMessageAt) / 1000)}s ago`
+      : '';
+    this.log.warn(
+      `Device stopped responding: ${this.accessory.displayName} ` +
+      `(${health.missedReplies} missed replies${lastSeen}), reconnecting`,
+    );
+  }
+
   /**
    * Clean up event listeners
    *
@@ -128,6 +158,8 @@ export abstract class DysonAccessory {
     this.device.off('connect', this.boundHandleConnect);
     this.device.off('disconnect', this.boundHandleDisconnect);
     this.device.off('debug', this.boundHandleDebug);
+    this.device.off('stale', this.boundHandleStale);
+    this.device.off('commandExpired', this.boundHandleCommandExpired);
   }
 
   /**
@@ -148,6 +180,8 @@ export abstract class DysonAccessory {
    * Set up the AccessoryInformation service
    *
    * Sets manufacturer, model, serial number, and firmware version.
+   * The firmware version is the last one the device reported (kept in the
+   * accessory context across restarts), else the cloud-reported version.
    */
   private setupAccessoryInformation(): void {
     const Characteristic = this.api.hap.Characteristic;
@@ -159,7 +193,38 @@ export abstract class DysonAccessory {
         .setCharacteristic(Characteristic.Manufacturer, 'Dyson')
         .setCharacteristic(Characteristic.Model, this.getModelName())
         .setCharacteristic(Characteristic.SerialNumber, this.device.getSerial())
-        .setCharacteristic(Characteristic.FirmwareRevision, '1.0.0');
+        .setCharacteristic(
+          Characteristic.FirmwareRevision,
+          this.accessory.context.firmwareVersion ?? this.device.getFirmwareVersion() ?? DEFAULT_FIRMWARE_VERSION,
+        );
+    }
+  }
+
+  /**
+   * Record a firmware version reported by the device
+   *
+   * Stores it in the accessory context, saves the accessory cache and
+   * updates HomeKit when it changes.
+   *
+   * @param state - New device state
+   */
+  private updateFirmwareVersion(state: DeviceState): void {
+    const firmwareVersion = state.firmwareVersion;
+    const previous = this.accessory.context.firmwareVersion as string | undefined;
+    if (!firmwareVersion || firmwareVersion === previous) {
+      return;
+    }
+
+    this.accessory.context.firmwareVersion = firmwareVersion;
+    this.api.updatePlatformAccessories([this.accessory]);
+    this.accessory
+      .getService(this.api.hap.Service.AccessoryInformation)
+      ?.updateCharacteristic(this.api.hap.Characteristic.FirmwareRevision, firmwareVersion);
+
+    if (previous) {
+      this.log.info(`${this.accessory.displayName}: Firmware updated from ${previous} to ${firmwareVersion}`);
+    } else {
+      this.log.info(`${this.accessory.displayName}: Firmware version ${firmwareVersion}`);
     }
   }
 
@@ -23,9 +23,16 @@ import { FilterService } from './services/filterService.js';
 import { ThermostatService } from './services/thermostatService.js';
 import { HumidifierControlService } from './services/humidifierControlService.js';
 import { JetFocusService } from './services/jetFocusService.js';
+import { ManualChangeService } from './services/manualChangeService.js';
+import { WaterTankService } from './services/waterTankService.js';
+import { DeepCleanService } from './services/deepCleanService.js';
 import { HeaterCoolerService } from './services/heaterCoolerService.js';
+import { SleepTimerService } from './services/sleepTimerService.js';
+import { OscillationPresetService } from './services/oscillationPresetService.js';
+import type { OscillationPreset } from './services/oscillationPresetService.js';
 import type { DysonLinkDevice } from '../devices/dysonLinkDevice.js';
 import type { DeviceState } from '../devices/types.js';
+import { getActiveFaults } from '../config/faultCatalog.js';
 
 /**
  * Configuration options for device features
@@ -79,12 +86,24 @@ export interface DeviceOptions {
   isJetFocusEnabled?: boolean;
   /** Enable continuous monitoring switch */
   isContinuousMonitoringEnabled?: boolean;
+  /** Enable sleep timer control */
+  isSleepTimerEnabled?: boolean;
+  /** Enable a stateless switch pressed when someone changes the device outside HomeKit */
+  isManualChangeSwitchEnabled?: boolean;
+  /** Oscillation sweep presets, each exposed as a switch */
+  oscillationPresets?: OscillationPreset[];
   /** Disable filter status service */
   isFilterStatusDisabled?: boolean;
   /** Disable humidifier control service */
   isHumidifierDisabled?: boolean;
 }
 
+/** Services this accessory can build, each listening to the device's events itself */
+const MAX_SERVICES = 17;
+
+/** Listeners the accessory and the platform add per device event, besides the services */
+const MAX_OTHER_LISTENERS = 8;
+
 /**
  * Configuration for DysonLinkAccessory
  */
@@ -104,11 +123,15 @@ export interface DysonLinkAccessoryConfig {
  * - Fan control (power, speed, oscillation, auto mode)
  * - Temperature and humidity sensors (with offset support)
  * - Air quality sensors (PM2.5, PM10, VOC, NO2)
- * - Filter maintenance status
+ * - Filter maintenance status, with a separate carbon filter service where fitted
  * - Night mode and continuous monitoring switches
  * - Thermostat/HeaterCooler for HP models (heating control)
- * - Humidifier control for PH models
+ * - Humidifier control, water tank sensor and deep clean for PH models
  * - Jet Focus (front airflow) switch
+ * - Sleep timer
+ * - Oscillation sweep preset switches
+ * - Manual change stateless switch
+ * - Fault reporting (StatusFault and log lines)
  */
 export class DysonLinkAccessory extends DysonAccessory {
   private fanService!: FanService;
@@ -118,13 +141,22 @@ export class DysonLinkAccessory extends DysonAccessory {
   private continuousMonitoringService?: ContinuousMonitoringService;
   private airQualityService?: AirQualityService;
   private filterService?: FilterService;
+  private carbonFilterService?: FilterService;
   private thermostatService?: ThermostatService;
   private humidifierControlService?: HumidifierControlService;
+  private waterTankService?: WaterTankService;
+  private deepCleanService?: DeepCleanService;
   private jetFocusService?: JetFocusService;
   private heaterCoolerService?: HeaterCoolerService;
+  private sleepTimerService?: SleepTimerService;
+  private oscillationPresetService?: OscillationPresetService;
+  private manualChangeService?: ManualChangeService;
 
   private options: DeviceOptions = {};
 
+  /** Fault codes active at the last state change, to log only transitions */
+  private activeFaultCodes = new Set<string>();
+
   /**
    * Create a new DysonLinkAccessory
    *
@@ -160,6 +192,9 @@ export class DysonLinkAccessory extends DysonAccessory {
     const opts: DeviceOptions = (this.accessory.context._deviceOptions as DeviceOptions) ?? this.options ?? {};
     const deviceName = this.accessory.displayName;
 
+    // A fully featured model has more stateChange listeners than the default limit of 10
+    linkDevice.setMaxListeners(MAX_SERVICES + MAX_OTHER_LISTENERS);
+
     // Modes to switch on automatically whenever the device is activated.
     // The device layer applies these on off -> on transitions only, and gates
     // each one on the model's catalog features.
@@ -244,15 +279,22 @@ export class DysonLinkAccessory extends DysonAccessory {
       });
     }
 
-    // Create FilterService if device has filters and not disabled
-    if ((features.hepaFilter || features.carbonFilter) && !opts.isFilterStatusDisabled) {
-      this.filterService = new FilterService({
-        accessory: this.accessory,
-        device: linkDevice,
-        api: this.api,
-        log: this.log,
-        primaryService,
-      });
+    // Create FilterServices if device has filters and not disabled
+    // Models with a separate carbon filter get a second service for it
+    if (!opts.isFilterStatusDisabled) {
+      if (features.hepaFilter) {
+        this.filterService = new FilterService({
+          accessory: this.accessory,
+          device: linkDevice,
+          api: this.api,
+          log: this.log,
+          filter: 'hepa',
+          primaryService,
+        });
+      }
+      if (features.carbonFilter) {
+        this.carbonFilterService = this.createCarbonFilterService();
+      }
     }
 
     // Create heating services for HP-series devices (if heating not disabled)
@@ -293,6 +335,23 @@ export class DysonLinkAccessory extends DysonAccessory {
         fullRangeHumidity: opts.fullRangeHumidity,
         primaryService,
       });
+
+      // Water tank as a contact sensor, so an empty tank can notify
+      this.waterTankService = new WaterTankService({
+        accessory: this.accessory,
+        device: linkDevice,
+        api: this.api,
+        log: this.log,
+        primaryService,
+      });
+
+      this.deepCleanService = new DeepCleanService({
+        accessory: this.accessory,
+        device: linkDevice,
+        api: this.api,
+        log: this.log,
+        primaryService,
+      });
     }
 
     // Create JetFocusService if device supports it and enabled (default: true)
@@ -307,6 +366,45 @@ export class DysonLinkAccessory extends DysonAccessory {
       });
     }
 
+    // Create SleepTimerService if enabled (default: false)
+    if (opts.isSleepTimerEnabled === true) {
+      this.sleepTimerService = new SleepTimerService({
+        accessory: this.accessory,
+        device: linkDevice,
+        api: this.api,
+        log: this.log,
+        primaryService,
+      });
+    }
+
+    // Create OscillationPresetService if presets are configured and the model can set the sweep
+    const oscillationPresets = opts.oscillationPresets ?? [];
+    if (oscillationPresets.length > 0) {
+      if (features.oscillation && linkDevice.oscillationAngleProtocol !== 'none') {
+        this.oscillationPresetService = new OscillationPresetService({
+          accessory: this.accessory,
+          device: linkDevice,
+          api: this.api,
+          log: this.log,
+          presets: oscillationPresets,
+          primaryService,
+        });
+      } else {
+        this.log.warn('Oscillation presets are configured, but this model cannot change its oscillation angle');
+      }
+    }
+
+    // Create ManualChangeService if enabled (default: false)
+    if (opts.isManualChangeSwitchEnabled === true) {
+      this.manualChangeService = new ManualChangeService({
+        accessory: this.accessory,
+        device: linkDevice,
+        api: this.api,
+        log: this.log,
+        primaryService,
+      });
+    }
+
     this.log.debug('DysonLinkAccessory services configured');
   }
 
@@ -314,12 +412,93 @@ export class DysonLinkAccessory extends DysonAccessory {
    * Handle device state changes
    *
    * Services handle their own state updates via event subscription.
+   * Faults are logged here when they appear or clear.
    *
    * @param state - New device state
    */
   protected handleStateChange(state: DeviceState): void {
     super.handleStateChange(state);
     // Services subscribe to stateChange directly, so no need to forward
+    this.logFaultChanges(state);
+    this.updateCarbonFilterService(state);
+  }
+
+  /**
+   * Create the FilterService for the carbon filter
+   */
+  private createCarbonFilterService(): FilterService {
+    return new FilterService({
+      accessory: this.accessory,
+      device: this.device as DysonLinkDevice,
+      api: this.api,
+      log: this.log,
+      filter: 'carbon',
+      primaryService: this.fanService.getService(),
+    });
+  }
+
+  /**
+   * Remove the carbon filter service while the device reports an empty
+   * carbon slot, and add it back once a carbon filter is fitted
+   *
+   * @param state - New device state
+   */
+  private updateCarbonFilterService(state: DeviceState): void {
+    const fitted = state.carbonFilterType;
+    if (fitted === undefined) {
+      return;
+    }
+
+    const name = this.accessory.displayName;
+    if (fitted === 'none') {
+      if (this.carbonFilterService) {
+        this.carbonFilterService.destroy();
+        this.removeService(this.carbonFilterService.getService());
+        this.carbonFilterService = undefined;
+        this.log.info(`${name}: No carbon filter fitted, removed the Carbon Filter service`);
+      }
+      return;
+    }
+
+    const features = (this.device as DysonLinkDevice).getFeatures();
+    if (!this.carbonFilterService && features.carbonFilter && !this.options.isFilterStatusDisabled) {
+      this.carbonFilterService = this.createCarbonFilterService();
+      this.carbonFilterService.updateFromState();
+      this.log.info(`${name}: Carbon filter fitted, added the Carbon Filter service`);
+    }
+  }
+
+  /**
+   * Log faults that became active or cleared since the last state change
+   *
+   * @param state - New device state
+   */
+  private logFaultChanges(state: DeviceState): void {
+    const name = this.accessory.displayName;
+    const faults = getActiveFaults(state);
+    const codes = new Set(faults.map(fault => fault.code));
+
+    for (const fault of faults) {
+      if (this.activeFaultCodes.has(fault.code)) {
+        continue;
+      }
+      const message = `${name}: ${fault.description} (${fault.code})`;
+      if (fault.severity === 'critical') {
+        this.log.error(message);
+      } else if (fault.severity === 'warning') {
+        this.log.warn(message);
+      } else {
+        this.log.info(message);
+      }
+    }
+
+    for (const code of this.activeFaultCodes) {
+      if (!codes.has(code)) {
+        this.log.info(`${name}: Fault cleared (${code})`);
+      }
+    }
+
+    this.activeFaultCodes = codes;
   }
 
   /**
@@ -348,10 +527,15 @@ export class DysonLinkAccessory extends DysonAccessory {
     this.continuousMonitoringService?.updateFromState();
     this.airQualityService?.updateFromState();
     this.filterService?.updateFromState();
+    this.carbonFilterService?.updateFromState();
     this.thermostatService?.updateFromState();
     this.humidifierControlService?.updateFromState();
+    this.waterTankService?.updateFromState();
+    this.deepCleanService?.updateFromState();
     this.jetFocusService?.updateFromState();
     this.heaterCoolerService?.updateFromState();
+    this.sleepTimerService?.updateFromState();
+    this.oscillationPresetService?.updateFromState();
     this.log.info('DysonLinkAccessory: Device reconnected, state synced');
   }
 
@@ -366,10 +550,16 @@ export class DysonLinkAccessory extends DysonAccessory {
     this.continuousMonitoringService?.destroy();
     this.airQualityService?.destroy();
     this.filterService?.destroy();
+    this.carbonFilterService?.destroy();
     this.thermostatService?.destroy();
     this.humidifierControlService?.destroy();
+    this.waterTankService?.destroy();
+    this.deepCleanService?.destroy();
     this.jetFocusService?.destroy();
     this.heaterCoolerService?.destroy();
+    this.sleepTimerService?.destroy();
+    this.oscillationPresetService?.destroy();
+    this.manualChangeService?.destroy();
     super.destroy();
   }
 
@@ -429,6 +619,20 @@ export class DysonLinkAccessory extends DysonAccessory {
     return this.humidifierControlService;
   }
 
+  /**
+   * Get the WaterTankService instance (if device supports humidification)
+   */
+  getWaterTankService(): WaterTankService | undefined {
+    return this.waterTankService;
+  }
+
+  /**
+   * Get the DeepCleanService instance (if device supports humidification)
+   */
+  getDeepCleanService(): DeepCleanService | undefined {
+    return this.deepCleanService;
+  }
+
   /**
    * Get the JetFocusService instance (if device supports jet focus)
    */
@@ -444,9 +648,37 @@ export class DysonLinkAccessory extends DysonAccessory {
   }
 
   /**
-   * Get the FilterService instance (if device has filters)
+   * Get the FilterService instance for the HEPA filter (if device has filters)
    */
   getFilterService(): FilterService | undefined {
     return this.filterService;
   }
+
+  /**
+   * Get the FilterService instance for the carbon filter (if fitted)
+   */
+  getCarbonFilterService(): FilterService | undefined {
+    return this.carbonFilterService;
+  }
+
+  /**
+   * Get the SleepTimerService instance (if enabled)
+   */
+  getSleepTimerService(): SleepTimerService | undefined {
+    return this.sleepTimerService;
+  }
+
+  /**
+   * Get the OscillationPresetService instance (if presets are configured)
+   */
+  getOscillationPresetService(): OscillationPresetService | undefined {
+    return this.oscillationPresetService;
+  }
+
+  /**
+   * Get the ManualChangeService instance (if enabled)
+   */
+  getManualChangeService(): ManualChangeService | undefined {
+    return this.manualChangeService;
+  }
 }
@@ -113,6 +113,7 @@ export class ContinuousMonitoringService {
       await this.device.setContinuousMonitoring(enabled);
     } catch (error) {
       this.log.error('Failed to set continuous monitoring:', error);
+      this.updateFromState();
       throw error;
     }
   }
@@ -0,0 +1,203 @@
+/**
+ * Deep Clean Service Handler
+ *
+ * Implements a HomeKit Valve service for the Humidify+Cool deep clean cycle.
+ * Like the sleep timer, the cycle has a countdown that a Valve can show;
+ * StatusFault flags when the next deep clean is due.
+ */
+
+import type {
+  API,
+  CharacteristicValue,
+  Logging,
+  PlatformAccessory,
+  Service,
+} from 'homebridge';
+
+import type { DysonLinkDevice } from '../../devices/dysonLinkDevice.js';
+import type { DeviceState } from '../../devices/types.js';
+
+/**
+ * Configuration for DeepCleanService
+ */
+export interface DeepCleanServiceConfig {
+  accessory: PlatformAccessory;
+  device: DysonLinkDevice;
+  api: API;
+  log: Logging;
+  /** Primary service to link this service to */
+  primaryService?: Service;
+}
+
+/** Seconds per minute, for converting between HomeKit and `cdrr` */
+const SECONDS_PER_MINUTE = 60;
+
+/** Longest cycle shown in HomeKit (2 hours, in seconds) */
+const MAX_DURATION_SECONDS = 2 * 60 * 60;
+
+/**
+ * DeepCleanService handles the Valve HomeKit service for the deep clean cycle
+ *
+ * Maps HomeKit characteristics to Dyson device state:
+ * - Active / InUse ↔ deepCleanActive
+ * - RemainingDuration ← deepCleanRemaining (minutes → seconds) while running
+ * - StatusFault ← deepCleanRequired
+ */
+export class DeepCleanService {
+  private readonly service: Service;
+  private readonly device: DysonLinkDevice;
+  private readonly log: Logging;
+  private readonly api: API;
+  private readonly boundHandleStateChange: (state: DeviceState) => void;
+
+  constructor(config: DeepCleanServiceConfig) {
+    this.device = config.device;
+    this.log = config.log;
+    this.api = config.api;
+
+    const Service = this.api.hap.Service;
+    const Characteristic = this.api.hap.Characteristic;
+
+    const existingService = config.accessory.getServiceById(Service.Valve, 'deep-clean');
+    this.service = existingService ||
+      config.accessory.addService(Service.Valve, 'Deep Clean', 'deep-clean');
+
+    // Set ConfiguredName for better HomeKit display
+    this.service.addOptionalCharacteristic(Characteristic.ConfiguredName);
+    this.service.updateCharacteristic(Characteristic.ConfiguredName, 'Deep Clean');
+
+    this.service.updateCharacteristic(Characteristic.ValveType, Characteristic.ValveType.GENERIC_VALVE);
+
+    this.service.getCharacteristic(Characteristic.Active)
+      .onGet(this.handleActiveGet.bind(this))
+      .onSet(this.handleActiveSet.bind(this));
+
+    this.service.getCharacteristic(Characteristic.InUse)
+      .onGet(this.handleActiveGet.bind(this));
+
+    this.service.getCharacteristic(Characteristic.RemainingDuration)
+      .onGet(this.handleRemainingDurationGet.bind(this))
+      .setProps({
+        maxValue: MAX_DURATION_SECONDS,
+      });
+
+    this.service.getCharacteristic(Characteristic.StatusFault)
+      .onGet(this.handleStatusFaultGet.bind(this));
+
+    // Link to primary service if provided
+    if (config.primaryService) {
+      config.primaryService.addLinkedService(this.service);
+    }
+
+    // Subscribe to device state changes
+    this.boundHandleStateChange = this.handleStateChange.bind(this);
+    this.device.on('stateChange', this.boundHandleStateChange);
+
+    this.log.debug('DeepCleanService initialized for', config.accessory.displayName);
+  }
+
+  /**
+   * Get the underlying HomeKit service
+   */
+  getService(): Service {
+    return this.service;
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  destroy(): void {
+    this.device.off('stateChange', this.boundHandleStateChange);
+  }
+
+  /**
+   * Handle Active / InUse GET request
+   * Returns ACTIVE while the cycle is running
+   */
+  private handleActiveGet(): CharacteristicValue {
+    const running = this.device.getState().deepCleanActive ?? false;
+    this.log.debug('Get Deep Clean Active ->', running);
+    return running ? 1 : 0;
+  }
+
+  /**
+   * Handle Active SET request
+   * Starts or cancels the deep clean cycle
+   */
+  private async handleActiveSet(value: CharacteristicValue): Promise<void> {
+    const active = value === 1;
+    this.log.debug('Set Deep Clean Active ->', active);
+
+    try {
+      if (active) {
+        await this.device.startDeepClean();
+      } else {
+        await this.device.cancelDeepClean();
+      }
+    } catch (error) {
+      this.log.error('Failed to set deep clean:', error);
+      this.updateFromState();
+      throw error;
+    }
+  }
+
+  /**
+   * Handle RemainingDuration GET request
+   * Returns the remaining time in seconds
+   */
+  private handleRemainingDurationGet(): CharacteristicValue {
+    return this.getRemainingSeconds(this.device.getState());
+  }
+
+  /**
+   * Handle StatusFault GET request
+   * Returns GENERAL_FAULT while a deep clean is due
+   */
+  private handleStatusFaultGet(): CharacteristicValue {
+    return this.getStatusFault(this.device.getState());
+  }
+
+  /**
+   * Remaining cycle time in seconds; the device reports the full cycle
+   * length while no cycle runs, so that reads as 0
+   */
+  private getRemainingSeconds(state: DeviceState): number {
+    if (!state.deepCleanActive) {
+      return 0;
+    }
+    const seconds = (state.deepCleanRemaining ?? 0) * SECONDS_PER_MINUTE;
+    return Math.min(seconds, MAX_DURATION_SECONDS);
+  }
+
+  /**
+   * StatusFault value for the deep clean warning
+   */
+  private getStatusFault(state: DeviceState): number {
+    const Characteristic = this.api.hap.Characteristic;
+    return state.deepCleanRequired
+      ? Characteristic.StatusFault.GENERAL_FAULT
+      : Characteristic.StatusFault.NO_FAULT;
+  }
+
+  /**
+   * Handle device state changes
+   * Updates HomeKit characteristics to reflect current device state
+   */
+  private handleStateChange(state: DeviceState): void {
+    const Characteristic = this.api.hap.Characteristic;
+    const active = state.deepCleanActive ? 1 : 0;
+    this.service.updateCharacteristic(Characteristic.Active, active);
+    this.service.updateCharacteristic(Characteristic.InUse, active);
+    this.service.updateCharacteristic(Characteristic.RemainingDuration, this.getRemainingSeconds(state));
+    this.service.updateCharacteristic(Characteristic.StatusFault, this.getStatusFault(state));
+  }
+
+  /**
+   * Update characteristics from current device state
+   * Call this after connecting to sync HomeKit with device
+   */
+  updateFromState(): void {
+    const state = this.device.getState();
+    this.handleStateChange(state);
+  }
+}
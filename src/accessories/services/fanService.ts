@@ -3,7 +3,7 @@
  *
  * Implements the HomeKit AirPurifier service for Dyson devices.
  * Handles Active, CurrentAirPurifierState, TargetAirPurifierState,
- * RotationSpeed, and SwingMode characteristics.
+ * RotationSpeed, SwingMode and StatusFault characteristics.
  */
 
 import type {
@@ -16,6 +16,7 @@ import type {
 
 import type { DysonLinkDevice } from '../../devices/dysonLinkDevice.js';
 import type { DeviceState } from '../../devices/types.js';
+import { hasStatusFault } from '../../config/faultCatalog.js';
 import { MessageCodec } from '../../protocol/messageCodec.js';
 
 
@@ -54,6 +55,14 @@ const TargetAirPurifierState = {
   AUTO: 1,
 } as const;
 
+/**
+ * StatusFault values
+ */
+const StatusFault = {
+  NO_FAULT: 0,
+  GENERAL_FAULT: 1,
+} as const;
+
 /** Debounce delay in milliseconds for slider inputs */
 const DEBOUNCE_DELAY_MS = 300;
 
@@ -77,6 +86,7 @@ const ROTATION_SPEED = {
  * - TargetAirPurifierState (0=MANUAL, 1=AUTO) ↔ autoMode (boolean)
  * - RotationSpeed (0-100%) ↔ fanSpeed (1-10)
  * - SwingMode (0/1) ↔ oscillation (boolean)
+ * - StatusFault (0/1) ↔ any active warning or critical fault
  */
 
 export class FanService {
@@ -145,6 +155,11 @@ export class FanService {
       .onGet(this.handleSwingModeGet.bind(this))
       .onSet(this.handleSwingModeSet.bind(this));
 
+    // Set up StatusFault characteristic (optional, read-only)
+    this.service.addOptionalCharacteristic(Characteristic.StatusFault);
+    this.service.getCharacteristic(Characteristic.StatusFault)
+      .onGet(this.handleStatusFaultGet.bind(this));
+
     // Subscribe to device state changes
     this.boundHandleStateChange = this.handleStateChange.bind(this);
     this.device.on('stateChange', this.boundHandleStateChange);
@@ -193,6 +208,8 @@ export class FanService {
       await this.device.setFanPower(isOn);
     } catch (error) {
       this.log.error('Failed to set fan power:', error);
+      // Revert HomeKit to the last state the device actually reported
+      this.updateFromState();
       throw error;
     }
   }
@@ -241,6 +258,7 @@ export class FanService {
       await this.device.setAutoMode(autoMode);
     } catch (error) {
       this.log.error('Failed to set auto mode:', error);
+      this.updateFromState();
       throw error;
     }
   }
@@ -309,6 +327,7 @@ export class FanService {
       }
     } catch (error) {
       this.log.error('Failed to set fan speed:', error);
+      this.updateFromState();
     }
   }
 
@@ -335,10 +354,23 @@ export class FanService {
       await this.device.setOscillation(oscillation);
     } catch (error) {
       this.log.error('Failed to set oscillation:', error);
+      this.updateFromState();
       throw error;
     }
   }
 
+  /**
+   * Handle StatusFault GET request
+   * Returns 1 (GENERAL_FAULT) if a warning or critical fault is active, else 0 (NO_FAULT)
+   */
+  private handleStatusFaultGet(): CharacteristicValue {
+    const statusFault = hasStatusFault(this.device.getState())
+      ? StatusFault.GENERAL_FAULT
+      : StatusFault.NO_FAULT;
+    this.log.debug('Get StatusFault ->', statusFault);
+    return statusFault;
+  }
+
   /**
    * Handle device state changes
    * Updates HomeKit characteristics to reflect current device state
@@ -386,6 +418,12 @@ export class FanService {
       Characteristic.SwingMode,
       state.oscillation ? 1 : 0,
     );
+
+    // Update StatusFault
+    this.service.updateCharacteristic(
+      Characteristic.StatusFault,
+      hasStatusFault(state) ? StatusFault.GENERAL_FAULT : StatusFault.NO_FAULT,
+    );
   }
 
   /**
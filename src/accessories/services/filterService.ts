@@ -1,8 +1,9 @@
 /**
  * Filter Service Handler
  *
- * Implements the HomeKit FilterMaintenance service for Dyson devices.
- * Provides filter life percentage and change indication for HEPA and carbon filters.
+ * Implements the HomeKit FilterMaintenance service for one Dyson filter.
+ * Models with a separate carbon filter get one service per filter, so both
+ * lives can be seen and reset on their own.
  */
 
 import type {
@@ -14,7 +15,7 @@ import type {
 } from 'homebridge';
 
 import type { DysonLinkDevice } from '../../devices/dysonLinkDevice.js';
-import type { DeviceState } from '../../devices/types.js';
+import type { DeviceState, FilterType } from '../../devices/types.js';
 
 /**
  * Configuration for FilterService
@@ -24,15 +25,27 @@ export interface FilterServiceConfig {
   device: DysonLinkDevice;
   api: API;
   log: Logging;
+  /** Filter shown by this service (default: 'hepa') */
+  filter?: FilterType;
   /** Primary service to link this service to */
   primaryService?: Service;
 }
 
 /**
- * Maximum filter life in hours (approximately 1 year of continuous use)
- * Used to convert hours to percentage
+ * Service subtype per filter; the HEPA subtype predates the carbon service
  */
-const MAX_FILTER_LIFE_HOURS = 4300;
+const FILTER_SUBTYPES: Record<FilterType, string> = {
+  hepa: 'filter-maintenance',
+  carbon: 'carbon-filter',
+};
+
+/**
+ * Display name per filter
+ */
+const FILTER_NAMES: Record<FilterType, string> = {
+  hepa: 'HEPA Filter',
+  carbon: 'Carbon Filter',
+};
 
 /**
  * Threshold percentage below which filter change is indicated
@@ -43,11 +56,14 @@ const FILTER_CHANGE_THRESHOLD = 10;
  * FilterService handles the HomeKit FilterMaintenance service
  *
  * Maps Dyson filter data to HomeKit characteristics:
- * - FilterLifeLevel (0-100% based on HEPA filter)
+ * - FilterLifeLevel (0-100% of the model's filter capacity)
  * - FilterChangeIndication (1 when filter life <= 10%)
+ * - ResetFilterIndication (resets the device's filter life; the device has
+ *   no per-filter reset, so this resets the HEPA and carbon filters together)
  */
 export class FilterService {
   private readonly service: Service;
+  private readonly filter: FilterType;
   private readonly device: DysonLinkDevice;
   private readonly log: Logging;
   private readonly api: API;
@@ -57,17 +73,20 @@ export class FilterService {
     this.device = config.device;
     this.log = config.log;
     this.api = config.api;
+    this.filter = config.filter ?? 'hepa';
 
     const Service = this.api.hap.Service;
     const Characteristic = this.api.hap.Characteristic;
 
     // Get or create the FilterMaintenance service with name
-    this.service = config.accessory.getService('filter-maintenance') ||
-      config.accessory.addService(Service.FilterMaintenance, 'Filter', 'filter-maintenance');
+    const subtype = FILTER_SUBTYPES[this.filter];
+    const name = FILTER_NAMES[this.filter];
+    this.service = config.accessory.getServiceById(Service.FilterMaintenance, subtype) ||
+      config.accessory.addService(Service.FilterMaintenance, name, subtype);
 
     // Set ConfiguredName for better HomeKit display
     this.service.addOptionalCharacteristic(Characteristic.ConfiguredName);
-    this.service.updateCharacteristic(Characteristic.ConfiguredName, 'Filter');
+    this.service.updateCharacteristic(Characteristic.ConfiguredName, name);
 
     // Set up FilterLifeLevel characteristic (required)
     this.service.getCharacteristic(Characteristic.FilterLifeLevel)
@@ -77,6 +96,10 @@ export class FilterService {
     this.service.getCharacteristic(Characteristic.FilterChangeIndication)
       .onGet(this.handleFilterChangeIndicationGet.bind(this));
 
+    // Set up ResetFilterIndication characteristic (optional, write-only)
+    this.service.getCharacteristic(Characteristic.ResetFilterIndication)
+      .onSet(this.handleResetFilterIndicationSet.bind(this));
+
     // Link to primary service if provided
     if (config.primaryService) {
       config.primaryService.addLinkedService(this.service);
@@ -86,7 +109,7 @@ export class FilterService {
     this.boundHandleStateChange = this.handleStateChange.bind(this);
     this.device.on('stateChange', this.boundHandleStateChange);
 
-    this.log.debug('FilterService initialized for', config.accessory.displayName);
+    this.log.debug('FilterService initialized for', config.accessory.displayName, `(${this.filter})`);
   }
 
   /**
@@ -103,6 +126,13 @@ export class FilterService {
     this.device.off('stateChange', this.boundHandleStateChange);
   }
 
+  /**
+   * Get the filter shown by this service
+   */
+  getFilter(): FilterType {
+    return this.filter;
+  }
+
   /**
    * Calculate filter life percentage from hours remaining
    *
@@ -114,16 +144,31 @@ export class FilterService {
       return 100; // Assume full if unknown
     }
 
-    const percent = Math.round((hoursRemaining / MAX_FILTER_LIFE_HOURS) * 100);
+    const capacity = this.device.filterCapacity[this.filter];
+    const percent = Math.round((hoursRemaining / capacity) * 100);
     return Math.min(100, Math.max(0, percent));
   }
 
   /**
-   * Get the primary filter life (HEPA filter, with carbon as fallback)
+   * Get the life of this service's filter
    */
-  private getPrimaryFilterLife(): number | undefined {
-    const state = this.device.getState();
-    return state.hepaFilterLife ?? state.carbonFilterLife;
+  private getFilterLife(state: DeviceState): number | undefined {
+    return this.filter === 'hepa' ? state.hepaFilterLife : state.carbonFilterLife;
+  }
+
+  /**
+   * Handle ResetFilterIndication SET request
+   * Resets the device's filter life, for all its filters, after one was replaced
+   */
+  private async handleResetFilterIndicationSet(): Promise<void> {
+    this.log.debug('Reset Filter ->', this.filter);
+
+    try {
+      await this.device.resetFilter(this.filter);
+    } catch (error) {
+      this.log.error('Failed to reset filter:', error);
+      throw error;
+    }
   }
 
   /**
@@ -131,7 +176,7 @@ export class FilterService {
    * Returns 0-100 percentage
    */
   private handleFilterLifeLevelGet(): CharacteristicValue {
-    const filterLife = this.getPrimaryFilterLife();
+    const filterLife = this.getFilterLife(this.device.getState());
     const percent = this.calculateFilterLifePercent(filterLife);
     this.log.debug('Get FilterLifeLevel ->', percent, '% (', filterLife, 'hours)');
     return percent;
@@ -142,7 +187,7 @@ export class FilterService {
    * Returns 1 if filter needs changing, 0 otherwise
    */
   private handleFilterChangeIndicationGet(): CharacteristicValue {
-    const filterLife = this.getPrimaryFilterLife();
+    const filterLife = this.getFilterLife(this.device.getState());
     const percent = this.calculateFilterLifePercent(filterLife);
     const needsChange = percent <= FILTER_CHANGE_THRESHOLD ? 1 : 0;
     this.log.debug('Get FilterChangeIndication ->', needsChange, '(', percent, '%)');
@@ -156,7 +201,7 @@ export class FilterService {
   private handleStateChange(state: DeviceState): void {
     const Characteristic = this.api.hap.Characteristic;
 
-    const filterLife = state.hepaFilterLife ?? state.carbonFilterLife;
+    const filterLife = this.getFilterLife(state);
     const percent = this.calculateFilterLifePercent(filterLife);
     const needsChange = percent <= FILTER_CHANGE_THRESHOLD ? 1 : 0;
 
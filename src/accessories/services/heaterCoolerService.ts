@@ -215,6 +215,7 @@ export class HeaterCoolerService {
       }
     } catch (error) {
       this.log.error('Failed to set heater active:', error);
+      this.updateFromState();
       throw error;
     }
   }
@@ -291,6 +292,7 @@ export class HeaterCoolerService {
       await this.device.setTargetTemperature(celsius);
     } catch (error) {
       this.log.error('Failed to set target temperature:', error);
+      this.updateFromState();
       throw error;
     }
   }
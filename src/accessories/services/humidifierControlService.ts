@@ -175,6 +175,7 @@ export class HumidifierControlService {
       await this.device.setHumidifier(active);
     } catch (error) {
       this.log.error('Failed to set humidifier:', error);
+      this.updateFromState();
       throw error;
     }
   }
@@ -223,6 +224,7 @@ export class HumidifierControlService {
         await this.device.setHumidifierAuto();
       } catch (error) {
         this.log.error('Failed to set humidifier auto:', error);
+        this.updateFromState();
         throw error;
       }
     }
@@ -261,6 +263,7 @@ export class HumidifierControlService {
       await this.device.setTargetHumidity(target);
     } catch (error) {
       this.log.error('Failed to set target humidity:', error);
+      this.updateFromState();
       throw error;
     }
   }
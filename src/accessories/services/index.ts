@@ -29,8 +29,23 @@ export type { ThermostatServiceConfig } from './thermostatService.js';
 export { HumidifierControlService } from './humidifierControlService.js';
 export type { HumidifierControlServiceConfig } from './humidifierControlService.js';
 
+export { WaterTankService } from './waterTankService.js';
+export type { WaterTankServiceConfig } from './waterTankService.js';
+
+export { DeepCleanService } from './deepCleanService.js';
+export type { DeepCleanServiceConfig } from './deepCleanService.js';
+
 export { JetFocusService } from './jetFocusService.js';
 export type { JetFocusServiceConfig } from './jetFocusService.js';
 
 export { HeaterCoolerService } from './heaterCoolerService.js';
 export type { HeaterCoolerServiceConfig } from './heaterCoolerService.js';
+
+export { SleepTimerService } from './sleepTimerService.js';
+export type { SleepTimerServiceConfig } from './sleepTimerService.js';
+
+export { OscillationPresetService } from './oscillationPresetService.js';
+export type { OscillationPreset, OscillationPresetServiceConfig } from './oscillationPresetService.js';
+
+export { ManualChangeService } from './manualChangeService.js';
+export type { ManualChangeServiceConfig } from './manualChangeService.js';
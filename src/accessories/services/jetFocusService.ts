@@ -109,6 +109,7 @@ export class JetFocusService {
       await this.device.setJetFocus(on);
     } catch (error) {
       this.log.error('Failed to set jet focus:', error);
+      this.updateFromState();
       throw error;
     }
   }
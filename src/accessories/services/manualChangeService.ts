@@ -0,0 +1,111 @@
+/**
+ * Manual Change Service Handler
+ *
+ * Implements a HomeKit StatelessProgrammableSwitch that is "pressed" whenever
+ * someone changes the device with the Dyson app, its buttons or the remote.
+ * Automations can trigger on the press, e.g. to back off for a while.
+ */
+
+import type {
+  API,
+  Logging,
+  PlatformAccessory,
+  Service,
+} from 'homebridge';
+
+import type { DysonLinkDevice } from '../../devices/dysonLinkDevice.js';
+import type { SettingsChange } from '../../devices/types.js';
+
+/**
+ * Configuration for ManualChangeService
+ */
+export interface ManualChangeServiceConfig {
+  accessory: PlatformAccessory;
+  device: DysonLinkDevice;
+  api: API;
+  log: Logging;
+  /** Primary service to link this service to */
+  primaryService?: Service;
+}
+
+/**
+ * ManualChangeService handles the StatelessProgrammableSwitch HomeKit service
+ *
+ * Maps device events to HomeKit characteristics:
+ * - settingsChange with isManual → ProgrammableSwitchEvent SINGLE_PRESS
+ */
+export class ManualChangeService {
+  private readonly service: Service;
+  private readonly device: DysonLinkDevice;
+  private readonly log: Logging;
+  private readonly api: API;
+  private readonly boundHandleSettingsChange: (change: SettingsChange) => void;
+
+  constructor(config: ManualChangeServiceConfig) {
+    this.device = config.device;
+    this.log = config.log;
+    this.api = config.api;
+
+    const Service = this.api.hap.Service;
+    const Characteristic = this.api.hap.Characteristic;
+
+    const existingService = config.accessory.getServiceById(Service.StatelessProgrammableSwitch, 'manual-change');
+    this.service = existingService ||
+      config.accessory.addService(Service.StatelessProgrammableSwitch, 'Manual Change', 'manual-change');
+
+    // Set ConfiguredName for better HomeKit display
+    this.service.addOptionalCharacteristic(Characteristic.ConfiguredName);
+    this.service.updateCharacteristic(Characteristic.ConfiguredName, 'Manual Change');
+
+    // Only single presses are ever sent, so hide double and long press in the Home app
+    this.service.getCharacteristic(Characteristic.ProgrammableSwitchEvent)
+      .setProps({
+        minValue: Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+        maxValue: Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+        validValues: [Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS],
+      });
+
+    // Link to primary service if provided
+    if (config.primaryService) {
+      config.primaryService.addLinkedService(this.service);
+    }
+
+    // Subscribe to settings changes
+    this.boundHandleSettingsChange = this.handleSettingsChange.bind(this);
+    this.device.on('settingsChange', this.boundHandleSettingsChange);
+
+    this.log.debug('ManualChangeService initialized for', config.accessory.displayName);
+  }
+
+  /**
+   * Get the underlying HomeKit service
+   */
+  getService(): Service {
+    return this.service;
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  destroy(): void {
+    this.device.off('settingsChange', this.boundHandleSettingsChange);
+  }
+
+  /**
+   * Handle device settings changes
+   * Sends a single press when a person changed the device outside this plugin
+   */
+  private handleSettingsChange(change: SettingsChange): void {
+    if (!change.isManual) {
+      return;
+    }
+
+    this.log.debug('Manual change ->', change.source);
+
+    const Characteristic = this.api.hap.Characteristic;
+    this.service.updateCharacteristic(
+      Characteristic.ProgrammableSwitchEvent,
+      Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+    );
+  }
+}
@@ -112,6 +112,7 @@ export class NightModeService {
       await this.device.setNightMode(enabled);
     } catch (error) {
       this.log.error('Failed to set night mode:', error);
+      this.updateFromState();
       throw error;
     }
   }
@@ -0,0 +1,250 @@
+/**
+ * Oscillation Preset Service Handler
+ *
+ * Implements one HomeKit Switch per configured oscillation preset.
+ * Each preset is a sweep width (45°/90°/180°/350°) or a custom start/end range;
+ * turning a switch on oscillates over that sweep, turning it off stops oscillation.
+ */
+
+import type {
+  API,
+  CharacteristicValue,
+  Logging,
+  PlatformAccessory,
+  Service,
+} from 'homebridge';
+
+import type { DysonLinkDevice } from '../../devices/dysonLinkDevice.js';
+import type { DeviceState } from '../../devices/types.js';
+import { MessageCodec, OSCILLATION_ANGLE } from '../../protocol/messageCodec.js';
+import type { OscillationSweep } from '../../protocol/messageCodec.js';
+
+/**
+ * A configured oscillation preset
+ *
+ * Either `sweep` or both `start` and `end` must be set; `sweep` wins if both are.
+ */
+export interface OscillationPreset {
+  /** Switch name shown in HomeKit */
+  name?: string;
+  /** Sweep width in degrees */
+  sweep?: OscillationSweep;
+  /** Custom range start angle (45-355) */
+  start?: number;
+  /** Custom range end angle (45-355) */
+  end?: number;
+}
+
+/**
+ * Configuration for OscillationPresetService
+ */
+export interface OscillationPresetServiceConfig {
+  accessory: PlatformAccessory;
+  device: DysonLinkDevice;
+  api: API;
+  log: Logging;
+  /** Presets to expose, in display order */
+  presets: OscillationPreset[];
+  /** Primary service to link these services to */
+  primaryService?: Service;
+}
+
+/** Subtype prefix shared by every preset switch */
+const SUBTYPE_PREFIX = 'oscillation-preset-';
+
+/**
+ * A preset switch and the preset it applies
+ */
+interface PresetSwitch {
+  preset: OscillationPreset;
+  service: Service;
+}
+
+/**
+ * OscillationPresetService handles the Switch HomeKit services for oscillation presets
+ *
+ * Maps HomeKit characteristics to Dyson device state:
+ * - On (boolean) ↔ oscillation enabled with the preset's sweep
+ */
+export class OscillationPresetService {
+  private readonly switches: PresetSwitch[] = [];
+  private readonly device: DysonLinkDevice;
+  private readonly log: Logging;
+  private readonly api: API;
+  private readonly boundHandleStateChange: (state: DeviceState) => void;
+
+  constructor(config: OscillationPresetServiceConfig) {
+    this.device = config.device;
+    this.log = config.log;
+    this.api = config.api;
+
+    const Service = this.api.hap.Service;
+    const Characteristic = this.api.hap.Characteristic;
+
+    const subtypes = new Set<string>();
+    config.presets.forEach((preset, index) => {
+      if (!OscillationPresetService.isValid(preset)) {
+        this.log.warn('Ignoring oscillation preset without a supported sweep or start/end range:', preset);
+        return;
+      }
+
+      const subtype = `${SUBTYPE_PREFIX}${index}`;
+      const name = OscillationPresetService.getName(preset);
+      subtypes.add(subtype);
+
+      const service = config.accessory.getServiceById(Service.Switch, subtype) ||
+        config.accessory.addService(Service.Switch, name, subtype);
+
+      // Set ConfiguredName for better HomeKit display
+      service.addOptionalCharacteristic(Characteristic.ConfiguredName);
+      service.updateCharacteristic(Characteristic.ConfiguredName, name);
+
+      const presetSwitch: PresetSwitch = { preset, service };
+      service.getCharacteristic(Characteristic.On)
+        .onGet(() => this.handleOnGet(presetSwitch))
+        .onSet((value) => this.handleOnSet(presetSwitch, value));
+
+      // Link to primary service if provided
+      if (config.primaryService) {
+        config.primaryService.addLinkedService(service);
+      }
+
+      this.switches.push(presetSwitch);
+    });
+
+    // Remove switches left over from presets that were removed from the config
+    for (const service of config.accessory.services ?? []) {
+      if (service.UUID === Service.Switch.UUID &&
+          service.subtype?.startsWith(SUBTYPE_PREFIX) &&
+          !subtypes.has(service.subtype)) {
+        config.accessory.removeService(service);
+      }
+    }
+
+    // Subscribe to device state changes
+    this.boundHandleStateChange = this.handleStateChange.bind(this);
+    this.device.on('stateChange', this.boundHandleStateChange);
+
+    this.log.debug('OscillationPresetService initialized for', config.accessory.displayName);
+  }
+
+  /**
+   * Get the underlying HomeKit services, one per valid preset
+   */
+  getServices(): Service[] {
+    return this.switches.map(({ service }) => service);
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  destroy(): void {
+    this.device.off('stateChange', this.boundHandleStateChange);
+  }
+
+  /**
+   * Check that a preset has a supported sweep or a complete custom range
+   */
+  private static isValid(preset: OscillationPreset): boolean {
+    if (preset.sweep !== undefined) {
+      return (OSCILLATION_ANGLE.SWEEPS as readonly number[]).includes(preset.sweep);
+    }
+    return typeof preset.start === 'number' && typeof preset.end === 'number';
+  }
+
+  /**
+   * Get the display name for a preset
+   */
+  private static getName(preset: OscillationPreset): string {
+    if (preset.name) {
+      return preset.name;
+    }
+    return preset.sweep !== undefined
+      ? `Oscillation ${preset.sweep}°`
+      : `Oscillation ${preset.start}°-${preset.end}°`;
+  }
+
+  /**
+   * Check whether the device is currently oscillating with a preset
+   */
+  private isActive(preset: OscillationPreset, state: DeviceState): boolean {
+    if (!state.oscillation) {
+      return false;
+    }
+
+    if (this.device.oscillationAngleProtocol === 'ancp') {
+      // Presets are reported by width; custom ranges only count while ancp is CUST
+      if (preset.sweep !== undefined) {
+        return state.oscillationSweep === preset.sweep;
+      }
+      if (state.oscillationSweep !== 0) {
+        return false;
+      }
+    }
+
+    // Compare against the range the device would have been sent, after clamping
+    const range = preset.sweep !== undefined
+      ? MessageCodec.sweepToAngles(preset.sweep)
+      : { start: Math.min(preset.start!, preset.end!), end: Math.max(preset.start!, preset.end!) };
+    const start = Number(MessageCodec.encodeAngle(Math.round(range.start)));
+    const end = Number(MessageCodec.encodeAngle(Math.round(range.end)));
+
+    return state.oscillationAngleStart === start && state.oscillationAngleEnd === end;
+  }
+
+  /**
+   * Handle On GET request
+   * Returns true if the device is oscillating with this preset
+   */
+  private handleOnGet(presetSwitch: PresetSwitch): CharacteristicValue {
+    const active = this.isActive(presetSwitch.preset, this.device.getState());
+    this.log.debug('Get Oscillation Preset', OscillationPresetService.getName(presetSwitch.preset), '->', active);
+    return active;
+  }
+
+  /**
+   * Handle On SET request
+   * Applies the preset when turned on; stops oscillation when the active preset is turned off
+   */
+  private async handleOnSet(presetSwitch: PresetSwitch, value: CharacteristicValue): Promise<void> {
+    const { preset } = presetSwitch;
+    const on = value as boolean;
+    this.log.debug('Set Oscillation Preset', OscillationPresetService.getName(preset), '->', on);
+
+    try {
+      if (on) {
+        if (preset.sweep !== undefined) {
+          await this.device.setOscillationSweep(preset.sweep);
+        } else {
+          await this.device.setOscillationAngles(preset.start!, preset.end!);
+        }
+      } else if (this.isActive(preset, this.device.getState())) {
+        await this.device.setOscillation(false);
+      }
+    } catch (error) {
+      this.log.error('Failed to set oscillation preset:', error);
+      this.updateFromState();
+      throw error;
+    }
+  }
+
+  /**
+   * Handle device state changes
+   * Updates every preset switch, so at most one shows as on
+   */
+  private handleStateChange(state: DeviceState): void {
+    const Characteristic = this.api.hap.Characteristic;
+    for (const { preset, service } of this.switches) {
+      service.updateCharacteristic(Characteristic.On, this.isActive(preset, state));
+    }
+  }
+
+  /**
+   * Update characteristics from current device state
+   * Call this after connecting to sync HomeKit with device
+   */
+  updateFromState(): void {
+    const state = this.device.getState();
+    this.handleStateChange(state);
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Sleep Timer Service Handler
+ *
+ * Implements a HomeKit Valve service for the Dyson sleep timer.
+ * HomeKit has no dedicated timer service, but a Valve carries both a
+ * user-selectable duration and a countdown, which map directly onto `sltm`.
+ */
+
+import type {
+  API,
+  CharacteristicValue,
+  Logging,
+  PlatformAccessory,
+  Service,
+} from 'homebridge';
+
+import type { DysonLinkDevice } from '../../devices/dysonLinkDevice.js';
+import type { DeviceState } from '../../devices/types.js';
+import { SLEEP_TIMER } from '../../protocol/messageCodec.js';
+
+/**
+ * Configuration for SleepTimerService
+ */
+export interface SleepTimerServiceConfig {
+  accessory: PlatformAccessory;
+  device: DysonLinkDevice;
+  api: API;
+  log: Logging;
+  /** Primary service to link this service to */
+  primaryService?: Service;
+}
+
+/** Duration used until one is picked in HomeKit (1 hour, in seconds) */
+const DEFAULT_DURATION_SECONDS = 60 * 60;
+
+/** Seconds per minute, for converting between HomeKit and `sltm` */
+const SECONDS_PER_MINUTE = 60;
+
+/**
+ * SleepTimerService handles the Valve HomeKit service for the sleep timer
+ *
+ * Maps HomeKit characteristics to Dyson device state:
+ * - Active / InUse ↔ sleepTimer > 0
+ * - RemainingDuration ← sleepTimer (minutes → seconds)
+ * - SetDuration: duration used when the timer is started from HomeKit,
+ *   kept in the accessory context so it survives restarts
+ */
+export class SleepTimerService {
+  private readonly service: Service;
+  private readonly accessory: PlatformAccessory;
+  private readonly device: DysonLinkDevice;
+  private readonly log: Logging;
+  private readonly api: API;
+  private readonly boundHandleStateChange: (state: DeviceState) => void;
+
+  constructor(config: SleepTimerServiceConfig) {
+    this.accessory = config.accessory;
+    this.device = config.device;
+    this.log = config.log;
+    this.api = config.api;
+
+    const Service = this.api.hap.Service;
+    const Characteristic = this.api.hap.Characteristic;
+
+    const existingService = config.accessory.getServiceById(Service.Valve, 'sleep-timer');
+    this.service = existingService ||
+      config.accessory.addService(Service.Valve, 'Sleep Timer', 'sleep-timer');
+
+    // Set ConfiguredName for better HomeKit display
+    this.service.addOptionalCharacteristic(Characteristic.ConfiguredName);
+    this.service.updateCharacteristic(Characteristic.ConfiguredName, 'Sleep Timer');
+
+    this.service.updateCharacteristic(Characteristic.ValveType, Characteristic.ValveType.GENERIC_VALVE);
+
+    this.service.getCharacteristic(Characteristic.Active)
+      .onGet(this.handleActiveGet.bind(this))
+      .onSet(this.handleActiveSet.bind(this));
+
+    this.service.getCharacteristic(Characteristic.InUse)
+      .onGet(this.handleActiveGet.bind(this));
+
+    // HomeKit defaults to a one hour maximum; the device accepts up to nine hours
+    const maxSeconds = SLEEP_TIMER.MAX_MINUTES * SECONDS_PER_MINUTE;
+
+    this.service.getCharacteristic(Characteristic.SetDuration)
+      .onGet(this.handleSetDurationGet.bind(this))
+      .onSet(this.handleSetDurationSet.bind(this))
+      .setProps({
+        minValue: SLEEP_TIMER.MIN_MINUTES * SECONDS_PER_MINUTE,
+        maxValue: maxSeconds,
+        minStep: SECONDS_PER_MINUTE,
+      });
+
+    this.service.getCharacteristic(Characteristic.RemainingDuration)
+      .onGet(this.handleRemainingDurationGet.bind(this))
+      .setProps({
+        maxValue: maxSeconds,
+      });
+
+    // Link to primary service if provided
+    if (config.primaryService) {
+      config.primaryService.addLinkedService(this.service);
+    }
+
+    // Subscribe to device state changes
+    this.boundHandleStateChange = this.handleStateChange.bind(this);
+    this.device.on('stateChange', this.boundHandleStateChange);
+
+    this.log.debug('SleepTimerService initialized for', config.accessory.displayName);
+  }
+
+  /**
+   * Get the underlying HomeKit service
+   */
+  getService(): Service {
+    return this.service;
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  destroy(): void {
+    this.device.off('stateChange', this.boundHandleStateChange);
+  }
+
+  /**
+   * Duration to start the timer with, in seconds
+   */
+  private get duration(): number {
+    const stored = this.accessory.context.sleepTimerDuration as number | undefined;
+    return stored ?? DEFAULT_DURATION_SECONDS;
+  }
+
+  /**
+   * Handle Active / InUse GET request
+   * Returns ACTIVE while the timer is running
+   */
+  private handleActiveGet(): CharacteristicValue {
+    const running = (this.device.getState().sleepTimer ?? 0) > 0;
+    this.log.debug('Get Sleep Timer Active ->', running);
+    return running ? 1 : 0;
+  }
+
+  /**
+   * Handle Active SET request
+   * Starts the timer with the selected duration, or cancels it
+   */
+  private async handleActiveSet(value: CharacteristicValue): Promise<void> {
+    const active = value === 1;
+    this.log.debug('Set Sleep Timer Active ->', active);
+
+    try {
+      await this.device.setSleepTimer(active ? this.duration / SECONDS_PER_MINUTE : 0);
+    } catch (error) {
+      this.log.error('Failed to set sleep timer:', error);
+      this.updateFromState();
+      throw error;
+    }
+  }
+
+  /**
+   * Handle SetDuration GET request
+   */
+  private handleSetDurationGet(): CharacteristicValue {
+    return this.duration;
+  }
+
+  /**
+   * Handle SetDuration SET request
+   * Restarts a running timer with the new duration
+   */
+  private async handleSetDurationSet(value: CharacteristicValue): Promise<void> {
+    const seconds = value as number;
+    this.log.debug('Set Sleep Timer Duration ->', seconds);
+    this.accessory.context.sleepTimerDuration = seconds;
+
+    if ((this.device.getState().sleepTimer ?? 0) <= 0) {
+      return;
+    }
+
+    try {
+      await this.device.setSleepTimer(seconds / SECONDS_PER_MINUTE);
+    } catch (error) {
+      this.log.error('Failed to set sleep timer:', error);
+      this.updateFromState();
+      throw error;
+    }
+  }
+
+  /**
+   * Handle RemainingDuration GET request
+   * Returns the remaining time in seconds
+   */
+  private handleRemainingDurationGet(): CharacteristicValue {
+    const minutes = this.device.getState().sleepTimer ?? 0;
+    return Math.min(minutes, SLEEP_TIMER.MAX_MINUTES) * SECONDS_PER_MINUTE;
+  }
+
+  /**
+   * Handle device state changes
+   * Updates HomeKit characteristics to reflect current device state
+   */
+  private handleStateChange(state: DeviceState): void {
+    const minutes = state.sleepTimer ?? 0;
+    this.log.debug('Sleep timer state changed ->', minutes);
+
+    const Characteristic = this.api.hap.Characteristic;
+    const active = minutes > 0 ? 1 : 0;
+    this.service.updateCharacteristic(Characteristic.Active, active);
+    this.service.updateCharacteristic(Characteristic.InUse, active);
+    this.service.updateCharacteristic(
+      Characteristic.RemainingDuration,
+      Math.min(minutes, SLEEP_TIMER.MAX_MINUTES) * SECONDS_PER_MINUTE,
+    );
+  }
+
+  /**
+   * Update characteristics from current device state
+   * Call this after connecting to sync HomeKit with device
+   */
+  updateFromState(): void {
+    const state = this.device.getState();
+    this.handleStateChange(state);
+  }
+}
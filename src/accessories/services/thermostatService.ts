@@ -168,6 +168,7 @@ export class ThermostatService {
       await this.device.setHeating(heating);
     } catch (error) {
       this.log.error('Failed to set heating mode:', error);
+      this.updateFromState();
       throw error;
     }
   }
@@ -203,6 +204,7 @@ export class ThermostatService {
       await this.device.setTargetTemperature(celsius);
     } catch (error) {
       this.log.error('Failed to set target temperature:', error);
+      this.updateFromState();
       throw error;
     }
   }
@@ -0,0 +1,131 @@
+/**
+ * Water Tank Service Handler
+ *
+ * Implements a HomeKit ContactSensor for the Humidify+Cool water tank.
+ * The Humidifier's WaterLevel is only visible in its detail view, whereas
+ * the Home app can send notifications for a contact sensor, so an empty
+ * tank is reported as an open contact.
+ */
+
+import type {
+  API,
+  CharacteristicValue,
+  Logging,
+  PlatformAccessory,
+  Service,
+} from 'homebridge';
+
+import type { DysonLinkDevice } from '../../devices/dysonLinkDevice.js';
+import type { DeviceState } from '../../devices/types.js';
+
+/**
+ * Configuration for WaterTankService
+ */
+export interface WaterTankServiceConfig {
+  accessory: PlatformAccessory;
+  device: DysonLinkDevice;
+  api: API;
+  log: Logging;
+  /** Primary service to link this service to */
+  primaryService?: Service;
+}
+
+/**
+ * WaterTankService handles the ContactSensor HomeKit service for the water tank
+ *
+ * Maps HomeKit characteristics to Dyson device state:
+ * - ContactSensorState ← waterTankEmpty (empty → CONTACT_NOT_DETECTED)
+ */
+export class WaterTankService {
+  private readonly service: Service;
+  private readonly device: DysonLinkDevice;
+  private readonly log: Logging;
+  private readonly api: API;
+  private readonly boundHandleStateChange: (state: DeviceState) => void;
+
+  constructor(config: WaterTankServiceConfig) {
+    this.device = config.device;
+    this.log = config.log;
+    this.api = config.api;
+
+    const Service = this.api.hap.Service;
+    const Characteristic = this.api.hap.Characteristic;
+
+    const existingService = config.accessory.getServiceById(Service.ContactSensor, 'water-tank');
+    this.service = existingService ||
+      config.accessory.addService(Service.ContactSensor, 'Water Tank', 'water-tank');
+
+    // Set ConfiguredName for better HomeKit display
+    this.service.addOptionalCharacteristic(Characteristic.ConfiguredName);
+    this.service.updateCharacteristic(Characteristic.ConfiguredName, 'Water Tank');
+
+    this.service.getCharacteristic(Characteristic.ContactSensorState)
+      .onGet(this.handleContactSensorStateGet.bind(this));
+
+    // Link to primary service if provided
+    if (config.primaryService) {
+      config.primaryService.addLinkedService(this.service);
+    }
+
+    // Subscribe to device state changes
+    this.boundHandleStateChange = this.handleStateChange.bind(this);
+    this.device.on('stateChange', this.boundHandleStateChange);
+
+    this.log.debug('WaterTankService initialized for', config.accessory.displayName);
+  }
+
+  /**
+   * Get the underlying HomeKit service
+   */
+  getService(): Service {
+    return this.service;
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  destroy(): void {
+    this.device.off('stateChange', this.boundHandleStateChange);
+  }
+
+  /**
+   * Handle ContactSensorState GET request
+   * Returns CONTACT_NOT_DETECTED while the tank is empty
+   */
+  private handleContactSensorStateGet(): CharacteristicValue {
+    const empty = this.device.getState().waterTankEmpty ?? false;
+    this.log.debug('Get Water Tank Empty ->', empty);
+    return this.toContactState(empty);
+  }
+
+  /**
+   * Map the tank state to a ContactSensorState value
+   */
+  private toContactState(empty: boolean): number {
+    const Characteristic = this.api.hap.Characteristic;
+    return empty
+      ? Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+      : Characteristic.ContactSensorState.CONTACT_DETECTED;
+  }
+
+  /**
+   * Handle device state changes
+   * Updates HomeKit characteristic to reflect current device state
+   */
+  private handleStateChange(state: DeviceState): void {
+    const Characteristic = this.api.hap.Characteristic;
+    this.service.updateCharacteristic(
+      Characteristic.ContactSensorState,
+      this.toContactState(state.waterTankEmpty ?? false),
+    );
+  }
+
+  /**
+   * Update characteristic from current device state
+   * Call this after connecting to sync HomeKit with device
+   */
+  updateFromState(): void {
+    const state = this.device.getState();
+    this.handleStateChange(state);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Dyson Cloud API Regions
+ *
+ * Which Dyson API host serves an account, chosen by the account's country.
+ * Shared by `DysonCloudApi` and the settings UI server so both reach the
+ * same host.
+ */
+
+/**
+ * API host for accounts in every country without a host of its own.
+ */
+export const DEFAULT_DYSON_API_BASE_URL = 'https://appapi.cp.dyson.com';
+
+/**
+ * API hosts for countries whose accounts live on a separate platform,
+ * by ISO 3166-1 alpha-2 country code.
+ * Accounts registered in mainland China are only known to the China host.
+ */
+export const DYSON_API_BASE_URLS = {
+  CN: 'https://appapi.cp.dyson.cn',
+} as const;
+
+/**
+ * Get the Dyson API host for an account's country
+ *
+ * @param countryCode - ISO country code, in any case (default: the global host)
+ * @returns Base URL without a trailing slash
+ */
+export function getDysonApiBaseUrl(countryCode?: string): string {
+  const country = countryCode?.trim().toUpperCase() ?? '';
+  return Object.hasOwn(DYSON_API_BASE_URLS, country)
+    ? DYSON_API_BASE_URLS[country as keyof typeof DYSON_API_BASE_URLS]
+    : DEFAULT_DYSON_API_BASE_URL;
+}
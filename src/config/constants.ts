@@ -23,6 +23,11 @@ export const PLUGIN_NAME = 'homebridge-dyson-pure-cool';
  */
 export const DYSON_MQTT_PORT = 1883;
 
+/**
+ * Default port for the plugin's local MQTT proxy.
+ */
+export const DYSON_MQTT_PROXY_PORT = 1884;
+
 /**
  * mDNS service type for discovering Dyson devices on the local network.
  */
@@ -5,7 +5,7 @@
  * Single source of truth for product types, features, and metadata.
  */
 
-import type { DeviceFeatures } from '../devices/types.js';
+import type { DeviceFeatures, DeviceState, FilterType } from '../devices/types.js';
 import { DEFAULT_FEATURES } from '../devices/types.js';
 
 /**
@@ -33,6 +33,81 @@ export type DeviceSeries =
  */
 export type PowerProtocol = 'fmod' | 'fpwr';
 
+/**
+ * MQTT fields used to set the oscillation sweep.
+ *
+ * - `osal`: lower/upper angles in `osal`/`osau`. Used by the TP04/HP04/DP04
+ *   generation and the Humidify+Cool series.
+ * - `ancp`: sweep width preset in `ancp` (`0045`/`0090`/`0180`/`0350`), or
+ *   `ancp: CUST` with `osal`/`osau` for a custom range. Used by TP07/TP09/HP07/HP09.
+ * - `none`: the sweep cannot be changed, only toggled with `oson`.
+ *
+ * Defaults to `none` when unspecified — see {@link getOscillationAngleProtocol}.
+ */
+export type OscillationAngleProtocol = 'none' | 'osal' | 'ancp';
+
+/**
+ * How a protocol field's raw value decodes into device state.
+ *
+ * - `onOff`: `ON` is true, anything else false.
+ * - `integer`: a number; `OFF`, `INIT` (sensor warming up) and non-numeric
+ *   values are skipped.
+ * - `text`: the raw value, e.g. an error code.
+ * - `fanSpeed`: `0001`-`0010`, or `AUTO` for -1.
+ * - `fanMode`: legacy `OFF`/`FAN`/`AUTO`; sets `autoMode` as well as the
+ *   mapped power state.
+ * - `sweepPreset`: an `ancp` sweep width, or `CUST` for 0 (custom range).
+ * - `heatMode`: `HEAT` is true.
+ * - `humidifierMode`: `ON` or `AUTO` is true.
+ * - `cleanCycle`: deep clean state; `CLAC` (running) is true.
+ * - `waterHardness`: `2025`/`1350`/`0675` for soft/medium/hard.
+ * - `filterPercent`: remaining filter life in percent, converted to hours
+ *   with the model's filter capacity.
+ * - `filterType`: the fitted filter, e.g. `GCOM` (combined) or `NONE`.
+ * - `sleepTimer`: minutes remaining, or `OFF` for 0.
+ *
+ * The decoders themselves live in `MessageCodec`.
+ */
+export type FieldDecoder =
+  | 'onOff'
+  | 'integer'
+  | 'text'
+  | 'fanSpeed'
+  | 'fanMode'
+  | 'sweepPreset'
+  | 'heatMode'
+  | 'humidifierMode'
+  | 'cleanCycle'
+  | 'waterHardness'
+  | 'filterPercent'
+  | 'filterType'
+  | 'sleepTimer';
+
+/**
+ * How one protocol field maps to device state
+ */
+export interface FieldMapping {
+  /** DeviceState property the field decodes into */
+  state: keyof DeviceState;
+  /** How the raw value is decoded */
+  decode: FieldDecoder;
+  /** Unit of the decoded value (e.g. `K×10`, `µg/m³`, `hours`) */
+  unit?: string;
+}
+
+/**
+ * Protocol fields a model reports, keyed by field name.
+ *
+ * Fields are decoded in map order, so when two fields write the same state
+ * property (e.g. `p25r` and `pact` for `pm25`) the later one wins.
+ */
+export type FieldMap = Readonly<Record<string, FieldMapping>>;
+
+/**
+ * Life of a new filter in hours, per filter slot
+ */
+export type FilterCapacity = Readonly<Record<FilterType, number>>;
+
 /**
  * Device model definition
  */
@@ -54,8 +129,205 @@ export interface DeviceModel {
    * Set to `fpwr` for devices that only respond to the dedicated power field.
    */
   powerProtocol?: PowerProtocol;
+  /**
+   * Oscillation sweep protocol. Defaults to `none` when omitted.
+   */
+  oscillationAngleProtocol?: OscillationAngleProtocol;
+  /**
+   * Protocol fields the model reports and how they decode. Defaults to
+   * `DEFAULT_FIELD_MAP` (every known field) when omitted.
+   */
+  fields?: FieldMap;
+  /**
+   * Filter life of a new filter. Defaults to `DEFAULT_FILTER_CAPACITY`
+   * when omitted.
+   */
+  filterCapacity?: FilterCapacity;
 }
 
+// ============================================================================
+// Field Maps
+// ============================================================================
+
+/**
+ * Fan, oscillation and mode fields shared by every model
+ */
+export const CONTROL_FIELDS: FieldMap = {
+  fpwr: { state: 'isOn', decode: 'onOff' },
+  fnsp: { state: 'fanSpeed', decode: 'fanSpeed' },
+  fmod: { state: 'isOn', decode: 'fanMode' },
+  auto: { state: 'autoMode', decode: 'onOff' },
+  oson: { state: 'oscillation', decode: 'onOff' },
+  oscs: { state: 'oscillationAngleStart', decode: 'integer', unit: 'degrees' },
+  osce: { state: 'oscillationAngleEnd', decode: 'integer', unit: 'degrees' },
+  // Newer models report the range as lower/upper angles instead
+  osal: { state: 'oscillationAngleStart', decode: 'integer', unit: 'degrees' },
+  osau: { state: 'oscillationAngleEnd', decode: 'integer', unit: 'degrees' },
+  ancp: { state: 'oscillationSweep', decode: 'sweepPreset', unit: 'degrees' },
+  nmod: { state: 'nightMode', decode: 'onOff' },
+  rhtm: { state: 'continuousMonitoring', decode: 'onOff' },
+  ffoc: { state: 'frontAirflow', decode: 'onOff' },
+};
+
+/**
+ * Temperature and humidity, also sent in sensor data messages
+ */
+export const CLIMATE_FIELDS: FieldMap = {
+  tact: { state: 'temperature', decode: 'integer', unit: 'K×10' },
+  hact: { state: 'humidity', decode: 'integer', unit: '%' },
+};
+
+/**
+ * Air quality readings of the newer models
+ */
+export const ADVANCED_AIR_QUALITY_FIELDS: FieldMap = {
+  p25r: { state: 'pm25', decode: 'integer', unit: 'µg/m³' },
+  p10r: { state: 'pm10', decode: 'integer', unit: 'µg/m³' },
+  va10: { state: 'vocIndex', decode: 'integer', unit: 'index' },
+  noxl: { state: 'no2Index', decode: 'integer', unit: 'index' },
+  hchr: { state: 'formaldehydeLevel', decode: 'integer', unit: 'mg/m³×1000' },
+};
+
+/**
+ * Air quality indexes (0-9) of the Link series
+ */
+export const BASIC_AIR_QUALITY_FIELDS: FieldMap = {
+  pact: { state: 'pm25', decode: 'integer', unit: 'index' },
+  vact: { state: 'vocIndex', decode: 'integer', unit: 'index' },
+};
+
+/**
+ * Sleep timer, also sent in sensor data messages
+ */
+export const SLEEP_TIMER_FIELDS: FieldMap = {
+  sltm: { state: 'sleepTimer', decode: 'sleepTimer', unit: 'minutes' },
+};
+
+/**
+ * Filter life and fitted filter fields
+ */
+export const FILTER_FIELDS: FieldMap = {
+  filf: { state: 'hepaFilterLife', decode: 'integer', unit: 'hours' },
+  fltf: { state: 'hepaFilterLife', decode: 'filterPercent', unit: 'hours' },
+  cflr: { state: 'carbonFilterLife', decode: 'filterPercent', unit: 'hours' },
+  hflt: { state: 'hepaFilterType', decode: 'filterType' },
+  cflt: { state: 'carbonFilterType', decode: 'filterType' },
+};
+
+/**
+ * Heating fields (Hot+Cool models)
+ */
+export const HEATING_FIELDS: FieldMap = {
+  hmod: { state: 'heatingEnabled', decode: 'heatMode' },
+  hmax: { state: 'targetTemperature', decode: 'integer', unit: 'K×10' },
+  hsta: { state: 'heatingActive', decode: 'onOff' },
+};
+
+/**
+ * Humidifier fields (Humidify+Cool models)
+ */
+export const HUMIDIFIER_FIELDS: FieldMap = {
+  hume: { state: 'humidifierEnabled', decode: 'humidifierMode' },
+  humt: { state: 'targetHumidity', decode: 'integer', unit: '%' },
+  wath: { state: 'waterHardness', decode: 'waterHardness' },
+  clcr: { state: 'deepCleanActive', decode: 'cleanCycle' },
+  cdrr: { state: 'deepCleanRemaining', decode: 'integer', unit: 'minutes' },
+  cltr: { state: 'deepCleanDueIn', decode: 'integer', unit: 'hours' },
+};
+
+/**
+ * Status fields first seen on the Link series
+ */
+export const STATUS_FIELDS: FieldMap = {
+  fnst: { state: 'fanState', decode: 'onOff' },
+  qtar: { state: 'airQualityTarget', decode: 'integer' },
+  ercd: { state: 'errorCode', decode: 'text' },
+  wacd: { state: 'warningCode', decode: 'text' },
+  tilt: { state: 'tiltStatus', decode: 'text' },
+};
+
+/**
+ * Every known field, for models without their own map and for unknown
+ * product types. Where two fields write the same property, the Link
+ * series field (`pact`, `vact`, `fltf`) comes later and wins.
+ */
+export const DEFAULT_FIELD_MAP: FieldMap = {
+  ...CONTROL_FIELDS,
+  ...CLIMATE_FIELDS,
+  p25r: ADVANCED_AIR_QUALITY_FIELDS.p25r,
+  p10r: ADVANCED_AIR_QUALITY_FIELDS.p10r,
+  pact: BASIC_AIR_QUALITY_FIELDS.pact,
+  va10: ADVANCED_AIR_QUALITY_FIELDS.va10,
+  vact: BASIC_AIR_QUALITY_FIELDS.vact,
+  noxl: ADVANCED_AIR_QUALITY_FIELDS.noxl,
+  hchr: ADVANCED_AIR_QUALITY_FIELDS.hchr,
+  ...SLEEP_TIMER_FIELDS,
+  ...FILTER_FIELDS,
+  ...HEATING_FIELDS,
+  ...HUMIDIFIER_FIELDS,
+  ...STATUS_FIELDS,
+};
+
+/**
+ * Fields carried by ENVIRONMENTAL-CURRENT-SENSOR-DATA messages
+ */
+export const ENVIRONMENTAL_FIELD_NAMES: ReadonlySet<string> = new Set([
+  ...Object.keys(CLIMATE_FIELDS),
+  ...Object.keys(ADVANCED_AIR_QUALITY_FIELDS),
+  ...Object.keys(BASIC_AIR_QUALITY_FIELDS),
+  ...Object.keys(SLEEP_TIMER_FIELDS),
+]);
+
+/**
+ * Link series: basic air quality indexes, filter life in hours
+ */
+const FIELDS_LINK: FieldMap = {
+  ...CONTROL_FIELDS,
+  ...CLIMATE_FIELDS,
+  ...BASIC_AIR_QUALITY_FIELDS,
+  ...SLEEP_TIMER_FIELDS,
+  ...FILTER_FIELDS,
+  ...STATUS_FIELDS,
+};
+
+/**
+ * Hot+Cool Link: Link series fields plus heating
+ */
+const FIELDS_HOT_COOL_LINK: FieldMap = {
+  ...FIELDS_LINK,
+  ...HEATING_FIELDS,
+};
+
+/**
+ * Cool series: a plain fan with no sensors or filters
+ */
+const FIELDS_COOL_FAN: FieldMap = {
+  ...CONTROL_FIELDS,
+  ...SLEEP_TIMER_FIELDS,
+  ...STATUS_FIELDS,
+};
+
+// ============================================================================
+// Filter Capacities
+// ============================================================================
+
+/**
+ * Filter life for models without their own capacity and for unknown
+ * product types (about a year at 12 hours a day)
+ */
+export const DEFAULT_FILTER_CAPACITY: FilterCapacity = {
+  hepa: 4300,
+  carbon: 4300,
+};
+
+/**
+ * Humidify+Cool and Big+Quiet filters, rated for a year of continuous use
+ */
+const FILTER_CAPACITY_YEAR_ROUND: FilterCapacity = {
+  hepa: 8760,
+  carbon: 8760,
+};
+
 // ============================================================================
 // Feature Templates
 // ============================================================================
@@ -85,6 +357,8 @@ const FEATURES_PURE_COOL_LINK: DeviceFeatures = {
   ...PURE_COOL_BASE,
   frontAirflow: false,
   basicAirQualitySensor: true,
+  // One combined filter, reported as `filf` only
+  carbonFilter: false,
 };
 
 /**
@@ -121,6 +395,8 @@ const FEATURES_HOT_COOL_LINK: DeviceFeatures = {
   frontAirflow: true,
   heating: true,
   basicAirQualitySensor: true,
+  // One combined filter, reported as `filf` only
+  carbonFilter: false,
 };
 
 /**
@@ -208,6 +484,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     features: FEATURES_PURE_COOL_LINK,
     formaldehyde: false,
     powerProtocol: 'fpwr',
+    fields: FIELDS_LINK,
   },
   {
     productType: '469',
@@ -217,6 +494,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     features: FEATURES_PURE_COOL_LINK,
     formaldehyde: false,
     powerProtocol: 'fpwr',
+    fields: FIELDS_LINK,
   },
 
   // Pure Cool Series
@@ -227,6 +505,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'pure-cool',
     features: FEATURES_PURE_COOL_JET,
     formaldehyde: false,
+    oscillationAngleProtocol: 'osal',
   },
   {
     productType: '438E',
@@ -235,6 +514,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'pure-cool',
     features: FEATURES_PURE_COOL_JET,
     formaldehyde: false,
+    oscillationAngleProtocol: 'ancp',
   },
   {
     productType: '438K',
@@ -243,6 +523,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'pure-cool',
     features: FEATURES_PURE_COOL_FORMALDEHYDE,
     formaldehyde: true,
+    oscillationAngleProtocol: 'ancp',
   },
   {
     productType: '438M',
@@ -259,6 +540,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'pure-cool',
     features: FEATURES_PURE_COOL_JET,
     formaldehyde: false,
+    oscillationAngleProtocol: 'osal',
   },
 
   // Hot+Cool Link Series
@@ -269,6 +551,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'hot-cool-link',
     features: FEATURES_HOT_COOL_LINK,
     formaldehyde: false,
+    fields: FIELDS_HOT_COOL_LINK,
   },
 
   // Hot+Cool Series
@@ -279,6 +562,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'hot-cool',
     features: FEATURES_HOT_COOL_JET,
     formaldehyde: false,
+    oscillationAngleProtocol: 'osal',
   },
   {
     productType: '527E',
@@ -287,6 +571,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'hot-cool',
     features: FEATURES_HOT_COOL_JET,
     formaldehyde: false,
+    oscillationAngleProtocol: 'ancp',
   },
   {
     productType: '527K',
@@ -295,6 +580,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'hot-cool',
     features: FEATURES_HOT_COOL_FORMALDEHYDE,
     formaldehyde: true,
+    oscillationAngleProtocol: 'ancp',
   },
   {
     productType: '527M',
@@ -313,6 +599,8 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'humidify-cool',
     features: FEATURES_HUMIDIFY_COOL,
     formaldehyde: false,
+    oscillationAngleProtocol: 'osal',
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '520E',
@@ -321,6 +609,8 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'humidify-cool',
     features: FEATURES_HUMIDIFY_COOL,
     formaldehyde: false,
+    oscillationAngleProtocol: 'osal',
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '358H',
@@ -329,6 +619,8 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'humidify-cool',
     features: FEATURES_HUMIDIFY_COOL,
     formaldehyde: false,
+    oscillationAngleProtocol: 'osal',
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '358J',
@@ -337,6 +629,8 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'humidify-cool',
     features: FEATURES_HUMIDIFY_COOL,
     formaldehyde: false,
+    oscillationAngleProtocol: 'osal',
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '358E',
@@ -345,6 +639,8 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'humidify-cool',
     features: FEATURES_HUMIDIFY_COOL_FORMALDEHYDE,
     formaldehyde: true,
+    oscillationAngleProtocol: 'osal',
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '520F',
@@ -353,6 +649,8 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'humidify-cool',
     features: FEATURES_HUMIDIFY_COOL_FORMALDEHYDE,
     formaldehyde: true,
+    oscillationAngleProtocol: 'osal',
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '358K',
@@ -361,6 +659,8 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'humidify-cool',
     features: FEATURES_HUMIDIFY_COOL_FORMALDEHYDE,
     formaldehyde: false,
+    oscillationAngleProtocol: 'osal',
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
 
   // Big+Quiet Series
@@ -371,6 +671,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'big-quiet',
     features: FEATURES_BIG_QUIET,
     formaldehyde: false,
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '664B',
@@ -379,6 +680,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'big-quiet',
     features: { ...FEATURES_BIG_QUIET, no2Sensor: true },
     formaldehyde: true,
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '664E',
@@ -387,6 +689,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'big-quiet',
     features: { ...FEATURES_BIG_QUIET, no2Sensor: true },
     formaldehyde: true,
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
   {
     productType: '664F',
@@ -395,6 +698,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     series: 'big-quiet',
     features: FEATURES_BIG_QUIET,
     formaldehyde: false,
+    filterCapacity: FILTER_CAPACITY_YEAR_ROUND,
   },
 
   // Cool Series (plain fan, no sensors)
@@ -407,6 +711,7 @@ export const DEVICE_CATALOG: readonly DeviceModel[] = [
     formaldehyde: false,
     // CF1 ignores `fmod` for power; it only responds to the dedicated `fpwr` field.
     powerProtocol: 'fpwr',
+    fields: FIELDS_COOL_FAN,
   },
 ] as const;
 
@@ -469,6 +774,39 @@ export function getPowerProtocol(productType: string): PowerProtocol {
   return productTypeMap.get(productType)?.powerProtocol ?? 'fmod';
 }
 
+/**
+ * Get the oscillation sweep protocol by product type.
+ *
+ * @param productType - Dyson product type code
+ * @returns The field set used to set the sweep, or `'none'` for devices that
+ *          can only toggle oscillation (the default for unknown types)
+ */
+export function getOscillationAngleProtocol(productType: string): OscillationAngleProtocol {
+  return productTypeMap.get(productType)?.oscillationAngleProtocol ?? 'none';
+}
+
+/**
+ * Get the protocol field map by product type.
+ *
+ * @param productType - Dyson product type code
+ * @returns The fields the model reports, or `DEFAULT_FIELD_MAP` for models
+ *          without their own map and unknown types
+ */
+export function getFieldMap(productType: string): FieldMap {
+  return productTypeMap.get(productType)?.fields ?? DEFAULT_FIELD_MAP;
+}
+
+/**
+ * Get the filter life of a new filter by product type.
+ *
+ * @param productType - Dyson product type code
+ * @returns Hours per filter slot, or `DEFAULT_FILTER_CAPACITY` for models
+ *          without their own capacity and unknown types
+ */
+export function getFilterCapacity(productType: string): FilterCapacity {
+  return productTypeMap.get(productType)?.filterCapacity ?? DEFAULT_FILTER_CAPACITY;
+}
+
 /**
  * Get device model name by product type
  *
@@ -0,0 +1,142 @@
+/**
+ * Fault Catalog
+ *
+ * Known Dyson fault and warning codes with readable descriptions and severities.
+ * Covers the keys reported in CURRENT-FAULTS messages and the `ercd`/`wacd`
+ * state fields. Codes missing from the catalog are still reported, with a
+ * generic description, so a new firmware fault never goes unnoticed.
+ */
+
+import type { DeviceState } from '../devices/types.js';
+
+/**
+ * How serious a fault is
+ *
+ * - `info`: worth logging, not a fault in HomeKit (e.g. update available)
+ * - `warning`: needs attention soon (e.g. filter or water tank)
+ * - `critical`: the device cannot run normally until it is fixed
+ */
+export type FaultSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Fault definition
+ */
+export interface FaultDefinition {
+  /** Protocol code (CURRENT-FAULTS key, or `ercd`/`wacd` value) */
+  code: string;
+  /** Human-readable description */
+  description: string;
+  /** Severity of the fault */
+  severity: FaultSeverity;
+}
+
+/** Value reported by `ercd`/`wacd` when there is nothing to report */
+const NO_FAULT = 'NONE';
+
+/** Value reported by `tilt` while the device is upright */
+const NOT_TILTED = 'OK';
+
+// ============================================================================
+// Fault Catalog
+// ============================================================================
+
+/**
+ * Known fault and warning codes
+ */
+export const FAULT_CATALOG: readonly FaultDefinition[] = [
+  // Product warnings
+  { code: 'fltr', description: 'Filter needs replacing', severity: 'warning' },
+  { code: 'tnke', description: 'Water tank is empty', severity: 'warning' },
+  { code: 'tnkp', description: 'Water tank is not fitted', severity: 'warning' },
+  { code: 'cldu', description: 'Deep clean cycle is due', severity: 'warning' },
+
+  // Product errors
+  { code: 'tilt', description: 'Device is tilted or has been knocked over', severity: 'critical' },
+
+  // Module (Wi-Fi) warnings
+  { code: 'srmu', description: 'Firmware update available', severity: 'info' },
+
+  // Warning codes (`wacd`), the upper-case form of the matching CURRENT-FAULTS key
+  { code: 'FLTR', description: 'Filter needs replacing', severity: 'warning' },
+  { code: 'TNKE', description: 'Water tank is empty', severity: 'warning' },
+  { code: 'TNKP', description: 'Water tank is not fitted', severity: 'warning' },
+  { code: 'CLDU', description: 'Deep clean cycle is due', severity: 'warning' },
+  { code: 'SRMU', description: 'Firmware update available', severity: 'info' },
+
+  // Error codes (`ercd`)
+  { code: 'TILT', description: 'Device is tilted or has been knocked over', severity: 'critical' },
+] as const;
+
+/**
+ * Humidify+Cool warnings that are also kept as device state
+ */
+export const HUMIDIFIER_FAULT_CODES = {
+  /** Water tank is empty */
+  TANK_EMPTY: 'tnke',
+  /** Deep clean cycle is due */
+  DEEP_CLEAN_DUE: 'cldu',
+} as const;
+
+/** Map for O(1) code lookup */
+const faultCodeMap = new Map<string, FaultDefinition>(
+  FAULT_CATALOG.map(fault => [fault.code, fault]),
+);
+
+// ============================================================================
+// Lookup Utilities
+// ============================================================================
+
+/**
+ * Describe a fault code
+ *
+ * @param code - Fault code
+ * @param fallbackSeverity - Severity to assume for codes not in the catalog
+ * @returns Catalog definition, or a generic definition for unknown codes
+ */
+export function describeFault(code: string, fallbackSeverity: FaultSeverity = 'warning'): FaultDefinition {
+  return faultCodeMap.get(code) ?? {
+    code,
+    description: `Unrecognised fault code ${code}`,
+    severity: fallbackSeverity,
+  };
+}
+
+/**
+ * Collect every active fault from the device state
+ *
+ * Combines CURRENT-FAULTS entries, the `tilt` sensor, the `ercd` error code
+ * (treated as critical when unknown) and the `wacd` warning code (treated as
+ * a warning).
+ *
+ * @param state - Current device state
+ * @returns Active faults, de-duplicated by code regardless of case
+ */
+export function getActiveFaults(state: DeviceState): FaultDefinition[] {
+  const faults = new Map<string, FaultDefinition>();
+
+  for (const code of state.faults ?? []) {
+    faults.set(code.toLowerCase(), describeFault(code));
+  }
+  if (state.tiltStatus && state.tiltStatus !== NOT_TILTED) {
+    faults.set('tilt', describeFault('tilt'));
+  }
+  // `ercd`/`wacd` repeat CURRENT-FAULTS keys in upper case, so keep the first one seen
+  if (state.errorCode && state.errorCode !== NO_FAULT && !faults.has(state.errorCode.toLowerCase())) {
+    faults.set(state.errorCode.toLowerCase(), describeFault(state.errorCode, 'critical'));
+  }
+  if (state.warningCode && state.warningCode !== NO_FAULT && !faults.has(state.warningCode.toLowerCase())) {
+    faults.set(state.warningCode.toLowerCase(), describeFault(state.warningCode, 'warning'));
+  }
+
+  return Array.from(faults.values());
+}
+
+/**
+ * Check whether any active fault should be shown as a fault in HomeKit
+ *
+ * @param state - Current device state
+ * @returns True if a warning or critical fault is active
+ */
+export function hasStatusFault(state: DeviceState): boolean {
+  return getActiveFaults(state).some(fault => fault.severity !== 'info');
+}
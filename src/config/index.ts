@@ -9,24 +9,54 @@ export {
   PLATFORM_NAME,
   PLUGIN_NAME,
   DYSON_MQTT_PORT,
+  DYSON_MQTT_PROXY_PORT,
   DYSON_MDNS_SERVICE,
   DYSON_PRODUCT_TYPES,
 } from './constants.js';
 
+// Cloud API regions
+export {
+  DEFAULT_DYSON_API_BASE_URL,
+  DYSON_API_BASE_URLS,
+  getDysonApiBaseUrl,
+} from './cloudRegions.js';
+
 // Device catalog
 export {
   type DeviceSeries,
   type DeviceModel,
   type PowerProtocol,
+  type OscillationAngleProtocol,
+  type FieldDecoder,
+  type FieldMapping,
+  type FieldMap,
+  type FilterCapacity,
   DEVICE_CATALOG,
+  DEFAULT_FIELD_MAP,
+  DEFAULT_FILTER_CAPACITY,
+  ENVIRONMENTAL_FIELD_NAMES,
   getDeviceByProductType,
   isProductTypeSupported,
   getSupportedProductTypes,
   getDeviceFeatures,
   getPowerProtocol,
+  getOscillationAngleProtocol,
+  getFieldMap,
+  getFilterCapacity,
   getDeviceModelName,
   getProductTypeDisplayNames,
   getDevicesBySeries,
   getHeatingDevices,
   getHumidifierDevices,
 } from './deviceCatalog.js';
+
+// Fault catalog
+export {
+  type FaultSeverity,
+  type FaultDefinition,
+  FAULT_CATALOG,
+  HUMIDIFIER_FAULT_CODES,
+  describeFault,
+  getActiveFaults,
+  hasStatusFault,
+} from './faultCatalog.js';
@@ -257,6 +257,7 @@ export class DeviceManager {
       productType: device.productType,
       name: device.name,
       credentials: device.localCredentials,
+      firmwareVersion: device.version || undefined,
     }));
   }
 
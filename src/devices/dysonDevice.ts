@@ -8,16 +8,32 @@
 import { EventEmitter } from 'events';
 
 import { DysonMqttClient } from '../protocol/mqttClient.js';
-import type { ConnectVariant, MqttMessage, MqttConnectFn } from '../protocol/mqttClient.js';
+import type {
+  ConnectVariant,
+  ConnectVariantPreference,
+  MqttMessage,
+  MqttConnectFn,
+} from '../protocol/mqttClient.js';
+import type { MqttTransport } from '../protocol/mqttTransport.js';
 import { MessageCodec } from '../protocol/messageCodec.js';
+import type { RawStateData } from '../protocol/messageCodec.js';
+import { getFieldMap, HUMIDIFIER_FAULT_CODES } from '../config/index.js';
+import type { FieldMap } from '../config/index.js';
 
 import type {
+  ConnectionHealth,
   DeviceInfo,
   DeviceState,
   DeviceFeatures,
   DeviceEvents,
 } from './types.js';
-import { createDefaultState, DEFAULT_FEATURES } from './types.js';
+import { CommandExpiredError, createDefaultState, DEFAULT_FEATURES } from './types.js';
+import { PollingPolicy } from './pollingPolicy.js';
+import type { PollingPolicyConfig } from './pollingPolicy.js';
+import { ReconnectPolicy } from '../utils/reconnectPolicy.js';
+import type { ReconnectPolicyConfig, ReconnectStatus } from '../utils/reconnectPolicy.js';
+import { resolveHost } from '../utils/hostResolver.js';
+import type { HostResolver } from '../utils/hostResolver.js';
 
 // ============================================================================
 // Constants
@@ -35,6 +51,34 @@ const POLLING = {
   MS_PER_SECOND: 1000,
 } as const;
 
+/** Stale connection detection defaults */
+const STALE_DETECTION = {
+  /** Unanswered state requests in a row before the connection is declared stale */
+  DEFAULT_MISSED_REPLIES: 3,
+} as const;
+
+/**
+ * A command held while the device is reconnecting
+ */
+interface QueuedCommand {
+  fields: Record<string, unknown>;
+  /** Drops the command once its time-to-live runs out */
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Topic suffix for firmware version reports */
+const SOFTWARE_TOPIC_SUFFIX = '/status/software';
+
+/**
+ * Clamp a polling interval to the allowed range
+ *
+ * @param seconds - Requested interval in seconds
+ * @returns Interval between MIN_SECONDS and MAX_SECONDS
+ */
+function clampPollingSeconds(seconds: number): number {
+  return Math.max(POLLING.MIN_SECONDS, Math.min(POLLING.MAX_SECONDS, seconds));
+}
+
 /**
  * MQTT client factory type for dependency injection
  */
@@ -44,6 +88,10 @@ export type MqttClientFactory = (
   credentials: string,
   productType: string,
   mqttConnect?: MqttConnectFn,
+  recordPath?: string,
+  connectVariant?: ConnectVariantPreference,
+  transport?: MqttTransport,
+  reconnectPolicy?: ReconnectPolicy,
 ) => DysonMqttClient;
 
 /**
@@ -55,8 +103,12 @@ const defaultMqttClientFactory: MqttClientFactory = (
   credentials,
   productType,
   mqttConnect?,
+  recordPath?,
+  connectVariant?,
+  transport?,
+  reconnectPolicy?,
 ) => {
-  const options = { host, serial, credentials, productType };
+  const options = { host, serial, credentials, productType, recordPath, connectVariant, transport, reconnectPolicy };
   return mqttConnect
     ? new DysonMqttClient(options, mqttConnect)
     : new DysonMqttClient(options);
@@ -93,6 +145,9 @@ export abstract class DysonDevice extends EventEmitter {
   /** Device information */
   protected readonly deviceInfo: DeviceInfo;
 
+  /** Protocol fields the model reports, from the device catalog */
+  protected readonly fieldMap: FieldMap;
+
   /** MQTT client for device communication */
   protected mqttClient: DysonMqttClient | null = null;
 
@@ -105,12 +160,63 @@ export abstract class DysonDevice extends EventEmitter {
   /** Optional MQTT connect function for testing */
   private readonly mqttConnectFn?: MqttConnectFn;
 
-  /** Polling interval handle for periodic state requests */
-  private pollingIntervalHandle?: ReturnType<typeof setInterval>;
+  /** Timer for the next periodic state request */
+  private pollingTimer?: ReturnType<typeof setTimeout>;
+
+  /** Whether periodic polling is running */
+  private isPolling = false;
+
+  /** Time the next poll is due */
+  private nextPollAt?: number;
 
   /** Polling interval in milliseconds */
   private pollingIntervalMs: number = POLLING.DEFAULT_SECONDS * POLLING.MS_PER_SECOND;
 
+  /** Adaptive polling policy; the fixed interval is used when unset */
+  private pollingPolicy?: PollingPolicy;
+
+  /** JSONL file to record MQTT traffic to, if recording is enabled */
+  private mqttRecordPath?: string;
+
+  /** Connect variant to start from or pin, if known */
+  private connectVariant?: ConnectVariantPreference;
+
+  /** Transport to reach the broker through; the LAN broker on the device when unset */
+  private transport?: MqttTransport;
+
+  /** How long commands are held while reconnecting, in milliseconds (0 disables the queue) */
+  private offlineQueueTtlMs = 0;
+
+  /** Commands held while reconnecting, oldest first */
+  private offlineQueue: QueuedCommand[] = [];
+
+  /** Whether the queue is kept for a connect that follows a disconnect or a failed reconnect */
+  private isReconnectExpected = false;
+
+  /** Time the last message arrived from the device */
+  private lastMessageAt?: number;
+
+  /** Time the outstanding state request was sent, cleared when the device replies */
+  private stateRequestSentAt?: number;
+
+  /** Round-trip time of the last answered state request in milliseconds */
+  private lastRoundTripMs?: number;
+
+  /** State requests in a row that went unanswered */
+  private missedReplies = 0;
+
+  /** Missed replies after which the connection is declared stale (0 disables detection) */
+  private staleThreshold: number = STALE_DETECTION.DEFAULT_MISSED_REPLIES;
+
+  /** Unrecognised protocol fields already reported, keyed by firmware version and field name */
+  private readonly reportedUnknownFields = new Set<string>();
+
+  /** Paces reconnection attempts; kept across MQTT clients so failures add up */
+  private readonly reconnectPolicy = new ReconnectPolicy();
+
+  /** Resolves the host name to an address on every connect */
+  private hostResolver: HostResolver = resolveHost;
+
   /**
    * Create a new DysonDevice
    *
@@ -124,10 +230,15 @@ export abstract class DysonDevice extends EventEmitter {
     mqttConnectFn?: MqttConnectFn,
   ) {
     super();
-    this.deviceInfo = deviceInfo;
+    // Copied so setIpAddress() and setHostname() do not change the caller's object
+    this.deviceInfo = { ...deviceInfo };
+    this.fieldMap = getFieldMap(deviceInfo.productType);
     this.state = createDefaultState();
     this.mqttClientFactory = mqttClientFactory;
     this.mqttConnectFn = mqttConnectFn;
+    this.reconnectPolicy.on('phaseChange', (status: ReconnectStatus) => {
+      this.emit('reconnectPhase', status);
+    });
   }
 
   /**
@@ -136,59 +247,301 @@ export abstract class DysonDevice extends EventEmitter {
    * @param seconds - Interval in seconds (MIN_SECONDS-MAX_SECONDS, default DEFAULT_SECONDS)
    */
   setPollingInterval(seconds: number): void {
-    const clampedSeconds = Math.max(
-      POLLING.MIN_SECONDS,
-      Math.min(POLLING.MAX_SECONDS, seconds),
-    );
+    const clampedSeconds = clampPollingSeconds(seconds);
     this.pollingIntervalMs = clampedSeconds * POLLING.MS_PER_SECOND;
+    this.restartPolling();
+  }
 
-    // If already polling, restart with new interval
-    if (this.pollingIntervalHandle) {
-      this.stopPolling();
-      this.startPolling();
+  /**
+   * Set an adaptive polling policy
+   *
+   * Replaces the fixed interval: the device is polled every `activeSeconds`
+   * while it is on, air quality is worsening or a command was just sent,
+   * and every `idleSeconds` otherwise. Both are clamped like
+   * `setPollingInterval`.
+   *
+   * @param config - Policy intervals, or undefined to return to the fixed interval
+   */
+  setPollingPolicy(config: PollingPolicyConfig | undefined): void {
+    this.pollingPolicy = config
+      ? new PollingPolicy({
+        ...config,
+        activeSeconds: clampPollingSeconds(config.activeSeconds),
+        idleSeconds: clampPollingSeconds(config.idleSeconds),
+      })
+      : undefined;
+    this.restartPolling();
+  }
+
+  /**
+   * Get the delay before the next poll under the current policy
+   *
+   * @returns Delay in milliseconds
+   */
+  getPollingIntervalMs(): number {
+    return this.pollingPolicy?.getIntervalMs(this.state) ?? this.pollingIntervalMs;
+  }
+
+  /**
+   * Record MQTT traffic to a JSONL file
+   *
+   * Takes effect on the next connect.
+   *
+   * @param filePath - File to append to, or undefined to stop recording
+   */
+  setMqttRecordPath(filePath: string | undefined): void {
+    this.mqttRecordPath = filePath;
+  }
+
+  /**
+   * Set the MQTT connect variant to start from, or to use exclusively if pinned
+   *
+   * Takes effect on the next connect.
+   *
+   * @param preference - Variant preference, or undefined to walk the ladder from the start
+   */
+  setConnectVariant(preference: ConnectVariantPreference | undefined): void {
+    this.connectVariant = preference;
+  }
+
+  /**
+   * Set the transport used to reach the MQTT broker
+   *
+   * Takes effect on the next connect. The topics and message format are
+   * the same whichever transport is used.
+   *
+   * @param transport - Transport to use, or undefined for the device's LAN broker
+   */
+  setTransport(transport: MqttTransport | undefined): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Get the name of the transport the device connects through
+   *
+   * @returns 'local' for the device's LAN broker, otherwise the transport's name
+   */
+  getTransportName(): string {
+    return this.transport?.name ?? 'local';
+  }
+
+  /**
+   * Hold commands sent while the device is reconnecting
+   *
+   * Queued commands are merged and sent as one command once the device
+   * reconnects. A command not sent within `seconds` of being queued is
+   * dropped and rejected with a {@link CommandExpiredError}.
+   *
+   * @param seconds - Time-to-live of each queued command, or 0 to fail immediately while offline
+   */
+  setOfflineQueueTtl(seconds: number): void {
+    this.offlineQueueTtlMs = Math.max(0, seconds) * POLLING.MS_PER_SECOND;
+  }
+
+  /**
+   * Set how reconnection attempts are paced
+   *
+   * Settings left out keep their current value. Applies to the MQTT
+   * client's own retries and to the connect attempts made by the owner.
+   *
+   * @param config - Backoff, jitter and circuit breaker settings
+   */
+  setReconnectPolicy(config: ReconnectPolicyConfig): void {
+    this.reconnectPolicy.configure(config);
+  }
+
+  /**
+   * Get the policy that paces reconnection attempts
+   */
+  getReconnectPolicy(): ReconnectPolicy {
+    return this.reconnectPolicy;
+  }
+
+  /**
+   * Set how many state requests may go unanswered before the connection is stale
+   *
+   * @param missedReplies - Missed replies in a row, or 0 to disable stale detection
+   */
+  setStaleThreshold(missedReplies: number): void {
+    this.staleThreshold = Math.max(0, Math.floor(missedReplies));
+  }
+
+  /**
+   * Get connection health: time of the last message, last state request
+   * round-trip time, and how many requests in a row went unanswered
+   */
+  getConnectionHealth(): ConnectionHealth {
+    return {
+      lastMessageAt: this.lastMessageAt,
+      lastRoundTripMs: this.lastRoundTripMs,
+      missedReplies: this.missedReplies,
+    };
+  }
+
+  /**
+   * Count an unanswered state request and declare the connection stale
+   * once too many have gone unanswered in a row
+   *
+   * @returns True if the connection was declared stale
+   */
+  private checkMissedReply(): boolean {
+    if (this.stateRequestSentAt === undefined) {
+      return false;
+    }
+
+    this.missedReplies++;
+    this.emit('debug', `No reply to state request (${this.missedReplies} missed)`);
+
+    if (this.staleThreshold === 0 || this.missedReplies < this.staleThreshold) {
+      return false;
     }
+
+    this.handleStaleConnection();
+    return true;
+  }
+
+  /**
+   * Handle a connection that is open but no longer answering
+   *
+   * Emits `stale`, marks the device disconnected so HomeKit shows it as
+   * Not Responding, and forces the MQTT client to reconnect.
+   */
+  private handleStaleConnection(): void {
+    const health = this.getConnectionHealth();
+    this.resetConnectionHealth();
+
+    this.emit('stale', health);
+    if (this.state.connected) {
+      this.updateState({ connected: false });
+      this.emit('disconnect');
+    }
+    this.mqttClient?.forceReconnect();
+  }
+
+  /**
+   * Forget outstanding requests, e.g. after a (re)connect
+   */
+  private resetConnectionHealth(): void {
+    this.stateRequestSentAt = undefined;
+    this.missedReplies = 0;
+  }
+
+  /**
+   * Record a reply to the outstanding state request
+   */
+  private recordStateReply(): void {
+    if (this.stateRequestSentAt === undefined) {
+      return;
+    }
+    this.lastRoundTripMs = Date.now() - this.stateRequestSentAt;
+    this.resetConnectionHealth();
   }
 
   /**
    * Start periodic polling for state updates
    */
   private startPolling(): void {
-    if (this.pollingIntervalHandle) {
+    if (this.isPolling) {
       return; // Already polling
     }
 
-    this.pollingIntervalHandle = setInterval(() => {
-      if (this.mqttClient?.isConnected()) {
-        this.mqttClient.requestCurrentState().catch(() => {
-          // Silently ignore errors during polling
-        });
+    this.isPolling = true;
+    this.scheduleNextPoll();
+  }
+
+  /**
+   * Stop periodic polling
+   */
+  private stopPolling(): void {
+    this.isPolling = false;
+    this.nextPollAt = undefined;
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
+      this.pollingTimer = undefined;
+    }
+  }
+
+  /**
+   * Restart polling so a changed interval or policy takes effect
+   */
+  private restartPolling(): void {
+    if (this.isPolling) {
+      this.stopPolling();
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Schedule the next poll using the current interval
+   *
+   * The interval is re-evaluated after every poll, so the policy follows
+   * the device between active and idle.
+   */
+  private scheduleNextPoll(): void {
+    const delay = this.getPollingIntervalMs();
+    this.nextPollAt = Date.now() + delay;
+
+    this.pollingTimer = setTimeout(() => {
+      this.pollingTimer = undefined;
+      this.poll();
+      if (this.isPolling) {
+        this.scheduleNextPoll();
       }
-    }, this.pollingIntervalMs);
+    }, delay);
 
     // Don't keep the Node.js process alive just for polling
-    this.pollingIntervalHandle.unref();
+    this.pollingTimer.unref();
   }
 
   /**
-   * Stop periodic polling
+   * Poll sooner if the device became active while waiting on an idle interval
    */
-  private stopPolling(): void {
-    if (this.pollingIntervalHandle) {
-      clearInterval(this.pollingIntervalHandle);
-      this.pollingIntervalHandle = undefined;
+  private adaptPolling(): void {
+    if (!this.pollingPolicy || !this.isPolling || this.nextPollAt === undefined) {
+      return;
+    }
+
+    if (Date.now() + this.getPollingIntervalMs() < this.nextPollAt) {
+      clearTimeout(this.pollingTimer);
+      this.scheduleNextPoll();
     }
   }
 
+  /**
+   * Request current state and faults
+   */
+  private poll(): void {
+    if (!this.mqttClient?.isConnected()) {
+      return;
+    }
+    if (this.checkMissedReply()) {
+      return;
+    }
+
+    this.stateRequestSentAt = Date.now();
+    this.mqttClient.requestCurrentState().catch(() => {
+      // Silently ignore errors during polling
+    });
+    this.mqttClient.requestCurrentFaults().catch(() => {
+      // Silently ignore errors during polling
+    });
+  }
+
   /**
    * Connect to the device
    *
-   * Establishes MQTT connection, subscribes to status topic,
-   * and requests current state.
+   * Establishes MQTT connection, subscribes to the status, faults and
+   * software topics, and requests current state and faults.
+   *
+   * A device with a host name is looked up again on every connect, so it
+   * is found after its address changed. If the name does not resolve, the
+   * last address it resolved to is used.
    *
-   * @throws {Error} If connection fails or device IP is not set
+   * @throws {Error} If connection fails, or neither an IP address, a host
+   *   name that resolves nor a transport is set
    */
   async connect(): Promise<void> {
-    if (!this.deviceInfo.ipAddress) {
+    if (!this.deviceInfo.ipAddress && !this.deviceInfo.hostname && !this.transport) {
       throw new Error(`No IP address for device ${this.deviceInfo.serial}`);
     }
 
@@ -196,26 +549,59 @@ export abstract class DysonDevice extends EventEmitter {
       return; // Already connected
     }
 
+    if (this.deviceInfo.hostname && !this.transport) {
+      await this.resolveHostname(this.deviceInfo.hostname);
+    }
+
+    // A client left from an earlier connection means this is a reconnect,
+    // so commands are still held if this attempt fails
+    const isReconnect = this.mqttClient !== null || this.isReconnectExpected;
+
     // Create MQTT client
     this.mqttClient = this.mqttClientFactory(
-      this.deviceInfo.ipAddress,
+      this.deviceInfo.ipAddress ?? '',
       this.deviceInfo.serial,
       this.deviceInfo.credentials,
       this.productType,
       this.mqttConnectFn,
+      this.mqttRecordPath,
+      this.connectVariant,
+      this.transport,
+      this.reconnectPolicy,
     );
 
     // Set up event handlers
     this.setupMqttHandlers();
 
     // Connect to device
-    await this.mqttClient.connect();
+    try {
+      await this.mqttClient.connect();
+    } catch (error) {
+      // Without a client, commands fail fast until the device has answered once
+      const client = this.mqttClient;
+      this.mqttClient = null;
+      this.isReconnectExpected = isReconnect;
+      try {
+        await client.disconnect();
+      } catch {
+        // The failed connect already closed the connection
+      }
+      throw error;
+    }
 
-    // Subscribe to status topic
+    // Subscribe to status, faults and software topics
     await this.mqttClient.subscribeToStatus();
+    await this.mqttClient.subscribeToFaults();
+    await this.mqttClient.subscribeToSoftware();
 
-    // Request current state
+    // Send commands held while the previous client was reconnecting
+    this.flushOfflineQueue();
+
+    // Request current state and faults
+    this.resetConnectionHealth();
+    this.stateRequestSentAt = Date.now();
     await this.mqttClient.requestCurrentState();
+    await this.mqttClient.requestCurrentFaults();
 
     // Start periodic polling for state updates
     this.startPolling();
@@ -231,11 +617,27 @@ export abstract class DysonDevice extends EventEmitter {
 
   /**
    * Disconnect from the device
+   *
+   * @param keepOfflineQueue - Keep held commands, and hold new ones, for a
+   *   {@link connect} that follows straight away, e.g. at a new address
    */
-  async disconnect(): Promise<void> {
+  async disconnect(keepOfflineQueue = false): Promise<void> {
     // Stop polling
     this.stopPolling();
 
+    // Drop commands held for a reconnect that will not happen
+    this.isReconnectExpected = keepOfflineQueue;
+    if (!keepOfflineQueue) {
+      const queued = this.offlineQueue;
+      this.offlineQueue = [];
+      for (const command of queued) {
+        clearTimeout(command.timer);
+      }
+      if (queued.length > 0) {
+        this.emit('debug', `Disconnected, dropped ${queued.length} queued command(s)`);
+      }
+    }
+
     if (this.mqttClient) {
       await this.mqttClient.disconnect();
       this.mqttClient = null;
@@ -259,6 +661,16 @@ export abstract class DysonDevice extends EventEmitter {
     return { ...this.state };
   }
 
+  /**
+   * Get the firmware version
+   *
+   * Prefers the version reported by the device itself, falling back to
+   * the version the Dyson cloud reported at discovery.
+   */
+  getFirmwareVersion(): string | undefined {
+    return this.state.firmwareVersion ?? this.deviceInfo.firmwareVersion;
+  }
+
   /**
    * Get device serial number
    */
@@ -290,17 +702,148 @@ export abstract class DysonDevice extends EventEmitter {
     return this.deviceInfo.ipAddress;
   }
 
+  /**
+   * Set the device IP address, e.g. after DHCP gave the device a new one
+   *
+   * Takes effect on the next connect.
+   *
+   * @param ipAddress - New IP address
+   */
+  setIpAddress(ipAddress: string): void {
+    this.deviceInfo.ipAddress = ipAddress;
+  }
+
+  /**
+   * Get the host name the device is reached by, if it has one
+   */
+  getHostname(): string | undefined {
+    return this.deviceInfo.hostname;
+  }
+
+  /**
+   * Reach the device by host name instead of a fixed IP address
+   *
+   * The name is resolved on every connect. Takes effect on the next connect.
+   *
+   * @param hostname - A `.local` or DNS name, or undefined to use the IP address only
+   */
+  setHostname(hostname: string | undefined): void {
+    this.deviceInfo.hostname = hostname;
+  }
+
+  /**
+   * Set how the host name is resolved, e.g. to ask an mDNS browser before the system resolver
+   *
+   * @param resolver - Resolver to use
+   */
+  setHostResolver(resolver: HostResolver): void {
+    this.hostResolver = resolver;
+  }
+
+  /**
+   * Look up the host name and take over the address it resolves to
+   *
+   * @throws {Error} If the name does not resolve and no earlier address is known
+   */
+  private async resolveHostname(hostname: string): Promise<void> {
+    try {
+      this.deviceInfo.ipAddress = await this.hostResolver(hostname);
+    } catch (error) {
+      if (!this.deviceInfo.ipAddress) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not resolve ${hostname} for device ${this.deviceInfo.serial}: ${reason}`, { cause: error });
+      }
+    }
+  }
+
+  /**
+   * Send a raw command payload on the device's MQTT session
+   *
+   * Used by the local MQTT proxy to send its clients' commands. The payload
+   * is published as is on the device's command topic.
+   *
+   * @param payload - Command message, usually JSON
+   * @throws {Error} If the device is not connected
+   */
+  async forwardCommand(payload: string): Promise<void> {
+    if (!this.mqttClient?.isConnected()) {
+      throw new Error('Device not connected');
+    }
+    await this.mqttClient.publish(this.mqttClient.getCommandTopic(), payload);
+  }
+
   /**
    * Send a command to the device
    *
+   * While the client is reconnecting and the offline queue is enabled, the
+   * command is held and sent on reconnect. The returned promise then
+   * settles at once, so a HomeKit write does not wait for the device; a
+   * held command that expires unsent is reported through `commandExpired`.
+   *
    * @param data - Command data to send
-   * @throws {Error} If not connected
+   * @returns Whether the command was published; false if it is held
+   * @throws {Error} If not connected and the command cannot be queued
    */
-  protected async sendCommand(data: Record<string, unknown>): Promise<void> {
+  protected async sendCommand(data: Record<string, unknown>): Promise<boolean> {
     if (!this.mqttClient?.isConnected()) {
+      if ((this.mqttClient || this.isReconnectExpected) && this.offlineQueueTtlMs > 0) {
+        this.queueOfflineCommand(data);
+        return false;
+      }
       throw new Error('Device not connected');
     }
 
+    await this.publishStateSet(data);
+    return true;
+  }
+
+  /**
+   * Hold a command until the device reconnects or the command expires
+   */
+  private queueOfflineCommand(data: Record<string, unknown>): void {
+    const ttlMs = this.offlineQueueTtlMs;
+    const command: QueuedCommand = {
+      fields: { ...data },
+      timer: setTimeout(() => {
+        this.offlineQueue = this.offlineQueue.filter((queued) => queued !== command);
+        this.emit('commandExpired', new CommandExpiredError(command.fields, ttlMs));
+      }, ttlMs),
+    };
+    this.offlineQueue.push(command);
+    this.emit('debug', `Device offline, queued command: ${JSON.stringify(data)}`);
+  }
+
+  /**
+   * Send every queued command as one merged command
+   *
+   * Fields are merged in the order the commands were queued, so a later
+   * value for the same field wins — the same as command batching.
+   */
+  private flushOfflineQueue(): void {
+    if (this.offlineQueue.length === 0) {
+      return;
+    }
+
+    const queued = this.offlineQueue;
+    this.offlineQueue = [];
+    const fields: Record<string, unknown> = {};
+    for (const command of queued) {
+      clearTimeout(command.timer);
+      Object.assign(fields, command.fields);
+    }
+
+    this.emit('debug', `Reconnected, sending ${queued.length} queued command(s)`);
+    this.publishStateSet(fields).catch((error: Error) => {
+      this.emit('error', new Error(`Failed to send queued commands: ${error.message}`));
+    });
+  }
+
+  /**
+   * Publish a STATE-SET command
+   *
+   * @param data - Command data to send
+   */
+  private async publishStateSet(data: Record<string, unknown>): Promise<void> {
     const command = {
       msg: 'STATE-SET',
       time: new Date().toISOString(),
@@ -311,7 +854,10 @@ export abstract class DysonDevice extends EventEmitter {
     // Debug: log the command being sent
     this.emit('debug', `Sending command: ${JSON.stringify(command)}`);
 
-    await this.mqttClient.publishCommand(command);
+    await this.mqttClient!.publishCommand(command);
+
+    this.pollingPolicy?.recordCommand();
+    this.adaptPolling();
   }
 
   /**
@@ -320,10 +866,25 @@ export abstract class DysonDevice extends EventEmitter {
    * @param partial - Partial state to merge
    */
   protected updateState(partial: Partial<DeviceState>): void {
+    const previous = this.state;
     this.state = { ...this.state, ...partial };
+
+    this.pollingPolicy?.recordStateUpdate(previous, this.state);
+    this.adaptPolling();
+
     this.emit('stateChange', this.state);
   }
 
+  /**
+   * Handle the MQTT client losing an established connection
+   *
+   * Called before `disconnect` is emitted, while the client reconnects on
+   * its own. Not called for {@link disconnect}.
+   */
+  protected handleConnectionLost(): void {
+    // Nothing to do by default
+  }
+
   /**
    * Handle incoming MQTT message
    *
@@ -339,14 +900,26 @@ export abstract class DysonDevice extends EventEmitter {
     const data = message.data as Record<string, unknown>;
     const msgType = data.msg as string | undefined;
 
+    // Software topic messages are identified by topic, not message type
+    if (message.topic.endsWith(SOFTWARE_TOPIC_SUFFIX)) {
+      this.handleSoftwareMessage(data);
+      return;
+    }
+
     switch (msgType) {
       case 'CURRENT-STATE':
+        this.recordStateReply();
+        this.handleStateMessage(data);
+        break;
       case 'STATE-CHANGE':
         this.handleStateMessage(data);
         break;
       case 'ENVIRONMENTAL-CURRENT-SENSOR-DATA':
         this.handleEnvironmentalMessage(data);
         break;
+      case 'CURRENT-FAULTS':
+        this.handleFaultsMessage(data);
+        break;
       default:
         // Unknown message type - ignore
         break;
@@ -362,10 +935,34 @@ export abstract class DysonDevice extends EventEmitter {
    */
   protected abstract handleStateMessage(data: Record<string, unknown>): void;
 
+  /**
+   * Emit `unknownFields` for fields the model's field map does not decode
+   *
+   * Each field is reported once per firmware version, with its first value,
+   * so fields seen before the software topic reports the version are
+   * reported again once it is known.
+   *
+   * @param raw - Raw product state or sensor data
+   */
+  protected reportUnknownFields(raw: RawStateData): void {
+    const fields: Record<string, string> = {};
+    for (const [name, sample] of Object.entries(MessageCodec.findUnknownFields(raw, this.fieldMap))) {
+      const key = `${this.getFirmwareVersion() ?? ''}/${name}`;
+      if (!this.reportedUnknownFields.has(key)) {
+        this.reportedUnknownFields.add(key);
+        fields[name] = sample;
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      this.emit('unknownFields', fields);
+    }
+  }
+
   /**
    * Handle environmental sensor data
    *
-   * Delegates to MessageCodec.parseEnvironmentalData for consistent parsing.
+   * Delegates to MessageCodec.parseEnvironmentalData with the model's field
+   * map for consistent parsing.
    *
    * @param data - Parsed sensor data
    */
@@ -373,13 +970,47 @@ export abstract class DysonDevice extends EventEmitter {
     const sensorData = (data.data as Record<string, string>) || data;
     const stateUpdate: Partial<DeviceState> = {};
 
-    MessageCodec.parseEnvironmentalData(sensorData, stateUpdate);
+    MessageCodec.parseEnvironmentalData(sensorData, stateUpdate, this.fieldMap);
+    this.reportUnknownFields(sensorData);
 
     if (Object.keys(stateUpdate).length > 0) {
       this.updateState(stateUpdate);
     }
   }
 
+  /**
+   * Handle fault report
+   *
+   * Replaces the active fault list; codes no longer failing are cleared.
+   * On humidifier models the water tank and deep clean warnings also set
+   * `waterTankEmpty` and `deepCleanRequired`.
+   *
+   * @param data - Parsed CURRENT-FAULTS message
+   */
+  protected handleFaultsMessage(data: Record<string, unknown>): void {
+    const faults = MessageCodec.parseFaults(data);
+    const update: Partial<DeviceState> = { faults };
+    if (this.supportedFeatures.humidifier) {
+      update.waterTankEmpty = faults.includes(HUMIDIFIER_FAULT_CODES.TANK_EMPTY);
+      update.deepCleanRequired = faults.includes(HUMIDIFIER_FAULT_CODES.DEEP_CLEAN_DUE);
+    }
+    this.updateState(update);
+  }
+
+  /**
+   * Handle software topic message
+   *
+   * Records the firmware version; state only changes when the version does.
+   *
+   * @param data - Parsed software message
+   */
+  protected handleSoftwareMessage(data: Record<string, unknown>): void {
+    const firmwareVersion = MessageCodec.parseFirmwareVersion(data);
+    if (firmwareVersion && firmwareVersion !== this.state.firmwareVersion) {
+      this.updateState({ firmwareVersion });
+    }
+  }
+
   /**
    * Set up MQTT client event handlers
    */
@@ -389,19 +1020,33 @@ export abstract class DysonDevice extends EventEmitter {
     }
 
     this.mqttClient.on('message', (message: MqttMessage) => {
+      this.lastMessageAt = Date.now();
       this.handleMessage(message);
+      this.emit('mqttMessage', message);
     });
 
     this.mqttClient.on('disconnect', () => {
       this.updateState({ connected: false });
+      this.handleConnectionLost();
       this.emit('disconnect');
     });
 
     this.mqttClient.on('connect', () => {
+      this.resetConnectionHealth();
       this.updateState({ connected: true });
       this.emit('connect');
     });
 
+    // Held commands go out once the status topic is subscribed again, so their echo is not missed.
+    // The state is requested first, so changes made while offline show without waiting for a poll.
+    this.mqttClient.on('resubscribed', () => {
+      this.stateRequestSentAt = Date.now();
+      this.mqttClient?.requestCurrentState().catch(() => {
+        // The next poll asks again
+      });
+      this.flushOfflineQueue();
+    });
+
     this.mqttClient.on('error', (error: Error) => {
       this.emit('error', error);
     });
@@ -6,16 +6,77 @@
  */
 
 import { DysonDevice } from './dysonDevice.js';
-import type { DeviceFeatures, DeviceInfo } from './types.js';
-import { MessageCodec, FAN_SPEED, HEATING_TEMP, HUMIDITY, PROTOCOL, FORMAT, TEMPERATURE } from '../protocol/messageCodec.js';
+import type {
+  ChangeSource,
+  DeviceFeatures,
+  DeviceInfo,
+  DeviceState,
+  FilterType,
+  RestorableState,
+  SettingsChange,
+  WaterHardness,
+} from './types.js';
+import { CommandTimeoutError } from './types.js';
+import {
+  MessageCodec,
+  DEEP_CLEAN,
+  FAN_SPEED,
+  FILTER,
+  HEATING_TEMP,
+  HUMIDITY,
+  OSCILLATION_ANGLE,
+  PROTOCOL,
+  FORMAT,
+  SLEEP_TIMER,
+  TEMPERATURE,
+  WATER_HARDNESS,
+} from '../protocol/messageCodec.js';
+import type { OscillationSweep } from '../protocol/messageCodec.js';
 import type { MqttClientFactory } from './dysonDevice.js';
 import type { MqttConnectFn } from '../protocol/mqttClient.js';
-import { getDeviceFeatures, getPowerProtocol } from '../config/index.js';
+import type { FilterCapacity, OscillationAngleProtocol } from '../config/index.js';
+import { getDeviceFeatures, getFilterCapacity, getOscillationAngleProtocol, getPowerProtocol } from '../config/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Command confirmation settings */
+const COMMAND_CONFIRMATION = {
+  /** How long to wait for the device to report the commanded values */
+  TIMEOUT_MS: 5000,
+} as const;
+
+/** Change sources that mean a person changed the settings outside this plugin */
+const MANUAL_CHANGE_SOURCES: readonly ChangeSource[] = ['cloud-app', 'device', 'remote'];
 
 // ============================================================================
 // DysonLinkDevice
 // ============================================================================
 
+/**
+ * A batch of queued command fields and the promise shared by every setter
+ * that contributed to it.
+ */
+interface CommandBatch {
+  fields: Record<string, string>;
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A sent command waiting for the device to report the commanded values
+ */
+interface PendingConfirmation {
+  /** State the command should produce, decoded from the sent fields */
+  expected: Partial<DeviceState>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  /** Confirmation timeout, started once the command is published */
+  timer?: ReturnType<typeof setTimeout>;
+}
+
 /**
  * Modes to switch on automatically whenever the device is activated.
  *
@@ -32,6 +93,44 @@ export interface ActivationDefaults {
   nightMode?: boolean;
 }
 
+/**
+ * Target state for {@link DysonLinkDevice.applyState}
+ *
+ * Every property is optional; only the ones given are applied.
+ */
+export interface DesiredState {
+  /** Power */
+  isOn?: boolean;
+  /** Fan speed (1-10), or -1 for auto mode */
+  fanSpeed?: number;
+  /** Auto mode */
+  autoMode?: boolean;
+  /** Oscillation */
+  oscillation?: boolean;
+  /** Night mode */
+  nightMode?: boolean;
+  /** Continuous monitoring */
+  continuousMonitoring?: boolean;
+  /** Jet focus (front airflow) */
+  frontAirflow?: boolean;
+  /** Heating mode (heating models only) */
+  heatingEnabled?: boolean;
+  /** Target temperature in Celsius (heating models only) */
+  targetTemperature?: number;
+  /** Humidifier (humidifier models only) */
+  humidifierEnabled?: boolean;
+  /** Target humidity percentage (humidifier models only) */
+  targetHumidity?: number;
+  /** Sleep timer in minutes, or 0 to cancel it */
+  sleepTimer?: number;
+}
+
+/** Target state properties that only apply while the fan runs */
+const FAN_SETTINGS = ['fanSpeed', 'autoMode', 'oscillation', 'frontAirflow'] as const;
+
+/** Command fields that encode power and fan mode together, for either power protocol */
+const POWER_FIELDS = ['fpwr', 'fmod', 'auto', 'fnsp'];
+
 /**
  * Dyson Link Device implementation
  *
@@ -41,6 +140,10 @@ export interface ActivationDefaults {
  * Commands are batched within a microtask to allow concurrent HomeKit
  * characteristic updates (e.g., Active + TargetState) to be merged
  * into a single MQTT command.
+ *
+ * Setters resolve only once the device reports the commanded values back in
+ * a STATE-CHANGE or CURRENT-STATE message, and reject with a
+ * {@link CommandTimeoutError} if it never does.
  */
 export class DysonLinkDevice extends DysonDevice {
   /** Product type for this device */
@@ -55,11 +158,17 @@ export class DysonLinkDevice extends DysonDevice {
    */
   private readonly usesFpwrProtocol: boolean;
 
-  /** Pending command fields to be batched and sent */
-  private pendingCommandFields: Record<string, string> = {};
+  /** Fields used to set the oscillation sweep (see OscillationAngleProtocol) */
+  readonly oscillationAngleProtocol: OscillationAngleProtocol;
 
-  /** Whether a command flush is scheduled */
-  private commandFlushScheduled = false;
+  /** Life of a new filter, from the device catalog */
+  readonly filterCapacity: FilterCapacity;
+
+  /** Pending command fields to be batched and sent, or null if none are queued */
+  private pendingBatch: CommandBatch | null = null;
+
+  /** Sent commands still waiting for the device to confirm them */
+  private readonly pendingConfirmations = new Set<PendingConfirmation>();
 
   /** Whether a power-off is in progress (prevents concurrent commands from overriding OFF) */
   private turningOff = false;
@@ -67,6 +176,18 @@ export class DysonLinkDevice extends DysonDevice {
   /** Modes to switch on automatically on the next off -> on transition */
   private activationDefaults: ActivationDefaults = {};
 
+  /** Whether settings are tracked and restored after a power outage */
+  private isStateRestoreEnabled = false;
+
+  /** Settings before the connection dropped, restored if the device comes back without them */
+  private lastRestorableState?: RestorableState;
+
+  /** Whether the first CURRENT-STATE since the link came up is still awaited; settings are not tracked before it */
+  private isFirstStatePending = false;
+
+  /** Whether the link dropped since the settings were last tracked, so the first state is checked for a reboot */
+  private isLinkDropSeen = false;
+
   /**
    * Create a new DysonLinkDevice
    *
@@ -88,39 +209,130 @@ export class DysonLinkDevice extends DysonDevice {
     // series (TP02/DP01) and newer fans like the CF1 (739) — only honour the
     // dedicated `fpwr` field for power, with `auto`/`fnsp` for mode/speed.
     this.usesFpwrProtocol = getPowerProtocol(deviceInfo.productType) === 'fpwr';
+    this.oscillationAngleProtocol = getOscillationAngleProtocol(deviceInfo.productType);
+    this.filterCapacity = getFilterCapacity(deviceInfo.productType);
   }
 
   /**
    * Queue command fields to be sent. Fields are merged and flushed
    * on the next microtask, allowing concurrent HomeKit updates to
-   * produce a single MQTT command.
+   * produce a single MQTT command. Power and mode fields replace the
+   * batch's earlier ones as a group, so the last power or mode wins whole.
+   *
+   * @returns Promise shared by the whole batch, settled once the device
+   *   confirms the merged command or the confirmation times out
+   */
+  private queueCommand(fields: Record<string, string>): Promise<void> {
+    if (this.pendingBatch) {
+      if (Object.keys(fields).some((field) => POWER_FIELDS.includes(field))) {
+        for (const field of POWER_FIELDS) {
+          delete this.pendingBatch.fields[field];
+        }
+      }
+      Object.assign(this.pendingBatch.fields, fields);
+      return this.pendingBatch.promise;
+    }
+
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const batch: CommandBatch = { fields: { ...fields }, promise, resolve, reject };
+    this.pendingBatch = batch;
+
+    queueMicrotask(() => {
+      // The batch may have been discarded by a power-off or disconnect
+      if (this.pendingBatch === batch) {
+        this.pendingBatch = null;
+        this.flushCommand(batch);
+      }
+    });
+
+    return promise;
+  }
+
+  /**
+   * Send a batch of command fields as a single MQTT command and settle
+   * the batch with the outcome
    */
-  private queueCommand(fields: Record<string, string>): void {
-    Object.assign(this.pendingCommandFields, fields);
+  private flushCommand(batch: CommandBatch): void {
+    this.sendAndConfirm(batch.fields).then(batch.resolve, (error: Error) => {
+      this.emit('commandError', error);
+      batch.reject(error);
+    });
+  }
 
-    if (!this.commandFlushScheduled) {
-      this.commandFlushScheduled = true;
-      queueMicrotask(() => {
-        this.flushCommand().catch((error) => {
-          this.emit('error', error instanceof Error ? error : new Error(String(error)));
-        });
-      });
+  /**
+   * Send a command and wait for the device to report the commanded values
+   *
+   * The confirmation is registered before publishing because the device's
+   * STATE-CHANGE reply may arrive before the publish call returns. The
+   * timeout starts once the command is published. A command held in the
+   * offline queue settles as soon as it is queued.
+   *
+   * @throws CommandTimeoutError if the device does not confirm in time
+   */
+  private async sendAndConfirm(fields: Record<string, string>): Promise<void> {
+    const expected = MessageCodec.parseRawState(fields, this.fieldMap, this.filterCapacity);
+
+    let confirmation!: PendingConfirmation;
+    const confirmed = new Promise<void>((resolve, reject) => {
+      confirmation = { expected, resolve, reject };
+    });
+    // A disconnect may reject the confirmation while the command is still
+    // being sent; the send error is reported instead
+    confirmed.catch(() => undefined);
+    this.pendingConfirmations.add(confirmation);
+
+    let isPublished: boolean;
+    try {
+      isPublished = await this.sendCommand(fields);
+    } catch (error) {
+      this.settleConfirmation(confirmation);
+      throw error;
     }
+
+    // Values the device already reports need no further confirmation, and a
+    // command held for a reconnect is not waited for
+    if (!isPublished || this.matchesState(expected)) {
+      this.settleConfirmation(confirmation);
+      confirmation.resolve();
+    } else if (this.pendingConfirmations.has(confirmation)) {
+      confirmation.timer = setTimeout(() => {
+        this.pendingConfirmations.delete(confirmation);
+        confirmation.reject(new CommandTimeoutError(fields, COMMAND_CONFIRMATION.TIMEOUT_MS));
+      }, COMMAND_CONFIRMATION.TIMEOUT_MS);
+    }
+
+    await confirmed;
+  }
+
+  /**
+   * Stop tracking a confirmation without settling its promise
+   */
+  private settleConfirmation(confirmation: PendingConfirmation): void {
+    clearTimeout(confirmation.timer);
+    this.pendingConfirmations.delete(confirmation);
   }
 
   /**
-   * Flush all pending command fields as a single MQTT command
+   * Check whether the current state holds every expected value
    */
-  private async flushCommand(): Promise<void> {
-    this.commandFlushScheduled = false;
-    const fields = this.pendingCommandFields;
-    this.pendingCommandFields = {};
+  private matchesState(expected: Partial<DeviceState>): boolean {
+    return (Object.keys(expected) as (keyof DeviceState)[])
+      .every((key) => this.state[key] === expected[key]);
+  }
 
-    if (Object.keys(fields).length > 0) {
-      try {
-        await this.sendCommand(fields);
-      } catch (error) {
-        this.emit('commandError', error);
+  /**
+   * Resolve every pending confirmation the current state satisfies
+   */
+  private checkConfirmations(): void {
+    for (const confirmation of this.pendingConfirmations) {
+      if (this.matchesState(confirmation.expected)) {
+        this.settleConfirmation(confirmation);
+        confirmation.resolve();
       }
     }
   }
@@ -143,40 +355,193 @@ export class DysonLinkDevice extends DysonDevice {
         return;
       }
 
-      if (this.usesFpwrProtocol) {
-        if (this.state.autoMode) {
-          this.queueCommand({ fpwr: PROTOCOL.ON, auto: PROTOCOL.ON, fnsp: PROTOCOL.AUTO });
-        } else {
-          const speed = this.state.fanSpeed > 0 ? this.state.fanSpeed : FAN_SPEED.DEFAULT;
-          const encodedSpeed = String(speed).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
-          this.queueCommand({ fpwr: PROTOCOL.ON, auto: PROTOCOL.OFF, fnsp: encodedSpeed });
-        }
-      } else {
-        if (this.state.autoMode) {
-          this.queueCommand({ fmod: PROTOCOL.AUTO });
-        } else {
-          this.queueCommand({ fmod: PROTOCOL.FAN });
-        }
-      }
-
-      await this.applyActivationDefaults();
+      const powerOn = this.queueCommand(this.encodePowerOn(this.state.autoMode, this.state.fanSpeed));
+      await Promise.all([powerOn, this.applyActivationDefaults()]);
     } else {
       // Power off: send directly to prevent concurrent mode changes
       // (e.g. TargetAirPurifierState) from overwriting the OFF command
       // via command batching. The turningOff flag prevents other methods
       // called in the same tick from queuing commands that override OFF.
-      this.turningOff = true;
-      this.pendingCommandFields = {};
-      try {
-        if (this.usesFpwrProtocol) {
-          await this.sendCommand({ fpwr: PROTOCOL.OFF });
-        } else {
-          await this.sendCommand({ fmod: PROTOCOL.OFF });
-        }
-      } finally {
-        this.turningOff = false;
+      // Callers waiting on a discarded batch settle with the OFF command.
+      await this.sendPowerOff(this.encodePowerOff());
+    }
+  }
+
+  /**
+   * Apply a whole target state in one command
+   *
+   * Only the properties that differ from the current state are encoded, for
+   * the model's power protocol, and sent as a single STATE-SET. Commands
+   * queued by setters in the same tick are merged into it. A target that
+   * turns the device off is sent right away like `setFanPower(false)`, and
+   * fan settings (speed, auto mode, oscillation, jet focus) in it are not
+   * applied. Activation defaults are not applied either: the target is
+   * taken as given.
+   *
+   * Resolves at once if the device already matches the target.
+   *
+   * @param target - Target state
+   * @throws Error if the target sets heating or humidifier values on a
+   *   model without them
+   */
+  async applyState(target: DesiredState): Promise<void> {
+    if ((target.heatingEnabled !== undefined || target.targetTemperature !== undefined) &&
+        !this.supportedFeatures.heating) {
+      throw new Error('Heating not supported on this device');
+    }
+    if ((target.humidifierEnabled !== undefined || target.targetHumidity !== undefined) &&
+        !this.supportedFeatures.humidifier) {
+      throw new Error('Humidifier not supported on this device');
+    }
+
+    const fields = this.diffFields(this.encodeDesiredState(target));
+    if (Object.keys(fields).length === 0) {
+      return;
+    }
+
+    if (target.isOn === false && Object.keys(this.encodePowerOff()).some((field) => field in fields)) {
+      return this.sendPowerOff(fields);
+    }
+    if (target.isOn) {
+      this.turningOff = false;
+    }
+    return this.queueCommand(fields);
+  }
+
+  /**
+   * Encode every property of a target state as command fields
+   */
+  private encodeDesiredState(target: DesiredState): Record<string, string> {
+    const onOff = (on: boolean) => (on ? PROTOCOL.ON : PROTOCOL.OFF);
+    const fields: Record<string, string> = {};
+
+    if (target.isOn === false) {
+      Object.assign(fields, this.encodePowerOff());
+    } else if (target.isOn !== undefined || target.fanSpeed !== undefined || target.autoMode !== undefined) {
+      // A fan speed without auto mode means manual speed, as with setFanSpeed
+      const autoMode = target.autoMode ??
+        (target.fanSpeed !== undefined ? target.fanSpeed === FAN_SPEED.AUTO : this.state.autoMode);
+      const speed = target.fanSpeed !== undefined && target.fanSpeed > 0 ? target.fanSpeed : this.state.fanSpeed;
+      Object.assign(fields, this.encodePowerOn(autoMode, speed));
+    }
+
+    const settings: DesiredState = target.isOn === false ? this.withoutFanSettings(target) : target;
+    if (settings.oscillation !== undefined) {
+      fields.oson = onOff(settings.oscillation);
+    }
+    if (settings.frontAirflow !== undefined) {
+      fields.ffoc = onOff(settings.frontAirflow);
+    }
+    if (settings.nightMode !== undefined) {
+      fields.nmod = onOff(settings.nightMode);
+    }
+    if (settings.continuousMonitoring !== undefined) {
+      fields.rhtm = onOff(settings.continuousMonitoring);
+    }
+    if (settings.heatingEnabled !== undefined) {
+      fields.hmod = settings.heatingEnabled ? PROTOCOL.HEAT : PROTOCOL.OFF;
+    }
+    if (settings.targetTemperature !== undefined) {
+      fields.hmax = MessageCodec.encodeTemperature(
+        Math.max(HEATING_TEMP.MIN_CELSIUS, Math.min(HEATING_TEMP.MAX_CELSIUS, settings.targetTemperature)),
+      );
+    }
+    if (settings.humidifierEnabled !== undefined) {
+      fields.hume = onOff(settings.humidifierEnabled);
+    }
+    if (settings.targetHumidity !== undefined) {
+      const percent = Math.max(HUMIDITY.MIN_PERCENT, Math.min(HUMIDITY.MAX_PERCENT, Math.round(settings.targetHumidity)));
+      fields.humt = String(percent).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
+    }
+    if (settings.sleepTimer !== undefined) {
+      fields.sltm = settings.sleepTimer <= 0
+        ? PROTOCOL.OFF
+        : String(Math.max(SLEEP_TIMER.MIN_MINUTES, Math.min(SLEEP_TIMER.MAX_MINUTES, Math.round(settings.sleepTimer))))
+          .padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Drop the target properties that only apply while the fan runs
+   */
+  private withoutFanSettings(target: DesiredState): DesiredState {
+    const settings = { ...target };
+    for (const key of FAN_SETTINGS) {
+      delete settings[key];
+    }
+    return settings;
+  }
+
+  /**
+   * Keep only the fields whose decoded values differ from the current state
+   *
+   * The power and mode fields are compared as one group and kept together,
+   * so a change to any of them is sent as the model's power protocol
+   * encodes it.
+   */
+  private diffFields(fields: Record<string, string>): Record<string, string> {
+    const changed: Record<string, string> = {};
+    const power: Record<string, string> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (POWER_FIELDS.includes(field)) {
+        power[field] = value;
+      } else if (!this.matchesState(MessageCodec.parseRawState({ [field]: value }, this.fieldMap, this.filterCapacity))) {
+        changed[field] = value;
       }
     }
+    if (Object.keys(power).length > 0 &&
+        !this.matchesState(MessageCodec.parseRawState(power, this.fieldMap, this.filterCapacity))) {
+      Object.assign(changed, power);
+    }
+    return changed;
+  }
+
+  /**
+   * Encode power on in a mode for the model's power protocol
+   *
+   * @param autoMode - Whether to run in auto mode
+   * @param speed - Manual fan speed, used when not in auto mode; the default
+   *   speed is used if it is not 1-10
+   */
+  private encodePowerOn(autoMode: boolean, speed: number): Record<string, string> {
+    const manualSpeed = speed > 0 ? Math.max(FAN_SPEED.MIN, Math.min(FAN_SPEED.MAX, speed)) : FAN_SPEED.DEFAULT;
+    const encodedSpeed = String(manualSpeed).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
+    if (this.usesFpwrProtocol) {
+      return autoMode
+        ? { fpwr: PROTOCOL.ON, auto: PROTOCOL.ON, fnsp: PROTOCOL.AUTO }
+        : { fpwr: PROTOCOL.ON, auto: PROTOCOL.OFF, fnsp: encodedSpeed };
+    }
+    return autoMode ? { fmod: PROTOCOL.AUTO } : { fmod: PROTOCOL.FAN, fnsp: encodedSpeed };
+  }
+
+  /**
+   * Encode power off for the model's power protocol
+   */
+  private encodePowerOff(): Record<string, string> {
+    return this.usesFpwrProtocol ? { fpwr: PROTOCOL.OFF } : { fmod: PROTOCOL.OFF };
+  }
+
+  /**
+   * Send a power-off command directly, bypassing the batch
+   *
+   * Any pending batch is discarded so a concurrent mode change cannot
+   * override OFF; its callers settle with the power-off command.
+   */
+  private async sendPowerOff(fields: Record<string, string>): Promise<void> {
+    this.turningOff = true;
+    const discarded = this.pendingBatch;
+    this.pendingBatch = null;
+    const powerOff = this.sendAndConfirm(fields);
+    if (discarded) {
+      powerOff.then(discarded.resolve, discarded.reject);
+    }
+    try {
+      await powerOff;
+    } finally {
+      this.turningOff = false;
+    }
   }
 
   /**
@@ -229,44 +594,72 @@ export class DysonLinkDevice extends DysonDevice {
     if (this.turningOff) {
       return;
     }
-    if (this.usesFpwrProtocol) {
-      if (speed < 0) {
-        this.queueCommand({ fpwr: PROTOCOL.ON, auto: PROTOCOL.ON, fnsp: PROTOCOL.AUTO });
-      } else {
-        const clampedSpeed = Math.max(FAN_SPEED.MIN, Math.min(FAN_SPEED.MAX, speed));
-        const encodedSpeed = String(clampedSpeed).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
-        this.queueCommand({ fpwr: PROTOCOL.ON, auto: PROTOCOL.OFF, fnsp: encodedSpeed });
-      }
-    } else {
-      if (speed < 0) {
-        this.queueCommand({ fmod: PROTOCOL.AUTO });
-      } else {
-        const clampedSpeed = Math.max(FAN_SPEED.MIN, Math.min(FAN_SPEED.MAX, speed));
-        const encodedSpeed = String(clampedSpeed).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
-        this.queueCommand({ fnsp: encodedSpeed, fmod: PROTOCOL.FAN });
-      }
+    if (speed < 0) {
+      return this.queueCommand(this.encodePowerOn(true, this.state.fanSpeed));
     }
+    return this.queueCommand(this.encodePowerOn(false, Math.max(FAN_SPEED.MIN, speed)));
   }
 
   /**
    * Set oscillation on or off
    */
   async setOscillation(on: boolean): Promise<void> {
-    this.queueCommand({ oson: on ? PROTOCOL.ON : PROTOCOL.OFF });
+    return this.queueCommand({ oson: on ? PROTOCOL.ON : PROTOCOL.OFF });
+  }
+
+  /**
+   * Oscillate over a custom range
+   *
+   * Also switches oscillation on. Angles are swapped if given in reverse
+   * and clamped to 45-355.
+   *
+   * @param start - Start (lower) angle in degrees
+   * @param end - End (upper) angle in degrees
+   */
+  async setOscillationAngles(start: number, end: number): Promise<void> {
+    if (this.oscillationAngleProtocol === 'none') {
+      throw new Error('Oscillation angle not supported on this device');
+    }
+    const lower = MessageCodec.encodeAngle(Math.round(Math.min(start, end)));
+    const upper = MessageCodec.encodeAngle(Math.round(Math.max(start, end)));
+
+    if (this.oscillationAngleProtocol === 'ancp') {
+      return this.queueCommand({ oson: PROTOCOL.ON, ancp: OSCILLATION_ANGLE.CUSTOM, osal: lower, osau: upper });
+    }
+    return this.queueCommand({ oson: PROTOCOL.ON, osal: lower, osau: upper });
+  }
+
+  /**
+   * Oscillate with a preset sweep width
+   *
+   * Models with `ancp` presets use them directly; others get a range of the
+   * same width centred in the angle window. Also switches oscillation on.
+   *
+   * @param sweep - Sweep width in degrees
+   */
+  async setOscillationSweep(sweep: OscillationSweep): Promise<void> {
+    if (this.oscillationAngleProtocol === 'ancp') {
+      return this.queueCommand({
+        oson: PROTOCOL.ON,
+        ancp: String(sweep).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR),
+      });
+    }
+    const { start, end } = MessageCodec.sweepToAngles(sweep);
+    return this.setOscillationAngles(start, end);
   }
 
   /**
    * Set night mode on or off
    */
   async setNightMode(on: boolean): Promise<void> {
-    this.queueCommand({ nmod: on ? PROTOCOL.ON : PROTOCOL.OFF });
+    return this.queueCommand({ nmod: on ? PROTOCOL.ON : PROTOCOL.OFF });
   }
 
   /**
    * Set continuous monitoring on or off
    */
   async setContinuousMonitoring(on: boolean): Promise<void> {
-    this.queueCommand({ rhtm: on ? PROTOCOL.ON : PROTOCOL.OFF });
+    return this.queueCommand({ rhtm: on ? PROTOCOL.ON : PROTOCOL.OFF });
   }
 
   /**
@@ -276,37 +669,21 @@ export class DysonLinkDevice extends DysonDevice {
     if (this.turningOff) {
       return;
     }
-    if (this.usesFpwrProtocol) {
-      if (on) {
-        this.queueCommand({ fpwr: PROTOCOL.ON, auto: PROTOCOL.ON, fnsp: PROTOCOL.AUTO });
-      } else {
-        const currentSpeed = this.state.fanSpeed > 0 ? this.state.fanSpeed : FAN_SPEED.DEFAULT;
-        const encodedSpeed = String(currentSpeed).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
-        this.queueCommand({ fpwr: PROTOCOL.ON, auto: PROTOCOL.OFF, fnsp: encodedSpeed });
-      }
-    } else {
-      if (on) {
-        this.queueCommand({ fmod: PROTOCOL.AUTO });
-      } else {
-        const currentSpeed = this.state.fanSpeed > 0 ? this.state.fanSpeed : FAN_SPEED.DEFAULT;
-        const encodedSpeed = String(currentSpeed).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
-        this.queueCommand({ fmod: PROTOCOL.FAN, fnsp: encodedSpeed });
-      }
-    }
+    return this.queueCommand(this.encodePowerOn(on, this.state.fanSpeed));
   }
 
   /**
    * Set jet focus (front airflow direction) on or off
    */
   async setJetFocus(on: boolean): Promise<void> {
-    this.queueCommand({ ffoc: on ? PROTOCOL.ON : PROTOCOL.OFF });
+    return this.queueCommand({ ffoc: on ? PROTOCOL.ON : PROTOCOL.OFF });
   }
 
   /**
    * Set heating mode on or off (HP models only)
    */
   async setHeating(on: boolean): Promise<void> {
-    this.queueCommand({ hmod: on ? PROTOCOL.HEAT : PROTOCOL.OFF });
+    return this.queueCommand({ hmod: on ? PROTOCOL.HEAT : PROTOCOL.OFF });
   }
 
   /**
@@ -333,21 +710,21 @@ export class DysonLinkDevice extends DysonDevice {
     const kelvinTimes10 = Math.round(
       (clampedTemp + TEMPERATURE.KELVIN_OFFSET) * TEMPERATURE.KELVIN_MULTIPLIER,
     );
-    this.queueCommand({ hmax: String(kelvinTimes10) });
+    return this.queueCommand({ hmax: String(kelvinTimes10) });
   }
 
   /**
    * Set humidifier mode on or off (PH models only)
    */
   async setHumidifier(on: boolean): Promise<void> {
-    this.queueCommand({ hume: on ? PROTOCOL.ON : PROTOCOL.OFF });
+    return this.queueCommand({ hume: on ? PROTOCOL.ON : PROTOCOL.OFF });
   }
 
   /**
    * Set humidifier to auto mode (PH models only)
    */
   async setHumidifierAuto(): Promise<void> {
-    this.queueCommand({ hume: PROTOCOL.AUTO });
+    return this.queueCommand({ hume: PROTOCOL.AUTO });
   }
 
   /**
@@ -360,21 +737,213 @@ export class DysonLinkDevice extends DysonDevice {
       HUMIDITY.MIN_PERCENT,
       Math.min(HUMIDITY.MAX_PERCENT, Math.round(percent)),
     );
-    this.queueCommand({
+    return this.queueCommand({
       humt: String(clampedPercent).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR),
     });
   }
 
+  /**
+   * Reset the filter life after fitting a new filter
+   *
+   * `rstf` resets the device's filter life as a whole; the protocol has no
+   * reset for a single filter. Emits `filterReset` with the filter type and
+   * time once the command is sent.
+   *
+   * @param filter - The filter the reset was requested for, used only to label the `filterReset` event
+   */
+  async resetFilter(filter: FilterType): Promise<void> {
+    await this.queueCommand({ rstf: FILTER.RESET });
+    this.emit('filterReset', filter, new Date());
+  }
+
+  /**
+   * Start a deep clean cycle (PH models only)
+   *
+   * The water tank must be filled with descaling solution first, as the
+   * device instructs on its display.
+   */
+  async startDeepClean(): Promise<void> {
+    return this.queueCommand({ clcr: DEEP_CLEAN.ACTIVE });
+  }
+
+  /**
+   * Cancel a running deep clean cycle (PH models only)
+   */
+  async cancelDeepClean(): Promise<void> {
+    return this.queueCommand({ clcr: DEEP_CLEAN.INACTIVE });
+  }
+
+  /**
+   * Set the water hardness, which sets how often a deep clean is due (PH models only)
+   *
+   * @param hardness - Local water hardness
+   */
+  async setWaterHardness(hardness: WaterHardness): Promise<void> {
+    return this.queueCommand({ wath: WATER_HARDNESS[hardness] });
+  }
+
+  /**
+   * Set the sleep timer
+   *
+   * The device turns itself off once the timer runs out.
+   *
+   * @param minutes - Timer duration (1-540), or 0 to cancel the timer
+   */
+  async setSleepTimer(minutes: number): Promise<void> {
+    if (minutes <= 0) {
+      return this.queueCommand({ sltm: PROTOCOL.OFF });
+    }
+    const clampedMinutes = Math.max(
+      SLEEP_TIMER.MIN_MINUTES,
+      Math.min(SLEEP_TIMER.MAX_MINUTES, Math.round(minutes)),
+    );
+    return this.queueCommand({
+      sltm: String(clampedMinutes).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR),
+    });
+  }
+
   /**
    * Disconnect from the device, clearing any pending commands
+   *
+   * @param keepOfflineQueue - Keep pending commands for a {@link connect}
+   *   that follows straight away, e.g. at a new address
    */
-  override async disconnect(): Promise<void> {
+  override async disconnect(keepOfflineQueue = false): Promise<void> {
+    if (keepOfflineQueue) {
+      await super.disconnect(true);
+      return;
+    }
+
     // Clear pending commands to prevent stale fields from being sent on reconnect
-    this.pendingCommandFields = {};
-    this.commandFlushScheduled = false;
+    const error = new Error('Device disconnected');
+    this.pendingBatch?.reject(error);
+    this.pendingBatch = null;
+    for (const confirmation of this.pendingConfirmations) {
+      this.settleConfirmation(confirmation);
+      confirmation.reject(error);
+    }
     await super.disconnect();
   }
 
+  /**
+   * Track settings and restore them after a power outage
+   *
+   * While connected, the device emits `restorableStateChange` whenever
+   * power, speed, mode, oscillation or the heating target change, so they
+   * can be persisted. Once the link has dropped, whether the MQTT client
+   * reconnects on its own or a {@link connect} failed, the first
+   * CURRENT-STATE is compared to the last known settings. If they differ,
+   * the device is taken to have rebooted: it emits `reboot` and applies the
+   * previous settings with {@link applyState}. The first connect after the
+   * plugin starts is not checked, as the plugin did not see the link drop:
+   * a difference may have been made with the app or the remote while it
+   * was stopped, and the reported settings are kept.
+   *
+   * @param lastState - Settings persisted before the plugin last stopped
+   */
+  enableStateRestore(lastState?: RestorableState): void {
+    this.isStateRestoreEnabled = true;
+    this.lastRestorableState = lastState;
+  }
+
+  /**
+   * Get the settings that would be restored after a power outage
+   */
+  getRestorableState(): RestorableState {
+    const restorable: RestorableState = {
+      isOn: this.state.isOn,
+      fanSpeed: this.state.fanSpeed,
+      autoMode: this.state.autoMode,
+      oscillation: this.state.oscillation,
+    };
+    if (this.supportedFeatures.heating) {
+      if (this.state.heatingEnabled !== undefined) {
+        restorable.heatingEnabled = this.state.heatingEnabled;
+      }
+      if (this.state.targetTemperature !== undefined) {
+        restorable.targetTemperature = MessageCodec.decodeTemperature(this.state.targetTemperature);
+      }
+    }
+    return restorable;
+  }
+
+  /**
+   * Connect to the device, checking the first state for a reboot if it fails
+   */
+  override async connect(): Promise<void> {
+    if (!this.state.connected) {
+      this.isFirstStatePending = true;
+    }
+    try {
+      await super.connect();
+    } catch (error) {
+      // The device may be down with the power; check its first state once it answers
+      this.isLinkDropSeen = true;
+      throw error;
+    }
+  }
+
+  /**
+   * Check the first state for a reboot once the client has reconnected
+   */
+  protected override handleConnectionLost(): void {
+    this.isFirstStatePending = true;
+    this.isLinkDropSeen = true;
+  }
+
+  /**
+   * Update state, tracking the settings to restore
+   */
+  protected override updateState(partial: Partial<DeviceState>): void {
+    super.updateState(partial);
+    if (this.isStateRestoreEnabled && this.state.connected && !this.isFirstStatePending) {
+      this.trackRestorableState();
+    }
+  }
+
+  /**
+   * Remember the current settings, emitting `restorableStateChange` if they changed
+   */
+  private trackRestorableState(): void {
+    const current = this.getRestorableState();
+    if (!this.lastRestorableState || !this.isSameRestorableState(this.lastRestorableState, current)) {
+      this.lastRestorableState = current;
+      this.emit('restorableStateChange', current);
+    }
+  }
+
+  /**
+   * Compare the first CURRENT-STATE after a dropped link with the settings
+   * before the drop, and restore them if the device came back without them
+   */
+  private checkForReboot(): void {
+    const isLinkDropSeen = this.isLinkDropSeen;
+    this.isFirstStatePending = false;
+    this.isLinkDropSeen = false;
+    if (!this.isStateRestoreEnabled) {
+      return;
+    }
+
+    const previous = this.lastRestorableState;
+    const reported = this.getRestorableState();
+    if (!isLinkDropSeen || !previous || this.isSameRestorableState(previous, reported)) {
+      this.trackRestorableState();
+      return;
+    }
+
+    this.emit('reboot', previous, reported);
+    // A failed restore is reported through commandError
+    this.applyState(previous).catch(() => undefined);
+  }
+
+  /**
+   * Check whether two sets of settings match, ignoring values only one has
+   */
+  private isSameRestorableState(a: RestorableState, b: RestorableState): boolean {
+    return (Object.keys(a) as (keyof RestorableState)[])
+      .every((key) => b[key] === undefined || a[key] === b[key]);
+  }
+
   /**
    * Get the device features
    */
@@ -397,10 +966,57 @@ export class DysonLinkDevice extends DysonDevice {
 
     this.emit('debug', `Received state: fmod=${productState.fmod}, auto=${productState.auto}, fnsp=${productState.fnsp}`);
 
-    const parsedState = MessageCodec.parseRawState(productState);
+    const parsedState = MessageCodec.parseRawState(productState, this.fieldMap, this.filterCapacity);
+    this.reportUnknownFields(productState);
+
+    const modeReason = typeof data['mode-reason'] === 'string' ? data['mode-reason'] : undefined;
+    const stateReason = typeof data['state-reason'] === 'string' ? data['state-reason'] : undefined;
+    const changes = data.msg === 'STATE-CHANGE' ? this.diffState(parsedState) : {};
+
+    if (modeReason !== undefined || stateReason !== undefined) {
+      parsedState.changeSource = MessageCodec.parseChangeSource(modeReason);
+      parsedState.modeReason = modeReason;
+      parsedState.stateReason = stateReason;
+    }
 
     if (Object.keys(parsedState).length > 0) {
       this.updateState(parsedState);
+      this.checkConfirmations();
+    }
+
+    if (Object.keys(changes).length > 0) {
+      this.emitSettingsChange(changes, modeReason, stateReason);
+    }
+
+    if (this.isFirstStatePending && data.msg === 'CURRENT-STATE') {
+      this.checkForReboot();
+    }
+  }
+
+  /**
+   * Pick the parsed values that differ from the current state
+   */
+  private diffState(parsed: Partial<DeviceState>): Partial<DeviceState> {
+    const changes: Partial<DeviceState> = {};
+    for (const key of Object.keys(parsed) as (keyof DeviceState)[]) {
+      if (parsed[key] !== this.state[key]) {
+        (changes as Record<string, unknown>)[key] = parsed[key];
+      }
     }
+    return changes;
+  }
+
+  /**
+   * Emit `settingsChange` with who made the change
+   *
+   * A change counts as manual when it came from the Dyson app, the device
+   * buttons or the remote, unless the device adjusted itself in auto mode
+   * (state-reason ENV).
+   */
+  private emitSettingsChange(changes: Partial<DeviceState>, modeReason?: string, stateReason?: string): void {
+    const source = MessageCodec.parseChangeSource(modeReason);
+    const isManual = MANUAL_CHANGE_SOURCES.includes(source) && stateReason !== 'ENV';
+    const change: SettingsChange = { source, modeReason, stateReason, changes, isManual };
+    this.emit('settingsChange', change);
   }
 }
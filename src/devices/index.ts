@@ -6,6 +6,7 @@ export { DysonDevice } from './dysonDevice.js';
 export type { MqttClientFactory } from './dysonDevice.js';
 
 export { DysonLinkDevice } from './dysonLinkDevice.js';
+export type { ActivationDefaults, DesiredState } from './dysonLinkDevice.js';
 
 export {
   createDevice,
@@ -20,7 +21,17 @@ export type {
   DiscoveryResult,
 } from './deviceManager.js';
 
+export { PollingPolicy, isAirQualityWorsening } from './pollingPolicy.js';
+export type { PollingPolicyConfig } from './pollingPolicy.js';
+
 export type {
+  ChangeSource,
+  ConnectionHealth,
+  FilterType,
+  InstalledFilterType,
+  RestorableState,
+  SettingsChange,
+  WaterHardness,
   DeviceInfo,
   DeviceState,
   DeviceFeatures,
@@ -30,4 +41,6 @@ export type {
 export {
   createDefaultState,
   DEFAULT_FEATURES,
+  CommandTimeoutError,
+  CommandExpiredError,
 } from './types.js';
@@ -0,0 +1,129 @@
+/**
+ * Adaptive Polling Policy
+ *
+ * Chooses how often a device is polled from what it is doing: fast while
+ * the fan runs, air quality is getting worse, or a command was just sent,
+ * and slow while the device is off and idle.
+ */
+
+import type { DeviceState } from './types.js';
+
+/** Air quality readings compared to detect worsening air */
+const AIR_QUALITY_KEYS = ['pm25', 'pm10', 'vocIndex', 'no2Index', 'formaldehydeLevel'] as const;
+
+/** Smallest rise in a reading that counts as worsening air; smaller changes are sensor jitter */
+const MIN_AIR_QUALITY_RISE = 2;
+
+/**
+ * Polling policy configuration
+ */
+export interface PollingPolicyConfig {
+  /** Interval while the device is active, in seconds */
+  activeSeconds: number;
+  /** Interval while the device is off and idle, in seconds */
+  idleSeconds: number;
+  /** How long a command or worsening air keeps the device active, in seconds (default: 120) */
+  activityWindowSeconds?: number;
+}
+
+/** Default activity window in seconds */
+const DEFAULT_ACTIVITY_WINDOW_SECONDS = 120;
+
+/**
+ * Check whether any air quality reading rose between two states
+ *
+ * Readings missing from either state are ignored, as are rises smaller
+ * than `MIN_AIR_QUALITY_RISE`, so a reading flickering by one unit does
+ * not keep an idle device active.
+ *
+ * @param previous - State before the update
+ * @param next - State after the update
+ * @returns True if at least one reading rose by `MIN_AIR_QUALITY_RISE` or more
+ */
+export function isAirQualityWorsening(
+  previous: Partial<DeviceState>,
+  next: Partial<DeviceState>,
+): boolean {
+  return AIR_QUALITY_KEYS.some((key) => {
+    const before = previous[key];
+    const after = next[key];
+    return before !== undefined && after !== undefined && after - before >= MIN_AIR_QUALITY_RISE;
+  });
+}
+
+/**
+ * PollingPolicy decides the delay before the next state poll
+ *
+ * The device is active while it is on, or for `activityWindowSeconds`
+ * after a command was sent or an air quality reading rose. Otherwise it is
+ * idle and polled at `idleSeconds`.
+ */
+export class PollingPolicy {
+  private readonly activeMs: number;
+  private readonly idleMs: number;
+  private readonly activityWindowMs: number;
+
+  /** Time the device last showed activity other than being on */
+  private lastActivityAt?: number;
+
+  /**
+   * Create a new PollingPolicy
+   *
+   * @param config - Intervals in seconds
+   */
+  constructor(config: PollingPolicyConfig) {
+    this.activeMs = config.activeSeconds * 1000;
+    this.idleMs = config.idleSeconds * 1000;
+    this.activityWindowMs = (config.activityWindowSeconds ?? DEFAULT_ACTIVITY_WINDOW_SECONDS) * 1000;
+  }
+
+  /**
+   * Record that a command was sent to the device
+   *
+   * @param now - Current time in milliseconds
+   */
+  recordCommand(now: number = Date.now()): void {
+    this.lastActivityAt = now;
+  }
+
+  /**
+   * Record a state update, noting worsening air quality
+   *
+   * @param previous - State before the update
+   * @param next - State after the update
+   * @param now - Current time in milliseconds
+   */
+  recordStateUpdate(
+    previous: Partial<DeviceState>,
+    next: Partial<DeviceState>,
+    now: number = Date.now(),
+  ): void {
+    if (isAirQualityWorsening(previous, next)) {
+      this.lastActivityAt = now;
+    }
+  }
+
+  /**
+   * Check whether the device counts as active
+   *
+   * @param state - Current device state
+   * @param now - Current time in milliseconds
+   */
+  isActive(state: Partial<DeviceState>, now: number = Date.now()): boolean {
+    if (state.isOn) {
+      return true;
+    }
+    return this.lastActivityAt !== undefined && now - this.lastActivityAt < this.activityWindowMs;
+  }
+
+  /**
+   * Get the delay before the next poll
+   *
+   * @param state - Current device state
+   * @param now - Current time in milliseconds
+   * @returns Delay in milliseconds
+   */
+  getIntervalMs(state: Partial<DeviceState>, now: number = Date.now()): number {
+    return this.isActive(state, now) ? this.activeMs : this.idleMs;
+  }
+}
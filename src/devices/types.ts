@@ -2,6 +2,9 @@
  * Device Types and Interfaces
  */
 
+import type { MqttMessage } from '../protocol/mqttClient.js';
+import type { ReconnectStatus } from '../utils/reconnectPolicy.js';
+
 /**
  * Device information from discovery
  */
@@ -14,8 +17,12 @@ export interface DeviceInfo {
   name: string;
   /** Local MQTT credentials */
   credentials: string;
-  /** Device IP address on local network */
+  /** Device IPv4 or IPv6 address on local network */
   ipAddress?: string;
+  /** Host name (`.local` or DNS) resolved on every connect; takes precedence over `ipAddress` */
+  hostname?: string;
+  /** Firmware version reported by the Dyson cloud, if known */
+  firmwareVersion?: string;
 }
 
 /**
@@ -41,6 +48,8 @@ export interface DeviceState {
   oscillationAngleStart?: number;
   /** Oscillation end angle (45-355) */
   oscillationAngleEnd?: number;
+  /** Sweep width preset in degrees (45/90/180/350), 0 for a custom range (ancp models only) */
+  oscillationSweep?: number;
 
   // Night mode
   /** Night mode enabled */
@@ -81,6 +90,10 @@ export interface DeviceState {
   hepaFilterLife?: number;
   /** Carbon filter life remaining (hours) */
   carbonFilterLife?: number;
+  /** Filter fitted in the HEPA slot */
+  hepaFilterType?: InstalledFilterType;
+  /** Filter fitted in the carbon slot ('none' when the slot is empty) */
+  carbonFilterType?: InstalledFilterType;
 
   // Heating (for Hot+Cool models)
   /** Heating enabled */
@@ -95,8 +108,18 @@ export interface DeviceState {
   humidifierEnabled?: boolean;
   /** Target humidity percentage */
   targetHumidity?: number;
-  /** Water tank empty */
+  /** Water tank empty (CURRENT-FAULTS `tnke`) */
   waterTankEmpty?: boolean;
+  /** Water hardness the deep clean interval is set for */
+  waterHardness?: WaterHardness;
+  /** Deep clean cycle running */
+  deepCleanActive?: boolean;
+  /** Minutes left in the deep clean cycle */
+  deepCleanRemaining?: number;
+  /** Hours of humidifying left until the next deep clean is due */
+  deepCleanDueIn?: number;
+  /** Deep clean due (CURRENT-FAULTS `cldu`) */
+  deepCleanRequired?: boolean;
 
   // Device status (Link series)
   /** Fan state - whether fan is actively running (Link series) */
@@ -109,6 +132,66 @@ export interface DeviceState {
   warningCode?: string;
   /** Tilt sensor status */
   tiltStatus?: string;
+
+  // Faults
+  /** Codes currently reported as failing in CURRENT-FAULTS messages */
+  faults?: string[];
+
+  // Firmware
+  /** Firmware version reported by the device on its software topic */
+  firmwareVersion?: string;
+
+  // Change source
+  /** Who made the last change to the settings, decoded from `mode-reason` */
+  changeSource?: ChangeSource;
+  /** Raw `mode-reason` code of the last change (e.g. RAPP, PUI, LAPP, IRC) */
+  modeReason?: string;
+  /** Raw `state-reason` code of the last change (e.g. MODE, ENV) */
+  stateReason?: string;
+}
+
+/**
+ * Replaceable filter types
+ */
+export type FilterType = 'hepa' | 'carbon';
+
+/**
+ * Filter a device reports as fitted in a filter slot
+ * - 'combined': a HEPA filter with a carbon layer, in the HEPA slot
+ * - 'none': the slot is empty
+ */
+export type InstalledFilterType = FilterType | 'combined' | 'none';
+
+/**
+ * Water hardness setting of Humidify+Cool models, which sets how often a
+ * deep clean is due
+ */
+export type WaterHardness = 'soft' | 'medium' | 'hard';
+
+/**
+ * Who changed the device settings
+ * - 'local-app': the local MQTT API, including this plugin
+ * - 'cloud-app': the Dyson app through the cloud
+ * - 'device': the buttons on the device
+ * - 'remote': the IR remote
+ * - 'unknown': a code the plugin does not recognise
+ */
+export type ChangeSource = 'local-app' | 'cloud-app' | 'device' | 'remote' | 'unknown';
+
+/**
+ * A change to the device settings reported in a STATE-CHANGE message
+ */
+export interface SettingsChange {
+  /** Who made the change */
+  source: ChangeSource;
+  /** Raw `mode-reason` code */
+  modeReason?: string;
+  /** Raw `state-reason` code; ENV when the device adjusted itself in auto mode */
+  stateReason?: string;
+  /** State values that changed */
+  changes: Partial<DeviceState>;
+  /** Whether a person changed it outside this plugin (app, buttons or remote) */
+  isManual: boolean;
 }
 
 /**
@@ -198,4 +281,91 @@ export interface DeviceEvents {
   stateChange: [DeviceState];
   /** Emitted on device error */
   error: [Error];
+  /** Emitted when the connection is open but the device stopped answering */
+  stale: [ConnectionHealth];
+  /** Emitted when the reconnection policy moves to another phase, e.g. when the circuit opens */
+  reconnectPhase: [ReconnectStatus];
+  /** Emitted when a command queued while offline expires unsent */
+  commandExpired: [CommandExpiredError];
+  /** Emitted with fields the model's field map does not decode, each reported once */
+  unknownFields: [Record<string, string>];
+  /** Emitted when the settings restored after a power outage change */
+  restorableStateChange: [RestorableState];
+  /** Emitted when the plugin connects again and the device reports different settings than before it dropped */
+  reboot: [previous: RestorableState, reported: RestorableState];
+  /** Emitted with every raw MQTT message received from the device */
+  mqttMessage: [MqttMessage];
+  /** Emitted when a STATE-CHANGE message changes settings, with who changed them */
+  settingsChange: [SettingsChange];
+  /** Emitted when the device accepted a filter life reset */
+  filterReset: [filter: FilterType, resetAt: Date];
+}
+
+/**
+ * Settings restored after a power outage
+ */
+export interface RestorableState {
+  /** Power */
+  isOn: boolean;
+  /** Fan speed (1-10), or -1 in auto mode */
+  fanSpeed: number;
+  /** Auto mode */
+  autoMode: boolean;
+  /** Oscillation */
+  oscillation: boolean;
+  /** Heating mode (heating models only) */
+  heatingEnabled?: boolean;
+  /** Heating target in Celsius (heating models only) */
+  targetTemperature?: number;
+}
+
+/**
+ * Connection health as seen from the plugin
+ */
+export interface ConnectionHealth {
+  /** Time the last message arrived from the device (ms since epoch) */
+  lastMessageAt?: number;
+  /** Round-trip time of the last answered state request in milliseconds */
+  lastRoundTripMs?: number;
+  /** State requests in a row that went unanswered */
+  missedReplies: number;
+}
+
+/**
+ * Error raised when the device does not confirm a command in time
+ *
+ * A STATE-SET is only considered applied once the device reports the new
+ * values back in a STATE-CHANGE or CURRENT-STATE message. If no matching
+ * report arrives before the timeout, the command is assumed to have been
+ * ignored by the device.
+ */
+export class CommandTimeoutError extends Error {
+  constructor(
+    /** Protocol fields that were sent but never confirmed */
+    public readonly fields: Record<string, string>,
+    /** How long the device was given to confirm, in milliseconds */
+    public readonly timeoutMs: number,
+  ) {
+    super(`Device did not confirm command ${JSON.stringify(fields)} within ${timeoutMs}ms`);
+    this.name = 'CommandTimeoutError';
+  }
+}
+
+/**
+ * Error raised when a command queued while the device was offline expires
+ *
+ * Commands sent while the device is reconnecting are held for a limited
+ * time (see `DysonDevice.setOfflineQueueTtl`). If the device does not
+ * reconnect in time, the command is dropped rather than applied late.
+ */
+export class CommandExpiredError extends Error {
+  constructor(
+    /** Protocol fields that were never sent */
+    public readonly fields: Record<string, unknown>,
+    /** How long the command was held, in milliseconds */
+    public readonly ttlMs: number,
+  ) {
+    super(`Dropped command ${JSON.stringify(fields)}: device did not reconnect within ${ttlMs}ms`);
+    this.name = 'CommandExpiredError';
+  }
 }
@@ -8,10 +8,13 @@
  *
  * Device retrieval:
  * - GET /v2/provisioningservice/manifest - Get devices with localBrokerCredentials
+ * - POST /v2/authorize/iot-credentials - Get credentials for the cloud MQTT broker
  */
 
 import { createDecipheriv } from 'node:crypto';
 
+import { getDysonApiBaseUrl } from '../config/index.js';
+import type { CloudMqttCredentials } from '../protocol/mqttTransport.js';
 import type {
   AuthResponse,
   ChallengeResponse,
@@ -20,12 +23,10 @@ import type {
   DeviceCredentials,
   DeviceInfo,
   RawDeviceManifestV3,
+  RawIotCredentialsResponse,
 } from './types.js';
 import { CloudApiError, CloudApiErrorType } from './types.js';
 
-/** Dyson Cloud API base URL */
-const DYSON_API_BASE_URL = 'https://appapi.cp.dyson.com';
-
 /** Default request timeout (15 seconds) */
 const DEFAULT_TIMEOUT = 15000;
 
@@ -61,6 +62,7 @@ export class DysonCloudApi {
   private readonly email: string;
   private readonly password: string;
   private readonly countryCode: string;
+  private readonly baseUrl: string;
   private readonly timeout: number;
 
   private authToken: string | null = null;
@@ -71,6 +73,7 @@ export class DysonCloudApi {
     this.email = config.email;
     this.password = config.password;
     this.countryCode = config.countryCode ?? 'US';
+    this.baseUrl = getDysonApiBaseUrl(this.countryCode);
     this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
   }
 
@@ -210,6 +213,39 @@ export class DysonCloudApi {
     return manifest.map((device) => this.parseDeviceManifestV3(device));
   }
 
+  /**
+   * Get credentials for a device on the Dyson cloud MQTT broker
+   *
+   * @param serial - Device serial number
+   * @returns Broker endpoint and custom authorizer token for the device
+   * @throws {CloudApiError} If not authenticated or request fails
+   */
+  async getIotCredentials(serial: string): Promise<CloudMqttCredentials> {
+    this.ensureAuthenticated();
+    await this.rateLimitDelay();
+
+    const response = await this.request<RawIotCredentialsResponse>(
+      '/v2/authorize/iot-credentials',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.authToken}`,
+        },
+        body: JSON.stringify({ Serial: serial }),
+      },
+    );
+
+    return {
+      endpoint: response.Endpoint,
+      clientId: response.IoTCredentials.ClientId,
+      customAuthorizerName: response.IoTCredentials.CustomAuthorizerName,
+      tokenKey: response.IoTCredentials.TokenKey,
+      tokenValue: response.IoTCredentials.TokenValue,
+      tokenSignature: response.IoTCredentials.TokenSignature,
+    };
+  }
+
   /**
    * Check if client is authenticated
    */
@@ -240,7 +276,7 @@ export class DysonCloudApi {
     endpoint: string,
     init: RequestInit,
   ): Promise<T> {
-    const url = `${DYSON_API_BASE_URL}${endpoint}`;
+    const url = `${this.baseUrl}${endpoint}`;
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
@@ -403,9 +439,9 @@ export class DysonCloudApi {
       serial: raw.serialNumber,
       productType: raw.type,
       name: raw.name ?? raw.productName ?? 'Dyson Device',
-      version: '', // v3 doesn't include version directly
+      version: raw.connectedConfiguration?.firmware?.version ?? '',
       autoUpdate: raw.connectedConfiguration?.firmware?.autoUpdate ?? false,
-      newVersionAvailable: false, // v3 doesn't include this
+      newVersionAvailable: raw.connectedConfiguration?.firmware?.newVersionAvailable ?? false,
     };
 
     const credentials: DeviceCredentials = {
@@ -9,6 +9,10 @@ export type {
   DiscoveredDevice,
   DiscoveryOptions,
 } from './mdnsDiscovery.js';
+export { MdnsWatcher, DEFAULT_WATCH_INTERVAL } from './mdnsWatcher.js';
+export type { MdnsWatcherOptions } from './mdnsWatcher.js';
+export { SubnetScanner, expandCidr, probeTcpPort, DEFAULT_SCAN_CONCURRENCY, DEFAULT_PROBE_TIMEOUT, MAX_SCAN_ADDRESSES } from './subnetScanner.js';
+export type { PortProbe, ScanTarget, SubnetScanOptions } from './subnetScanner.js';
 export type {
   AuthResponse,
   ChallengeResponse,
@@ -20,6 +24,7 @@ export type {
   MqttConfig,
   RawDeviceManifestV2,
   RawDeviceManifestV3,
+  RawIotCredentialsResponse,
   UserStatusResponse,
 } from './types.js';
 export { CloudApiError, CloudApiErrorType } from './types.js';
@@ -6,6 +6,7 @@
 import { Bonjour, type Browser, type Service } from 'bonjour-service';
 
 import { DYSON_MDNS_SERVICE } from '../config/index.js';
+import { isIpAddress, isIPv6Address } from '../utils/hostResolver.js';
 
 /** Default discovery timeout in milliseconds */
 export const DEFAULT_DISCOVERY_TIMEOUT = 10000;
@@ -16,15 +17,20 @@ const MIN_TIMEOUT = 1000;
 /** Maximum timeout allowed */
 const MAX_TIMEOUT = 60000;
 
+/** Service type as bonjour-service expects it: 'dyson_mqtt' (without leading underscore or protocol) */
+export const BONJOUR_SERVICE_TYPE = DYSON_MDNS_SERVICE.replace('_', '').replace('._tcp', '');
+
 /**
  * Discovery result containing device serial and IP address
  */
 export interface DiscoveredDevice {
   /** Device serial number extracted from mDNS name */
   serial: string;
-  /** Device IP address (IPv4 preferred) */
+  /** Device IP address (IPv4 preferred, then a routable IPv6 address) */
   ipAddress: string;
-  /** Device hostname */
+  /** Every address the device advertised, IPv4 and IPv6 */
+  addresses: string[];
+  /** Device hostname, e.g. `DYSON-ABC-AB-12345678-455.local` */
   hostname: string;
   /** mDNS service port */
   port: number;
@@ -44,7 +50,88 @@ export interface DiscoveryOptions {
 export type BonjourFactory = () => Bonjour;
 
 /** Default Bonjour factory */
-const defaultBonjourFactory: BonjourFactory = () => new Bonjour();
+export const defaultBonjourFactory: BonjourFactory = () => new Bonjour();
+
+/**
+ * Parse an mDNS service into device info
+ * Service name format: {serial}_dyson_mqtt._tcp.local
+ *
+ * @returns The device, or null if the name holds no serial or the service has no address
+ */
+export function parseDysonService(service: Service): DiscoveredDevice | null {
+  // Extract serial from service name
+  // Format: "ABC-XX-12345678_dyson_mqtt" or just "ABC-XX-12345678"
+  const serial = extractSerial(service.name);
+  if (!serial) {
+    return null;
+  }
+
+  const ipAddress = getPreferredAddress(service);
+  if (!ipAddress) {
+    return null;
+  }
+
+  return {
+    serial,
+    ipAddress,
+    addresses: (service.addresses || []).filter(isIpAddress),
+    hostname: service.host,
+    port: service.port,
+  };
+}
+
+/**
+ * Extract serial number from mDNS service name
+ */
+export function extractSerial(serviceName: string): string | null {
+  // Dyson serial numbers follow pattern: XXX-XX-XXXXXXXX
+  // Service name formats:
+  //   - "ABC-AB-12345678" (serial only)
+  //   - "ABC-AB-12345678_dyson_mqtt" (serial with suffix)
+  //   - "455_ABC-AB-12345678" (product type prefix + serial)
+  //   - "455_ABC-AB-12345678_dyson_mqtt" (product type + serial + suffix)
+  const match = serviceName.match(/(?:^\d+_)?([A-Z0-9]{2,3}-[A-Z0-9]{2}-[A-Z0-9]{8})/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Get the address to connect to from a service
+ *
+ * Prefers IPv4, then the referer if it is IPv4, then an IPv6 address that is
+ * not link-local (those need a zone index the service does not carry).
+ */
+function getPreferredAddress(service: Service): string | null {
+  const addresses = service.addresses || [];
+
+  // First try to find an IPv4 address
+  for (const addr of addresses) {
+    if (isIPv4(addr)) {
+      return addr;
+    }
+  }
+
+  // Fall back to referer if available and is IPv4
+  if (service.referer && isIPv4(service.referer.address)) {
+    return service.referer.address;
+  }
+
+  // Then a routable IPv6 address
+  const routable = addresses.find((addr) => isIPv6Address(addr) && !/^fe80:/i.test(addr));
+  if (routable) {
+    return routable;
+  }
+
+  // Otherwise the first address, even if only link-local
+  return addresses[0] || null;
+}
+
+/**
+ * Check if address is IPv4
+ */
+function isIPv4(address: string): boolean {
+  // Simple IPv4 check: contains dots and no colons
+  return address.includes('.') && !address.includes(':');
+}
 
 /**
  * mDNS Discovery for Dyson devices
@@ -82,10 +169,7 @@ export class MdnsDiscovery {
       let resolved = false;
       this.bonjour = this.bonjourFactory();
 
-      // Service type is 'dyson_mqtt' (without leading underscore for bonjour-service)
-      const serviceType = DYSON_MDNS_SERVICE.replace('_', '').replace('._tcp', '');
-
-      this.browser = this.bonjour.find({ type: serviceType });
+      this.browser = this.bonjour.find({ type: BONJOUR_SERVICE_TYPE });
 
       // Set timeout to stop discovery (unref to avoid keeping the process alive)
       const discoveryTimeout = setTimeout(() => {
@@ -98,7 +182,7 @@ export class MdnsDiscovery {
       discoveryTimeout.unref();
 
       this.browser.on('up', (service: Service) => {
-        const device = this.parseService(service);
+        const device = parseDysonService(service);
         if (device) {
           devices.set(device.serial, device.ipAddress);
 
@@ -130,9 +214,7 @@ export class MdnsDiscovery {
       let resolved = false;
       this.bonjour = this.bonjourFactory();
 
-      const serviceType = DYSON_MDNS_SERVICE.replace('_', '').replace('._tcp', '');
-
-      this.browser = this.bonjour.find({ type: serviceType });
+      this.browser = this.bonjour.find({ type: BONJOUR_SERVICE_TYPE });
 
       // Set timeout to stop discovery (unref to avoid keeping the process alive)
       const detailedTimeout = setTimeout(() => {
@@ -145,7 +227,7 @@ export class MdnsDiscovery {
       detailedTimeout.unref();
 
       this.browser.on('up', (service: Service) => {
-        const device = this.parseService(service);
+        const device = parseDysonService(service);
         if (device) {
           // Avoid duplicates
           if (!devices.some((d) => d.serial === device.serial)) {
@@ -171,76 +253,6 @@ export class MdnsDiscovery {
     this.cleanup();
   }
 
-  /**
-   * Parse mDNS service into device info
-   * Service name format: {serial}_dyson_mqtt._tcp.local
-   */
-  private parseService(service: Service): DiscoveredDevice | null {
-    // Extract serial from service name
-    // Format: "ABC-XX-12345678_dyson_mqtt" or just "ABC-XX-12345678"
-    const serial = this.extractSerial(service.name);
-    if (!serial) {
-      return null;
-    }
-
-    // Get IPv4 address (prefer IPv4 over IPv6)
-    const ipAddress = this.getIPv4Address(service);
-    if (!ipAddress) {
-      return null;
-    }
-
-    return {
-      serial,
-      ipAddress,
-      hostname: service.host,
-      port: service.port,
-    };
-  }
-
-  /**
-   * Extract serial number from mDNS service name
-   */
-  private extractSerial(serviceName: string): string | null {
-    // Dyson serial numbers follow pattern: XXX-XX-XXXXXXXX
-    // Service name formats:
-    //   - "ABC-AB-12345678" (serial only)
-    //   - "ABC-AB-12345678_dyson_mqtt" (serial with suffix)
-    //   - "455_ABC-AB-12345678" (product type prefix + serial)
-    //   - "455_ABC-AB-12345678_dyson_mqtt" (product type + serial + suffix)
-    const match = serviceName.match(/(?:^\d+_)?([A-Z0-9]{2,3}-[A-Z0-9]{2}-[A-Z0-9]{8})/i);
-    return match ? match[1].toUpperCase() : null;
-  }
-
-  /**
-   * Get IPv4 address from service, preferring IPv4 over IPv6
-   */
-  private getIPv4Address(service: Service): string | null {
-    const addresses = service.addresses || [];
-
-    // First try to find an IPv4 address
-    for (const addr of addresses) {
-      if (this.isIPv4(addr)) {
-        return addr;
-      }
-    }
-
-    // Fall back to referer if available and is IPv4
-    if (service.referer && this.isIPv4(service.referer.address)) {
-      return service.referer.address;
-    }
-
-    // If no IPv4 found, return first address (might be IPv6)
-    return addresses[0] || null;
-  }
-
-  /**
-   * Check if address is IPv4
-   */
-  private isIPv4(address: string): boolean {
-    // Simple IPv4 check: contains dots and no colons
-    return address.includes('.') && !address.includes(':');
-  }
-
   /**
    * Validate and clamp timeout value
    */
@@ -0,0 +1,277 @@
+/**
+ * Continuous mDNS Watcher for Dyson Devices
+ * Keeps browsing for _dyson_mqtt._tcp and reports devices that appear,
+ * disappear or move to another IP address
+ */
+
+import { EventEmitter } from 'events';
+import type { Bonjour, Browser, Service } from 'bonjour-service';
+
+import {
+  BONJOUR_SERVICE_TYPE,
+  defaultBonjourFactory,
+  extractSerial,
+  parseDysonService,
+} from './mdnsDiscovery.js';
+import type { BonjourFactory, DiscoveredDevice } from './mdnsDiscovery.js';
+
+/** Default time between queries in milliseconds */
+export const DEFAULT_WATCH_INTERVAL = 60000;
+
+/** Queries a device may leave unanswered before it counts as gone */
+const MISSED_QUERIES_BEFORE_GONE = 3;
+
+/** Shortest time between two queries, so lookups from several accessories share one */
+const MIN_QUERY_GAP = 2000;
+
+/**
+ * Options for the mDNS watcher
+ */
+export interface MdnsWatcherOptions {
+  /** Time between queries in milliseconds (default: 60000) */
+  interval?: number;
+}
+
+/**
+ * Events emitted by MdnsWatcher
+ */
+export interface MdnsWatcherEvents {
+  /** Emitted when a device is seen for the first time, or again after it disappeared */
+  appeared: [device: DiscoveredDevice];
+  /** Emitted when a known device answers from another IP address */
+  ipChanged: [device: DiscoveredDevice, previousIpAddress: string];
+  /** Emitted when a device says goodbye or stops answering queries */
+  disappeared: [serial: string];
+}
+
+/**
+ * A device the watcher has seen
+ */
+interface WatchedDevice {
+  device: DiscoveredDevice;
+  /** Time the device last answered */
+  lastSeenAt: number;
+}
+
+/**
+ * A lookup waiting for a device to answer
+ */
+interface PendingLookup {
+  serial: string;
+  resolve: (ipAddress: string | null) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Lower-case a host name and drop the trailing dot of a fully qualified name
+ */
+function normalizeHostname(hostname: string): string {
+  return hostname.toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Long-lived mDNS watcher shared by all accessories
+ *
+ * Unlike `MdnsDiscovery`, which browses once and stops, the watcher keeps a
+ * browser open and queries again every `interval`. A fresh browser is used
+ * for every query, so every device that answers reports its current address
+ * even when only its IP changed. Lookups that arrive while a query is in
+ * flight wait for its answers instead of starting their own.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new MdnsWatcher();
+ * watcher.on('ipChanged', (device, previousIp) => { ... });
+ * watcher.start();
+ * const ip = await watcher.lookup('ABC-AB-12345678', 10000);
+ * ```
+ */
+export class MdnsWatcher extends EventEmitter {
+  private bonjour: Bonjour | null = null;
+  private browser: Browser | null = null;
+  private queryTimer?: ReturnType<typeof setInterval>;
+  private lastQueryAt = 0;
+  private readonly devices = new Map<string, WatchedDevice>();
+  private readonly pendingLookups = new Set<PendingLookup>();
+  private readonly interval: number;
+  private readonly bonjourFactory: BonjourFactory;
+
+  constructor(options: MdnsWatcherOptions = {}, bonjourFactory: BonjourFactory = defaultBonjourFactory) {
+    super();
+    this.interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+    this.bonjourFactory = bonjourFactory;
+    // Every accessory listens for its own serial
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Start watching; does nothing if already started
+   */
+  start(): void {
+    if (this.bonjour) {
+      return;
+    }
+    this.bonjour = this.bonjourFactory();
+    this.query();
+
+    // Unref to avoid keeping the process alive
+    this.queryTimer = setInterval(() => this.query(), this.interval);
+    this.queryTimer.unref();
+  }
+
+  /**
+   * Stop watching and forget all devices; lookups still waiting resolve to null
+   */
+  stop(): void {
+    clearInterval(this.queryTimer);
+    this.queryTimer = undefined;
+    this.browser?.stop();
+    this.browser = null;
+    this.bonjour?.destroy();
+    this.bonjour = null;
+    this.devices.clear();
+    for (const pending of this.pendingLookups) {
+      clearTimeout(pending.timer);
+      pending.resolve(null);
+    }
+    this.pendingLookups.clear();
+  }
+
+  /**
+   * Check whether the watcher is running
+   */
+  isRunning(): boolean {
+    return this.bonjour !== null;
+  }
+
+  /**
+   * Get the last known details of a device
+   *
+   * @param serial - Device serial number
+   */
+  getDevice(serial: string): DiscoveredDevice | undefined {
+    return this.devices.get(serial)?.device;
+  }
+
+  /**
+   * Get the last known details of the device advertising a host name
+   *
+   * Host names compare case-insensitively, with or without the trailing dot.
+   *
+   * @param hostname - Host name, e.g. `DYSON-ABC-AB-12345678-455.local`
+   */
+  getDeviceByHostname(hostname: string): DiscoveredDevice | undefined {
+    const wanted = normalizeHostname(hostname);
+    return this.getDevices().find((device) => normalizeHostname(device.hostname) === wanted);
+  }
+
+  /**
+   * Get the last known details of every device currently on the network
+   */
+  getDevices(): DiscoveredDevice[] {
+    return Array.from(this.devices.values(), (watched) => watched.device);
+  }
+
+  /**
+   * Find a device's current IP address
+   *
+   * Resolves as soon as the device answers the current query, starting a
+   * new query unless one was sent in the last few seconds. Lookups for
+   * several devices at once share a single query.
+   *
+   * @param serial - Device serial number
+   * @param timeout - How long to wait for an answer in milliseconds
+   * @returns The IP address, or null if the device did not answer in time
+   */
+  lookup(serial: string, timeout: number): Promise<string | null> {
+    if (!this.bonjour) {
+      return Promise.resolve(null);
+    }
+
+    const watched = this.devices.get(serial);
+    if (watched && watched.lastSeenAt >= this.lastQueryAt) {
+      return Promise.resolve(watched.device.ipAddress);
+    }
+
+    if (Date.now() - this.lastQueryAt >= MIN_QUERY_GAP) {
+      this.query();
+    }
+
+    return new Promise((resolve) => {
+      const pending: PendingLookup = { serial, resolve };
+      // Unref to avoid keeping the process alive
+      pending.timer = setTimeout(() => {
+        this.pendingLookups.delete(pending);
+        resolve(null);
+      }, timeout);
+      pending.timer.unref();
+      this.pendingLookups.add(pending);
+    });
+  }
+
+  /**
+   * Query the network again with a fresh browser, then expire devices that stopped answering
+   */
+  private query(): void {
+    if (!this.bonjour) {
+      return;
+    }
+
+    const now = Date.now();
+    this.lastQueryAt = now;
+    this.expireDevices(now);
+
+    this.browser?.stop();
+    this.browser = this.bonjour.find({ type: BONJOUR_SERVICE_TYPE });
+    this.browser.on('up', (service: Service) => this.handleUp(service));
+    this.browser.on('down', (service: Service) => this.handleDown(service));
+  }
+
+  /**
+   * Record a device's answer
+   */
+  private handleUp(service: Service): void {
+    const device = parseDysonService(service);
+    if (!device) {
+      return;
+    }
+
+    const previous = this.devices.get(device.serial);
+    this.devices.set(device.serial, { device, lastSeenAt: Date.now() });
+
+    if (!previous) {
+      this.emit('appeared', device);
+    } else if (previous.device.ipAddress !== device.ipAddress) {
+      this.emit('ipChanged', device, previous.device.ipAddress);
+    }
+    for (const pending of this.pendingLookups) {
+      if (pending.serial === device.serial) {
+        clearTimeout(pending.timer);
+        this.pendingLookups.delete(pending);
+        pending.resolve(device.ipAddress);
+      }
+    }
+  }
+
+  /**
+   * Forget a device that said goodbye (goodbye packets carry no address, only the name)
+   */
+  private handleDown(service: Service): void {
+    const serial = extractSerial(service.name);
+    if (serial && this.devices.delete(serial)) {
+      this.emit('disappeared', serial);
+    }
+  }
+
+  /**
+   * Forget devices that left several queries in a row unanswered
+   */
+  private expireDevices(now: number): void {
+    for (const [serial, watched] of this.devices) {
+      if (now - watched.lastSeenAt >= this.interval * MISSED_QUERIES_BEFORE_GONE) {
+        this.devices.delete(serial);
+        this.emit('disappeared', serial);
+      }
+    }
+  }
+}
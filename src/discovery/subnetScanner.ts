@@ -0,0 +1,262 @@
+/**
+ * Subnet Scan Discovery for Dyson Devices
+ * Finds devices that mDNS cannot reach, e.g. on an IoT VLAN that multicast
+ * does not cross, by scanning address ranges for the Dyson MQTT port and
+ * confirming each candidate with a Dyson MQTT login
+ */
+
+import { Socket } from 'net';
+import mqtt from 'mqtt';
+
+import { DYSON_MQTT_PORT } from '../config/index.js';
+import { DysonMqttClient } from '../protocol/mqttClient.js';
+import type { ConnectVariantPreference, MqttConnectFn } from '../protocol/mqttClient.js';
+
+/** Default number of addresses probed at once */
+export const DEFAULT_SCAN_CONCURRENCY = 32;
+
+/** Default time to wait for the MQTT port to accept a connection, in milliseconds */
+export const DEFAULT_PROBE_TIMEOUT = 500;
+
+/** Default time to wait for the MQTT login to be accepted, in milliseconds */
+const DEFAULT_CONFIRM_TIMEOUT = 5000;
+
+/** Most addresses a single scan may cover (a /20) */
+export const MAX_SCAN_ADDRESSES = 4096;
+
+/** CONNACK refusals a Dyson broker answers an anonymous login with */
+const ANONYMOUS_REFUSAL_PATTERNS = [
+  /bad user ?name or password/i,
+  /not authorized/i,
+];
+
+/**
+ * Connect variant used to confirm a login, so each login is sent only once.
+ * The short client ID is accepted by firmware that refuses the default one.
+ */
+const CONFIRM_VARIANT: ConnectVariantPreference = { label: 'short-id', pinned: true };
+
+/**
+ * Options for the subnet scan
+ */
+export interface SubnetScanOptions {
+  /** Addresses probed at once (default: 32) */
+  concurrency?: number;
+  /** Time to wait for the port to accept a connection in milliseconds (default: 500) */
+  probeTimeout?: number;
+  /** Time to wait for the MQTT login in milliseconds (default: 5000) */
+  confirmTimeout?: number;
+  /** Port to scan (default: 1883) */
+  port?: number;
+}
+
+/**
+ * A device to look for, with the login that confirms it
+ */
+export interface ScanTarget {
+  /** Device serial number (MQTT username) */
+  serial: string;
+  /** Local MQTT credentials (MQTT password) */
+  credentials: string;
+  /** Dyson product type code */
+  productType: string;
+}
+
+/** Checks whether a TCP port accepts connections; injectable for testing */
+export type PortProbe = (host: string, port: number, timeout: number) => Promise<boolean>;
+
+/**
+ * Default port probe: open a TCP connection and close it straight away
+ */
+export const probeTcpPort: PortProbe = (host, port, timeout) => new Promise((resolve) => {
+  const socket = new Socket();
+  const finish = (isOpen: boolean): void => {
+    socket.destroy();
+    resolve(isOpen);
+  };
+  socket.setTimeout(timeout);
+  socket.once('connect', () => finish(true));
+  socket.once('timeout', () => finish(false));
+  socket.once('error', () => finish(false));
+  socket.connect(port, host);
+});
+
+/**
+ * Expand an IPv4 CIDR range into its host addresses
+ *
+ * The network and broadcast addresses are left out, except for /31 and /32.
+ * An address without a prefix length is a single host.
+ *
+ * @param cidr - Range such as `192.168.20.0/24`
+ * @returns Host addresses in ascending order
+ * @throws {Error} If the range is not a valid IPv4 CIDR range
+ */
+export function expandCidr(cidr: string): string[] {
+  const match = cidr.trim().match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})(?:\/(\d{1,2}))?$/);
+  const octets = match?.slice(1, 5).map(Number);
+  const prefix = match?.[5] !== undefined ? Number(match[5]) : 32;
+  if (!octets || octets.some((octet) => octet > 255) || prefix > 32) {
+    throw new Error(`Invalid CIDR range: ${cidr}`);
+  }
+
+  const address = octets.reduce((value, octet) => value * 256 + octet, 0);
+  const size = 2 ** (32 - prefix);
+  const network = address - (address % size);
+  const first = prefix < 31 ? network + 1 : network;
+  const last = prefix < 31 ? network + size - 2 : network + size - 1;
+
+  const hosts: string[] = [];
+  for (let value = first; value <= last; value++) {
+    hosts.push([24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.'));
+  }
+  return hosts;
+}
+
+/**
+ * Run a task for every item, at most `limit` at a time
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Subnet scanner for Dyson devices
+ *
+ * Probes every address in the given ranges for an open MQTT port, then
+ * connects to each open port without a login. Only a broker that refuses
+ * the anonymous login, as a Dyson does, is sent the serial and credentials
+ * of the devices still missing, once each. Only the device a login belongs
+ * to accepts it, so an accepted login ties the address to that serial.
+ *
+ * @example
+ * ```typescript
+ * const scanner = new SubnetScanner({ concurrency: 16 });
+ * const devices = await scanner.scan(['192.168.20.0/24'], [{ serial, credentials, productType }]);
+ * // devices is Map<serial, ipAddress>
+ * ```
+ */
+export class SubnetScanner {
+  private readonly concurrency: number;
+  private readonly probeTimeout: number;
+  private readonly confirmTimeout: number;
+  private readonly port: number;
+
+  constructor(
+    options: SubnetScanOptions = {},
+    private readonly probePort: PortProbe = probeTcpPort,
+    private readonly mqttConnect?: MqttConnectFn,
+  ) {
+    this.concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_SCAN_CONCURRENCY));
+    this.probeTimeout = options.probeTimeout ?? DEFAULT_PROBE_TIMEOUT;
+    this.confirmTimeout = options.confirmTimeout ?? DEFAULT_CONFIRM_TIMEOUT;
+    this.port = options.port ?? DYSON_MQTT_PORT;
+  }
+
+  /**
+   * Scan address ranges for the given devices
+   *
+   * @param ranges - IPv4 CIDR ranges to scan
+   * @param targets - Devices to look for
+   * @returns Map of device serial numbers to IP addresses, for the devices found
+   * @throws {Error} If a range is invalid or the ranges cover more than MAX_SCAN_ADDRESSES addresses
+   */
+  async scan(ranges: string[], targets: ScanTarget[]): Promise<Map<string, string>> {
+    const found = new Map<string, string>();
+    if (targets.length === 0) {
+      return found;
+    }
+
+    const addresses = [...new Set(ranges.flatMap(expandCidr))];
+    if (addresses.length > MAX_SCAN_ADDRESSES) {
+      throw new Error(`Subnet scan covers ${addresses.length} addresses, more than the limit of ${MAX_SCAN_ADDRESSES}`);
+    }
+
+    const candidates: string[] = [];
+    await runWithConcurrency(addresses, this.concurrency, async (host) => {
+      if (await this.probePort(host, this.port, this.probeTimeout)) {
+        candidates.push(host);
+      }
+    });
+
+    await runWithConcurrency(candidates, this.concurrency, async (host) => {
+      if (!await this.fingerprint(host)) {
+        return;
+      }
+      for (const target of targets) {
+        if (found.has(target.serial)) {
+          continue;
+        }
+        if (await this.confirm(host, target)) {
+          found.set(target.serial, host);
+          return;
+        }
+      }
+    });
+
+    return found;
+  }
+
+  /**
+   * Check whether the service at `host` looks like a Dyson broker
+   *
+   * Connects without credentials: a Dyson refuses the login at CONNACK,
+   * while an open broker accepts it and other services do not answer.
+   */
+  private fingerprint(host: string): Promise<boolean> {
+    const mqttConnect = this.mqttConnect ?? mqtt.connect;
+    return new Promise((resolve) => {
+      const client = mqttConnect(`mqtt://${host}:${this.port}`, {
+        clientId: `homebridge_scan_${Date.now()}`,
+        clean: true,
+        protocolVersion: 4,
+        connectTimeout: this.confirmTimeout,
+        reconnectPeriod: 0,
+      });
+      const timeoutId = setTimeout(() => finish(false), this.confirmTimeout);
+      function finish(isDyson: boolean): void {
+        clearTimeout(timeoutId);
+        client.removeAllListeners();
+        // Errors while closing are of no interest here
+        client.on('error', () => {});
+        client.end(true);
+        resolve(isDyson);
+      }
+      client.on('connect', () => finish(false));
+      client.on('error', (error: Error) => {
+        finish(ANONYMOUS_REFUSAL_PATTERNS.some((pattern) => pattern.test(error.message)));
+      });
+    });
+  }
+
+  /**
+   * Check whether the broker at `host` accepts the target's login
+   */
+  private async confirm(host: string, target: ScanTarget): Promise<boolean> {
+    const client = new DysonMqttClient({
+      host,
+      serial: target.serial,
+      credentials: target.credentials,
+      productType: target.productType,
+      timeout: this.confirmTimeout,
+      autoReconnect: false,
+      connectVariant: CONFIRM_VARIANT,
+    }, this.mqttConnect);
+    // Errors after the login are of no interest here
+    client.on('error', () => {});
+
+    try {
+      await client.connect();
+      return true;
+    } catch {
+      return false;
+    } finally {
+      await client.disconnect();
+    }
+  }
+}
@@ -87,7 +87,11 @@ export interface MqttConfig {
 export interface ConnectedConfig {
   mqtt: MqttConfig;
   firmware: {
+    /** Installed firmware version */
+    version?: string;
     autoUpdate: boolean;
+    /** Whether new firmware is available */
+    newVersionAvailable?: boolean;
   };
 }
 
@@ -106,6 +110,21 @@ export interface RawDeviceManifestV3 {
   productName: string | null;
 }
 
+/**
+ * Raw IoT credentials response from Dyson Cloud API
+ * Used to connect to the cloud MQTT broker when the LAN is unreachable
+ */
+export interface RawIotCredentialsResponse {
+  Endpoint: string;
+  IoTCredentials: {
+    ClientId: string;
+    CustomAuthorizerName: string;
+    TokenKey: string;
+    TokenSignature: string;
+    TokenValue: string;
+  };
+}
+
 /**
  * User status response from Dyson Cloud API
  */
@@ -122,7 +141,7 @@ export interface CloudApiConfig {
   email: string;
   /** Dyson account password */
   password: string;
-  /** Country code (e.g., 'US', 'GB') */
+  /** Country code (e.g., 'US', 'GB'); also selects the API host (see `getDysonApiBaseUrl`) */
   countryCode?: string;
   /** Request timeout in milliseconds */
   timeout?: number;
@@ -2,7 +2,30 @@ import type { API, Characteristic, DynamicPlatformPlugin, Logging, PlatformAcces
 
 import { DysonPlatformAccessory } from './platformAccessory.js';
 import { PLATFORM_NAME, PLUGIN_NAME } from './config/index.js';
-import { MdnsDiscovery, DEFAULT_DISCOVERY_TIMEOUT } from './discovery/index.js';
+import { MdnsWatcher, SubnetScanner, DEFAULT_DISCOVERY_TIMEOUT } from './discovery/index.js';
+import type { DiscoveredDevice, ScanTarget, SubnetScanOptions } from './discovery/index.js';
+import { UnknownFieldLog, getUnknownFieldsPath } from './protocol/unknownFieldLog.js';
+import { MqttProxy } from './protocol/mqttProxy.js';
+import type { MqttProxyOptions } from './protocol/mqttProxy.js';
+import { resolveHost } from './utils/hostResolver.js';
+
+/**
+ * Local MQTT proxy settings from the platform config
+ */
+interface MqttProxyConfig extends MqttProxyOptions {
+  /** Run the proxy */
+  isEnabled?: boolean;
+}
+
+/**
+ * Subnet scan settings from the platform config
+ */
+interface SubnetScanConfig extends SubnetScanOptions {
+  /** Scan when mDNS does not find every device */
+  isEnabled?: boolean;
+  /** IPv4 CIDR ranges to scan */
+  ranges?: string[];
+}
 
 
 /**
@@ -21,6 +44,15 @@ export class DysonPureCoolPlatform implements DynamicPlatformPlugin {
   // Track platform accessories for clean shutdown
   private readonly platformAccessories: DysonPlatformAccessory[] = [];
 
+  // Unrecognised protocol fields from all devices, summarized in the storage path
+  public readonly unknownFieldLog: UnknownFieldLog;
+
+  // Shares each device's MQTT session with local tools, if enabled
+  public readonly mqttProxy?: MqttProxy;
+
+  // Keeps browsing mDNS so devices follow DHCP address changes; shared by all accessories
+  public readonly mdnsWatcher = new MdnsWatcher();
+
   constructor(
     public readonly log: Logging,
     public readonly config: PlatformConfig,
@@ -28,6 +60,15 @@ export class DysonPureCoolPlatform implements DynamicPlatformPlugin {
   ) {
     this.Service = api.hap.Service;
     this.Characteristic = api.hap.Characteristic;
+    this.unknownFieldLog = new UnknownFieldLog(
+      getUnknownFieldsPath(api.user.storagePath()),
+      (error) => this.log.debug('Failed to write unknown protocol field summary:', error.message),
+    );
+
+    const mqttProxyConfig = this.config.mqttProxy as MqttProxyConfig | undefined;
+    if (mqttProxyConfig?.isEnabled) {
+      this.mqttProxy = new MqttProxy(mqttProxyConfig);
+    }
 
     this.log.debug('Finished initializing platform:', this.config.name);
 
@@ -37,6 +78,8 @@ export class DysonPureCoolPlatform implements DynamicPlatformPlugin {
     // to start discovery of new accessories.
     this.api.on('didFinishLaunching', async () => {
       log.debug('Executed didFinishLaunching callback');
+      await this.startMqttProxy();
+      this.startMdnsWatcher();
       // run the method to discover / register your devices as accessories
       await this.discoverDevices();
     });
@@ -52,10 +95,106 @@ export class DysonPureCoolPlatform implements DynamicPlatformPlugin {
         }
       });
       await Promise.allSettled(disconnectPromises);
+      await this.mqttProxy?.stop();
+      this.mdnsWatcher.stop();
       this.log.info('All devices disconnected');
     });
   }
 
+  /**
+   * Start the local MQTT proxy, if enabled
+   * Devices are still controlled if it fails to start, only local tools cannot share their sessions.
+   */
+  private async startMqttProxy(): Promise<void> {
+    const proxy = this.mqttProxy;
+    if (!proxy) {
+      return;
+    }
+
+    proxy.on('clientConnect', (clientId: string) => this.log.debug(`MQTT proxy client connected: ${clientId}`));
+    proxy.on('clientDisconnect', (clientId: string) => this.log.debug(`MQTT proxy client disconnected: ${clientId}`));
+    proxy.on('denied', (clientId: string, reason: string) => this.log.warn(`MQTT proxy refused ${reason} from ${clientId}`));
+    proxy.on('error', (error: Error) => this.log.error('MQTT proxy error:', error.message));
+
+    try {
+      const port = await proxy.start();
+      this.log.info(`Local MQTT proxy listening on port ${port}`);
+    } catch (error) {
+      this.log.error('Failed to start the local MQTT proxy:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Resolve a device's host name
+   *
+   * Asks the mDNS watcher first, so `.local` names resolve even where the
+   * system resolver does not support mDNS, then the system resolver.
+   *
+   * @param hostname - A `.local` or DNS name
+   * @returns The device's current IP address
+   * @throws {Error} If neither knows the name
+   */
+  resolveHost(hostname: string): Promise<string> {
+    const advertised = this.mdnsWatcher.getDeviceByHostname(hostname);
+    return advertised ? Promise.resolve(advertised.ipAddress) : resolveHost(hostname);
+  }
+
+  /**
+   * Start watching mDNS for devices appearing, disappearing and changing IP address
+   * Each accessory reacts to its own device; the platform only logs.
+   */
+  private startMdnsWatcher(): void {
+    const watcher = this.mdnsWatcher;
+    watcher.on('appeared', (device: DiscoveredDevice) => this.log.debug(`mDNS: ${device.serial} appeared at ${device.ipAddress}`));
+    watcher.on('ipChanged', (device: DiscoveredDevice, previousIp: string) => {
+      this.log.debug(`mDNS: ${device.serial} moved from ${previousIp} to ${device.ipAddress}`);
+    });
+    watcher.on('disappeared', (serial: string) => this.log.debug(`mDNS: ${serial} disappeared`));
+
+    try {
+      watcher.start();
+    } catch (error) {
+      this.log.warn('Failed to start mDNS watcher:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Find devices by scanning the configured subnets, if the subnet scan is enabled
+   * Each open MQTT port is confirmed with the device's own login.
+   *
+   * @returns Map of device serial numbers to IP addresses, for the devices found
+   */
+  private async scanSubnets(devices: Record<string, unknown>[]): Promise<Map<string, string>> {
+    const scanConfig = this.config.subnetScan as SubnetScanConfig | undefined;
+    const ranges = scanConfig?.ranges ?? [];
+    if (!scanConfig?.isEnabled || devices.length === 0) {
+      return new Map();
+    }
+    if (ranges.length === 0) {
+      this.log.warn('Subnet scan is enabled but no ranges are configured');
+      return new Map();
+    }
+
+    const targets: ScanTarget[] = devices.map((d) => ({
+      serial: d.serial as string,
+      credentials: (d.credentials || d.localCredentials || '') as string,
+      productType: d.productType as string,
+    }));
+
+    this.log.info(`Scanning ${ranges.join(', ')} for ${targets.length} device(s) not found via mDNS...`);
+    try {
+      const found = await new SubnetScanner(scanConfig).scan(ranges, targets);
+      this.log.info(`Subnet scan found ${found.size} device(s)`);
+      for (const [serial, ip] of found) {
+        this.log.debug(`Found device ${serial} at ${ip} by subnet scan`);
+      }
+      return found;
+    } catch (error) {
+      this.log.warn('Subnet scan failed:', error instanceof Error ? error.message : String(error));
+      return new Map();
+    }
+  }
+
   /**
    * This function is invoked when homebridge restores cached accessories from disk at startup.
    * It should be used to set up event handlers for characteristics and update respective values.
@@ -84,6 +223,9 @@ export class DysonPureCoolPlatform implements DynamicPlatformPlugin {
     if (merged.isContinuousMonitoringEnabled === undefined && this.config.enableContinuousMonitoring !== undefined) {
       merged.isContinuousMonitoringEnabled = this.config.enableContinuousMonitoring;
     }
+    if (merged.isSleepTimerEnabled === undefined && this.config.enableSleepTimer !== undefined) {
+      merged.isSleepTimerEnabled = this.config.enableSleepTimer;
+    }
     if (merged.isTemperatureIgnored === undefined && this.config.enableTemperature !== undefined) {
       merged.isTemperatureIgnored = !this.config.enableTemperature;
     }
@@ -122,17 +264,22 @@ export class DysonPureCoolPlatform implements DynamicPlatformPlugin {
 
     this.log.info(`Found ${devices.length} device(s) in configuration`);
 
-    // Run mDNS discovery for devices without IP addresses
-    const devicesNeedingIP = devices.filter((d: { ipAddress?: string }) => !d.ipAddress);
-    let discoveredIPs = new Map<string, string>();
+    // Run mDNS discovery for devices without IP addresses; devices with a host name are resolved on connect
+    const devicesNeedingIP = devices.filter((d: { ipAddress?: string; hostname?: string }) => !d.ipAddress && !d.hostname);
+    const discoveredIPs = new Map<string, string>();
 
     if (devicesNeedingIP.length > 0) {
       this.log.info(`Discovering IP addresses for ${devicesNeedingIP.length} device(s) via mDNS...`);
       const timeout = this.config.discoveryTimeout ?? DEFAULT_DISCOVERY_TIMEOUT;
 
       try {
-        const discovery = new MdnsDiscovery();
-        discoveredIPs = await discovery.discover({ timeout });
+        // The watcher's lookups share one query, and stop waiting as soon as every device has answered
+        await Promise.all(devicesNeedingIP.map(async (d: { serial: string }) => {
+          const ip = await this.mdnsWatcher.lookup(d.serial, timeout);
+          if (ip) {
+            discoveredIPs.set(d.serial, ip);
+          }
+        }));
         this.log.info(`mDNS discovery found ${discoveredIPs.size} device(s)`);
 
         // Log discovered devices
@@ -142,6 +289,12 @@ export class DysonPureCoolPlatform implements DynamicPlatformPlugin {
       } catch (error) {
         this.log.warn('mDNS discovery failed:', error);
       }
+
+      // Scan the configured ranges for devices mDNS cannot reach
+      const undiscovered = devicesNeedingIP.filter((d: { serial: string }) => !discoveredIPs.has(d.serial));
+      for (const [serial, ip] of await this.scanSubnets(undiscovered)) {
+        discoveredIPs.set(serial, ip);
+      }
     }
 
     // loop over the configured devices and register each one if it has not already been registered
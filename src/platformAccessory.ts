@@ -12,9 +12,17 @@ import type { DysonPureCoolPlatform } from './platform.js';
 import { createDevice } from './devices/deviceFactory.js';
 import { DysonLinkAccessory } from './accessories/dysonLinkAccessory.js';
 import type { DeviceOptions } from './accessories/dysonLinkAccessory.js';
+import type { OscillationPreset } from './accessories/services/oscillationPresetService.js';
 import type { DysonLinkDevice } from './devices/dysonLinkDevice.js';
-import { getDeviceModelName, isProductTypeSupported } from './config/index.js';
-import { MdnsDiscovery, DEFAULT_DISCOVERY_TIMEOUT } from './discovery/index.js';
+import type { ChangeSource, DeviceState, FilterType, RestorableState, SettingsChange, WaterHardness } from './devices/types.js';
+import { DYSON_MQTT_PORT, getDeviceModelName, isProductTypeSupported } from './config/index.js';
+import { DEFAULT_DISCOVERY_TIMEOUT, probeTcpPort } from './discovery/index.js';
+import type { DiscoveredDevice } from './discovery/index.js';
+import { getRecordingPath } from './protocol/mqttRecorder.js';
+import { findConnectVariantIndex } from './protocol/mqttClient.js';
+import { CloudMqttTransport } from './protocol/mqttTransport.js';
+import type { CloudMqttCredentials } from './protocol/mqttTransport.js';
+import type { ReconnectPolicyConfig, ReconnectStatus } from './utils/reconnectPolicy.js';
 
 /**
  * Device configuration from plugin settings
@@ -30,8 +38,12 @@ interface DeviceConfig {
   credentials?: string;
   /** Local MQTT credentials (from cloud API) */
   localCredentials?: string;
-  /** Device IP address on local network */
+  /** Device IPv4 or IPv6 address on local network */
   ipAddress?: string;
+  /** Host name (`.local` or DNS) resolved on every connect */
+  hostname?: string;
+  /** Firmware version reported by the Dyson cloud */
+  firmwareVersion?: string;
 
   // Optional device settings
   /** Temperature offset in Celsius */
@@ -64,10 +76,91 @@ interface DeviceConfig {
   isJetFocusEnabled?: boolean;
   /** Enable continuous monitoring switch */
   isContinuousMonitoringEnabled?: boolean;
+  /** Enable sleep timer control */
+  isSleepTimerEnabled?: boolean;
+  /** Enable a stateless switch pressed when someone changes the device outside HomeKit */
+  isManualChangeSwitchEnabled?: boolean;
+  /** Oscillation sweep presets */
+  oscillationPresets?: OscillationPreset[];
   /** Disable filter status service */
   isFilterStatusDisabled?: boolean;
   /** Disable humidifier control service */
   isHumidifierDisabled?: boolean;
+  /** Record MQTT traffic to a JSONL file in the storage path */
+  isMqttRecordingEnabled?: boolean;
+  /** Polling interval in seconds while the device is active (enables adaptive polling) */
+  activePollingInterval?: number;
+  /** Polling interval in seconds while the device is off and idle (enables adaptive polling) */
+  idlePollingInterval?: number;
+  /** MQTT connect variant: 'auto' (learn), 'relearn' (forget the learned one), or a variant label to pin */
+  mqttConnectVariant?: string;
+  /** Water hardness to keep the device set to, which sets how often a deep clean is due (PH models) */
+  waterHardness?: WaterHardness;
+  /** Restore power, speed, mode, oscillation and heating target after a power outage */
+  isStateRestoreEnabled?: boolean;
+  /** Connect through the Dyson cloud broker when the device is unreachable on the LAN */
+  isCloudFallbackEnabled?: boolean;
+  /** Cloud MQTT broker credentials (from cloud API) */
+  iotCredentials?: CloudMqttCredentials;
+}
+
+/**
+ * Device settings persisted for restoring after a power outage, kept in the accessory context
+ */
+interface PersistedRestorableState {
+  /** Serial number the settings belong to */
+  serial: string;
+  /** Settings before the connection dropped */
+  state: RestorableState;
+}
+
+/**
+ * When each filter was last reset from HomeKit, kept in the accessory context
+ */
+interface PersistedFilterResets {
+  /** Serial number the resets belong to */
+  serial: string;
+  /** ISO timestamp of the last reset per filter type */
+  resets: Partial<Record<FilterType, string>>;
+}
+
+/**
+ * MQTT connect variant learned for a device, kept in the accessory context
+ */
+interface LearnedConnectVariant {
+  /** Serial number the variant was learned for */
+  serial: string;
+  /** Firmware version the variant was learned on */
+  firmwareVersion?: string;
+  /** Variant label from MQTT_CONNECT_VARIANTS */
+  label: string;
+}
+
+/**
+ * Change sources as written in the log
+ */
+const CHANGE_SOURCE_NAMES: Record<ChangeSource, string> = {
+  'local-app': 'local app',
+  'cloud-app': 'Dyson app',
+  device: 'device buttons',
+  remote: 'remote control',
+  unknown: 'unknown source',
+};
+
+/**
+ * Filter types as written in the log
+ */
+const FILTER_TYPE_NAMES: Record<FilterType, string> = {
+  hepa: 'HEPA',
+  carbon: 'Carbon',
+};
+
+/**
+ * Write a retry delay for the log, e.g. `8s` or `5 min`
+ */
+function formatDelay(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
 }
 
 /**
@@ -82,11 +175,29 @@ export class DysonPlatformAccessory {
   private device?: DysonLinkDevice;
   private accessoryHandler?: DysonLinkAccessory;
 
-  /** Retry interval when device is offline (5 minutes) */
-  private static readonly OFFLINE_RETRY_MS = 5 * 60 * 1000;
+  /** Polling interval defaults in seconds, matching the config schema */
+  private static readonly DEFAULT_POLLING_SECONDS = 60;
+  private static readonly MAX_POLLING_SECONDS = 300;
+
+  /** Timer for the next connect attempt or probe while the device is offline */
   private offlineRetryTimer?: NodeJS.Timeout;
   private isIntentionalDisconnect = false;
 
+  /** Connect attempt in progress, joined by anyone else asking to connect */
+  private connecting?: Promise<void>;
+
+  /** Follows the device on the shared mDNS watcher */
+  private readonly boundHandleDeviceAdvertised = this.handleDeviceAdvertised.bind(this);
+
+  /** Consecutive failed local connects before falling back to the cloud broker */
+  private static readonly CLOUD_FALLBACK_AFTER_FAILURES = 2;
+  private localConnectFailures = 0;
+
+  /** How often a device on the cloud broker is checked for being back on the LAN */
+  private static readonly LOCAL_PROBE_INTERVAL_MS = 5 * 60 * 1000;
+  private static readonly LOCAL_PROBE_TIMEOUT_MS = 3000;
+  private localProbeTimer?: NodeJS.Timeout;
+
   constructor(
     private readonly platform: DysonPureCoolPlatform,
     private readonly accessory: PlatformAccessory,
@@ -156,8 +267,13 @@ export class DysonPlatformAccessory {
         name: config.name || `Dyson ${config.serial}`,
         credentials: this.getCredentials(config),
         ipAddress: config.ipAddress,
+        hostname: config.hostname,
+        firmwareVersion: config.firmwareVersion,
       }) as DysonLinkDevice;
 
+      // Resolve the host name through the mDNS watcher before the system resolver
+      this.device.setHostResolver((hostname) => this.platform.resolveHost(hostname));
+
       // Create the accessory handler
       this.accessoryHandler = new DysonLinkAccessory({
         accessory: this.accessory,
@@ -167,20 +283,51 @@ export class DysonPlatformAccessory {
         options: this.extractDeviceOptions(config),
       });
 
-      // Apply polling interval from config if set
-      const pollingInterval = this.platform.config.pollingInterval as number | undefined;
-      if (pollingInterval) {
-        this.device.setPollingInterval(pollingInterval);
-      }
+      // Apply polling, stale detection and offline queue settings from config
+      this.applyConnectionSettings(config);
+
+      // Record MQTT traffic if enabled for this device
+      this.applyMqttRecording(config);
+
+      // Start from the learned (or pinned) MQTT connect variant
+      this.applyConnectVariant(config);
+
+      // Learn the connect variant again for the firmware the device reports
+      this.attachFirmwareListener(config);
+
+      // Restore the previous settings if the device comes back from a power outage without them
+      this.applyStateRestore(config);
+
+      // Keep the configured water hardness on Humidify+Cool models
+      this.applyWaterHardness(config);
 
       // Listen for MQTT reconnection exhaustion (device went offline mid-session)
       this.attachDeviceErrorListener();
 
-      // Connect to the device if IP address is available
-      if (config.ipAddress) {
+      // Log where the device is in the reconnection cycle
+      this.attachReconnectPhaseListener();
+
+      // Collect protocol fields the catalog does not decode yet
+      this.attachUnknownFieldListener();
+
+      // Log who changed the settings
+      this.attachSettingsChangeListener();
+
+      // Track filter resets per filter type
+      this.attachFilterResetListener();
+
+      // Share the device's MQTT session with local tools through the proxy, if enabled
+      this.platform.mqttProxy?.addDevice(this.device);
+
+      // Follow the device to a new IP address, and connect as soon as it is seen
+      this.platform.mdnsWatcher.on('appeared', this.boundHandleDeviceAdvertised);
+      this.platform.mdnsWatcher.on('ipChanged', this.boundHandleDeviceAdvertised);
+
+      // Connect to the device if an IP address or host name is available
+      if (config.ipAddress || config.hostname) {
         this.connectDevice();
       } else {
-        this.log.warn(`Device ${config.serial} has no IP address configured. Device discovery may be needed.`);
+        this.log.warn(`Device ${config.serial} has no IP address configured. Waiting for it to appear on mDNS.`);
       }
 
     } catch (error) {
@@ -191,28 +338,378 @@ export class DysonPlatformAccessory {
   /** mDNS discovery timeout for IP refresh */
   private static readonly MDNS_TIMEOUT = DEFAULT_DISCOVERY_TIMEOUT;
 
+  /**
+   * Point the device's MQTT recorder at the storage path when recording is enabled
+   */
+  private applyMqttRecording(config: DeviceConfig): void {
+    if (!config.isMqttRecordingEnabled || !this.device) {
+      return;
+    }
+    const recordPath = getRecordingPath(this.platform.api.user.storagePath(), config.serial);
+    this.device.setMqttRecordPath(recordPath);
+    this.log.info(`Recording MQTT traffic for ${config.serial} to ${recordPath}`);
+  }
+
+  /**
+   * Tell the device which MQTT connect variant to use
+   *
+   * A variant label in `mqttConnectVariant` is pinned. Otherwise the variant
+   * learned on a previous start is tried first, as long as it was learned
+   * on the same firmware; after a firmware change it is forgotten and the
+   * whole ladder is tried again. `relearn` forgets it once: a marker in the
+   * context keeps later starts with the same setting from forgetting the
+   * newly learned variant, and is cleared when the setting changes.
+   */
+  private applyConnectVariant(config: DeviceConfig): void {
+    if (!this.device) {
+      return;
+    }
+
+    const context = this.accessory.context;
+    const setting = config.mqttConnectVariant ?? 'auto';
+    const isPinned = this.isConnectVariantPinned(config);
+    if (!isPinned && setting !== 'auto' && setting !== 'relearn') {
+      this.log.warn(`[${config.serial}] Unknown MQTT connect variant '${setting}' — using automatic selection`);
+    }
+
+    let isContextChanged = false;
+    if (setting !== 'relearn' && context.connectVariantRelearned) {
+      delete context.connectVariantRelearned;
+      isContextChanged = true;
+    }
+
+    this.device.setConnectVariant(undefined);
+    const learned = context.connectVariant as LearnedConnectVariant | undefined;
+
+    if (isPinned) {
+      this.device.setConnectVariant({ label: setting, pinned: true });
+      this.log.info(`[${config.serial}] Using pinned MQTT connect variant '${setting}'`);
+    } else if (setting === 'relearn' && !context.connectVariantRelearned) {
+      if (learned) {
+        this.log.info(`[${config.serial}] Forgetting learned MQTT connect variant '${learned.label}'`);
+        delete context.connectVariant;
+      }
+      context.connectVariantRelearned = true;
+      isContextChanged = true;
+    } else if (learned) {
+      if (learned.serial !== config.serial || learned.firmwareVersion !== this.getKnownFirmwareVersion(config)) {
+        this.log.info(
+          `[${config.serial}] Firmware changed since MQTT connect variant '${learned.label}' was learned — ` +
+          'trying all variants again',
+        );
+        delete context.connectVariant;
+        isContextChanged = true;
+      } else {
+        this.device.setConnectVariant({ label: learned.label });
+        this.log.debug(`[${config.serial}] Starting from learned MQTT connect variant '${learned.label}'`);
+      }
+    }
+
+    if (isContextChanged) {
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+    }
+  }
+
+  /**
+   * Store the variant that produced the active connection for the next start
+   */
+  private rememberConnectVariant(config: DeviceConfig): void {
+    const variant = this.device?.getActiveVariant();
+    if (!variant || this.isConnectVariantPinned(config)) {
+      return;
+    }
+
+    const firmwareVersion = this.getKnownFirmwareVersion(config);
+    const learned = this.accessory.context.connectVariant as LearnedConnectVariant | undefined;
+    if (learned?.serial === config.serial &&
+        learned.label === variant.label &&
+        learned.firmwareVersion === firmwareVersion) {
+      return;
+    }
+
+    const remembered: LearnedConnectVariant = { serial: config.serial, firmwareVersion, label: variant.label };
+    this.accessory.context.connectVariant = remembered;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  /**
+   * Store the learned variant again once the device reports its firmware
+   *
+   * The variant is keyed on the firmware known at connect time, which is
+   * unknown on the first start; without this the first report would make
+   * the next start learn the variant again.
+   */
+  private attachFirmwareListener(config: DeviceConfig): void {
+    const device = this.device;
+    if (!device) {
+      return;
+    }
+    device.on('stateChange', (state: DeviceState) => {
+      const learned = this.accessory.context.connectVariant as LearnedConnectVariant | undefined;
+      if (state.firmwareVersion && learned && learned.firmwareVersion !== state.firmwareVersion) {
+        this.rememberConnectVariant(config);
+      }
+    });
+  }
+
+  /**
+   * Enable restoring settings after a power outage when configured
+   *
+   * The settings are persisted in the accessory context whenever they
+   * change, so they survive a Homebridge restart caused by the same outage.
+   */
+  private applyStateRestore(config: DeviceConfig): void {
+    const device = this.device;
+    if (!device) {
+      return;
+    }
+    if (!config.isStateRestoreEnabled) {
+      if (this.accessory.context.restorableState) {
+        delete this.accessory.context.restorableState;
+        this.platform.api.updatePlatformAccessories([this.accessory]);
+      }
+      return;
+    }
+
+    const persisted = this.accessory.context.restorableState as PersistedRestorableState | undefined;
+    device.enableStateRestore(persisted?.serial === config.serial ? persisted.state : undefined);
+
+    device.on('restorableStateChange', (state: RestorableState) => {
+      const restorable: PersistedRestorableState = { serial: config.serial, state };
+      this.accessory.context.restorableState = restorable;
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+    });
+
+    device.on('reboot', (previous: RestorableState) => {
+      this.log.info(
+        `[${config.serial}] Device came back with different settings, likely after a power outage — ` +
+        `restoring ${previous.isOn ? 'on' : 'off'}, ${previous.autoMode ? 'auto mode' : `speed ${previous.fanSpeed}`}`,
+      );
+    });
+  }
+
+  /**
+   * Set the configured water hardness after every connect
+   *
+   * The first state the device reports after connecting is compared with
+   * `waterHardness`, and the device is updated if it differs. A change made
+   * in the Dyson app therefore lasts until the next reconnect.
+   */
+  private applyWaterHardness(config: DeviceConfig): void {
+    const device = this.device;
+    const hardness = config.waterHardness;
+    if (!device || !hardness || !device.getFeatures().humidifier) {
+      return;
+    }
+
+    let isChecked = false;
+    device.on('connect', () => {
+      isChecked = false;
+    });
+    device.on('stateChange', (state: DeviceState) => {
+      if (isChecked || state.waterHardness === undefined) {
+        return;
+      }
+      isChecked = true;
+      if (state.waterHardness === hardness) {
+        return;
+      }
+      this.log.info(`[${config.serial}] Setting water hardness to ${hardness} (device reported ${state.waterHardness})`);
+      device.setWaterHardness(hardness).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.log.warn(`[${config.serial}] Failed to set water hardness: ${message}`);
+      });
+    });
+  }
+
+  /**
+   * Check whether the config pins a known connect variant
+   */
+  private isConnectVariantPinned(config: DeviceConfig): boolean {
+    return config.mqttConnectVariant !== undefined && findConnectVariantIndex(config.mqttConnectVariant) >= 0;
+  }
+
+  /**
+   * Get the firmware version last reported by the device, else the cloud's
+   */
+  private getKnownFirmwareVersion(config: DeviceConfig): string | undefined {
+    return (this.accessory.context.firmwareVersion as string | undefined) ?? config.firmwareVersion;
+  }
+
+  /**
+   * Apply polling, stale detection and offline queue settings to the device
+   *
+   * The platform `pollingInterval` sets a fixed interval. A device with
+   * `activePollingInterval` or `idlePollingInterval` gets an adaptive policy
+   * instead; the active interval defaults to `pollingInterval` and the idle
+   * interval to the maximum.
+   */
+  private applyConnectionSettings(config: DeviceConfig): void {
+    if (!this.device) {
+      return;
+    }
+
+    const pollingInterval = this.platform.config.pollingInterval as number | undefined;
+    if (pollingInterval) {
+      this.device.setPollingInterval(pollingInterval);
+    }
+
+    if (config.activePollingInterval !== undefined || config.idlePollingInterval !== undefined) {
+      this.device.setPollingPolicy({
+        activeSeconds: config.activePollingInterval ?? pollingInterval ?? DysonPlatformAccessory.DEFAULT_POLLING_SECONDS,
+        idleSeconds: config.idlePollingInterval ?? DysonPlatformAccessory.MAX_POLLING_SECONDS,
+      });
+    }
+
+    const maxMissedReplies = this.platform.config.maxMissedReplies as number | undefined;
+    if (maxMissedReplies !== undefined) {
+      this.device.setStaleThreshold(maxMissedReplies);
+    }
+
+    const offlineCommandTtl = this.platform.config.offlineCommandTtl as number | undefined;
+    if (offlineCommandTtl) {
+      this.device.setOfflineQueueTtl(offlineCommandTtl);
+    }
+
+    this.device.setReconnectPolicy(this.getReconnectPolicyConfig());
+  }
+
+  /**
+   * Read the reconnection settings from the platform config
+   *
+   * Delays are configured in seconds and jitter in percent; settings left
+   * out keep the policy defaults.
+   */
+  private getReconnectPolicyConfig(): ReconnectPolicyConfig {
+    const config = this.platform.config;
+    const maxDelay = config.reconnectMaxDelay as number | undefined;
+    const jitter = config.reconnectJitter as number | undefined;
+    const probeInterval = config.offlineProbeInterval as number | undefined;
+    return {
+      maxAttempts: config.reconnectMaxAttempts as number | undefined,
+      maxDelayMs: maxDelay !== undefined ? maxDelay * 1000 : undefined,
+      jitter: jitter !== undefined ? jitter / 100 : undefined,
+      probeIntervalMs: probeInterval !== undefined ? probeInterval * 1000 : undefined,
+    };
+  }
+
   /**
    * Attach a listener on the device's error event to catch MQTT reconnection exhaustion.
-   * When the MQTT client gives up (device went offline mid-session), schedule a periodic retry.
+   * When the MQTT client gives up (device went offline mid-session), the circuit is
+   * open; schedule a probe for when the reconnection policy allows one.
    */
   private attachDeviceErrorListener(): void {
-    if (!this.device) {
+    const device = this.device;
+    if (!device) {
       return;
     }
-    this.device.on('error', (error: Error) => {
+    device.on('error', (error: Error) => {
       if (!this.isIntentionalDisconnect && error.message.includes('Failed to reconnect')) {
         const serial = (this.accessory.context.device as DeviceConfig).serial;
-        this.log.warn(`[${serial}] MQTT reconnection exhausted — device is offline. Will retry in 5 min.`);
-        this.scheduleOfflineRetry();
+        const { nextAttemptAt } = device.getReconnectPolicy().getStatus();
+        const delay = Math.max(0, (nextAttemptAt ?? Date.now()) - Date.now());
+        this.log.warn(`[${serial}] MQTT reconnection exhausted — device is offline. Will probe it in ${formatDelay(delay)}.`);
+        this.scheduleOfflineRetry(delay);
+      }
+    });
+  }
+
+  /**
+   * Log reconnection phase changes at debug level
+   */
+  private attachReconnectPhaseListener(): void {
+    const device = this.device;
+    if (!device) {
+      return;
+    }
+    device.on('reconnectPhase', (status: ReconnectStatus) => {
+      const next = status.nextAttemptAt !== undefined
+        ? `, next attempt in ${formatDelay(status.nextAttemptAt - Date.now())}`
+        : '';
+      this.log.debug(`[${device.getSerial()}] Reconnection ${status.phase} (${status.failures} failure(s)${next})`);
+    });
+  }
+
+  /**
+   * Record unrecognised protocol fields in the platform's summary file,
+   * logging each new one once at debug level
+   */
+  private attachUnknownFieldListener(): void {
+    const device = this.device;
+    if (!device) {
+      return;
+    }
+    device.on('unknownFields', (fields: Record<string, string>) => {
+      const firmwareVersion = device.getFirmwareVersion();
+      const newFields = this.platform.unknownFieldLog.record(device.productType, firmwareVersion, fields);
+      if (newFields.length === 0) {
+        return;
+      }
+      const samples = newFields.map((name) => `${name}=${fields[name]}`).join(', ');
+      this.log.debug(
+        `[${device.getSerial()}] Unrecognised protocol fields from ${getDeviceModelName(device.productType)} ` +
+        `(firmware ${firmwareVersion ?? 'unknown'}): ${samples}`,
+      );
+    });
+  }
+
+  /**
+   * Log who changed the device settings
+   *
+   * Changes made with the Dyson app, the buttons or the remote are logged
+   * at info level; the plugin's own commands and changes the device makes
+   * itself in auto mode only at debug level.
+   */
+  private attachSettingsChangeListener(): void {
+    const device = this.device;
+    if (!device) {
+      return;
+    }
+    device.on('settingsChange', (change: SettingsChange) => {
+      const changes = Object.entries(change.changes).map(([key, value]) => `${key}=${value}`).join(', ');
+      const reason = [change.modeReason, change.stateReason].filter(Boolean).join('/') || 'no reason';
+      const message = `[${device.getSerial()}] Changed by ${CHANGE_SOURCE_NAMES[change.source]} (${reason}): ${changes}`;
+      if (change.isManual) {
+        this.log.info(message);
+      } else {
+        this.log.debug(message);
+      }
+    });
+  }
+
+  /**
+   * Log filter resets and remember when each filter type was last reset
+   *
+   * The device resets all its filters at once, so a reset of either filter
+   * of a model with a separate carbon filter is recorded for both.
+   */
+  private attachFilterResetListener(): void {
+    const device = this.device;
+    if (!device) {
+      return;
+    }
+    device.on('filterReset', (filter: FilterType, resetAt: Date) => {
+      const serial = device.getSerial();
+      const filters: FilterType[] = device.getFeatures().carbonFilter ? ['hepa', 'carbon'] : [filter];
+      const persisted = this.accessory.context.filterResets as PersistedFilterResets | undefined;
+      const resets = { ...(persisted?.serial === serial ? persisted.resets : {}) };
+      for (const resetFilter of filters) {
+        resets[resetFilter] = resetAt.toISOString();
       }
+      const filterResets: PersistedFilterResets = { serial, resets };
+      this.accessory.context.filterResets = filterResets;
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+
+      const names = filters.map((resetFilter) => FILTER_TYPE_NAMES[resetFilter]).join(' and ');
+      this.log.info(`[${serial}] ${names} filter${filters.length > 1 ? 's' : ''} reset at ${resetAt.toISOString()}`);
     });
   }
 
   /**
-   * Schedule a connection retry after OFFLINE_RETRY_MS.
+   * Schedule a connection retry after the delay given by the reconnection policy.
    * Called both after a failed initial connection and after MQTT reconnection exhaustion.
    */
-  private scheduleOfflineRetry(): void {
+  private scheduleOfflineRetry(delay: number): void {
     clearTimeout(this.offlineRetryTimer);
     this.offlineRetryTimer = setTimeout(async () => {
       if (this.isIntentionalDisconnect) {
@@ -221,27 +718,45 @@ export class DysonPlatformAccessory {
       const serial = (this.accessory.context.device as DeviceConfig).serial;
       this.log.info(`[${serial}] Retrying connection to offline device...`);
       await this.connectDevice();
-    }, DysonPlatformAccessory.OFFLINE_RETRY_MS);
+    }, delay);
     this.offlineRetryTimer.unref();
   }
 
   /**
-   * Connect to the Dyson device.
+   * Connect to the Dyson device, or join the attempt already in progress.
+   * The offline retry and the mDNS watcher may both ask to connect at once;
+   * only one attempt runs at a time.
+   */
+  private connectDevice(): Promise<void> {
+    this.connecting ??= this.attemptConnect().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  /**
+   * Make one connect attempt.
    * If connection fails with cached IP, attempts mDNS rediscovery.
-   * If the device is truly offline, schedules a retry every 5 minutes.
+   * If the device is truly offline, schedules a retry with backoff, then
+   * probes it at the policy's probe interval once the circuit is open.
    */
-  private async connectDevice(): Promise<void> {
+  private async attemptConnect(): Promise<void> {
     if (!this.device) {
       return;
     }
 
     clearTimeout(this.offlineRetryTimer);
+    clearTimeout(this.localProbeTimer);
 
     const config = this.accessory.context.device as DeviceConfig;
 
+    // Always try the LAN first; the cloud is only a fallback
+    this.device.setTransport(undefined);
+
     try {
       this.log.debug(`Connecting to device ${this.device.getSerial()}...`);
       await this.device.connect();
+      this.localConnectFailures = 0;
       const variant = this.device.getActiveVariant();
       if (variant && variant.label !== 'default') {
         this.log.info(
@@ -251,47 +766,27 @@ export class DysonPlatformAccessory {
       } else {
         this.log.info(`Connected to ${this.device.getSerial()}`);
       }
+      this.rememberConnectVariant(config);
+      this.rememberResolvedAddress(config);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.log.warn(`Failed to connect to device ${this.device.getSerial()}: ${errorMessage}`);
 
-      // If we had a cached IP, try mDNS rediscovery once
-      if (config.ipAddress) {
+      // If we had a cached IP, try mDNS rediscovery once; a host name was just resolved again
+      if (config.ipAddress && !config.hostname) {
         this.log.info(`Attempting to rediscover IP for ${config.serial} via mDNS...`);
         const newIp = await this.rediscoverDeviceIp(config.serial);
 
         if (newIp && newIp !== config.ipAddress) {
           this.log.info(`Found new IP ${newIp} for ${config.serial} (was ${config.ipAddress}). Retrying connection...`);
 
-          // Recreate device with new IP
-          this.device = createDevice({
-            serial: config.serial,
-            productType: config.productType,
-            name: config.name || `Dyson ${config.serial}`,
-            credentials: this.getCredentials(config),
-            ipAddress: newIp,
-          }) as DysonLinkDevice;
-
-          // Re-attach error listener on the new device instance
-          this.attachDeviceErrorListener();
+          this.device.setIpAddress(newIp);
+          this.rememberIpAddress(config, newIp);
 
           try {
             await this.device.connect();
             this.log.info(`Connected to ${this.device.getSerial()} at new IP ${newIp}`);
-
-            // Persist new IP for future restarts
-            config.ipAddress = newIp;
-            this.accessory.context.device = config;
-
-            // Recreate accessory handler with the new device
-            this.accessoryHandler?.destroy();
-            this.accessoryHandler = new DysonLinkAccessory({
-              accessory: this.accessory,
-              device: this.device,
-              api: this.platform.api,
-              log: this.log,
-              options: this.extractDeviceOptions(config),
-            });
+            this.rememberConnectVariant(config);
             return; // Connected successfully
           } catch (retryError) {
             const retryMsg = retryError instanceof Error ? retryError.message : String(retryError);
@@ -304,25 +799,177 @@ export class DysonPlatformAccessory {
         }
       }
 
+      if (await this.connectViaCloud(config)) {
+        return;
+      }
+
       // Device is unreachable — schedule a retry so it reconnects when powered back on
-      this.log.info(`[${config.serial}] Will retry connection in 5 min`);
-      this.scheduleOfflineRetry();
+      const policy = this.device.getReconnectPolicy();
+      const delay = policy.recordFailure();
+      if (policy.isCircuitOpen()) {
+        this.log.info(
+          `[${config.serial}] Unreachable after ${policy.getFailures()} attempts — will probe it in ${formatDelay(delay)}`,
+        );
+      } else {
+        this.log.info(`[${config.serial}] Will retry connection in ${formatDelay(delay)}`);
+      }
+      this.scheduleOfflineRetry(delay);
     }
   }
 
   /**
-   * Rediscover device IP via mDNS
+   * Connect through the Dyson cloud broker after repeated local failures
+   *
+   * Only used when `isCloudFallbackEnabled` is set and the config holds
+   * IoT credentials. While connected through the cloud, the LAN is probed
+   * periodically and the device moves back as soon as it answers there.
+   *
+   * @returns True if the device is now connected through the cloud
    */
-  private async rediscoverDeviceIp(serial: string): Promise<string | null> {
-    try {
-      const discovery = new MdnsDiscovery();
-      const devices = await discovery.discover({ timeout: DysonPlatformAccessory.MDNS_TIMEOUT });
+  private async connectViaCloud(config: DeviceConfig): Promise<boolean> {
+    this.localConnectFailures++;
+    if (!this.device || !config.isCloudFallbackEnabled) {
+      return false;
+    }
+    if (!config.iotCredentials) {
+      this.log.warn(`[${config.serial}] Cloud fallback is enabled but no IoT credentials are configured`);
+      return false;
+    }
+    if (this.localConnectFailures < DysonPlatformAccessory.CLOUD_FALLBACK_AFTER_FAILURES) {
+      return false;
+    }
 
-      return devices.get(serial) || null;
+    this.log.info(`[${config.serial}] Device unreachable on the LAN — connecting through the Dyson cloud...`);
+    this.device.setTransport(new CloudMqttTransport(config.iotCredentials));
+    try {
+      await this.device.connect();
+      this.log.info(`Connected to ${this.device.getSerial()} through the Dyson cloud`);
+      this.scheduleLocalProbe();
+      return true;
     } catch (error) {
-      this.log.error('mDNS discovery failed:', error);
-      return null;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log.warn(`Failed to connect to ${config.serial} through the Dyson cloud: ${errorMessage}`);
+      this.device.setTransport(undefined);
+      return false;
+    }
+  }
+
+  /**
+   * Check the LAN again after the probe interval while connected through the cloud
+   */
+  private scheduleLocalProbe(): void {
+    clearTimeout(this.localProbeTimer);
+    this.localProbeTimer = setTimeout(async () => {
+      const config = this.accessory.context.device as DeviceConfig;
+      const host = config.ipAddress ?? config.hostname;
+      if (this.isIntentionalDisconnect || this.device?.getTransportName() !== 'cloud' || !host) {
+        return;
+      }
+      if (await probeTcpPort(host, DYSON_MQTT_PORT, DysonPlatformAccessory.LOCAL_PROBE_TIMEOUT_MS)) {
+        await this.returnToLan();
+      } else {
+        this.scheduleLocalProbe();
+      }
+    }, DysonPlatformAccessory.LOCAL_PROBE_INTERVAL_MS);
+    this.localProbeTimer.unref();
+  }
+
+  /**
+   * Move a device connected through the cloud back to its LAN broker
+   *
+   * The failure count is kept, so a LAN connect that fails again goes
+   * straight back to the cloud.
+   */
+  private async returnToLan(): Promise<void> {
+    await this.connecting;
+
+    const device = this.device;
+    if (!device || this.isIntentionalDisconnect || device.getTransportName() !== 'cloud') {
+      return;
+    }
+
+    this.log.info(`[${device.getSerial()}] Device is reachable on the LAN again, leaving the Dyson cloud...`);
+    clearTimeout(this.localProbeTimer);
+    await device.disconnect(true);
+    await this.connectDevice();
+  }
+
+  /**
+   * Rediscover device IP via the shared mDNS watcher
+   * Accessories rediscovering at the same time share one query.
+   */
+  private rediscoverDeviceIp(serial: string): Promise<string | null> {
+    return this.platform.mdnsWatcher.lookup(serial, DysonPlatformAccessory.MDNS_TIMEOUT);
+  }
+
+  /**
+   * Keep the device's current IP address in the accessory context
+   */
+  private rememberIpAddress(config: DeviceConfig, ipAddress: string): void {
+    config.ipAddress = ipAddress;
+    this.accessory.context.device = config;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  /**
+   * Keep the address a host name resolved to, so mDNS reports compare against it
+   */
+  private rememberResolvedAddress(config: DeviceConfig): void {
+    const resolved = this.device?.getIpAddress();
+    if (config.hostname && resolved && resolved !== config.ipAddress) {
+      this.log.debug(`[${config.serial}] ${config.hostname} resolved to ${resolved}`);
+      this.rememberIpAddress(config, resolved);
+    }
+  }
+
+  /**
+   * React to the device answering on mDNS
+   *
+   * A new address (DHCP moved the device, or it had none) is taken over at
+   * once. A device that is back at its old address while the circuit is
+   * open is connected now instead of at the next probe, and one connected
+   * through the cloud moves back to the LAN.
+   */
+  private handleDeviceAdvertised(discovered: DiscoveredDevice): void {
+    const config = this.accessory.context.device as DeviceConfig;
+    if (discovered.serial !== config.serial || !this.device || this.isIntentionalDisconnect) {
+      return;
+    }
+
+    if (discovered.ipAddress !== config.ipAddress) {
+      void this.moveToIpAddress(discovered.ipAddress);
+    } else if (this.device.getTransportName() === 'cloud') {
+      void this.returnToLan();
+    } else if (this.device.getReconnectPolicy().isCircuitOpen()) {
+      this.log.info(`[${config.serial}] Device is back on the network, reconnecting...`);
+      void this.connectDevice();
+    }
+  }
+
+  /**
+   * Reconnect the device at a new IP address
+   */
+  private async moveToIpAddress(ipAddress: string): Promise<void> {
+    // A connect attempt in progress may already be rediscovering the new address
+    await this.connecting;
+
+    const config = this.accessory.context.device as DeviceConfig;
+    const device = this.device;
+    if (!device || this.isIntentionalDisconnect || config.ipAddress === ipAddress) {
+      return;
     }
+
+    this.log.info(
+      `[${config.serial}] Device moved to ${ipAddress}${config.ipAddress ? ` (was ${config.ipAddress})` : ''}, reconnecting...`,
+    );
+    device.setIpAddress(ipAddress);
+    this.rememberIpAddress(config, ipAddress);
+
+    // Stop the MQTT client retrying the old address before connecting to the new one,
+    // keeping commands sent meanwhile for the new connection
+    clearTimeout(this.offlineRetryTimer);
+    await device.disconnect(true);
+    await this.connectDevice();
   }
 
   /**
@@ -345,6 +992,9 @@ export class DysonPlatformAccessory {
       isNightModeEnabled: config.isNightModeEnabled,
       isJetFocusEnabled: config.isJetFocusEnabled,
       isContinuousMonitoringEnabled: config.isContinuousMonitoringEnabled,
+      isSleepTimerEnabled: config.isSleepTimerEnabled,
+      isManualChangeSwitchEnabled: config.isManualChangeSwitchEnabled,
+      oscillationPresets: config.oscillationPresets,
       isFilterStatusDisabled: config.isFilterStatusDisabled,
       isHumidifierDisabled: config.isHumidifierDisabled,
     };
@@ -356,6 +1006,9 @@ export class DysonPlatformAccessory {
   async disconnect(): Promise<void> {
     this.isIntentionalDisconnect = true;
     clearTimeout(this.offlineRetryTimer);
+    clearTimeout(this.localProbeTimer);
+    this.platform.mdnsWatcher.off('appeared', this.boundHandleDeviceAdvertised);
+    this.platform.mdnsWatcher.off('ipChanged', this.boundHandleDeviceAdvertised);
 
     if (this.device) {
       try {
@@ -3,14 +3,30 @@
  * MQTT communication with Dyson devices
  */
 
-export { DysonMqttClient } from './mqttClient.js';
+export { DysonMqttClient, MQTT_CONNECT_VARIANTS, findConnectVariantIndex } from './mqttClient.js';
 export type {
   MqttClientOptions,
   MqttMessage,
   MqttClientEvents,
   MqttConnectFn,
+  ConnectVariant,
+  ConnectVariantPreference,
 } from './mqttClient.js';
 
+export { LocalMqttTransport, CloudMqttTransport, ProxyMqttTransport } from './mqttTransport.js';
+export type { MqttTransport, CloudMqttCredentials, CloudMqttTransportOptions } from './mqttTransport.js';
+export { MqttProxy, matchesTopicFilter, isValidTopicFilter } from './mqttProxy.js';
+export type { MqttProxyOptions, MqttProxyDevice, MqttProxyEvents } from './mqttProxy.js';
+
+export { MqttRecorder, getRecordingPath } from './mqttRecorder.js';
+export type { RecordedMessage } from './mqttRecorder.js';
+
+export { UnknownFieldLog, getUnknownFieldsPath } from './unknownFieldLog.js';
+export type { UnknownField, UnknownFieldSummary } from './unknownFieldLog.js';
+
+export { MqttReplay, parseRecording } from './mqttReplay.js';
+export type { MqttReplayOptions } from './mqttReplay.js';
+
 export { MessageCodec } from './messageCodec.js';
 export {
   FAN_SPEED,
@@ -18,12 +34,17 @@ export {
   TEMPERATURE,
   HEATING_TEMP,
   HUMIDITY,
+  SLEEP_TIMER,
+  DEEP_CLEAN,
+  WATER_HARDNESS,
+  INSTALLED_FILTER_TYPES,
   FILTER,
   FORMAT,
   PROTOCOL,
   PERCENT,
 } from './messageCodec.js';
 export type {
+  OscillationSweep,
   CommandData,
   RawStateData,
   DysonMessage,
@@ -6,7 +6,9 @@
  * All methods are static - no instance state needed.
  */
 
-import type { DeviceState } from '../devices/types.js';
+import type { ChangeSource, DeviceState, InstalledFilterType, WaterHardness } from '../devices/types.js';
+import type { FieldMap, FieldMapping, FilterCapacity } from '../config/deviceCatalog.js';
+import { DEFAULT_FIELD_MAP, DEFAULT_FILTER_CAPACITY, ENVIRONMENTAL_FIELD_NAMES } from '../config/deviceCatalog.js';
 
 // ============================================================================
 // Constants - Exported for shared use across modules
@@ -24,8 +26,15 @@ export const FAN_SPEED = {
 export const OSCILLATION_ANGLE = {
   MIN: 45,
   MAX: 355,
+  /** Sweep widths the device offers as presets */
+  SWEEPS: [45, 90, 180, 350],
+  /** `ancp` value selecting the custom `osal`/`osau` range */
+  CUSTOM: 'CUST',
 } as const;
 
+/** Sweep width preset in degrees */
+export type OscillationSweep = typeof OSCILLATION_ANGLE.SWEEPS[number];
+
 /** Temperature conversion constants */
 export const TEMPERATURE = {
   /** Kelvin to Celsius offset */
@@ -48,14 +57,51 @@ export const HUMIDITY = {
   DEFAULT_MAX: 70,
 } as const;
 
+/** Sleep timer limits (sltm, in minutes) */
+export const SLEEP_TIMER = {
+  MIN_MINUTES: 1,
+  /** Longest timer the device accepts (9 hours) */
+  MAX_MINUTES: 540,
+} as const;
+
+/** Deep clean cycle values (`clcr`) */
+export const DEEP_CLEAN = {
+  /** Cycle running; sent to start one */
+  ACTIVE: 'CLAC',
+  /** No cycle running; sent to cancel one */
+  INACTIVE: 'CLNO',
+  /** Cycle finished */
+  COMPLETE: 'CLCM',
+} as const;
+
+/**
+ * Water hardness values (`wath`), the hours of humidifying between deep cleans
+ */
+export const WATER_HARDNESS: Readonly<Record<WaterHardness, string>> = {
+  soft: '2025',
+  medium: '1350',
+  hard: '0675',
+};
+
 /** Filter life constants */
 export const FILTER = {
-  /** Maximum filter life in hours */
-  MAX_HOURS: 4300,
   /** Percentage divisor for conversion */
   PERCENT_DIVISOR: 100,
+  /** `rstf` value that resets the filter life after a filter change */
+  RESET: 'RSTF',
 } as const;
 
+/**
+ * Fitted filters, by the `hflt`/`cflt` code the device reports
+ */
+export const INSTALLED_FILTER_TYPES: Readonly<Record<string, InstalledFilterType>> = {
+  GHEP: 'hepa',
+  GCOM: 'combined',
+  CARF: 'carbon',
+  SCOF: 'carbon',
+  NONE: 'none',
+};
+
 /** Protocol string formatting */
 export const FORMAT = {
   /** Padding length for numeric values */
@@ -71,6 +117,8 @@ export const PROTOCOL = {
   AUTO: 'AUTO',
   FAN: 'FAN',
   HEAT: 'HEAT',
+  /** Sensor reading while the sensor warms up */
+  INIT: 'INIT',
 } as const;
 
 /** HomeKit percentage range */
@@ -127,6 +175,9 @@ export interface RawStateData {
   oson?: string | [string, string];
   oscs?: string | [string, string];
   osce?: string | [string, string];
+  osal?: string | [string, string];
+  osau?: string | [string, string];
+  ancp?: string | [string, string];
   nmod?: string | [string, string];
   rhtm?: string | [string, string];
   ffoc?: string | [string, string];
@@ -135,6 +186,10 @@ export interface RawStateData {
   hsta?: string | [string, string];
   hume?: string | [string, string];
   humt?: string | [string, string];
+  wath?: string | [string, string];
+  clcr?: string | [string, string];
+  cdrr?: string | [string, string];
+  cltr?: string | [string, string];
   tact?: string | [string, string];
   hact?: string | [string, string];
   p25r?: string | [string, string];
@@ -151,9 +206,32 @@ export interface RawStateData {
   filf?: string | [string, string];
   fltf?: string | [string, string];
   cflr?: string | [string, string];
+  hflt?: string | [string, string];
+  cflt?: string | [string, string];
   [key: string]: string | [string, string] | undefined;
 }
 
+/** Fault groups reported in CURRENT-FAULTS messages */
+const FAULT_GROUPS = ['product-errors', 'product-warnings', 'module-errors', 'module-warnings'] as const;
+
+/** Fault values meaning "no fault" */
+const FAULT_CLEAR_VALUES: readonly string[] = ['OK', 'NONE'];
+
+/** Keys that carry the firmware version in software topic messages */
+const FIRMWARE_VERSION_KEYS = ['version', 'software-version', 'firmware-version'] as const;
+
+/**
+ * Who made a change, by the `mode-reason` code the device reports with it
+ *
+ * LAPP is the local MQTT API, which includes this plugin's own commands.
+ */
+const CHANGE_SOURCE_BY_MODE_REASON: Readonly<Record<string, ChangeSource>> = {
+  LAPP: 'local-app',
+  RAPP: 'cloud-app',
+  PUI: 'device',
+  IRC: 'remote',
+};
+
 /**
  * Dyson protocol message structure
  */
@@ -161,6 +239,7 @@ export interface DysonMessage {
   msg: string;
   time?: string;
   'mode-reason'?: string;
+  'state-reason'?: string;
   data?: RawStateData;
   'product-state'?: RawStateData;
 }
@@ -285,264 +364,250 @@ export class MessageCodec {
   /**
    * Parse raw state data into DeviceState
    * Handles both CURRENT-STATE (direct values) and STATE-CHANGE ([old, new] arrays)
+   *
+   * @param raw - Raw product state
+   * @param fieldMap - Fields the model reports (default: every known field)
+   * @param filterCapacity - Life of a new filter, for filter life reported in percent
    */
-  static parseRawState(raw: RawStateData): Partial<DeviceState> {
+  static parseRawState(
+    raw: RawStateData,
+    fieldMap: FieldMap = DEFAULT_FIELD_MAP,
+    filterCapacity: FilterCapacity = DEFAULT_FILTER_CAPACITY,
+  ): Partial<DeviceState> {
     const state: Partial<DeviceState> = {};
-
-    // Fan power
-    const fpwr = MessageCodec.extractValue(raw.fpwr);
-    if (fpwr !== undefined) {
-      state.isOn = fpwr === PROTOCOL.ON;
-    }
-
-    // Fan speed
-    const fnsp = MessageCodec.extractValue(raw.fnsp);
-    if (fnsp !== undefined) {
-      const { speed } = MessageCodec.decodeFanSpeed(fnsp);
-      state.fanSpeed = speed;
-    }
-
-    // Fan mode (also indicates power and auto mode)
-    const fmod = MessageCodec.extractValue(raw.fmod);
-    if (fmod !== undefined) {
-      if (fmod === PROTOCOL.OFF) {
-        state.isOn = false;
-        state.autoMode = false;
-      } else if (fmod === PROTOCOL.AUTO) {
-        state.isOn = true;
-        state.autoMode = true;
-      } else if (fmod === PROTOCOL.FAN) {
-        state.isOn = true;
-        state.autoMode = false;
-      }
-    }
-
-    // Auto mode field (some devices send this separately from fmod)
-    const auto = MessageCodec.extractValue(raw.auto);
-    if (auto !== undefined) {
-      state.autoMode = auto === PROTOCOL.ON;
-    }
-
-    // Oscillation
-    const oson = MessageCodec.extractValue(raw.oson);
-    if (oson !== undefined) {
-      state.oscillation = oson === PROTOCOL.ON;
-    }
-
-    // Oscillation angles
-    const oscs = MessageCodec.extractValue(raw.oscs);
-    if (oscs !== undefined) {
-      state.oscillationAngleStart = parseInt(oscs, 10);
-    }
-    const osce = MessageCodec.extractValue(raw.osce);
-    if (osce !== undefined) {
-      state.oscillationAngleEnd = parseInt(osce, 10);
-    }
-
-    // Night mode
-    const nmod = MessageCodec.extractValue(raw.nmod);
-    if (nmod !== undefined) {
-      state.nightMode = nmod === PROTOCOL.ON;
-    }
-
-    // Continuous monitoring
-    const rhtm = MessageCodec.extractValue(raw.rhtm);
-    if (rhtm !== undefined) {
-      state.continuousMonitoring = rhtm === PROTOCOL.ON;
-    }
-
-    // Front airflow
-    const ffoc = MessageCodec.extractValue(raw.ffoc);
-    if (ffoc !== undefined) {
-      state.frontAirflow = ffoc === PROTOCOL.ON;
-    }
-
-    // Environmental sensor data
-    MessageCodec.parseEnvironmentalData(raw, state);
-
-    // Filter status
-    MessageCodec.parseFilterData(raw, state);
-
-    // Heating (HP models)
-    MessageCodec.parseHeatingData(raw, state);
-
-    // Humidifier (PH models)
-    MessageCodec.parseHumidifierData(raw, state);
-
-    // Link series specific fields
-    MessageCodec.parseLinkSeriesData(raw, state);
-
+    MessageCodec.decodeFields(raw, state, fieldMap, filterCapacity, () => true);
     return state;
   }
 
   /**
    * Parse environmental sensor data from raw state
+   *
+   * Only decodes the fields sent in ENVIRONMENTAL-CURRENT-SENSOR-DATA
+   * messages (temperature, humidity, air quality and sleep timer).
+   *
+   * @param raw - Raw sensor data
+   * @param state - State to decode into
+   * @param fieldMap - Fields the model reports (default: every known field)
    */
-  static parseEnvironmentalData(raw: RawStateData, state: Partial<DeviceState>): void {
-    // Temperature (Kelvin * 10)
-    const tact = MessageCodec.extractValue(raw.tact);
-    if (tact !== undefined && tact !== PROTOCOL.OFF) {
-      const value = parseInt(tact, 10);
-      if (!isNaN(value)) {
-        state.temperature = value;
-      }
-    }
-
-    // Humidity percentage
-    const hact = MessageCodec.extractValue(raw.hact);
-    if (hact !== undefined && hact !== PROTOCOL.OFF) {
-      const value = parseInt(hact, 10);
-      if (!isNaN(value)) {
-        state.humidity = value;
-      }
-    }
+  static parseEnvironmentalData(
+    raw: RawStateData,
+    state: Partial<DeviceState>,
+    fieldMap: FieldMap = DEFAULT_FIELD_MAP,
+  ): void {
+    MessageCodec.decodeFields(
+      raw,
+      state,
+      fieldMap,
+      DEFAULT_FILTER_CAPACITY,
+      (field) => ENVIRONMENTAL_FIELD_NAMES.has(field),
+    );
+  }
 
-    // PM2.5 - newer models use p25r, older Link models use pact
-    const p25r = MessageCodec.extractValue(raw.p25r);
-    if (p25r !== undefined && p25r !== 'INIT' && p25r !== PROTOCOL.OFF) {
-      const value = parseInt(p25r, 10);
-      if (!isNaN(value)) {
-        state.pm25 = value;
-      }
-    }
-    const p10r = MessageCodec.extractValue(raw.p10r);
-    if (p10r !== undefined && p10r !== 'INIT' && p10r !== PROTOCOL.OFF) {
-      const value = parseInt(p10r, 10);
-      if (!isNaN(value)) {
-        state.pm10 = value;
-      }
-    }
-    const pact = MessageCodec.extractValue(raw.pact);
-    if (pact !== undefined && pact !== 'INIT' && pact !== PROTOCOL.OFF) {
-      const value = parseInt(pact, 10);
-      if (!isNaN(value)) {
-        state.pm25 = value;
-      }
-    }
-    // VOC - va10 for advanced, vact for basic
-    const va10 = MessageCodec.extractValue(raw.va10);
-    if (va10 !== undefined && va10 !== 'INIT' && va10 !== PROTOCOL.OFF) {
-      const value = parseInt(va10, 10);
-      if (!isNaN(value)) {
-        state.vocIndex = value;
-      }
-    }
-    const vact = MessageCodec.extractValue(raw.vact);
-    if (vact !== undefined && vact !== 'INIT' && vact !== PROTOCOL.OFF) {
-      const value = parseInt(vact, 10);
-      if (!isNaN(value)) {
-        state.vocIndex = value;
-      }
-    }
-    // NO2 index
-    const noxl = MessageCodec.extractValue(raw.noxl);
-    if (noxl !== undefined && noxl !== 'INIT' && noxl !== PROTOCOL.OFF) {
-      const value = parseInt(noxl, 10);
-      if (!isNaN(value)) {
-        state.no2Index = value;
+  /**
+   * Find the fields in raw state that the field map does not decode
+   *
+   * @param raw - Raw product state or sensor data
+   * @param fieldMap - Fields the model reports (default: every known field)
+   * @returns Unrecognised field names with their current value as a sample
+   */
+  static findUnknownFields(raw: RawStateData, fieldMap: FieldMap = DEFAULT_FIELD_MAP): Record<string, string> {
+    const unknown: Record<string, string> = {};
+    for (const [field, value] of Object.entries(raw)) {
+      if (fieldMap[field]) {
+        continue;
       }
-    }
-    // Formaldehyde (HCHO) level
-    const hchr = MessageCodec.extractValue(raw.hchr);
-    if (hchr !== undefined && hchr !== 'INIT' && hchr !== PROTOCOL.OFF) {
-      const value = parseInt(hchr, 10);
-      if (!isNaN(value)) {
-        state.formaldehydeLevel = value;
+      // Unknown fields are not guaranteed to hold strings
+      const sample: unknown = MessageCodec.extractValue(value);
+      if (sample !== undefined) {
+        unknown[field] = typeof sample === 'string' ? sample : JSON.stringify(sample);
       }
     }
+    return unknown;
+  }
 
-    // Sleep timer
-    const sltm = MessageCodec.extractValue(raw.sltm);
-    if (sltm !== undefined) {
-      if (sltm === PROTOCOL.OFF) {
-        state.sleepTimer = 0;
-      } else {
-        const value = parseInt(sltm, 10);
-        if (!isNaN(value)) {
-          state.sleepTimer = value;
-        }
-      }
-    }
+  /**
+   * Map a `mode-reason` code to the source of the change
+   *
+   * @param modeReason - Code from the message, e.g. 'RAPP' or 'PUI'
+   * @returns The change source, or 'unknown' for missing or unrecognised codes
+   */
+  static parseChangeSource(modeReason: string | undefined): ChangeSource {
+    return (modeReason !== undefined && CHANGE_SOURCE_BY_MODE_REASON[modeReason]) || 'unknown';
   }
 
   /**
-   * Parse filter status from raw state
+   * Parse a CURRENT-FAULTS message into the list of failing codes
+   *
+   * Each fault group maps codes to a status such as `OK` or `FAIL`. Any
+   * status other than `OK`/`NONE` marks the code as active.
+   *
+   * @param data - CURRENT-FAULTS message
+   * @returns Active fault codes, sorted for stable comparison
    */
-  private static parseFilterData(raw: RawStateData, state: Partial<DeviceState>): void {
-    const filf = MessageCodec.extractValue(raw.filf);
-    if (filf !== undefined) {
-      state.hepaFilterLife = parseInt(filf, 10);
-    }
-    const fltf = MessageCodec.extractValue(raw.fltf);
-    if (fltf !== undefined) {
-      const percent = parseInt(fltf, 10);
-      state.hepaFilterLife = Math.round((percent / FILTER.PERCENT_DIVISOR) * FILTER.MAX_HOURS);
-    }
-    const cflr = MessageCodec.extractValue(raw.cflr);
-    if (cflr !== undefined) {
-      const percent = parseInt(cflr, 10);
-      state.carbonFilterLife = Math.round((percent / FILTER.PERCENT_DIVISOR) * FILTER.MAX_HOURS);
+  static parseFaults(data: Record<string, unknown>): string[] {
+    const faults = new Set<string>();
+
+    for (const group of FAULT_GROUPS) {
+      const entries = data[group];
+      if (!entries || typeof entries !== 'object') {
+        continue;
+      }
+      for (const [code, value] of Object.entries(entries as Record<string, string | [string, string]>)) {
+        const status = MessageCodec.extractValue(value);
+        if (status !== undefined && !FAULT_CLEAR_VALUES.includes(status)) {
+          faults.add(code);
+        }
+      }
     }
+
+    return Array.from(faults).sort();
   }
 
   /**
-   * Parse heating data from raw state (HP models)
+   * Parse the firmware version from a software topic message
+   *
+   * Firmware differs in where it puts the version: at the top level or
+   * nested under `data`, and under a few different key names.
+   *
+   * @param data - Software topic message
+   * @returns Firmware version, or undefined if the message has none
    */
-  private static parseHeatingData(raw: RawStateData, state: Partial<DeviceState>): void {
-    const hmod = MessageCodec.extractValue(raw.hmod);
-    if (hmod !== undefined) {
-      state.heatingEnabled = hmod === PROTOCOL.HEAT;
-    }
-    const hmax = MessageCodec.extractValue(raw.hmax);
-    if (hmax !== undefined) {
-      state.targetTemperature = parseInt(hmax, 10);
-    }
-    const hsta = MessageCodec.extractValue(raw.hsta);
-    if (hsta !== undefined) {
-      state.heatingActive = hsta === PROTOCOL.ON;
+  static parseFirmwareVersion(data: Record<string, unknown>): string | undefined {
+    const sources = [data, data.data as Record<string, unknown> | undefined];
+
+    for (const source of sources) {
+      if (!source || typeof source !== 'object') {
+        continue;
+      }
+      for (const key of FIRMWARE_VERSION_KEYS) {
+        const version = MessageCodec.extractValue(source[key] as string | [string, string] | undefined);
+        if (version) {
+          return version.trim();
+        }
+      }
     }
+
+    return undefined;
   }
 
   /**
-   * Parse humidifier data from raw state (PH models)
+   * Decode every mapped field present in the raw state, in map order
    */
-  private static parseHumidifierData(raw: RawStateData, state: Partial<DeviceState>): void {
-    const hume = MessageCodec.extractValue(raw.hume);
-    if (hume !== undefined) {
-      state.humidifierEnabled = hume === PROTOCOL.ON || hume === PROTOCOL.AUTO;
-    }
-    const humt = MessageCodec.extractValue(raw.humt);
-    if (humt !== undefined) {
-      state.targetHumidity = parseInt(humt, 10);
+  private static decodeFields(
+    raw: RawStateData,
+    state: Partial<DeviceState>,
+    fieldMap: FieldMap,
+    filterCapacity: FilterCapacity,
+    include: (field: string) => boolean,
+  ): void {
+    for (const [field, mapping] of Object.entries(fieldMap)) {
+      if (!include(field)) {
+        continue;
+      }
+      const value = MessageCodec.extractValue(raw[field]);
+      if (value !== undefined) {
+        MessageCodec.decodeField(value, mapping, state, filterCapacity);
+      }
     }
   }
 
   /**
-   * Parse Link series specific fields
+   * Decode a single field value into state
    */
-  private static parseLinkSeriesData(raw: RawStateData, state: Partial<DeviceState>): void {
-    const fnst = MessageCodec.extractValue(raw.fnst);
-    if (fnst !== undefined) {
-      state.fanState = fnst === PROTOCOL.ON;
-    }
-    const qtar = MessageCodec.extractValue(raw.qtar);
-    if (qtar !== undefined) {
-      const value = parseInt(qtar, 10);
-      if (!isNaN(value)) {
-        state.airQualityTarget = value;
+  private static decodeField(
+    value: string,
+    mapping: FieldMapping,
+    state: Partial<DeviceState>,
+    filterCapacity: FilterCapacity,
+  ): void {
+    const target = state as Record<string, unknown>;
+
+    switch (mapping.decode) {
+      case 'onOff':
+        target[mapping.state] = value === PROTOCOL.ON;
+        break;
+      case 'integer': {
+        if (value === PROTOCOL.OFF || value === PROTOCOL.INIT) {
+          break;
+        }
+        const parsed = parseInt(value, 10);
+        if (!isNaN(parsed)) {
+          target[mapping.state] = parsed;
+        }
+        break;
+      }
+      case 'text':
+        target[mapping.state] = value;
+        break;
+      case 'fanSpeed':
+        target[mapping.state] = MessageCodec.decodeFanSpeed(value).speed;
+        break;
+      case 'fanMode':
+        // Legacy fan mode also indicates power and auto mode
+        if (value === PROTOCOL.OFF) {
+          target[mapping.state] = false;
+          state.autoMode = false;
+        } else if (value === PROTOCOL.AUTO) {
+          target[mapping.state] = true;
+          state.autoMode = true;
+        } else if (value === PROTOCOL.FAN) {
+          target[mapping.state] = true;
+          state.autoMode = false;
+        }
+        break;
+      case 'sweepPreset': {
+        if (value === OSCILLATION_ANGLE.CUSTOM) {
+          target[mapping.state] = 0;
+          break;
+        }
+        const parsed = parseInt(value, 10);
+        if (!isNaN(parsed)) {
+          target[mapping.state] = parsed;
+        }
+        break;
+      }
+      case 'heatMode':
+        target[mapping.state] = value === PROTOCOL.HEAT;
+        break;
+      case 'humidifierMode':
+        target[mapping.state] = value === PROTOCOL.ON || value === PROTOCOL.AUTO;
+        break;
+      case 'cleanCycle':
+        target[mapping.state] = value === DEEP_CLEAN.ACTIVE;
+        break;
+      case 'waterHardness': {
+        const hardness = (Object.keys(WATER_HARDNESS) as WaterHardness[])
+          .find((key) => WATER_HARDNESS[key] === value);
+        if (hardness) {
+          target[mapping.state] = hardness;
+        }
+        break;
+      }
+      case 'filterPercent': {
+        const percent = parseInt(value, 10);
+        if (!isNaN(percent)) {
+          const capacity = mapping.state === 'carbonFilterLife' ? filterCapacity.carbon : filterCapacity.hepa;
+          target[mapping.state] = Math.round((percent / FILTER.PERCENT_DIVISOR) * capacity);
+        }
+        break;
+      }
+      case 'filterType': {
+        if (Object.hasOwn(INSTALLED_FILTER_TYPES, value)) {
+          target[mapping.state] = INSTALLED_FILTER_TYPES[value];
+        }
+        break;
+      }
+      case 'sleepTimer': {
+        if (value === PROTOCOL.OFF) {
+          target[mapping.state] = 0;
+          break;
+        }
+        const parsed = parseInt(value, 10);
+        if (!isNaN(parsed)) {
+          target[mapping.state] = parsed;
+        }
+        break;
       }
-    }
-    const ercd = MessageCodec.extractValue(raw.ercd);
-    if (ercd !== undefined) {
-      state.errorCode = ercd;
-    }
-    const wacd = MessageCodec.extractValue(raw.wacd);
-    if (wacd !== undefined) {
-      state.warningCode = wacd;
-    }
-    const tilt = MessageCodec.extractValue(raw.tilt);
-    if (tilt !== undefined) {
-      state.tiltStatus = tilt;
     }
   }
 
@@ -599,6 +664,21 @@ export class MessageCodec {
     return String(clampedAngle).padStart(FORMAT.PAD_LENGTH, FORMAT.PAD_CHAR);
   }
 
+  /**
+   * Convert a sweep width into a start/end range
+   *
+   * For models without `ancp` presets. The range is centred in the allowed
+   * angle window and clamped to it, so the widest preset is narrower than
+   * requested on those models.
+   */
+  static sweepToAngles(sweep: number): { start: number; end: number } {
+    const centre = (OSCILLATION_ANGLE.MIN + OSCILLATION_ANGLE.MAX) / 2;
+    return {
+      start: Math.max(OSCILLATION_ANGLE.MIN, Math.round(centre - sweep / 2)),
+      end: Math.min(OSCILLATION_ANGLE.MAX, Math.round(centre + sweep / 2)),
+    };
+  }
+
   /**
    * Encode temperature from Celsius to Dyson format (Kelvin * 10)
    */
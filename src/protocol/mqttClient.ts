@@ -7,8 +7,13 @@ import { EventEmitter } from 'events';
 import mqtt from 'mqtt';
 import type { MqttClient as MqttClientType, IClientOptions } from 'mqtt';
 
-import { DYSON_MQTT_PORT } from '../config/index.js';
-import { sleep, calculateBackoff, RECONNECT_DEFAULTS } from '../utils/retry.js';
+import { ReconnectPolicy } from '../utils/reconnectPolicy.js';
+import { sleep, RECONNECT_DEFAULTS } from '../utils/retry.js';
+import { MqttRecorder } from './mqttRecorder.js';
+import { LocalMqttTransport } from './mqttTransport.js';
+import type { MqttTransport } from './mqttTransport.js';
+
+export { buildClientId } from './mqttTransport.js';
 
 /**
  * MQTT Client configuration options
@@ -28,8 +33,16 @@ export interface MqttClientOptions {
   keepalive?: number;
   /** Enable automatic reconnection (default: true) */
   autoReconnect?: boolean;
-  /** Maximum reconnection attempts (default: 5) */
+  /** Maximum reconnection attempts (default: 5; ignored when `reconnectPolicy` is given) */
   maxReconnectAttempts?: number;
+  /** Policy that paces reconnection attempts, shared with the device (default: a policy of its own) */
+  reconnectPolicy?: ReconnectPolicy;
+  /** JSONL file to record all inbound and outbound messages to (default: no recording) */
+  recordPath?: string;
+  /** Connect variant to try first, or to use exclusively when pinned (default: walk the ladder from the start) */
+  connectVariant?: ConnectVariantPreference;
+  /** How to reach the broker (default: the device's local broker at `host`) */
+  transport?: MqttTransport;
 }
 
 /** MQTT connect function type for dependency injection */
@@ -66,7 +79,9 @@ export interface MqttClientEvents {
   close: [];
   /** Emitted when attempting to reconnect (includes attempt number) */
   reconnect: [number];
-  /** Emitted when all reconnection attempts have failed */
+  /** Emitted after a reconnect once the earlier topics are subscribed again, so replies can be received */
+  resubscribed: [];
+  /** Emitted when the reconnection policy opens the circuit after repeated failures */
   reconnectFailed: [];
   /** Emitted when device goes offline (during reconnection) */
   offline: [];
@@ -98,6 +113,16 @@ export interface ConnectVariant {
   clean: boolean;
 }
 
+/**
+ * Which connect variant a client should use
+ */
+export interface ConnectVariantPreference {
+  /** Label of a variant in `MQTT_CONNECT_VARIANTS` */
+  label: string;
+  /** Use only this variant instead of falling back along the ladder */
+  pinned?: boolean;
+}
+
 /**
  * Connect-variant ladder, tried in order on CONNACK-level recoverable errors.
  *
@@ -133,16 +158,13 @@ export function isRecoverableConnackError(error: Error): boolean {
 }
 
 /**
- * @internal exported for tests
+ * Find a connect variant by label
+ *
+ * @param label - Variant label, e.g. 'short-id'
+ * @returns Index in `MQTT_CONNECT_VARIANTS`, or -1 if there is no such variant
  */
-export function buildClientId(strategy: ConnectVariant['clientIdStrategy'], serial: string): string {
-  switch (strategy) {
-    case 'short':
-      return serial;
-    case 'default':
-    default:
-      return `homebridge_${serial}_${Date.now()}`;
-  }
+export function findConnectVariantIndex(label: string): number {
+  return MQTT_CONNECT_VARIANTS.findIndex((variant) => variant.label === label);
 }
 
 /**
@@ -167,11 +189,15 @@ export function buildClientId(strategy: ConnectVariant['clientIdStrategy'], seri
  */
 export class DysonMqttClient extends EventEmitter {
   private client: MqttClientType | null = null;
-  private readonly options: Required<MqttClientOptions>;
+  private readonly options: Required<Omit<MqttClientOptions, 'recordPath' | 'connectVariant' | 'transport' | 'reconnectPolicy'>>;
+  private readonly transport: MqttTransport;
+  private readonly preferredVariantIndex: number | null;
+  private readonly isVariantPinned: boolean;
   private readonly mqttConnect: MqttConnectFn;
+  private readonly recorder: MqttRecorder | null;
+  private readonly reconnectPolicy: ReconnectPolicy;
   private connected = false;
   private subscribedTopics: Set<string> = new Set();
-  private reconnectAttempts = 0;
   private isReconnecting = false;
   private intentionalDisconnect = false;
   private reconnectAbortController?: AbortController;
@@ -191,13 +217,43 @@ export class DysonMqttClient extends EventEmitter {
       maxReconnectAttempts: options.maxReconnectAttempts ?? RECONNECT_DEFAULTS.maxAttempts,
     };
     this.mqttConnect = mqttConnect;
+    this.reconnectPolicy = options.reconnectPolicy
+      ?? new ReconnectPolicy({ maxAttempts: this.options.maxReconnectAttempts });
+    this.transport = options.transport ?? new LocalMqttTransport(options.host, options.serial, options.credentials);
+
+    const preferredIndex = options.connectVariant ? findConnectVariantIndex(options.connectVariant.label) : -1;
+    this.preferredVariantIndex = preferredIndex >= 0 ? preferredIndex : null;
+    this.isVariantPinned = this.preferredVariantIndex !== null && (options.connectVariant?.pinned ?? false);
+
+    this.recorder = options.recordPath
+      ? new MqttRecorder(options.recordPath, (error) => {
+        this.emit('error', new Error(`MQTT recording to ${options.recordPath} stopped: ${error.message}`));
+      })
+      : null;
+  }
+
+  /**
+   * Get the file MQTT traffic is recorded to, or `null` if recording is off
+   */
+  getRecordingPath(): string | null {
+    return this.recorder?.getFilePath() ?? null;
+  }
+
+  /**
+   * Get the name of the transport the client connects through, e.g. `local` or `cloud`
+   */
+  getTransportName(): string {
+    return this.transport.name;
   }
 
   /**
    * Connect to the Dyson device MQTT broker.
    *
    * Tries the variants in `MQTT_CONNECT_VARIANTS` in order, starting from the
-   * variant that worked last time (if any) so reconnects skip the ladder.
+   * variant that worked last time (if any) so reconnects skip the ladder, else
+   * from the preferred variant passed in the options. A pinned variant is the
+   * only one tried, and transports without connect variants (the cloud
+   * broker) make a single attempt.
    * Only CONNACK-level recoverable rejections (see `isRecoverableConnackError`)
    * escalate to the next variant; transient errors (timeout, network) reject
    * immediately as before.
@@ -209,10 +265,17 @@ export class DysonMqttClient extends EventEmitter {
       return;
     }
 
-    const startIndex = this.lastSuccessfulVariantIndex ?? 0;
+    this.reconnectPolicy.recordAttempt();
+
+    if (!this.transport.usesConnectVariants) {
+      return this.connectWithVariant(MQTT_CONNECT_VARIANTS[0]);
+    }
+
+    const startIndex = this.lastSuccessfulVariantIndex ?? this.preferredVariantIndex ?? 0;
+    const attempts = this.isVariantPinned ? 1 : MQTT_CONNECT_VARIANTS.length;
     let lastError: Error | null = null;
 
-    for (let offset = 0; offset < MQTT_CONNECT_VARIANTS.length; offset++) {
+    for (let offset = 0; offset < attempts; offset++) {
       const idx = (startIndex + offset) % MQTT_CONNECT_VARIANTS.length;
       const variant = MQTT_CONNECT_VARIANTS[idx];
 
@@ -240,17 +303,13 @@ export class DysonMqttClient extends EventEmitter {
    */
   private connectWithVariant(variant: ConnectVariant): Promise<void> {
     return new Promise((resolve, reject) => {
-      const brokerUrl = `mqtt://${this.options.host}:${DYSON_MQTT_PORT}`;
+      const brokerUrl = this.transport.getBrokerUrl();
 
       const mqttOptions: IClientOptions = {
-        username: this.options.serial,
-        password: this.options.credentials,
-        clientId: buildClientId(variant.clientIdStrategy, this.options.serial),
+        ...this.transport.getConnectOptions(variant),
         keepalive: this.options.keepalive,
         connectTimeout: this.options.timeout,
         reconnectPeriod: 0, // We handle reconnection manually
-        clean: variant.clean,
-        protocolVersion: variant.protocolVersion,
       };
 
       this.client = this.mqttConnect(brokerUrl, mqttOptions);
@@ -267,15 +326,21 @@ export class DysonMqttClient extends EventEmitter {
         clearTimeout(timeoutId);
         this.connected = true;
         const wasReconnecting = this.isReconnecting;
-        this.reconnectAttempts = 0;
+        this.reconnectPolicy.recordSuccess();
         this.isReconnecting = false;
         this.emit('connect');
 
         // Re-subscribe to topics after reconnection
-        if (wasReconnecting && this.subscribedTopics.size > 0) {
-          this.resubscribeToTopics().catch((error) => {
-            this.emit('error', error instanceof Error ? error : new Error(String(error)));
-          });
+        if (wasReconnecting) {
+          this.resubscribeToTopics()
+            .catch((error) => {
+              this.emit('error', error instanceof Error ? error : new Error(String(error)));
+            })
+            .finally(() => {
+              if (this.connected) {
+                this.emit('resubscribed');
+              }
+            });
         }
 
         resolve();
@@ -292,6 +357,8 @@ export class DysonMqttClient extends EventEmitter {
       });
 
       this.client.on('message', (topic: string, payload: Buffer) => {
+        this.recorder?.record('in', topic, payload);
+
         const message: MqttMessage = {
           topic,
           payload,
@@ -317,7 +384,7 @@ export class DysonMqttClient extends EventEmitter {
         if (wasConnected && !this.intentionalDisconnect && !this.isReconnecting) {
           this.emit('disconnect');
           this.emit('offline');
-          this.handleReconnection();
+          this.handleReconnection(this.reconnectPolicy.recordDisconnect());
         }
       });
 
@@ -333,7 +400,7 @@ export class DysonMqttClient extends EventEmitter {
         if (wasConnected && !this.intentionalDisconnect && !this.isReconnecting) {
           this.emit('disconnect');
           this.emit('offline');
-          this.handleReconnection();
+          this.handleReconnection(this.reconnectPolicy.recordDisconnect());
         }
       });
     });
@@ -362,9 +429,10 @@ export class DysonMqttClient extends EventEmitter {
       this.intentionalDisconnect = true;
       // Cancel any pending reconnection sleep
       this.reconnectAbortController?.abort();
+      this.reconnectPolicy.reset();
     }
 
-    return new Promise((resolve) => {
+    await new Promise<void>((resolve) => {
       if (this.client) {
         this.client.end(false, {}, () => {
           this.cleanup();
@@ -374,6 +442,27 @@ export class DysonMqttClient extends EventEmitter {
         resolve();
       }
     });
+
+    if (intentional) {
+      await this.recorder?.close();
+    }
+  }
+
+  /**
+   * Drop the current connection and reconnect
+   *
+   * For connections that are still open but have stopped delivering
+   * messages. Uses the normal reconnection path with a fresh failure count,
+   * so topics are re-subscribed once the new connection is up.
+   */
+  forceReconnect(): void {
+    if (!this.client || this.intentionalDisconnect || this.isReconnecting) {
+      return;
+    }
+
+    this.connected = false;
+    this.reconnectPolicy.reset();
+    this.handleReconnection(this.reconnectPolicy.recordDisconnect());
   }
 
   /**
@@ -429,6 +518,7 @@ export class DysonMqttClient extends EventEmitter {
     this.ensureConnected();
 
     const payload = typeof message === 'string' ? message : JSON.stringify(message);
+    this.recorder?.record('out', topic, payload);
 
     return new Promise((resolve, reject) => {
       this.client!.publish(topic, payload, { qos: 0 }, (error) => {
@@ -452,6 +542,26 @@ export class DysonMqttClient extends EventEmitter {
     await this.subscribe(topic);
   }
 
+  /**
+   * Subscribe to the device faults topic
+   *
+   * CURRENT-FAULTS messages are published on `{productType}/{serial}/status/faults`.
+   */
+  async subscribeToFaults(): Promise<void> {
+    const topic = this.getFaultsTopic();
+    await this.subscribe(topic);
+  }
+
+  /**
+   * Subscribe to the device software topic
+   *
+   * Firmware version reports are published on `{productType}/{serial}/status/software`.
+   */
+  async subscribeToSoftware(): Promise<void> {
+    const topic = this.getSoftwareTopic();
+    await this.subscribe(topic);
+  }
+
   /**
    * Publish a command to the device
    *
@@ -478,18 +588,53 @@ export class DysonMqttClient extends EventEmitter {
     await this.publishCommand(command);
   }
 
+  /**
+   * Request current faults from the device
+   *
+   * Sends a REQUEST-CURRENT-FAULTS message; the device replies with
+   * CURRENT-FAULTS on the faults topic
+   */
+  async requestCurrentFaults(): Promise<void> {
+    const command = {
+      msg: 'REQUEST-CURRENT-FAULTS',
+      time: new Date().toISOString(),
+    };
+    await this.publishCommand(command);
+  }
+
   /**
    * Get the status topic for this device
    */
   getStatusTopic(): string {
-    return `${this.options.productType}/${this.options.serial}/status/current`;
+    return `${this.getTopicRoot()}/status/current`;
+  }
+
+  /**
+   * Get the faults topic for this device
+   */
+  getFaultsTopic(): string {
+    return `${this.getTopicRoot()}/status/faults`;
+  }
+
+  /**
+   * Get the software topic for this device
+   */
+  getSoftwareTopic(): string {
+    return `${this.getTopicRoot()}/status/software`;
   }
 
   /**
    * Get the command topic for this device
    */
   getCommandTopic(): string {
-    return `${this.options.productType}/${this.options.serial}/command`;
+    return `${this.getTopicRoot()}/command`;
+  }
+
+  /**
+   * Get the `{productType}/{serial}` root of the device topics, behind the transport's prefix
+   */
+  private getTopicRoot(): string {
+    return `${this.transport.topicPrefix ?? ''}${this.options.productType}/${this.options.serial}`;
   }
 
   /**
@@ -521,10 +666,17 @@ export class DysonMqttClient extends EventEmitter {
   }
 
   /**
-   * Get the current reconnection attempt count
+   * Get the number of failed reconnection attempts since the last successful connect
    */
   getReconnectAttempts(): number {
-    return this.reconnectAttempts;
+    return this.reconnectPolicy.getFailures();
+  }
+
+  /**
+   * Get the policy that paces reconnection attempts
+   */
+  getReconnectPolicy(): ReconnectPolicy {
+    return this.reconnectPolicy;
   }
 
   /**
@@ -544,9 +696,11 @@ export class DysonMqttClient extends EventEmitter {
   }
 
   /**
-   * Handle automatic reconnection with exponential backoff
+   * Handle automatic reconnection, waiting the delay given by the reconnection policy
+   *
+   * @param delay - Milliseconds to wait before the attempt
    */
-  private handleReconnection(): void {
+  private handleReconnection(delay: number): void {
     // Skip if auto-reconnect is disabled or intentional disconnect
     if (!this.options.autoReconnect || this.intentionalDisconnect) {
       return;
@@ -557,17 +711,14 @@ export class DysonMqttClient extends EventEmitter {
       return;
     }
 
-    // Check if max attempts reached
-    if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
+    // Stop once the policy has given up; the owner probes the device from here
+    if (this.reconnectPolicy.isCircuitOpen()) {
       this.emit('reconnectFailed');
       return;
     }
 
     this.isReconnecting = true;
-    const attempt = this.reconnectAttempts;
-    const delay = calculateBackoff(attempt);
-
-    this.emit('reconnect', attempt + 1);
+    this.emit('reconnect', this.reconnectPolicy.getFailures() + 1);
 
     // Create abort controller to cancel reconnection on intentional disconnect
     this.reconnectAbortController = new AbortController();
@@ -581,8 +732,6 @@ export class DysonMqttClient extends EventEmitter {
         return;
       }
 
-      this.reconnectAttempts++;
-
       // Clean up existing client before reconnecting.
       // Must call removeAllListeners() first, then add a no-op error handler,
       // then end() — so that orphaned internal timers (connack timeout, keepalive)
@@ -601,16 +750,9 @@ export class DysonMqttClient extends EventEmitter {
           // Reconnection successful - handled by connect event
         })
         .catch(() => {
-          // Connection failed, try again if attempts remain
+          // Connection failed; the policy decides whether to try again
           this.isReconnecting = false;
-
-          if (this.reconnectAttempts < this.options.maxReconnectAttempts) {
-            // Schedule another attempt
-            this.handleReconnection();
-          } else {
-            // Max attempts reached
-            this.emit('reconnectFailed');
-          }
+          this.handleReconnection(this.reconnectPolicy.recordFailure());
         });
     });
   }
@@ -665,7 +807,6 @@ export class DysonMqttClient extends EventEmitter {
     // — reconnects within a session should skip the ladder.
     if (this.intentionalDisconnect) {
       this.subscribedTopics.clear();
-      this.reconnectAttempts = 0;
       this.lastSuccessfulVariantIndex = null;
     }
   }
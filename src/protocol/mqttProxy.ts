@@ -0,0 +1,557 @@
+/**
+ * Local MQTT Proxy
+ *
+ * Shares the plugin's single MQTT session with each device among any
+ * number of local clients: the custom UI, scripts and other tools. A Dyson
+ * accepts only a few sessions, so a tool that connects to the device
+ * directly can knock the plugin's connection over.
+ *
+ * The proxy is a small MQTT 3.1.1 broker. Messages from a device are copied
+ * to every client subscribed to them, and a client's commands are sent on
+ * the plugin's session. Topics can be moved under a prefix, and clients can
+ * be required to log in or limited to reading state.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { EventEmitter } from 'events';
+import { createServer } from 'net';
+import type { AddressInfo, Server, Socket } from 'net';
+import mqttPacket from 'mqtt-packet';
+import type {
+  IConnectPacket,
+  IPublishPacket,
+  ISubscribePacket,
+  IUnsubscribePacket,
+  Packet,
+} from 'mqtt-packet';
+
+import { DYSON_MQTT_PROXY_PORT } from '../config/index.js';
+import type { MqttMessage } from './mqttClient.js';
+
+/** Default address to listen on: local clients only */
+const DEFAULT_HOST = '127.0.0.1';
+
+/** CONNACK return codes (MQTT 3.1.1) */
+const CONNACK = {
+  ACCEPTED: 0,
+  UNACCEPTABLE_PROTOCOL_VERSION: 1,
+  BAD_USERNAME_OR_PASSWORD: 4,
+} as const;
+
+/** SUBACK return code for a refused subscription */
+const SUBACK_FAILURE = 0x80;
+
+/** A client is dropped after this many keep-alive periods without a packet */
+const KEEPALIVE_GRACE = 1.5;
+
+/** Time a client has to log in after opening the connection */
+const CONNECT_TIMEOUT_MS = 5000;
+
+/** Largest packet a client may send; Dyson commands are a few hundred bytes */
+const MAX_PACKET_SIZE = 64 * 1024;
+
+/** Message types a read-only client may still send */
+const READ_ONLY_MESSAGES = ['REQUEST-CURRENT-STATE', 'REQUEST-CURRENT-FAULTS'] as const;
+
+/**
+ * MQTT proxy options
+ */
+export interface MqttProxyOptions {
+  /** Port to listen on (default: 1884) */
+  port?: number;
+  /** Address to listen on (default: 127.0.0.1, this machine only) */
+  host?: string;
+  /** Username clients must log in with (default: no login) */
+  username?: string;
+  /** Password clients must log in with; setting either one requires a login (default: no login) */
+  password?: string;
+  /** Prefix in front of device topics as clients see them, e.g. `dyson/` (default: none) */
+  topicPrefix?: string;
+  /** Only let clients read state, not change settings (default: false) */
+  isReadOnly?: boolean;
+}
+
+/**
+ * A device whose MQTT session the proxy shares
+ */
+export interface MqttProxyDevice {
+  /** Dyson product type code */
+  readonly productType: string;
+  /** Get the device serial number */
+  getSerial(): string;
+  /** Listen for messages the device publishes */
+  on(event: 'mqttMessage', listener: (message: MqttMessage) => void): unknown;
+  /** Stop listening for messages the device publishes */
+  off(event: 'mqttMessage', listener: (message: MqttMessage) => void): unknown;
+  /** Send a raw command payload on the device's session */
+  forwardCommand(payload: string): Promise<void>;
+}
+
+/**
+ * Events emitted by MqttProxy
+ */
+export interface MqttProxyEvents {
+  /** A client logged in */
+  clientConnect: [clientId: string];
+  /** A client disconnected */
+  clientDisconnect: [clientId: string];
+  /** A client's login, subscription or message was refused */
+  denied: [clientId: string, reason: string];
+  /** The listening socket failed */
+  error: [Error];
+}
+
+/**
+ * A client connected to the proxy
+ */
+interface ProxyClient {
+  socket: Socket;
+  /** Client ID from CONNECT, empty until logged in */
+  id: string;
+  isConnected: boolean;
+  protocolVersion: 3 | 4;
+  /** Topic filters the client subscribed to */
+  subscriptions: Set<string>;
+  /** Time allowed between packets, or to log in, before the client is dropped (0 disables the check) */
+  keepaliveMs: number;
+  keepaliveTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A device shared through the proxy
+ */
+interface SharedDevice {
+  device: MqttProxyDevice;
+  listener: (message: MqttMessage) => void;
+}
+
+/**
+ * Check whether an MQTT topic filter is well formed
+ *
+ * @param filter - Topic filter, possibly with `+` and `#` wildcards
+ */
+export function isValidTopicFilter(filter: string): boolean {
+  if (filter.length === 0) {
+    return false;
+  }
+  const levels = filter.split('/');
+  return levels.every((level, index) => {
+    if (level.includes('#')) {
+      return level === '#' && index === levels.length - 1;
+    }
+    return !level.includes('+') || level === '+';
+  });
+}
+
+/**
+ * Check whether a topic matches an MQTT topic filter
+ *
+ * @param filter - Topic filter, possibly with `+` and `#` wildcards
+ * @param topic - Topic a message was published on
+ */
+export function matchesTopicFilter(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') {
+      return true;
+    }
+    if (i >= topicLevels.length) {
+      return false;
+    }
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) {
+      return false;
+    }
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+/**
+ * Compare a login credential in constant time
+ *
+ * Both sides are hashed first so the comparison takes the same time
+ * whatever their lengths.
+ *
+ * @param actual - Value the client sent
+ * @param expected - Configured value
+ */
+function isCredentialEqual(actual: Buffer | string, expected: string): boolean {
+  const actualHash = createHash('sha256').update(actual).digest();
+  const expectedHash = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(actualHash, expectedHash);
+}
+
+/**
+ * MqttProxy shares device sessions with local MQTT clients
+ *
+ * @example
+ * ```typescript
+ * const proxy = new MqttProxy({ port: 1884, isReadOnly: true });
+ * await proxy.start();
+ * proxy.addDevice(device);
+ * ```
+ */
+export class MqttProxy extends EventEmitter {
+  private readonly port: number;
+  private readonly host: string;
+  private readonly topicPrefix: string;
+  private server?: Server;
+  private readonly clients = new Set<ProxyClient>();
+
+  /** Shared devices by client-side command topic */
+  private readonly devices = new Map<string, SharedDevice>();
+
+  /**
+   * Create a new MqttProxy
+   *
+   * @param options - Proxy options
+   */
+  constructor(private readonly options: MqttProxyOptions = {}) {
+    super();
+    this.port = options.port ?? DYSON_MQTT_PROXY_PORT;
+    this.host = options.host ?? DEFAULT_HOST;
+    this.topicPrefix = options.topicPrefix ?? '';
+  }
+
+  /**
+   * Start listening for clients
+   *
+   * @returns Port the proxy listens on
+   * @throws {Error} If the port cannot be opened
+   */
+  start(): Promise<number> {
+    if (this.server) {
+      return Promise.resolve(this.getPort());
+    }
+
+    const server = createServer((socket) => this.handleSocket(socket));
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', (error) => {
+        this.server = undefined;
+        reject(error);
+      });
+      server.listen(this.port, this.host, () => {
+        server.on('error', (error) => this.emit('error', error));
+        resolve(this.getPort());
+      });
+    });
+  }
+
+  /**
+   * Disconnect all clients and stop listening
+   */
+  async stop(): Promise<void> {
+    for (const client of this.clients) {
+      this.closeClient(client);
+    }
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Get the port the proxy listens on
+   */
+  getPort(): number {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address?.port ?? this.port;
+  }
+
+  /**
+   * Get the number of logged-in clients
+   */
+  getClientCount(): number {
+    return [...this.clients].filter((client) => client.isConnected).length;
+  }
+
+  /**
+   * Share a device's session with the proxy's clients
+   *
+   * A device with the same serial that was added before is replaced, so a
+   * device recreated after an IP change can simply be added again.
+   *
+   * @param device - Device to share
+   */
+  addDevice(device: MqttProxyDevice): void {
+    this.removeDevice(device.getSerial());
+
+    const listener = (message: MqttMessage): void => {
+      this.publishToClients(`${this.topicPrefix}${message.topic}`, message.payload);
+    };
+    device.on('mqttMessage', listener);
+    this.devices.set(this.getCommandTopic(device), { device, listener });
+  }
+
+  /**
+   * Stop sharing a device
+   *
+   * @param serial - Device serial number
+   */
+  removeDevice(serial: string): void {
+    for (const [topic, shared] of this.devices) {
+      if (shared.device.getSerial() === serial) {
+        shared.device.off('mqttMessage', shared.listener);
+        this.devices.delete(topic);
+      }
+    }
+  }
+
+  /**
+   * Get the command topic of a device as clients see it
+   */
+  private getCommandTopic(device: MqttProxyDevice): string {
+    return `${this.topicPrefix}${device.productType}/${device.getSerial()}/command`;
+  }
+
+  /**
+   * Set up a newly accepted client socket
+   */
+  private handleSocket(socket: Socket): void {
+    const client: ProxyClient = {
+      socket,
+      id: '',
+      isConnected: false,
+      protocolVersion: 4,
+      subscriptions: new Set(),
+      keepaliveMs: CONNECT_TIMEOUT_MS,
+    };
+    this.clients.add(client);
+    this.refreshKeepalive(client);
+
+    const parser = mqttPacket.parser();
+    parser.on('packet', (packet: Packet) => this.handlePacket(client, packet));
+    parser.on('error', () => this.closeClient(client));
+
+    socket.on('data', (chunk: Buffer) => {
+      // The parser buffers an incomplete packet, so bound what it holds
+      if (parser.parse(chunk) > MAX_PACKET_SIZE) {
+        this.emit('denied', client.id, `packet larger than ${MAX_PACKET_SIZE} bytes`);
+        this.dropClient(client);
+      }
+    });
+    socket.on('error', () => this.closeClient(client));
+    socket.on('close', () => this.closeClient(client));
+  }
+
+  /**
+   * Handle a packet from a client
+   */
+  private handlePacket(client: ProxyClient, packet: Packet): void {
+    this.refreshKeepalive(client);
+
+    if (packet.cmd === 'connect') {
+      this.handleConnect(client, packet);
+      return;
+    }
+    if (!client.isConnected) {
+      this.closeClient(client);
+      return;
+    }
+
+    switch (packet.cmd) {
+      case 'subscribe':
+        this.handleSubscribe(client, packet);
+        break;
+      case 'unsubscribe':
+        this.handleUnsubscribe(client, packet);
+        break;
+      case 'publish':
+        this.handlePublish(client, packet);
+        break;
+      case 'pingreq':
+        this.send(client, { cmd: 'pingresp' });
+        break;
+      case 'disconnect':
+        this.closeClient(client);
+        break;
+      default:
+        // Acknowledgements for QoS 1 and 2 are never expected: messages to clients are QoS 0
+        break;
+    }
+  }
+
+  /**
+   * Log a client in
+   */
+  private handleConnect(client: ProxyClient, packet: IConnectPacket): void {
+    if (client.isConnected) {
+      this.closeClient(client);
+      return;
+    }
+
+    client.id = packet.clientId;
+
+    if (packet.protocolVersion !== 3 && packet.protocolVersion !== 4) {
+      this.send(client, { cmd: 'connack', returnCode: CONNACK.UNACCEPTABLE_PROTOCOL_VERSION, sessionPresent: false });
+      this.emit('denied', client.id, `unsupported MQTT protocol version ${packet.protocolVersion}`);
+      this.closeClient(client);
+      return;
+    }
+    client.protocolVersion = packet.protocolVersion;
+
+    if (!this.isAuthorized(packet)) {
+      this.send(client, { cmd: 'connack', returnCode: CONNACK.BAD_USERNAME_OR_PASSWORD, sessionPresent: false });
+      this.emit('denied', client.id, 'bad username or password');
+      this.closeClient(client);
+      return;
+    }
+
+    client.isConnected = true;
+    this.send(client, { cmd: 'connack', returnCode: CONNACK.ACCEPTED, sessionPresent: false });
+    client.keepaliveMs = (packet.keepalive ?? 0) * KEEPALIVE_GRACE * 1000;
+    this.refreshKeepalive(client);
+    this.emit('clientConnect', client.id);
+  }
+
+  /**
+   * Check a client's login against the configured username and password
+   *
+   * With only a password configured, any username is accepted along with it.
+   * Empty settings count as not set. Credentials are compared in constant
+   * time, since the proxy may listen beyond this machine.
+   */
+  private isAuthorized(packet: IConnectPacket): boolean {
+    const username = this.options.username || undefined;
+    const password = this.options.password || undefined;
+    if (username === undefined && password === undefined) {
+      return true;
+    }
+    const isUsernameValid = username === undefined || isCredentialEqual(packet.username ?? '', username);
+    const isPasswordValid = isCredentialEqual(packet.password ?? '', password ?? '');
+    return isUsernameValid && isPasswordValid;
+  }
+
+  /**
+   * Grant subscriptions inside the proxy's topic prefix, at QoS 0
+   */
+  private handleSubscribe(client: ProxyClient, packet: ISubscribePacket): void {
+    const granted = packet.subscriptions.map(({ topic }) => {
+      if (!isValidTopicFilter(topic) || !topic.startsWith(this.topicPrefix)) {
+        this.emit('denied', client.id, `subscription to ${topic}`);
+        return SUBACK_FAILURE;
+      }
+      client.subscriptions.add(topic);
+      return 0;
+    });
+    this.send(client, { cmd: 'suback', messageId: packet.messageId, granted });
+  }
+
+  /**
+   * Remove subscriptions
+   */
+  private handleUnsubscribe(client: ProxyClient, packet: IUnsubscribePacket): void {
+    for (const topic of packet.unsubscriptions) {
+      client.subscriptions.delete(topic);
+    }
+    this.send(client, { cmd: 'unsuback', messageId: packet.messageId, granted: [] });
+  }
+
+  /**
+   * Forward a client's command to the device it is addressed to
+   *
+   * Only device command topics are accepted. A read-only proxy forwards
+   * state and fault requests only.
+   */
+  private handlePublish(client: ProxyClient, packet: IPublishPacket): void {
+    if (packet.qos === 2) {
+      this.emit('denied', client.id, 'QoS 2 is not supported');
+      this.closeClient(client);
+      return;
+    }
+    if (packet.qos === 1) {
+      this.send(client, { cmd: 'puback', messageId: packet.messageId });
+    }
+
+    const shared = this.devices.get(packet.topic);
+    if (!shared) {
+      this.emit('denied', client.id, `publish to ${packet.topic}`);
+      return;
+    }
+
+    const payload = packet.payload.toString();
+    if (this.options.isReadOnly && !this.isStateRequest(payload)) {
+      this.emit('denied', client.id, `command to ${shared.device.getSerial()} (proxy is read-only)`);
+      return;
+    }
+
+    shared.device.forwardCommand(payload).catch((error: Error) => {
+      this.emit('denied', client.id, `command to ${shared.device.getSerial()}: ${error.message}`);
+    });
+  }
+
+  /**
+   * Check whether a command only asks for state or faults
+   */
+  private isStateRequest(payload: string): boolean {
+    try {
+      const { msg } = JSON.parse(payload) as { msg?: unknown };
+      return READ_ONLY_MESSAGES.some((allowed) => allowed === msg);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Copy a device message to every client subscribed to its topic
+   */
+  private publishToClients(topic: string, payload: Buffer): void {
+    for (const client of this.clients) {
+      if (!client.isConnected) {
+        continue;
+      }
+      const isSubscribed = [...client.subscriptions].some((filter) => matchesTopicFilter(filter, topic));
+      if (isSubscribed) {
+        this.send(client, { cmd: 'publish', topic, payload, qos: 0, dup: false, retain: false });
+      }
+    }
+  }
+
+  /**
+   * Write a packet to a client
+   */
+  private send(client: ProxyClient, packet: Packet): void {
+    if (client.socket.writable) {
+      client.socket.write(mqttPacket.generate(packet, { protocolVersion: client.protocolVersion }));
+    }
+  }
+
+  /**
+   * Restart the keep-alive timer after a packet from the client
+   */
+  private refreshKeepalive(client: ProxyClient): void {
+    clearTimeout(client.keepaliveTimer);
+    if (client.keepaliveMs === 0) {
+      return;
+    }
+    client.keepaliveTimer = setTimeout(() => this.dropClient(client), client.keepaliveMs);
+    client.keepaliveTimer.unref();
+  }
+
+  /**
+   * Drop a client
+   */
+  private closeClient(client: ProxyClient): void {
+    if (!this.clients.delete(client)) {
+      return;
+    }
+    clearTimeout(client.keepaliveTimer);
+    client.socket.end();
+    if (client.isConnected) {
+      client.isConnected = false;
+      this.emit('clientDisconnect', client.id);
+    }
+  }
+
+  /**
+   * Drop a client that broke the rules, without waiting for it to close its side
+   */
+  private dropClient(client: ProxyClient): void {
+    this.closeClient(client);
+    client.socket.destroy();
+  }
+}
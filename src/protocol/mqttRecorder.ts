@@ -0,0 +1,117 @@
+/**
+ * MQTT Traffic Recorder
+ *
+ * Appends every message a device sends or receives to a JSONL file, one
+ * `RecordedMessage` per line, so a session can be replayed offline with
+ * `MqttReplay`.
+ */
+
+import { createWriteStream } from 'fs';
+import type { WriteStream } from 'fs';
+import { join } from 'path';
+
+/**
+ * A single recorded MQTT message
+ */
+export interface RecordedMessage {
+  /** ISO 8601 time the message was sent or received */
+  timestamp: string;
+  /** `in` for messages from the device, `out` for messages to it */
+  direction: 'in' | 'out';
+  /** MQTT topic */
+  topic: string;
+  /** Raw payload as UTF-8 text */
+  payload: string;
+}
+
+/**
+ * Get the recording file for a device
+ *
+ * @param storagePath - Homebridge storage path
+ * @param serial - Device serial number
+ * @returns Path of the device's JSONL recording
+ */
+export function getRecordingPath(storagePath: string, serial: string): string {
+  return join(storagePath, `dyson-mqtt-${serial}.jsonl`);
+}
+
+/**
+ * MqttRecorder appends MQTT traffic to a JSONL file
+ *
+ * The file is opened lazily on the first message and appended to, so
+ * recordings from several sessions accumulate in one file. If the file
+ * cannot be written, recording stops and `onError` is called once.
+ */
+export class MqttRecorder {
+  private stream: WriteStream | null = null;
+  private failed = false;
+
+  /**
+   * Create a new MqttRecorder
+   *
+   * @param filePath - JSONL file to append to
+   * @param onError - Called if the file cannot be written
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly onError?: (error: Error) => void,
+  ) {}
+
+  /**
+   * Get the file this recorder appends to
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Record a message
+   *
+   * @param direction - `in` from the device, `out` to the device
+   * @param topic - MQTT topic
+   * @param payload - Raw payload
+   */
+  record(direction: RecordedMessage['direction'], topic: string, payload: string | Buffer): void {
+    if (this.failed) {
+      return;
+    }
+
+    const entry: RecordedMessage = {
+      timestamp: new Date().toISOString(),
+      direction,
+      topic,
+      payload: typeof payload === 'string' ? payload : payload.toString('utf8'),
+    };
+
+    this.getStream().write(`${JSON.stringify(entry)}\n`);
+  }
+
+  /**
+   * Flush and close the file
+   *
+   * Recording resumes, appending to the same file, on the next message.
+   */
+  close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (!stream) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => stream.end(resolve));
+  }
+
+  /**
+   * Open the file on first use
+   */
+  private getStream(): WriteStream {
+    if (!this.stream) {
+      this.stream = createWriteStream(this.filePath, { flags: 'a' });
+      this.stream.on('error', (error: Error) => {
+        this.failed = true;
+        this.stream = null;
+        this.onError?.(error);
+      });
+    }
+    return this.stream;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * MQTT Traffic Replay
+ *
+ * Feeds a session captured by `MqttRecorder` back into the plugin through the
+ * `MqttConnectFn` injection point, so a device's behaviour can be reproduced
+ * offline against `MessageCodec`, the devices and the services.
+ */
+
+import { EventEmitter } from 'events';
+import { readFile } from 'fs/promises';
+import type { MqttClient as MqttClientType } from 'mqtt';
+
+import type { MqttConnectFn } from './mqttClient.js';
+import type { RecordedMessage } from './mqttRecorder.js';
+
+/**
+ * Replay options
+ */
+export interface MqttReplayOptions {
+  /** Keep the recorded gaps between messages instead of replaying back to back (default: false) */
+  realtime?: boolean;
+}
+
+/**
+ * Parse a JSONL recording
+ *
+ * Blank and malformed lines are skipped, so a recording cut short by a
+ * crash still replays up to the last complete message.
+ *
+ * @param content - JSONL file content
+ * @returns Recorded messages in file order
+ */
+export function parseRecording(content: string): RecordedMessage[] {
+  const messages: RecordedMessage[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as Partial<RecordedMessage>;
+      if ((entry.direction === 'in' || entry.direction === 'out') &&
+          typeof entry.topic === 'string' &&
+          typeof entry.payload === 'string') {
+        messages.push(entry as RecordedMessage);
+      }
+    } catch {
+      // Skip malformed line
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Stand-in for the mqtt.js client that replays recorded device messages
+ */
+class ReplayClient extends EventEmitter {
+  private timer?: ReturnType<typeof setTimeout>;
+  private ended = false;
+
+  constructor(
+    private readonly messages: RecordedMessage[],
+    private readonly realtime: boolean,
+    private readonly onPublish: (message: RecordedMessage) => void,
+    private readonly onFinished: () => void,
+  ) {
+    super();
+    setImmediate(() => {
+      if (this.ended) {
+        return;
+      }
+      this.emit('connect');
+      this.replayFrom(0);
+    });
+  }
+
+  subscribe(_topic: string, _options: unknown, callback?: (error: Error | null) => void): this {
+    callback?.(null);
+    return this;
+  }
+
+  unsubscribe(_topic: string, callback?: (error?: Error) => void): this {
+    callback?.();
+    return this;
+  }
+
+  publish(topic: string, payload: string, _options: unknown, callback?: (error?: Error) => void): this {
+    this.onPublish({ timestamp: new Date().toISOString(), direction: 'out', topic, payload });
+    callback?.();
+    return this;
+  }
+
+  end(_force?: boolean, _options?: unknown, callback?: () => void): this {
+    this.ended = true;
+    clearTimeout(this.timer);
+    callback?.();
+    return this;
+  }
+
+  /**
+   * Emit the inbound message at `index`, then schedule the next one
+   */
+  private replayFrom(index: number): void {
+    if (this.ended) {
+      return;
+    }
+    if (index >= this.messages.length) {
+      this.onFinished();
+      return;
+    }
+
+    const message = this.messages[index];
+    this.emit('message', message.topic, Buffer.from(message.payload, 'utf8'));
+
+    const next = this.messages[index + 1];
+    const delay = this.realtime && next
+      ? Math.max(0, Date.parse(next.timestamp) - Date.parse(message.timestamp)) || 0
+      : 0;
+    this.timer = setTimeout(() => this.replayFrom(index + 1), delay);
+    this.timer.unref();
+  }
+}
+
+/**
+ * MqttReplay replays a recorded session into a device
+ *
+ * Pass `replay.connect` wherever an `MqttConnectFn` is accepted. Each
+ * connection replays the recorded inbound messages from the start; outbound
+ * messages in the recording are skipped, and whatever the plugin publishes
+ * during the replay is collected in `published` instead.
+ *
+ * @example
+ * ```typescript
+ * const replay = await MqttReplay.fromFile('dyson-mqtt-ABC-AB-12345678.jsonl');
+ * const device = new DysonLinkDevice(deviceInfo, undefined, replay.connect);
+ * await device.connect();
+ * await replay.whenFinished();
+ * console.log(device.getState());
+ * ```
+ */
+export class MqttReplay {
+  /** Messages the plugin published during the replay */
+  readonly published: RecordedMessage[] = [];
+
+  private readonly inbound: RecordedMessage[];
+  private readonly realtime: boolean;
+  private readonly finished: Promise<void>;
+  private resolveFinished!: () => void;
+
+  /**
+   * Create a new MqttReplay
+   *
+   * @param messages - Recorded session
+   * @param options - Replay options
+   */
+  constructor(messages: RecordedMessage[], options: MqttReplayOptions = {}) {
+    this.inbound = messages.filter((message) => message.direction === 'in');
+    this.realtime = options.realtime ?? false;
+    this.finished = new Promise((resolve) => {
+      this.resolveFinished = resolve;
+    });
+  }
+
+  /**
+   * Load a recording from a JSONL file
+   *
+   * @param filePath - Recording written by `MqttRecorder`
+   * @param options - Replay options
+   */
+  static async fromFile(filePath: string, options: MqttReplayOptions = {}): Promise<MqttReplay> {
+    const content = await readFile(filePath, 'utf8');
+    return new MqttReplay(parseRecording(content), options);
+  }
+
+  /**
+   * MQTT connect function that returns a replaying client
+   */
+  readonly connect: MqttConnectFn = () => {
+    const client = new ReplayClient(
+      this.inbound,
+      this.realtime,
+      (message) => this.published.push(message),
+      () => this.resolveFinished(),
+    );
+    return client as unknown as MqttClientType;
+  };
+
+  /**
+   * Resolve once the first connection has replayed every inbound message
+   */
+  whenFinished(): Promise<void> {
+    return this.finished;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * MQTT Transports
+ *
+ * Where and how `DysonMqttClient` reaches a device's broker: directly on the
+ * LAN, through Dyson's cloud IoT broker, or through the plugin's local MQTT
+ * proxy. Topics and message encoding are the same for all of them.
+ */
+
+import type { IClientOptions } from 'mqtt';
+
+import { DYSON_MQTT_PORT, DYSON_MQTT_PROXY_PORT } from '../config/index.js';
+import { isIPv6Address } from '../utils/hostResolver.js';
+import type { ConnectVariant } from './mqttClient.js';
+import type { MqttProxyOptions } from './mqttProxy.js';
+
+/** Addresses that listen on every interface, reached locally through the loopback address */
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+/** AWS IoT custom authorizer headers used by Dyson's cloud broker */
+const CLOUD_AUTH_HEADERS = {
+  NAME: 'X-Amz-CustomAuthorizer-Name',
+  SIGNATURE: 'X-Amz-CustomAuthorizer-Signature',
+} as const;
+
+/**
+ * Write a host for a broker URL
+ *
+ * IPv6 addresses are bracketed. A zone index (`fe80::1%en0`) cannot be
+ * written in a URL, so it is left out; pass the full address as the
+ * `host` option instead.
+ */
+function formatUrlHost(host: string): string {
+  return isIPv6Address(host) ? `[${host.split('%')[0]}]` : host;
+}
+
+/**
+ * A way to reach a device's MQTT broker
+ */
+export interface MqttTransport {
+  /** Short name for logs, e.g. `local` or `cloud` */
+  readonly name: string;
+  /** Whether CONNACK rejections walk the connect-variant ladder */
+  readonly usesConnectVariants: boolean;
+  /** Prefix the broker puts in front of device topics (default: none) */
+  readonly topicPrefix?: string;
+  /** Broker URL to connect to */
+  getBrokerUrl(): string;
+  /**
+   * Identity and session options for one connect attempt
+   *
+   * @param variant - Connect variant being tried; ignored by transports
+   *   without connect variants
+   */
+  getConnectOptions(variant: ConnectVariant): IClientOptions;
+}
+
+/**
+ * @internal exported for tests
+ */
+export function buildClientId(strategy: ConnectVariant['clientIdStrategy'], serial: string): string {
+  switch (strategy) {
+    case 'short':
+      return serial;
+    case 'default':
+    default:
+      return `homebridge_${serial}_${Date.now()}`;
+  }
+}
+
+/**
+ * The device's own broker on the LAN
+ *
+ * Uses the serial as username and the local credentials as password.
+ * IPv6 addresses are bracketed in the broker URL. A zone index
+ * (`fe80::1%en0`) cannot be written in a URL, so it is passed as the
+ * `host` option instead.
+ */
+export class LocalMqttTransport implements MqttTransport {
+  readonly name = 'local';
+  readonly usesConnectVariants = true;
+
+  /**
+   * Create a new LocalMqttTransport
+   *
+   * @param host - Device IPv4 or IPv6 address, or host name
+   * @param serial - Device serial number
+   * @param credentials - Device local credentials
+   */
+  constructor(
+    private readonly host: string,
+    private readonly serial: string,
+    private readonly credentials: string,
+  ) {}
+
+  getBrokerUrl(): string {
+    return `mqtt://${formatUrlHost(this.host)}:${DYSON_MQTT_PORT}`;
+  }
+
+  getConnectOptions(variant: ConnectVariant): IClientOptions {
+    return {
+      username: this.serial,
+      password: this.credentials,
+      clientId: buildClientId(variant.clientIdStrategy, this.serial),
+      clean: variant.clean,
+      protocolVersion: variant.protocolVersion,
+      ...(this.host.includes('%') ? { host: this.host } : {}),
+    };
+  }
+}
+
+/**
+ * IoT credentials for a device on Dyson's cloud broker
+ *
+ * Returned by the Dyson API for each device on the account (see
+ * `DysonCloudApi.getIotCredentials`).
+ */
+export interface CloudMqttCredentials {
+  /** Cloud broker host name */
+  endpoint: string;
+  /** MQTT client ID */
+  clientId: string;
+  /** Name of the broker's custom authorizer */
+  customAuthorizerName: string;
+  /** Header carrying the token */
+  tokenKey: string;
+  /** Token value */
+  tokenValue: string;
+  /** Token signature */
+  tokenSignature: string;
+}
+
+/**
+ * Options for a CloudMqttTransport
+ */
+export interface CloudMqttTransportOptions {
+  /** Broker URL to use instead of the endpoint, e.g. a local stand-in broker (default: `wss://<endpoint>/mqtt`) */
+  brokerUrl?: string;
+}
+
+/**
+ * Dyson's cloud IoT broker, over MQTT on secure WebSockets
+ *
+ * Authenticates with the account's IoT credentials through the broker's
+ * custom authorizer headers. Works from anywhere the device can reach the
+ * Dyson cloud, so it can stand in when the LAN path fails.
+ */
+export class CloudMqttTransport implements MqttTransport {
+  readonly name = 'cloud';
+  readonly usesConnectVariants = false;
+
+  /**
+   * Create a new CloudMqttTransport
+   *
+   * @param credentials - Device IoT credentials
+   * @param options - Transport options
+   */
+  constructor(
+    private readonly credentials: CloudMqttCredentials,
+    private readonly options: CloudMqttTransportOptions = {},
+  ) {}
+
+  getBrokerUrl(): string {
+    return this.options.brokerUrl ?? `wss://${this.credentials.endpoint}/mqtt`;
+  }
+
+  getConnectOptions(): IClientOptions {
+    const { clientId, customAuthorizerName, tokenKey, tokenValue, tokenSignature } = this.credentials;
+    return {
+      clientId,
+      clean: true,
+      protocolVersion: 4,
+      wsOptions: {
+        headers: {
+          [CLOUD_AUTH_HEADERS.NAME]: customAuthorizerName,
+          [CLOUD_AUTH_HEADERS.SIGNATURE]: tokenSignature,
+          [tokenKey]: tokenValue,
+        },
+      },
+    };
+  }
+}
+
+/**
+ * The plugin's local MQTT proxy
+ *
+ * Shares the plugin's session with the device instead of opening another
+ * one, so tools can talk to a device while Homebridge is connected to it.
+ * IPv6 addresses are written as for `LocalMqttTransport`.
+ */
+export class ProxyMqttTransport implements MqttTransport {
+  readonly name = 'proxy';
+  readonly usesConnectVariants = false;
+  readonly topicPrefix: string;
+
+  /**
+   * Create a new ProxyMqttTransport
+   *
+   * @param options - The proxy's settings from the plugin config
+   */
+  constructor(private readonly options: MqttProxyOptions = {}) {
+    this.topicPrefix = options.topicPrefix ?? '';
+  }
+
+  getBrokerUrl(): string {
+    return `mqtt://${formatUrlHost(this.getHost())}:${this.options.port ?? DYSON_MQTT_PROXY_PORT}`;
+  }
+
+  getConnectOptions(variant: ConnectVariant): IClientOptions {
+    const host = this.getHost();
+    return {
+      username: this.options.username,
+      password: this.options.password,
+      clientId: buildClientId(variant.clientIdStrategy, 'proxy'),
+      clean: true,
+      protocolVersion: 4,
+      ...(host.includes('%') ? { host } : {}),
+    };
+  }
+
+  /**
+   * Get the address the proxy is reached at
+   */
+  private getHost(): string {
+    return this.options.host && !WILDCARD_HOSTS.includes(this.options.host) ? this.options.host : '127.0.0.1';
+  }
+}
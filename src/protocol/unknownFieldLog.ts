@@ -0,0 +1,156 @@
+/**
+ * Unknown Protocol Field Log
+ *
+ * Collects protocol fields a device reports that its model's field map does
+ * not decode, with a sample value, per product type and firmware. The
+ * summary is kept in a JSON file so support for new models and features can
+ * be added from real traffic.
+ */
+
+import { readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * An unrecognised field seen on a model
+ */
+export interface UnknownField {
+  /** Value when the field was first seen */
+  sample: string;
+  /** ISO 8601 time the field was first seen */
+  firstSeen: string;
+}
+
+/**
+ * Unrecognised fields seen on one product type and firmware
+ */
+export interface UnknownFieldSummary {
+  /** Dyson product type code */
+  productType: string;
+  /** Firmware version, if known when the fields were seen */
+  firmwareVersion?: string;
+  /** Unrecognised fields by name */
+  fields: Record<string, UnknownField>;
+}
+
+/**
+ * Get the unknown field summary file
+ *
+ * @param storagePath - Homebridge storage path
+ * @returns Path of the JSON summary
+ */
+export function getUnknownFieldsPath(storagePath: string): string {
+  return join(storagePath, 'dyson-unknown-fields.json');
+}
+
+/**
+ * UnknownFieldLog keeps a summary of unrecognised fields
+ *
+ * The summary file is read on first use, so fields from earlier sessions
+ * are kept, and rewritten whenever a new field appears. Writes are
+ * serialized. If the file cannot be written, `onError` is called and the
+ * summary stays in memory.
+ */
+export class UnknownFieldLog {
+  private summaries: Map<string, UnknownFieldSummary> | null = null;
+  private readonly seenThisSession = new Set<string>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new UnknownFieldLog
+   *
+   * @param filePath - JSON file holding the summary
+   * @param onError - Called if the file cannot be written
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly onError?: (error: Error) => void,
+  ) {}
+
+  /**
+   * Get the file this log writes to
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Record unrecognised fields reported by a device
+   *
+   * @param productType - Dyson product type code
+   * @param firmwareVersion - Firmware version, if known
+   * @param fields - Unrecognised field names with a sample value
+   * @returns Names not seen before on this model and firmware in this session
+   */
+  record(productType: string, firmwareVersion: string | undefined, fields: Record<string, string>): string[] {
+    const summaries = this.load();
+    const key = `${productType}/${firmwareVersion ?? ''}`;
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = { productType, firmwareVersion, fields: {} };
+      summaries.set(key, summary);
+    }
+
+    const newFields: string[] = [];
+    let changed = false;
+    for (const [name, sample] of Object.entries(fields)) {
+      if (!summary.fields[name]) {
+        summary.fields[name] = { sample, firstSeen: new Date().toISOString() };
+        changed = true;
+      }
+
+      if (!this.seenThisSession.has(`${key}/${name}`)) {
+        this.seenThisSession.add(`${key}/${name}`);
+        newFields.push(name);
+      }
+    }
+
+    if (changed) {
+      this.save();
+    }
+    return newFields;
+  }
+
+  /**
+   * Get the summary of every model seen
+   */
+  getSummary(): UnknownFieldSummary[] {
+    return Array.from(this.load().values());
+  }
+
+  /**
+   * Wait until pending writes have finished
+   */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  /**
+   * Read the summary file on first use
+   */
+  private load(): Map<string, UnknownFieldSummary> {
+    if (this.summaries) {
+      return this.summaries;
+    }
+
+    this.summaries = new Map();
+    try {
+      const saved = JSON.parse(readFileSync(this.filePath, 'utf8')) as UnknownFieldSummary[];
+      for (const summary of saved) {
+        this.summaries.set(`${summary.productType}/${summary.firmwareVersion ?? ''}`, summary);
+      }
+    } catch {
+      // Missing or unreadable file: start a new summary
+    }
+    return this.summaries;
+  }
+
+  /**
+   * Queue a rewrite of the summary file
+   */
+  private save(): void {
+    this.pendingWrite = this.pendingWrite
+      .then(() => writeFile(this.filePath, `${JSON.stringify(this.getSummary(), null, 2)}\n`))
+      .catch((error: Error) => this.onError?.(error));
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Host name resolution utilities
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+/** Resolves a host name to an IP address; injectable for testing */
+export type HostResolver = (hostname: string) => Promise<string>;
+
+/**
+ * Check whether a host is an IP address literal rather than a name
+ *
+ * IPv6 addresses may carry a zone index (`fe80::1%en0`).
+ *
+ * @param host - Host name or address
+ */
+export function isIpAddress(host: string): boolean {
+  return isIP(host.split('%')[0]) !== 0;
+}
+
+/**
+ * Check whether a host is an IPv6 address literal
+ *
+ * @param host - Host name or address
+ */
+export function isIPv6Address(host: string): boolean {
+  return isIP(host.split('%')[0]) === 6;
+}
+
+/**
+ * Default resolver: ask the operating system, as any other program would
+ *
+ * Uses the system resolver, so `.local` names only resolve where the system
+ * supports mDNS (macOS, or Linux with nss-mdns). Addresses are returned in
+ * the order the resolver gives them, so IPv6 comes first where it is preferred.
+ *
+ * @param hostname - Host name, or an IP address that is returned as is
+ * @returns The first address the name resolves to
+ * @throws {Error} If the name does not resolve
+ */
+export const resolveHost: HostResolver = async (hostname) => {
+  if (isIpAddress(hostname)) {
+    return hostname;
+  }
+  const { address } = await lookup(hostname);
+  return address;
+};
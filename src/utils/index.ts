@@ -3,3 +3,7 @@
  */
 
 export { sleep, calculateBackoff, RECONNECT_DEFAULTS } from './retry.js';
+export { ReconnectPolicy } from './reconnectPolicy.js';
+export type { ReconnectPhase, ReconnectPolicyConfig, ReconnectStatus } from './reconnectPolicy.js';
+export { isIpAddress, isIPv6Address, resolveHost } from './hostResolver.js';
+export type { HostResolver } from './hostResolver.js';
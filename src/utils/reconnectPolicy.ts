@@ -0,0 +1,232 @@
+/**
+ * Reconnection Policy
+ *
+ * Decides when a lost or unreachable device is tried again: exponential
+ * backoff with jitter after each failed attempt, then a circuit breaker that
+ * stops retrying a device that keeps failing (e.g. one that is switched off
+ * at the wall) and only probes it now and then.
+ */
+
+import { EventEmitter } from 'events';
+
+import { calculateBackoff, RECONNECT_DEFAULTS } from './retry.js';
+
+/**
+ * Where a device is in the reconnection cycle
+ * - 'idle': not connected and not trying (before the first connect or after an intentional disconnect)
+ * - 'connecting': an attempt is in progress
+ * - 'connected': the last attempt succeeded
+ * - 'backing-off': waiting before the next attempt
+ * - 'circuit-open': gave up retrying; waiting to probe the device
+ */
+export type ReconnectPhase = 'idle' | 'connecting' | 'connected' | 'backing-off' | 'circuit-open';
+
+/**
+ * Reconnection policy configuration
+ */
+export interface ReconnectPolicyConfig {
+  /** Failed attempts in a row before the circuit opens (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled per failure (default: 1000) */
+  baseDelayMs?: number;
+  /** Longest delay between retries in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Share of each delay taken off at random, 0-1 (default: 0.2) */
+  jitter?: number;
+  /** Delay between probes while the circuit is open in milliseconds (default: 300000) */
+  probeIntervalMs?: number;
+}
+
+/**
+ * Snapshot of the reconnection state for logs and diagnostics
+ */
+export interface ReconnectStatus {
+  /** Current phase */
+  phase: ReconnectPhase;
+  /** Failed attempts since the last successful connect */
+  failures: number;
+  /** Time the next attempt or probe is due, while backing off or open */
+  nextAttemptAt?: number;
+}
+
+/**
+ * Events emitted by ReconnectPolicy
+ */
+export interface ReconnectPolicyEvents {
+  /** Emitted when the phase changes */
+  phaseChange: [status: ReconnectStatus];
+}
+
+/**
+ * ReconnectPolicy tracks failed connection attempts for one device
+ *
+ * Every layer that retries the device (the MQTT client after a dropped
+ * connection, the accessory after a failed connect) reports to the same
+ * policy, so the backoff and the circuit breaker see every failure. The
+ * policy only computes delays; callers schedule the attempts.
+ */
+export class ReconnectPolicy extends EventEmitter {
+  private maxAttempts: number = RECONNECT_DEFAULTS.maxAttempts;
+  private baseDelayMs: number = RECONNECT_DEFAULTS.baseDelay;
+  private maxDelayMs: number = RECONNECT_DEFAULTS.maxDelay;
+  private jitter: number = RECONNECT_DEFAULTS.jitter;
+  private probeIntervalMs: number = RECONNECT_DEFAULTS.probeInterval;
+
+  private phase: ReconnectPhase = 'idle';
+  private failures = 0;
+  private nextAttemptAt?: number;
+
+  /**
+   * Create a new ReconnectPolicy
+   *
+   * @param config - Policy settings; omitted settings use RECONNECT_DEFAULTS
+   * @param random - Random number source in [0, 1), for jitter
+   */
+  constructor(
+    config: ReconnectPolicyConfig = {},
+    private readonly random: () => number = Math.random,
+  ) {
+    super();
+    this.configure(config);
+  }
+
+  /**
+   * Change the policy settings
+   *
+   * Settings left out keep their current value. The failure count and
+   * phase are kept.
+   *
+   * @param config - Policy settings
+   */
+  configure(config: ReconnectPolicyConfig): void {
+    if (config.maxAttempts !== undefined) {
+      this.maxAttempts = Math.max(1, Math.floor(config.maxAttempts));
+    }
+    if (config.baseDelayMs !== undefined) {
+      this.baseDelayMs = Math.max(0, config.baseDelayMs);
+    }
+    if (config.maxDelayMs !== undefined) {
+      this.maxDelayMs = Math.max(0, config.maxDelayMs);
+    }
+    if (config.jitter !== undefined) {
+      this.jitter = Math.min(1, Math.max(0, config.jitter));
+    }
+    if (config.probeIntervalMs !== undefined) {
+      this.probeIntervalMs = Math.max(0, config.probeIntervalMs);
+    }
+  }
+
+  /**
+   * Get the current phase
+   */
+  getPhase(): ReconnectPhase {
+    return this.phase;
+  }
+
+  /**
+   * Get the number of failed attempts since the last successful connect
+   */
+  getFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Check whether the circuit is open, i.e. retries have stopped until the next probe
+   */
+  isCircuitOpen(): boolean {
+    return this.phase === 'circuit-open';
+  }
+
+  /**
+   * Get a snapshot of the reconnection state
+   */
+  getStatus(): ReconnectStatus {
+    return {
+      phase: this.phase,
+      failures: this.failures,
+      nextAttemptAt: this.nextAttemptAt,
+    };
+  }
+
+  /**
+   * Record that a connection attempt (or probe) started
+   */
+  recordAttempt(): void {
+    this.nextAttemptAt = undefined;
+    this.setPhase('connecting');
+  }
+
+  /**
+   * Record a successful connect, closing the circuit
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.nextAttemptAt = undefined;
+    this.setPhase('connected');
+  }
+
+  /**
+   * Record that an established connection dropped
+   *
+   * @param now - Current time in milliseconds
+   * @returns Delay before the first attempt to reconnect, in milliseconds
+   */
+  recordDisconnect(now: number = Date.now()): number {
+    return this.scheduleNext(now);
+  }
+
+  /**
+   * Record a failed attempt
+   *
+   * Opens the circuit once `maxAttempts` attempts in a row have failed;
+   * from then on every failed probe keeps it open.
+   *
+   * @param now - Current time in milliseconds
+   * @returns Delay before the next attempt or probe, in milliseconds
+   */
+  recordFailure(now: number = Date.now()): number {
+    this.failures++;
+    return this.scheduleNext(now);
+  }
+
+  /**
+   * Forget failures and stop, e.g. after an intentional disconnect
+   */
+  reset(): void {
+    this.failures = 0;
+    this.nextAttemptAt = undefined;
+    this.setPhase('idle');
+  }
+
+  /**
+   * Pick the next delay from the failure count and move to the matching phase
+   */
+  private scheduleNext(now: number): number {
+    const isOpen = this.failures >= this.maxAttempts;
+    const delay = this.applyJitter(isOpen
+      ? this.probeIntervalMs
+      : calculateBackoff(this.failures, this.baseDelayMs, this.maxDelayMs));
+
+    this.nextAttemptAt = now + delay;
+    this.setPhase(isOpen ? 'circuit-open' : 'backing-off');
+    return delay;
+  }
+
+  /**
+   * Take a random share of up to `jitter` off a delay, so it never exceeds the nominal delay
+   */
+  private applyJitter(delay: number): number {
+    return Math.round(delay * (1 - this.jitter * this.random()));
+  }
+
+  /**
+   * Move to a phase, announcing the change
+   */
+  private setPhase(phase: ReconnectPhase): void {
+    const changed = phase !== this.phase;
+    this.phase = phase;
+    if (changed || phase === 'circuit-open') {
+      this.emit('phaseChange', this.getStatus());
+    }
+  }
+}
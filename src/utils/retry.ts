@@ -54,4 +54,8 @@ export const RECONNECT_DEFAULTS = {
   baseDelay: 1000,
   /** Maximum delay between attempts (30 seconds) */
   maxDelay: 30000,
+  /** Share of each delay taken off at random, so devices do not retry in step */
+  jitter: 0.2,
+  /** Delay between probes while the circuit is open (5 minutes) */
+  probeInterval: 5 * 60 * 1000,
 } as const;
@@ -8,6 +8,7 @@ import { DysonAccessory } from '../../../src/accessories/dysonAccessory.js';
 import type { DysonAccessoryConfig } from '../../../src/accessories/dysonAccessory.js';
 import { DysonLinkDevice } from '../../../src/devices/dysonLinkDevice.js';
 import type { DeviceInfo, MqttClientFactory, DeviceState } from '../../../src/devices/index.js';
+import { CommandExpiredError } from '../../../src/devices/index.js';
 import type { DysonMqttClient } from '../../../src/protocol/mqttClient.js';
 import type { API, PlatformAccessory, Logging } from 'homebridge';
 
@@ -54,7 +55,10 @@ function createMockMqttClient() {
     connect: vi.fn().mockResolvedValue(undefined),
     disconnect: vi.fn().mockResolvedValue(undefined),
     subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
     requestCurrentState: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
     publishCommand: vi.fn().mockResolvedValue(undefined),
     isConnected: vi.fn().mockReturnValue(true),
     _emit: (event: string, ...args: unknown[]) => {
@@ -83,6 +87,7 @@ function createMockInfoService() {
   return {
     setCharacteristic: vi.fn().mockReturnThis(),
     getCharacteristic: vi.fn().mockReturnThis(),
+    updateCharacteristic: vi.fn().mockReturnThis(),
   };
 }
 
@@ -107,6 +112,7 @@ function createMockApi() {
       Service,
       Characteristic,
     },
+    updatePlatformAccessories: vi.fn(),
     _mockInfoService: mockInfoService,
   } as unknown as API & { _mockInfoService: ReturnType<typeof createMockInfoService> };
 }
@@ -144,6 +150,7 @@ describe('DysonAccessory', () => {
 
     mockAccessory = {
       displayName: 'Living Room',
+      context: {},
       getService: vi.fn((serviceType: unknown) => {
         const uuid = typeof serviceType === 'object' && serviceType !== null && 'UUID' in serviceType
           ? (serviceType as { UUID: string }).UUID
@@ -276,6 +283,84 @@ describe('DysonAccessory', () => {
     });
   });
 
+  describe('firmware version', () => {
+    const emitSoftware = (version: string) => {
+      mockMqttClient._emit('message', {
+        topic: '438/ABC-AB-12345678/status/software',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-SOFTWARE', version },
+      });
+    };
+
+    /** Build an accessory with its own info service and context */
+    function createAccessory(deviceInfo: DeviceInfo, context: Record<string, unknown>) {
+      const infoService = createMockInfoService();
+      const platformAccessory = {
+        ...mockAccessory,
+        context,
+        getService: vi.fn().mockReturnValue(infoService),
+      } as unknown as PlatformAccessory;
+
+      new TestAccessory({
+        accessory: platformAccessory,
+        device: new DysonLinkDevice(deviceInfo, mockMqttClientFactory),
+        api: mockApi,
+        log: mockLog,
+      });
+
+      return infoService;
+    }
+
+    it('should default the firmware revision when no version is known', () => {
+      expect(mockInfoService.setCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.FirmwareRevision,
+        '1.0.0',
+      );
+    });
+
+    it('should use the cloud-reported version', () => {
+      const infoService = createAccessory({ ...defaultDeviceInfo, firmwareVersion: '21.04.03' }, {});
+
+      expect(infoService.setCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.FirmwareRevision,
+        '21.04.03',
+      );
+    });
+
+    it('should prefer the last version the device reported', () => {
+      const infoService = createAccessory(
+        { ...defaultDeviceInfo, firmwareVersion: '21.04.03' },
+        { firmwareVersion: '22.01.05' },
+      );
+
+      expect(infoService.setCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.FirmwareRevision,
+        '22.01.05',
+      );
+    });
+
+    it('should store and publish the version reported on the software topic', () => {
+      emitSoftware('438MPF.00.01.007.0002');
+
+      expect(mockAccessory.context.firmwareVersion).toBe('438MPF.00.01.007.0002');
+      expect(mockApi.updatePlatformAccessories).toHaveBeenCalledWith([mockAccessory]);
+      expect(mockInfoService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.FirmwareRevision,
+        '438MPF.00.01.007.0002',
+      );
+    });
+
+    it('should log firmware updates once', () => {
+      emitSoftware('21.04.03');
+      emitSoftware('22.01.05');
+      emitSoftware('22.01.05');
+
+      expect(mockLog.info).toHaveBeenCalledWith('Living Room: Firmware updated from 21.04.03 to 22.01.05');
+      expect(mockInfoService.updateCharacteristic).toHaveBeenCalledTimes(2);
+      expect(mockApi.updatePlatformAccessories).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('device event handling', () => {
     it('should subscribe to device stateChange events', () => {
       const stateHandler = vi.fn();
@@ -310,6 +395,22 @@ describe('DysonAccessory', () => {
         'Living Room',
       );
     });
+
+    it('should log warning when the connection goes stale', () => {
+      device.emit('stale', { missedReplies: 3 });
+
+      expect(mockLog.warn).toHaveBeenCalledWith(
+        'Device stopped responding: Living Room (3 missed replies), reconnecting',
+      );
+    });
+
+    it('should log warning when a queued command expires', () => {
+      device.emit('commandExpired', new CommandExpiredError({ fpwr: 'ON' }, 30000));
+
+      expect(mockLog.warn).toHaveBeenCalledWith(
+        'Living Room: Dropped command {"fpwr":"ON"}: device did not reconnect within 30000ms',
+      );
+    });
   });
 
   describe('getters', () => {
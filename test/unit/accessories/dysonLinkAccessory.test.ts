@@ -25,7 +25,10 @@ function createMockMqttClient() {
     connect: vi.fn().mockResolvedValue(undefined),
     disconnect: vi.fn().mockResolvedValue(undefined),
     subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
     requestCurrentState: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
     publishCommand: vi.fn().mockResolvedValue(undefined),
     isConnected: vi.fn().mockReturnValue(true),
     _emit: (event: string, ...args: unknown[]) => {
@@ -99,6 +102,7 @@ function createMockApi() {
         Active: 'Active',
         RotationSpeed: 'RotationSpeed',
         SwingMode: 'SwingMode',
+        StatusFault: 'StatusFault',
         Manufacturer: 'Manufacturer',
         Model: 'Model',
         SerialNumber: 'SerialNumber',
@@ -173,6 +177,7 @@ function createMockAccessory(api: ReturnType<typeof createMockApi>) {
       }
       return createMockService();
     }),
+    removeService: vi.fn(),
     context: {},
   } as unknown as Mocked<PlatformAccessory>;
 }
@@ -234,6 +239,19 @@ describe('DysonLinkAccessory', () => {
       expect(accessory.getFanService()).toBeDefined();
     });
 
+    it('should allow a stateChange listener per service without a leak warning', () => {
+      const hpDevice = new DysonLinkDevice({ ...defaultDeviceInfo, productType: '527' }, mockMqttClientFactory);
+      accessory = new DysonLinkAccessory({
+        accessory: mockAccessory,
+        device: hpDevice,
+        api: mockApi as unknown as API,
+        log: mockLog,
+      });
+
+      expect(hpDevice.getMaxListeners()).toBeGreaterThan(10);
+      expect(hpDevice.getMaxListeners()).toBeGreaterThanOrEqual(hpDevice.listenerCount('stateChange'));
+    });
+
     it('should set up AccessoryInformation service', () => {
       accessory = new DysonLinkAccessory({
         accessory: mockAccessory,
@@ -326,6 +344,108 @@ describe('DysonLinkAccessory', () => {
     });
   });
 
+  describe('fault logging', () => {
+    const emitFaults = (warnings: Record<string, string>) => {
+      mockMqttClient._emit('message', {
+        topic: 'status',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-FAULTS', 'product-warnings': warnings },
+      });
+    };
+
+    beforeEach(async () => {
+      accessory = new DysonLinkAccessory({
+        accessory: mockAccessory,
+        device,
+        api: mockApi as unknown as API,
+        log: mockLog,
+      });
+      await device.connect();
+    });
+
+    it('should log a new fault once', () => {
+      emitFaults({ fltr: 'FAIL' });
+      emitFaults({ fltr: 'FAIL' });
+
+      expect(mockLog.warn).toHaveBeenCalledTimes(1);
+      expect(mockLog.warn).toHaveBeenCalledWith('Test Dyson: Filter needs replacing (fltr)');
+    });
+
+    it('should log critical faults as errors', () => {
+      mockMqttClient._emit('message', {
+        topic: 'status',
+        payload: Buffer.from('{}'),
+        data: { msg: 'STATE-CHANGE', 'product-state': { tilt: ['OK', 'TILT'] } },
+      });
+
+      expect(mockLog.error).toHaveBeenCalledWith(
+        'Test Dyson: Device is tilted or has been knocked over (tilt)',
+      );
+    });
+
+    it('should log when a fault clears', () => {
+      emitFaults({ fltr: 'FAIL' });
+      emitFaults({ fltr: 'OK' });
+
+      expect(mockLog.info).toHaveBeenCalledWith('Test Dyson: Fault cleared (fltr)');
+    });
+  });
+
+  describe('filter services', () => {
+    const emitState = (productState: Record<string, string>) => {
+      mockMqttClient._emit('message', {
+        topic: 'status',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-STATE', 'product-state': productState },
+      });
+    };
+
+    beforeEach(async () => {
+      accessory = new DysonLinkAccessory({
+        accessory: mockAccessory,
+        device,
+        api: mockApi as unknown as API,
+        log: mockLog,
+      });
+      await device.connect();
+    });
+
+    it('should create separate HEPA and carbon filter services', () => {
+      expect(accessory.getFilterService()?.getFilter()).toBe('hepa');
+      expect(accessory.getCarbonFilterService()?.getFilter()).toBe('carbon');
+    });
+
+    it('should remove the carbon filter service when no carbon filter is fitted', () => {
+      const carbonService = accessory.getCarbonFilterService()!.getService();
+
+      emitState({ hflt: 'GCOM', cflt: 'NONE' });
+
+      expect(mockAccessory.removeService).toHaveBeenCalledWith(carbonService);
+      expect(accessory.getCarbonFilterService()).toBeUndefined();
+      expect(accessory.getFilterService()).toBeDefined();
+    });
+
+    it('should add the carbon filter service back once a carbon filter is fitted', () => {
+      emitState({ cflt: 'NONE' });
+      emitState({ cflt: 'CARF' });
+
+      expect(accessory.getCarbonFilterService()).toBeDefined();
+    });
+
+    it('should not create a carbon filter service for the Link series', () => {
+      const tp02Device = new DysonLinkDevice({ ...defaultDeviceInfo, productType: '475' }, mockMqttClientFactory);
+      const tp02Accessory = new DysonLinkAccessory({
+        accessory: mockAccessory,
+        device: tp02Device,
+        api: mockApi as unknown as API,
+        log: mockLog,
+      });
+
+      expect(tp02Accessory.getFilterService()).toBeDefined();
+      expect(tp02Accessory.getCarbonFilterService()).toBeUndefined();
+    });
+  });
+
   describe('HP02 support (455)', () => {
     it('should work with HP02 device', () => {
       const hp02Device = new DysonLinkDevice(
@@ -26,8 +26,20 @@ function createMockMqttClient() {
     connect: vi.fn().mockResolvedValue(undefined),
     disconnect: vi.fn().mockResolvedValue(undefined),
     subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
     requestCurrentState: vi.fn().mockResolvedValue(undefined),
-    publishCommand: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
+    // Echo STATE-SET back as the device would, confirming the command
+    publishCommand: vi.fn(async (command: { msg?: string; data?: Record<string, string> }) => {
+      if (command.msg === 'STATE-SET') {
+        mockClient._emit('message', {
+          topic: 'status',
+          payload: Buffer.from('{}'),
+          data: { msg: 'STATE-CHANGE', 'product-state': command.data },
+        });
+      }
+    }),
     isConnected: vi.fn().mockReturnValue(true),
     _emit: (event: string, ...args: unknown[]) => {
       const handlers = eventHandlers.get(event) || [];
@@ -324,8 +336,7 @@ describe('ContinuousMonitoringService', () => {
       const errorHandler = vi.fn();
       device.on('commandError', errorHandler);
 
-      await onSetHandler(true);
-      await flushCommands();
+      await expect(onSetHandler(true)).rejects.toThrow('MQTT error');
 
       expect(errorHandler).toHaveBeenCalledWith(expect.any(Error));
     });
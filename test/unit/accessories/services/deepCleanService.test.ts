@@ -0,0 +1,272 @@
+/**
+ * DeepCleanService Unit Tests
+ */
+
+import { vi, type Mock, type Mocked } from 'vitest';
+
+import { DeepCleanService } from '../../../../src/accessories/services/deepCleanService.js';
+import type { DeepCleanServiceConfig } from '../../../../src/accessories/services/deepCleanService.js';
+import { DysonLinkDevice } from '../../../../src/devices/dysonLinkDevice.js';
+import type { DeviceInfo, MqttClientFactory } from '../../../../src/devices/index.js';
+import type { DysonMqttClient } from '../../../../src/protocol/mqttClient.js';
+import type { API, PlatformAccessory, Service, Logging } from 'homebridge';
+
+// Create mock MQTT client
+function createMockMqttClient() {
+  const eventHandlers: Map<string, ((...args: unknown[]) => void)[]> = new Map();
+
+  const mockClient = {
+    on: vi.fn((event: string, handler: (...args: unknown[]) => void) => {
+      if (!eventHandlers.has(event)) {
+        eventHandlers.set(event, []);
+      }
+      eventHandlers.get(event)!.push(handler);
+      return mockClient;
+    }),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
+    requestCurrentState: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
+    // Echo STATE-SET back as the device would, confirming the command
+    publishCommand: vi.fn(async (command: { msg?: string; data?: Record<string, string> }) => {
+      if (command.msg === 'STATE-SET') {
+        mockClient._emit('message', {
+          topic: 'status',
+          payload: Buffer.from('{}'),
+          data: { msg: 'STATE-CHANGE', 'product-state': command.data },
+        });
+      }
+    }),
+    isConnected: vi.fn().mockReturnValue(true),
+    _emit: (event: string, ...args: unknown[]) => {
+      const handlers = eventHandlers.get(event) || [];
+      handlers.forEach((handler) => handler(...args));
+    },
+  };
+
+  return mockClient as unknown as Mocked<DysonMqttClient> & { _emit: (event: string, ...args: unknown[]) => void };
+}
+
+// Create mock HomeKit service
+function createMockService() {
+  const characteristics = new Map<string, {
+    onGet: Mock;
+    onSet: Mock;
+    setProps: Mock;
+    getValue: Mock;
+  }>();
+
+  const mockService = {
+    setCharacteristic: vi.fn().mockReturnThis(),
+    getCharacteristic: vi.fn((char: unknown) => {
+      const uuid = typeof char === 'object' && char !== null && 'UUID' in char
+        ? (char as { UUID: string }).UUID
+        : String(char);
+      if (!characteristics.has(uuid)) {
+        const charMock = {
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+          setProps: vi.fn().mockReturnThis(),
+          getValue: vi.fn(),
+        };
+        characteristics.set(uuid, charMock);
+      }
+      return characteristics.get(uuid);
+    }),
+    updateCharacteristic: vi.fn(),
+    addOptionalCharacteristic: vi.fn().mockReturnThis(),
+    addLinkedService: vi.fn().mockReturnThis(),
+  };
+
+  return mockService as unknown as Mocked<Service>;
+}
+
+// Create mock logging
+function createMockLog(): Logging {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    log: vi.fn(),
+    success: vi.fn(),
+  } as unknown as Logging;
+}
+
+// Create mock API with hap
+function createMockApi() {
+  const Characteristic = {
+    Active: { UUID: 'active-uuid' },
+    InUse: { UUID: 'in-use-uuid' },
+    ValveType: { UUID: 'valve-type-uuid', GENERIC_VALVE: 0 },
+    RemainingDuration: { UUID: 'remaining-duration-uuid' },
+    StatusFault: { UUID: 'status-fault-uuid', NO_FAULT: 0, GENERAL_FAULT: 1 },
+    Name: { UUID: 'name-uuid' },
+    ConfiguredName: { UUID: 'configured-name-uuid' },
+  };
+
+  const Service = {
+    Valve: { UUID: 'valve-uuid' },
+  };
+
+  return {
+    hap: {
+      Service,
+      Characteristic,
+    },
+  } as unknown as API;
+}
+
+// Build a STATE-CHANGE message with the given product state
+function stateChange(productState: Record<string, string | [string, string]>) {
+  return {
+    topic: '358/ABC-AB-12345678/status/current',
+    payload: Buffer.from('{}'),
+    data: { msg: 'STATE-CHANGE', 'product-state': productState },
+  };
+}
+
+describe('DeepCleanService', () => {
+  let deepCleanService: DeepCleanService;
+  let onGetActive: () => unknown;
+  let onSetActive: (value: unknown) => Promise<void>;
+  let onGetRemaining: () => unknown;
+  let onGetStatusFault: () => unknown;
+  let mockMqttClient: ReturnType<typeof createMockMqttClient>;
+  let mockMqttClientFactory: MqttClientFactory;
+  let device: DysonLinkDevice;
+  let mockService: ReturnType<typeof createMockService>;
+  let mockAccessory: PlatformAccessory;
+  let mockLog: Logging;
+  let mockApi: API;
+
+  const defaultDeviceInfo: DeviceInfo = {
+    serial: 'ABC-AB-12345678',
+    productType: '358',
+    name: 'Bedroom',
+    credentials: 'localPassword123',
+    ipAddress: '192.168.1.100',
+  };
+
+  beforeEach(async () => {
+    mockMqttClient = createMockMqttClient();
+    mockMqttClientFactory = vi.fn().mockReturnValue(mockMqttClient);
+    device = new DysonLinkDevice(defaultDeviceInfo, mockMqttClientFactory);
+
+    mockService = createMockService();
+    mockLog = createMockLog();
+    mockApi = createMockApi();
+
+    mockAccessory = {
+      displayName: 'Bedroom',
+      getService: vi.fn().mockReturnValue(null),
+      getServiceById: vi.fn().mockReturnValue(null),
+      addService: vi.fn().mockReturnValue(mockService),
+    } as unknown as PlatformAccessory;
+
+    await device.connect();
+
+    const config: DeepCleanServiceConfig = {
+      accessory: mockAccessory,
+      device,
+      api: mockApi,
+      log: mockLog,
+    };
+
+    deepCleanService = new DeepCleanService(config);
+
+    const Characteristic = mockApi.hap.Characteristic;
+    const activeChar = mockService.getCharacteristic(Characteristic.Active);
+    onGetActive = (activeChar!.onGet as Mock).mock.calls[0][0];
+    onSetActive = (activeChar!.onSet as Mock).mock.calls[0][0];
+    onGetRemaining = (mockService.getCharacteristic(Characteristic.RemainingDuration)!.onGet as Mock).mock.calls[0][0];
+    onGetStatusFault = (mockService.getCharacteristic(Characteristic.StatusFault)!.onGet as Mock).mock.calls[0][0];
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('initialization', () => {
+    it('should create Valve service with deep-clean subtype', () => {
+      expect(mockAccessory.addService).toHaveBeenCalledWith(
+        mockApi.hap.Service.Valve,
+        'Deep Clean',
+        'deep-clean',
+      );
+    });
+
+    it('should set a generic valve type', () => {
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.ValveType,
+        0,
+      );
+    });
+
+    it('should return the service', () => {
+      expect(deepCleanService.getService()).toBe(mockService);
+    });
+  });
+
+  describe('Active characteristic', () => {
+    it('should be inactive while no cycle runs', () => {
+      expect(onGetActive()).toBe(0);
+    });
+
+    it('should start a deep clean when activated', async () => {
+      await onSetActive(1);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { clcr: 'CLAC' } }),
+      );
+      expect(onGetActive()).toBe(1);
+    });
+
+    it('should cancel a deep clean when deactivated', async () => {
+      mockMqttClient._emit('message', stateChange({ clcr: ['CLNO', 'CLAC'] }));
+
+      await onSetActive(0);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { clcr: 'CLNO' } }),
+      );
+    });
+  });
+
+  describe('RemainingDuration characteristic', () => {
+    it('should count down the running cycle in seconds', () => {
+      mockMqttClient._emit('message', stateChange({ clcr: ['CLNO', 'CLAC'], cdrr: ['0060', '0042'] }));
+
+      expect(onGetRemaining()).toBe(42 * 60);
+    });
+
+    it('should read 0 while no cycle runs', () => {
+      mockMqttClient._emit('message', stateChange({ clcr: 'CLNO', cdrr: '0060' }));
+
+      expect(onGetRemaining()).toBe(0);
+    });
+  });
+
+  describe('StatusFault characteristic', () => {
+    it('should show a fault while a deep clean is due', () => {
+      mockMqttClient._emit('message', {
+        topic: '358/ABC-AB-12345678/status/faults',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-FAULTS', 'product-warnings': { cldu: 'FAIL' } },
+      });
+
+      expect(onGetStatusFault()).toBe(1);
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.StatusFault,
+        1,
+      );
+    });
+
+    it('should show no fault otherwise', () => {
+      expect(onGetStatusFault()).toBe(0);
+    });
+  });
+});
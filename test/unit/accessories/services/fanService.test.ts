@@ -26,8 +26,20 @@ function createMockMqttClient() {
     connect: vi.fn().mockResolvedValue(undefined),
     disconnect: vi.fn().mockResolvedValue(undefined),
     subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
     requestCurrentState: vi.fn().mockResolvedValue(undefined),
-    publishCommand: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
+    // Echo STATE-SET back as the device would, confirming the command
+    publishCommand: vi.fn(async (command: { msg?: string; data?: Record<string, string> }) => {
+      if (command.msg === 'STATE-SET') {
+        mockClient._emit('message', {
+          topic: 'status',
+          payload: Buffer.from('{}'),
+          data: { msg: 'STATE-CHANGE', 'product-state': command.data },
+        });
+      }
+    }),
     isConnected: vi.fn().mockReturnValue(true),
     _emit: (event: string, ...args: unknown[]) => {
       const handlers = eventHandlers.get(event) || [];
@@ -92,6 +104,7 @@ function createMockApi() {
     TargetAirPurifierState: { UUID: 'target-air-purifier-state-uuid' },
     RotationSpeed: { UUID: 'rotation-speed-uuid' },
     SwingMode: { UUID: 'swing-mode-uuid' },
+    StatusFault: { UUID: 'status-fault-uuid' },
     Name: { UUID: 'name-uuid' },
     ConfiguredName: { UUID: 'configured-name-uuid' },
   };
@@ -287,7 +300,7 @@ describe('FanService', () => {
         expect.objectContaining({
           msg: 'STATE-SET',
           'mode-reason': 'LAPP',
-          data: { fmod: 'FAN' },
+          data: expect.objectContaining({ fmod: 'FAN' }),
         }),
       );
     });
@@ -497,6 +510,51 @@ describe('FanService', () => {
     });
   });
 
+  describe('StatusFault characteristic', () => {
+    const getStatusFault = () => {
+      const char = mockService.getCharacteristic(mockApi.hap.Characteristic.StatusFault);
+      return (char!.onGet as Mock).mock.calls[0][0]() as number;
+    };
+
+    it('should return NO_FAULT when nothing is reported', () => {
+      expect(getStatusFault()).toBe(0);
+    });
+
+    it('should return GENERAL_FAULT for an active warning', () => {
+      mockMqttClient._emit('message', {
+        topic: 'status',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-FAULTS', 'product-warnings': { fltr: 'FAIL', tnke: 'OK' } },
+      });
+
+      expect(getStatusFault()).toBe(1);
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.StatusFault,
+        1,
+      );
+    });
+
+    it('should return GENERAL_FAULT for an error code', () => {
+      mockMqttClient._emit('message', {
+        topic: 'status',
+        payload: Buffer.from('{}'),
+        data: { msg: 'STATE-CHANGE', 'product-state': { ercd: '57C2' } },
+      });
+
+      expect(getStatusFault()).toBe(1);
+    });
+
+    it('should ignore informational faults', () => {
+      mockMqttClient._emit('message', {
+        topic: 'status',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-FAULTS', 'module-warnings': { srmu: 'FAIL' } },
+      });
+
+      expect(getStatusFault()).toBe(0);
+    });
+  });
+
   describe('state change handling', () => {
     it('should update characteristics when device state changes', async () => {
       // Simulate full state update
@@ -610,6 +668,18 @@ describe('FanService', () => {
   });
 
   describe('error handling', () => {
+    it('should revert HomeKit to the reported state when a command fails', async () => {
+      mockMqttClient.publishCommand.mockRejectedValueOnce(new Error('MQTT error'));
+      mockService.updateCharacteristic.mockClear();
+
+      await expect(swingModeSetHandler(1)).rejects.toThrow('MQTT error');
+
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.SwingMode,
+        0,
+      );
+    });
+
     it('should throw when setFanPower(false) MQTT publish fails', async () => {
       mockMqttClient.publishCommand.mockRejectedValueOnce(new Error('MQTT error'));
 
@@ -636,8 +706,7 @@ describe('FanService', () => {
       const errorHandler = vi.fn();
       device.on('commandError', errorHandler);
 
-      await swingModeSetHandler(1);
-      await flushCommands();
+      await expect(swingModeSetHandler(1)).rejects.toThrow('MQTT error');
 
       expect(errorHandler).toHaveBeenCalledWith(expect.any(Error));
     });
@@ -648,8 +717,7 @@ describe('FanService', () => {
       const errorHandler = vi.fn();
       device.on('commandError', errorHandler);
 
-      await targetStateSetHandler(1);
-      await flushCommands();
+      await expect(targetStateSetHandler(1)).rejects.toThrow('MQTT error');
 
       expect(errorHandler).toHaveBeenCalledWith(expect.any(Error));
     });
@@ -25,7 +25,10 @@ function createMockMqttClient() {
     connect: vi.fn().mockResolvedValue(undefined),
     disconnect: vi.fn().mockResolvedValue(undefined),
     subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
     requestCurrentState: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
     publishCommand: vi.fn().mockResolvedValue(undefined),
     isConnected: vi.fn().mockReturnValue(true),
     _emit: (event: string, ...args: unknown[]) => {
@@ -86,6 +89,7 @@ function createMockApi() {
         Name: 'Name',
         FilterLifeLevel: 'FilterLifeLevel',
         FilterChangeIndication: 'FilterChangeIndication',
+        ResetFilterIndication: 'ResetFilterIndication',
         ConfiguredName: 'ConfiguredName',
       },
     },
@@ -100,12 +104,8 @@ function createMockAccessory(api: ReturnType<typeof createMockApi>) {
   return {
     displayName: 'Test Dyson',
     UUID: 'test-uuid',
-    getService: vi.fn((serviceType: unknown) => {
-      if (serviceType === 'filter-maintenance') {
-        return api._mockFilterService;
-      }
-      return undefined;
-    }),
+    getService: vi.fn(() => undefined),
+    getServiceById: vi.fn(() => undefined),
     addService: vi.fn(() => api._mockFilterService),
     context: {},
   } as unknown as Mocked<PlatformAccessory>;
@@ -163,7 +163,21 @@ describe('FilterService', () => {
         log: mockLog,
       });
 
-      expect(mockAccessory.getService).toHaveBeenCalledWith('filter-maintenance');
+      expect(mockAccessory.getServiceById).toHaveBeenCalledWith('FilterMaintenance', 'filter-maintenance');
+      expect(mockAccessory.addService).toHaveBeenCalledWith('FilterMaintenance', 'HEPA Filter', 'filter-maintenance');
+    });
+
+    it('should create a separate service for the carbon filter', () => {
+      service = new FilterService({
+        accessory: mockAccessory,
+        device,
+        api: mockApi as unknown as API,
+        log: mockLog,
+        filter: 'carbon',
+      });
+
+      expect(mockAccessory.addService).toHaveBeenCalledWith('FilterMaintenance', 'Carbon Filter', 'carbon-filter');
+      expect(service.getFilter()).toBe('carbon');
     });
 
     it('should set configured name', () => {
@@ -179,7 +193,7 @@ describe('FilterService', () => {
       );
       expect(mockApi._mockFilterService.updateCharacteristic).toHaveBeenCalledWith(
         'ConfiguredName',
-        'Filter',
+        'HEPA Filter',
       );
     });
 
@@ -194,6 +208,7 @@ describe('FilterService', () => {
       const chars = mockApi._mockFilterService._getCharacteristics();
       expect(chars.get('FilterLifeLevel')?.onGet).toHaveBeenCalled();
       expect(chars.get('FilterChangeIndication')?.onGet).toHaveBeenCalled();
+      expect(chars.get('ResetFilterIndication')?.onSet).toHaveBeenCalled();
     });
 
     it('should return the service', () => {
@@ -249,10 +264,10 @@ describe('FilterService', () => {
       expect(filterLifeGetHandler()).toBe(0);
     });
 
-    it('should use carbon filter as fallback', () => {
+    it('should not show the carbon filter life', () => {
       device.state.hepaFilterLife = undefined;
       device.state.carbonFilterLife = 2150;
-      expect(filterLifeGetHandler()).toBe(50);
+      expect(filterLifeGetHandler()).toBe(100);
     });
 
     it('should clamp to 0% for negative values', () => {
@@ -261,6 +276,53 @@ describe('FilterService', () => {
     });
   });
 
+  describe('carbon filter', () => {
+    let filterLifeGetHandler: () => number;
+
+    beforeEach(() => {
+      service = new FilterService({
+        accessory: mockAccessory,
+        device,
+        api: mockApi as unknown as API,
+        log: mockLog,
+        filter: 'carbon',
+      });
+
+      const filterLifeChar = mockApi._mockFilterService._getCharacteristics().get('FilterLifeLevel');
+      filterLifeGetHandler = filterLifeChar!.onGet.mock.calls[0][0] as () => number;
+    });
+
+    it('should show the carbon filter life', () => {
+      device.state.hepaFilterLife = 4300;
+      device.state.carbonFilterLife = 1075;
+      expect(filterLifeGetHandler()).toBe(25);
+    });
+
+    it('should update from the carbon filter life on state change', () => {
+      device.updateState({ carbonFilterLife: 2150 });
+
+      expect(mockApi._mockFilterService.updateCharacteristic).toHaveBeenCalledWith('FilterLifeLevel', 50);
+    });
+  });
+
+  describe('filter capacity', () => {
+    it('should take the filter capacity from the catalog', () => {
+      const ph01Device = new DysonLinkDevice({ ...defaultDeviceInfo, productType: '358' }, mockMqttClientFactory);
+      service = new FilterService({
+        accessory: mockAccessory,
+        device: ph01Device,
+        api: mockApi as unknown as API,
+        log: mockLog,
+      });
+      const filterLifeChar = mockApi._mockFilterService._getCharacteristics().get('FilterLifeLevel');
+      const filterLifeGetHandler = filterLifeChar!.onGet.mock.calls[0][0] as () => number;
+
+      ph01Device.state.hepaFilterLife = 4380;
+
+      expect(filterLifeGetHandler()).toBe(50);
+    });
+  });
+
   describe('FilterChangeIndication', () => {
     let filterChangeGetHandler: () => number;
 
@@ -307,6 +369,62 @@ describe('FilterService', () => {
     });
   });
 
+  describe('ResetFilterIndication', () => {
+    let resetFilterSetHandler: (value: number) => Promise<void>;
+
+    beforeEach(async () => {
+      await device.connect();
+      service = new FilterService({
+        accessory: mockAccessory,
+        device,
+        api: mockApi as unknown as API,
+        log: mockLog,
+      });
+
+      const resetChar = mockApi._mockFilterService._getCharacteristics().get('ResetFilterIndication');
+      resetFilterSetHandler = resetChar!.onSet.mock.calls[0][0] as (value: number) => Promise<void>;
+    });
+
+    it('should reset the HEPA filter', async () => {
+      const handler = vi.fn();
+      device.on('filterReset', handler);
+      device.state.hepaFilterLife = 100;
+
+      await resetFilterSetHandler(1);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { rstf: 'RSTF' } }),
+      );
+      expect(handler).toHaveBeenCalledWith('hepa', expect.any(Date));
+    });
+
+    it('should reset the carbon filter from the carbon filter service', async () => {
+      const handler = vi.fn();
+      device.on('filterReset', handler);
+      const carbonApi = createMockApi();
+      new FilterService({
+        accessory: createMockAccessory(carbonApi),
+        device,
+        api: carbonApi as unknown as API,
+        log: mockLog,
+        filter: 'carbon',
+      });
+      const resetChar = carbonApi._mockFilterService._getCharacteristics().get('ResetFilterIndication');
+      const carbonResetHandler = resetChar!.onSet.mock.calls[0][0] as (value: number) => Promise<void>;
+
+      await carbonResetHandler(1);
+
+      expect(handler).toHaveBeenCalledWith('carbon', expect.any(Date));
+    });
+
+    it('should log and rethrow when the reset fails', async () => {
+      mockMqttClient.publishCommand.mockRejectedValueOnce(new Error('offline'));
+
+      await expect(resetFilterSetHandler(1)).rejects.toThrow('offline');
+      expect(mockLog.error).toHaveBeenCalled();
+    });
+  });
+
   describe('state change handling', () => {
     beforeEach(() => {
       service = new FilterService({
@@ -0,0 +1,244 @@
+/**
+ * ManualChangeService Unit Tests
+ */
+
+import { vi, type Mock, type Mocked } from 'vitest';
+
+import { ManualChangeService } from '../../../../src/accessories/services/manualChangeService.js';
+import type { ManualChangeServiceConfig } from '../../../../src/accessories/services/manualChangeService.js';
+import { DysonLinkDevice } from '../../../../src/devices/dysonLinkDevice.js';
+import type { DeviceInfo, MqttClientFactory } from '../../../../src/devices/index.js';
+import type { DysonMqttClient, MqttMessage } from '../../../../src/protocol/mqttClient.js';
+import type { API, PlatformAccessory, Service, Logging } from 'homebridge';
+
+// Create mock MQTT client
+function createMockMqttClient() {
+  const eventHandlers: Map<string, ((...args: unknown[]) => void)[]> = new Map();
+
+  const mockClient = {
+    on: vi.fn((event: string, handler: (...args: unknown[]) => void) => {
+      if (!eventHandlers.has(event)) {
+        eventHandlers.set(event, []);
+      }
+      eventHandlers.get(event)!.push(handler);
+      return mockClient;
+    }),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
+    requestCurrentState: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
+    // Echo STATE-SET back as the device would, confirming the command
+    publishCommand: vi.fn(async (command: { msg?: string; data?: Record<string, string> }) => {
+      if (command.msg === 'STATE-SET') {
+        mockClient._emit('message', {
+          topic: 'status',
+          payload: Buffer.from('{}'),
+          data: { msg: 'STATE-CHANGE', 'product-state': command.data },
+        });
+      }
+    }),
+    isConnected: vi.fn().mockReturnValue(true),
+    _emit: (event: string, ...args: unknown[]) => {
+      const handlers = eventHandlers.get(event) || [];
+      handlers.forEach((handler) => handler(...args));
+    },
+  };
+
+  return mockClient as unknown as Mocked<DysonMqttClient> & { _emit: (event: string, ...args: unknown[]) => void };
+}
+
+// Create mock HomeKit service
+function createMockService() {
+  const characteristics = new Map<string, {
+    onGet: Mock;
+    onSet: Mock;
+    setProps: Mock;
+    getValue: Mock;
+  }>();
+
+  const mockService = {
+    setCharacteristic: vi.fn().mockReturnThis(),
+    getCharacteristic: vi.fn((char: unknown) => {
+      const uuid = typeof char === 'object' && char !== null && 'UUID' in char
+        ? (char as { UUID: string }).UUID
+        : String(char);
+      if (!characteristics.has(uuid)) {
+        const charMock = {
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+          setProps: vi.fn().mockReturnThis(),
+          getValue: vi.fn(),
+        };
+        characteristics.set(uuid, charMock);
+      }
+      return characteristics.get(uuid);
+    }),
+    updateCharacteristic: vi.fn(),
+    addOptionalCharacteristic: vi.fn().mockReturnThis(),
+    addLinkedService: vi.fn().mockReturnThis(),
+  };
+
+  return mockService as unknown as Mocked<Service>;
+}
+
+// Create mock logging
+function createMockLog(): Logging {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    log: vi.fn(),
+    success: vi.fn(),
+  } as unknown as Logging;
+}
+
+// Create mock API with hap
+function createMockApi() {
+  const Characteristic = {
+    ProgrammableSwitchEvent: { UUID: 'programmable-switch-event-uuid', SINGLE_PRESS: 0, DOUBLE_PRESS: 1, LONG_PRESS: 2 },
+    Name: { UUID: 'name-uuid' },
+    ConfiguredName: { UUID: 'configured-name-uuid' },
+  };
+
+  const Service = {
+    StatelessProgrammableSwitch: { UUID: 'stateless-programmable-switch-uuid' },
+  };
+
+  return {
+    hap: {
+      Service,
+      Characteristic,
+    },
+  } as unknown as API;
+}
+
+// Build a STATE-CHANGE message as the device sends it
+function stateChange(productState: Record<string, string | [string, string]>, modeReason: string, stateReason = 'MODE'): MqttMessage {
+  return {
+    topic: '438/ABC-AB-12345678/status/current',
+    payload: Buffer.from('{}'),
+    data: { msg: 'STATE-CHANGE', 'mode-reason': modeReason, 'state-reason': stateReason, 'product-state': productState },
+  };
+}
+
+describe('ManualChangeService', () => {
+  let manualChangeService: ManualChangeService;
+  let mockMqttClient: ReturnType<typeof createMockMqttClient>;
+  let mockMqttClientFactory: MqttClientFactory;
+  let device: DysonLinkDevice;
+  let mockService: ReturnType<typeof createMockService>;
+  let mockAccessory: PlatformAccessory;
+  let mockLog: Logging;
+  let mockApi: API;
+
+  const defaultDeviceInfo: DeviceInfo = {
+    serial: 'ABC-AB-12345678',
+    productType: '438',
+    name: 'Living Room',
+    credentials: 'localPassword123',
+    ipAddress: '192.168.1.100',
+  };
+
+  beforeEach(async () => {
+    mockMqttClient = createMockMqttClient();
+    mockMqttClientFactory = vi.fn().mockReturnValue(mockMqttClient);
+    device = new DysonLinkDevice(defaultDeviceInfo, mockMqttClientFactory);
+
+    mockService = createMockService();
+    mockLog = createMockLog();
+    mockApi = createMockApi();
+
+    mockAccessory = {
+      displayName: 'Living Room',
+      getService: vi.fn().mockReturnValue(null),
+      getServiceById: vi.fn().mockReturnValue(null),
+      addService: vi.fn().mockReturnValue(mockService),
+    } as unknown as PlatformAccessory;
+
+    await device.connect();
+
+    const config: ManualChangeServiceConfig = {
+      accessory: mockAccessory,
+      device,
+      api: mockApi,
+      log: mockLog,
+    };
+
+    manualChangeService = new ManualChangeService(config);
+    mockService.updateCharacteristic.mockClear();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('initialization', () => {
+    it('should create StatelessProgrammableSwitch service with manual-change subtype', () => {
+      expect(mockAccessory.getServiceById).toHaveBeenCalledWith(
+        mockApi.hap.Service.StatelessProgrammableSwitch,
+        'manual-change',
+      );
+      expect(mockAccessory.addService).toHaveBeenCalledWith(
+        mockApi.hap.Service.StatelessProgrammableSwitch,
+        'Manual Change',
+        'manual-change',
+      );
+    });
+
+    it('should only offer single presses', () => {
+      const char = mockService.getCharacteristic(mockApi.hap.Characteristic.ProgrammableSwitchEvent);
+      expect(char!.setProps).toHaveBeenCalledWith({
+        minValue: 0,
+        maxValue: 0,
+        validValues: [0],
+      });
+    });
+
+    it('should return the service', () => {
+      expect(manualChangeService.getService()).toBe(mockService);
+    });
+  });
+
+  describe('settings changes', () => {
+    it('should press the switch when the remote changes the device', () => {
+      mockMqttClient._emit('message', stateChange({ fnsp: ['0004', '0007'] }, 'IRC'));
+
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.ProgrammableSwitchEvent,
+        0,
+      );
+    });
+
+    it('should press the switch when the Dyson app changes the device', () => {
+      mockMqttClient._emit('message', stateChange({ fpwr: ['OFF', 'ON'] }, 'RAPP'));
+
+      expect(mockService.updateCharacteristic).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not press the switch for changes made by this plugin', () => {
+      mockMqttClient._emit('message', stateChange({ fpwr: ['OFF', 'ON'] }, 'LAPP'));
+
+      expect(mockService.updateCharacteristic).not.toHaveBeenCalled();
+    });
+
+    it('should not press the switch when the device adjusts itself in auto mode', () => {
+      mockMqttClient._emit('message', stateChange({ fnsp: ['0004', '0006'] }, 'PUI', 'ENV'));
+
+      expect(mockService.updateCharacteristic).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('destroy', () => {
+    it('should stop listening for settings changes', () => {
+      manualChangeService.destroy();
+
+      mockMqttClient._emit('message', stateChange({ fnsp: ['0004', '0007'] }, 'IRC'));
+
+      expect(mockService.updateCharacteristic).not.toHaveBeenCalled();
+    });
+  });
+});
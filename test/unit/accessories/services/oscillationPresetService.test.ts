@@ -0,0 +1,239 @@
+/**
+ * OscillationPresetService Unit Tests
+ */
+
+import { vi, type Mock } from 'vitest';
+
+import { OscillationPresetService } from '../../../../src/accessories/services/oscillationPresetService.js';
+import type { OscillationPreset } from '../../../../src/accessories/services/oscillationPresetService.js';
+import { DysonLinkDevice } from '../../../../src/devices/dysonLinkDevice.js';
+import type { API, Logging, PlatformAccessory, Service } from 'homebridge';
+import {
+  createMockMqttClient,
+  createMockMqttClientFactory,
+  createMockService,
+  createMockLog,
+  DEFAULT_DEVICE_INFO,
+  type MockDysonMqttClient,
+} from '../../../helpers/mocks.js';
+
+// Create mock API with hap
+function createMockApi() {
+  const Characteristic = {
+    On: { UUID: 'on-uuid' },
+    ConfiguredName: { UUID: 'configured-name-uuid' },
+  };
+
+  const Service = {
+    Switch: { UUID: 'switch-uuid' },
+  };
+
+  return {
+    hap: {
+      Service,
+      Characteristic,
+    },
+  } as unknown as API;
+}
+
+describe('OscillationPresetService', () => {
+  let mockMqttClient: MockDysonMqttClient;
+  let device: DysonLinkDevice;
+  let services: ReturnType<typeof createMockService>[];
+  let mockAccessory: PlatformAccessory;
+  let mockLog: Logging;
+  let mockApi: API;
+
+  const emitState = (productState: Record<string, string>) => {
+    mockMqttClient._emit('message', {
+      topic: 'status',
+      payload: Buffer.from('{}'),
+      data: { msg: 'STATE-CHANGE', 'product-state': productState },
+    });
+  };
+
+  /** Create the service for a product type and return each switch's On handlers */
+  async function setup(productType: string, presets: OscillationPreset[], cached: Service[] = []) {
+    mockMqttClient = createMockMqttClient();
+    device = new DysonLinkDevice({ ...DEFAULT_DEVICE_INFO, productType }, createMockMqttClientFactory(mockMqttClient));
+    await device.connect();
+
+    services = [];
+    mockAccessory = {
+      displayName: 'Living Room',
+      services: cached,
+      getServiceById: vi.fn().mockReturnValue(undefined),
+      addService: vi.fn(() => {
+        const service = createMockService();
+        services.push(service);
+        return service;
+      }),
+      removeService: vi.fn(),
+    } as unknown as PlatformAccessory;
+
+    const service = new OscillationPresetService({
+      accessory: mockAccessory,
+      device,
+      api: mockApi,
+      log: mockLog,
+      presets,
+    });
+
+    const handlers = services.map((mock) => {
+      const char = mock.getCharacteristic(mockApi.hap.Characteristic.On);
+      return {
+        get: (char!.onGet as Mock).mock.calls[0][0] as () => unknown,
+        set: (char!.onSet as Mock).mock.calls[0][0] as (value: unknown) => Promise<void>,
+      };
+    });
+
+    return { service, handlers };
+  }
+
+  beforeEach(() => {
+    mockLog = createMockLog();
+    mockApi = createMockApi();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('initialization', () => {
+    it('should create one switch per preset with a default name', async () => {
+      const { service } = await setup('438', [{ sweep: 90 }, { name: 'Sofa', start: 120, end: 240 }]);
+
+      expect(service.getServices()).toHaveLength(2);
+      expect(mockAccessory.addService).toHaveBeenCalledWith(
+        mockApi.hap.Service.Switch,
+        'Oscillation 90°',
+        'oscillation-preset-0',
+      );
+      expect(mockAccessory.addService).toHaveBeenCalledWith(
+        mockApi.hap.Service.Switch,
+        'Sofa',
+        'oscillation-preset-1',
+      );
+    });
+
+    it('should skip invalid presets with a warning', async () => {
+      const { service } = await setup('438', [{ sweep: 60 as 45 }, { start: 90 }]);
+
+      expect(service.getServices()).toHaveLength(0);
+      expect(mockLog.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove switches for presets no longer configured', async () => {
+      const stale = { UUID: 'switch-uuid', subtype: 'oscillation-preset-3' } as Service;
+      const nightMode = { UUID: 'switch-uuid', subtype: 'night-mode' } as Service;
+
+      await setup('438', [{ sweep: 90 }], [stale, nightMode]);
+
+      expect(mockAccessory.removeService).toHaveBeenCalledWith(stale);
+      expect(mockAccessory.removeService).not.toHaveBeenCalledWith(nightMode);
+    });
+  });
+
+  describe('osal/osau models', () => {
+    it('should apply a sweep preset as a centred range', async () => {
+      const { handlers } = await setup('438', [{ sweep: 90 }]);
+
+      await handlers[0].set(true);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { oson: 'ON', osal: '0155', osau: '0245' } }),
+      );
+      expect(handlers[0].get()).toBe(true);
+    });
+
+    it('should apply a custom range', async () => {
+      const { handlers } = await setup('438', [{ start: 240, end: 120 }]);
+
+      await handlers[0].set(true);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { oson: 'ON', osal: '0120', osau: '0240' } }),
+      );
+      expect(handlers[0].get()).toBe(true);
+    });
+
+    it('should report off while oscillation is off', async () => {
+      const { handlers } = await setup('438', [{ sweep: 90 }]);
+
+      emitState({ oson: 'OFF', osal: '0155', osau: '0245' });
+
+      expect(handlers[0].get()).toBe(false);
+    });
+  });
+
+  describe('ancp models', () => {
+    it('should send the ancp preset', async () => {
+      const { handlers } = await setup('438E', [{ sweep: 350 }]);
+
+      await handlers[0].set(true);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { oson: 'ON', ancp: '0350' } }),
+      );
+      expect(handlers[0].get()).toBe(true);
+    });
+
+    it('should only match custom ranges while ancp is CUST', async () => {
+      const { handlers } = await setup('438E', [{ start: 100, end: 200 }]);
+
+      emitState({ oson: 'ON', ancp: '0090', osal: '0100', osau: '0200' });
+      expect(handlers[0].get()).toBe(false);
+
+      emitState({ ancp: 'CUST' });
+      expect(handlers[0].get()).toBe(true);
+    });
+  });
+
+  describe('turning a preset off', () => {
+    it('should stop oscillation when the active preset is turned off', async () => {
+      const { handlers } = await setup('438E', [{ sweep: 90 }]);
+      emitState({ oson: 'ON', ancp: '0090' });
+
+      await handlers[0].set(false);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { oson: 'OFF' } }),
+      );
+    });
+
+    it('should do nothing when another preset is active', async () => {
+      const { handlers } = await setup('438E', [{ sweep: 90 }, { sweep: 180 }]);
+      emitState({ oson: 'ON', ancp: '0180' });
+
+      await handlers[0].set(false);
+
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('state change handling', () => {
+    it('should show only the matching preset as on', async () => {
+      await setup('438E', [{ sweep: 90 }, { sweep: 180 }]);
+      const On = mockApi.hap.Characteristic.On;
+
+      emitState({ oson: 'ON', ancp: '0180' });
+
+      expect(services[0].updateCharacteristic).toHaveBeenLastCalledWith(On, false);
+      expect(services[1].updateCharacteristic).toHaveBeenLastCalledWith(On, true);
+    });
+  });
+
+  describe('error handling', () => {
+    it('should revert HomeKit and rethrow when the command fails', async () => {
+      const { handlers } = await setup('438', [{ sweep: 90 }]);
+      mockMqttClient.publishCommand.mockRejectedValueOnce(new Error('MQTT error'));
+
+      await expect(handlers[0].set(true)).rejects.toThrow('MQTT error');
+
+      expect(services[0].updateCharacteristic).toHaveBeenLastCalledWith(
+        mockApi.hap.Characteristic.On,
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * SleepTimerService Unit Tests
+ */
+
+import { vi, type Mock } from 'vitest';
+
+import { SleepTimerService } from '../../../../src/accessories/services/sleepTimerService.js';
+import { DysonLinkDevice } from '../../../../src/devices/dysonLinkDevice.js';
+import type { API, PlatformAccessory } from 'homebridge';
+import {
+  createMockMqttClient,
+  createMockMqttClientFactory,
+  createMockService,
+  createMockLog,
+  DEFAULT_DEVICE_INFO,
+  type MockDysonMqttClient,
+} from '../../../helpers/mocks.js';
+
+// Create mock API with hap
+function createMockApi() {
+  const Characteristic = {
+    Active: { UUID: 'active-uuid' },
+    InUse: { UUID: 'in-use-uuid' },
+    ValveType: Object.assign({ UUID: 'valve-type-uuid' }, { GENERIC_VALVE: 0 }),
+    SetDuration: { UUID: 'set-duration-uuid' },
+    RemainingDuration: { UUID: 'remaining-duration-uuid' },
+    ConfiguredName: { UUID: 'configured-name-uuid' },
+  };
+
+  const Service = {
+    Valve: { UUID: 'valve-uuid' },
+  };
+
+  return {
+    hap: {
+      Service,
+      Characteristic,
+    },
+  } as unknown as API;
+}
+
+describe('SleepTimerService', () => {
+  let sleepTimerService: SleepTimerService;
+  let mockMqttClient: MockDysonMqttClient;
+  let device: DysonLinkDevice;
+  let mockService: ReturnType<typeof createMockService>;
+  let mockAccessory: PlatformAccessory;
+  let mockApi: API;
+
+  let activeGetHandler: () => unknown;
+  let activeSetHandler: (value: unknown) => Promise<void>;
+  let durationGetHandler: () => unknown;
+  let durationSetHandler: (value: unknown) => Promise<void>;
+  let remainingGetHandler: () => unknown;
+
+  const emitState = (productState: Record<string, string>) => {
+    mockMqttClient._emit('message', {
+      topic: 'status',
+      payload: Buffer.from('{}'),
+      data: { msg: 'STATE-CHANGE', 'product-state': productState },
+    });
+  };
+
+  beforeEach(async () => {
+    mockMqttClient = createMockMqttClient();
+    device = new DysonLinkDevice(DEFAULT_DEVICE_INFO, createMockMqttClientFactory(mockMqttClient));
+
+    mockService = createMockService();
+    mockApi = createMockApi();
+
+    mockAccessory = {
+      displayName: 'Living Room',
+      context: {},
+      getServiceById: vi.fn().mockReturnValue(null),
+      addService: vi.fn().mockReturnValue(mockService),
+    } as unknown as PlatformAccessory;
+
+    await device.connect();
+
+    sleepTimerService = new SleepTimerService({
+      accessory: mockAccessory,
+      device,
+      api: mockApi,
+      log: createMockLog(),
+    });
+
+    const Characteristic = mockApi.hap.Characteristic;
+
+    const activeChar = mockService.getCharacteristic(Characteristic.Active);
+    activeGetHandler = (activeChar!.onGet as Mock).mock.calls[0][0];
+    activeSetHandler = (activeChar!.onSet as Mock).mock.calls[0][0];
+
+    const durationChar = mockService.getCharacteristic(Characteristic.SetDuration);
+    durationGetHandler = (durationChar!.onGet as Mock).mock.calls[0][0];
+    durationSetHandler = (durationChar!.onSet as Mock).mock.calls[0][0];
+
+    const remainingChar = mockService.getCharacteristic(Characteristic.RemainingDuration);
+    remainingGetHandler = (remainingChar!.onGet as Mock).mock.calls[0][0];
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('initialization', () => {
+    it('should create Valve service with sleep-timer subtype', () => {
+      expect(mockAccessory.addService).toHaveBeenCalledWith(
+        mockApi.hap.Service.Valve,
+        'Sleep Timer',
+        'sleep-timer',
+      );
+    });
+
+    it('should allow durations up to nine hours', () => {
+      const char = mockService.getCharacteristic(mockApi.hap.Characteristic.SetDuration);
+      expect(char!.setProps).toHaveBeenCalledWith(
+        expect.objectContaining({ minValue: 60, maxValue: 32400 }),
+      );
+    });
+
+    it('should return the service', () => {
+      expect(sleepTimerService.getService()).toBe(mockService);
+    });
+  });
+
+  describe('Active characteristic', () => {
+    it('should return INACTIVE when no timer is running', () => {
+      expect(activeGetHandler()).toBe(0);
+    });
+
+    it('should return ACTIVE when the device reports a timer', () => {
+      emitState({ sltm: '0030' });
+      expect(activeGetHandler()).toBe(1);
+    });
+
+    it('should start the timer with the default duration of one hour', async () => {
+      await activeSetHandler(1);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { sltm: '0060' } }),
+      );
+    });
+
+    it('should cancel the timer when set to INACTIVE', async () => {
+      emitState({ sltm: '0030' });
+
+      await activeSetHandler(0);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { sltm: 'OFF' } }),
+      );
+    });
+  });
+
+  describe('SetDuration characteristic', () => {
+    it('should remember the selected duration in the accessory context', async () => {
+      await durationSetHandler(7200);
+
+      expect(durationGetHandler()).toBe(7200);
+      expect(mockAccessory.context.sleepTimerDuration).toBe(7200);
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+
+    it('should start later timers with the selected duration', async () => {
+      await durationSetHandler(1800);
+      await activeSetHandler(1);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { sltm: '0030' } }),
+      );
+    });
+
+    it('should restart a running timer with the new duration', async () => {
+      emitState({ sltm: '0010' });
+
+      await durationSetHandler(5400);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { sltm: '0090' } }),
+      );
+    });
+  });
+
+  describe('RemainingDuration characteristic', () => {
+    it('should convert the remaining minutes to seconds', () => {
+      emitState({ sltm: '0045' });
+      expect(remainingGetHandler()).toBe(2700);
+    });
+
+    it('should return 0 when the timer is off', () => {
+      emitState({ sltm: 'OFF' });
+      expect(remainingGetHandler()).toBe(0);
+    });
+  });
+
+  describe('state change handling', () => {
+    it('should update Active, InUse and RemainingDuration', () => {
+      mockService.updateCharacteristic.mockClear();
+
+      emitState({ sltm: '0020' });
+
+      const Characteristic = mockApi.hap.Characteristic;
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(Characteristic.Active, 1);
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(Characteristic.InUse, 1);
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(Characteristic.RemainingDuration, 1200);
+    });
+
+    it('should stop listening after destroy', () => {
+      sleepTimerService.destroy();
+      mockService.updateCharacteristic.mockClear();
+
+      emitState({ sltm: '0020' });
+
+      expect(mockService.updateCharacteristic).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error handling', () => {
+    it('should revert HomeKit and rethrow when the command fails', async () => {
+      mockMqttClient.publishCommand.mockRejectedValueOnce(new Error('MQTT error'));
+      mockService.updateCharacteristic.mockClear();
+
+      await expect(activeSetHandler(1)).rejects.toThrow('MQTT error');
+
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.Active,
+        0,
+      );
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * WaterTankService Unit Tests
+ */
+
+import { vi, type Mock, type Mocked } from 'vitest';
+
+import { WaterTankService } from '../../../../src/accessories/services/waterTankService.js';
+import type { WaterTankServiceConfig } from '../../../../src/accessories/services/waterTankService.js';
+import { DysonLinkDevice } from '../../../../src/devices/dysonLinkDevice.js';
+import type { DeviceInfo, MqttClientFactory } from '../../../../src/devices/index.js';
+import type { DysonMqttClient } from '../../../../src/protocol/mqttClient.js';
+import type { API, PlatformAccessory, Service, Logging } from 'homebridge';
+
+// Create mock MQTT client
+function createMockMqttClient() {
+  const eventHandlers: Map<string, ((...args: unknown[]) => void)[]> = new Map();
+
+  const mockClient = {
+    on: vi.fn((event: string, handler: (...args: unknown[]) => void) => {
+      if (!eventHandlers.has(event)) {
+        eventHandlers.set(event, []);
+      }
+      eventHandlers.get(event)!.push(handler);
+      return mockClient;
+    }),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
+    requestCurrentState: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
+    // Echo STATE-SET back as the device would, confirming the command
+    publishCommand: vi.fn(async (command: { msg?: string; data?: Record<string, string> }) => {
+      if (command.msg === 'STATE-SET') {
+        mockClient._emit('message', {
+          topic: 'status',
+          payload: Buffer.from('{}'),
+          data: { msg: 'STATE-CHANGE', 'product-state': command.data },
+        });
+      }
+    }),
+    isConnected: vi.fn().mockReturnValue(true),
+    _emit: (event: string, ...args: unknown[]) => {
+      const handlers = eventHandlers.get(event) || [];
+      handlers.forEach((handler) => handler(...args));
+    },
+  };
+
+  return mockClient as unknown as Mocked<DysonMqttClient> & { _emit: (event: string, ...args: unknown[]) => void };
+}
+
+// Create mock HomeKit service
+function createMockService() {
+  const characteristics = new Map<string, {
+    onGet: Mock;
+    onSet: Mock;
+    setProps: Mock;
+    getValue: Mock;
+  }>();
+
+  const mockService = {
+    setCharacteristic: vi.fn().mockReturnThis(),
+    getCharacteristic: vi.fn((char: unknown) => {
+      const uuid = typeof char === 'object' && char !== null && 'UUID' in char
+        ? (char as { UUID: string }).UUID
+        : String(char);
+      if (!characteristics.has(uuid)) {
+        const charMock = {
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+          setProps: vi.fn().mockReturnThis(),
+          getValue: vi.fn(),
+        };
+        characteristics.set(uuid, charMock);
+      }
+      return characteristics.get(uuid);
+    }),
+    updateCharacteristic: vi.fn(),
+    addOptionalCharacteristic: vi.fn().mockReturnThis(),
+    addLinkedService: vi.fn().mockReturnThis(),
+  };
+
+  return mockService as unknown as Mocked<Service>;
+}
+
+// Create mock logging
+function createMockLog(): Logging {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    log: vi.fn(),
+    success: vi.fn(),
+  } as unknown as Logging;
+}
+
+// Create mock API with hap
+function createMockApi() {
+  const Characteristic = {
+    ContactSensorState: { UUID: 'contact-sensor-state-uuid', CONTACT_DETECTED: 0, CONTACT_NOT_DETECTED: 1 },
+    Name: { UUID: 'name-uuid' },
+    ConfiguredName: { UUID: 'configured-name-uuid' },
+  };
+
+  const Service = {
+    ContactSensor: { UUID: 'contact-sensor-uuid' },
+  };
+
+  return {
+    hap: {
+      Service,
+      Characteristic,
+    },
+  } as unknown as API;
+}
+
+// Build a CURRENT-FAULTS message with the given water tank status
+function faultReport(tankStatus: string) {
+  return {
+    topic: '358/ABC-AB-12345678/status/faults',
+    payload: Buffer.from('{}'),
+    data: { msg: 'CURRENT-FAULTS', 'product-warnings': { tnke: tankStatus } },
+  };
+}
+
+describe('WaterTankService', () => {
+  let waterTankService: WaterTankService;
+  let mockMqttClient: ReturnType<typeof createMockMqttClient>;
+  let mockMqttClientFactory: MqttClientFactory;
+  let device: DysonLinkDevice;
+  let mockService: ReturnType<typeof createMockService>;
+  let mockAccessory: PlatformAccessory;
+  let mockLog: Logging;
+  let mockApi: API;
+
+  const defaultDeviceInfo: DeviceInfo = {
+    serial: 'ABC-AB-12345678',
+    productType: '358',
+    name: 'Bedroom',
+    credentials: 'localPassword123',
+    ipAddress: '192.168.1.100',
+  };
+
+  beforeEach(async () => {
+    mockMqttClient = createMockMqttClient();
+    mockMqttClientFactory = vi.fn().mockReturnValue(mockMqttClient);
+    device = new DysonLinkDevice(defaultDeviceInfo, mockMqttClientFactory);
+
+    mockService = createMockService();
+    mockLog = createMockLog();
+    mockApi = createMockApi();
+
+    mockAccessory = {
+      displayName: 'Bedroom',
+      getService: vi.fn().mockReturnValue(null),
+      getServiceById: vi.fn().mockReturnValue(null),
+      addService: vi.fn().mockReturnValue(mockService),
+    } as unknown as PlatformAccessory;
+
+    await device.connect();
+
+    const config: WaterTankServiceConfig = {
+      accessory: mockAccessory,
+      device,
+      api: mockApi,
+      log: mockLog,
+    };
+
+    waterTankService = new WaterTankService(config);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function getContactStateHandler(): () => unknown {
+    const char = mockService.getCharacteristic(mockApi.hap.Characteristic.ContactSensorState);
+    return (char!.onGet as Mock).mock.calls[0][0];
+  }
+
+  describe('initialization', () => {
+    it('should create ContactSensor service with water-tank subtype', () => {
+      expect(mockAccessory.addService).toHaveBeenCalledWith(
+        mockApi.hap.Service.ContactSensor,
+        'Water Tank',
+        'water-tank',
+      );
+    });
+
+    it('should return the service', () => {
+      expect(waterTankService.getService()).toBe(mockService);
+    });
+  });
+
+  describe('ContactSensorState characteristic', () => {
+    it('should report contact while the tank has water', () => {
+      expect(getContactStateHandler()()).toBe(0);
+    });
+
+    it('should report no contact when the tank is empty', () => {
+      mockMqttClient._emit('message', faultReport('FAIL'));
+
+      expect(getContactStateHandler()()).toBe(1);
+    });
+  });
+
+  describe('state change handling', () => {
+    it('should open the contact when the tank runs empty', () => {
+      mockMqttClient._emit('message', faultReport('FAIL'));
+
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.ContactSensorState,
+        1,
+      );
+    });
+
+    it('should close the contact once the tank is refilled', () => {
+      mockMqttClient._emit('message', faultReport('FAIL'));
+      mockService.updateCharacteristic.mockClear();
+
+      mockMqttClient._emit('message', faultReport('OK'));
+
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith(
+        mockApi.hap.Characteristic.ContactSensorState,
+        0,
+      );
+    });
+
+    it('should stop updating after destroy', () => {
+      waterTankService.destroy();
+      mockService.updateCharacteristic.mockClear();
+
+      mockMqttClient._emit('message', faultReport('FAIL'));
+
+      expect(mockService.updateCharacteristic).not.toHaveBeenCalled();
+    });
+  });
+});
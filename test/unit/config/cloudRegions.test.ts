@@ -0,0 +1,30 @@
+/**
+ * Cloud API Region Unit Tests
+ */
+
+import {
+  DEFAULT_DYSON_API_BASE_URL,
+  DYSON_API_BASE_URLS,
+  getDysonApiBaseUrl,
+} from '../../../src/config/cloudRegions.js';
+
+describe('Cloud API Regions', () => {
+  describe('getDysonApiBaseUrl', () => {
+    it('should use the China host for mainland China accounts', () => {
+      expect(getDysonApiBaseUrl('CN')).toBe(DYSON_API_BASE_URLS.CN);
+      expect(getDysonApiBaseUrl(' cn ')).toBe('https://appapi.cp.dyson.cn');
+    });
+
+    it('should use the global host for every other country', () => {
+      expect(getDysonApiBaseUrl('US')).toBe(DEFAULT_DYSON_API_BASE_URL);
+      expect(getDysonApiBaseUrl('GB')).toBe('https://appapi.cp.dyson.com');
+      expect(getDysonApiBaseUrl('HK')).toBe(DEFAULT_DYSON_API_BASE_URL);
+    });
+
+    it('should use the global host without a country or for unknown codes', () => {
+      expect(getDysonApiBaseUrl()).toBe(DEFAULT_DYSON_API_BASE_URL);
+      expect(getDysonApiBaseUrl('')).toBe(DEFAULT_DYSON_API_BASE_URL);
+      expect(getDysonApiBaseUrl('constructor')).toBe(DEFAULT_DYSON_API_BASE_URL);
+    });
+  });
+});
@@ -10,6 +10,12 @@ import {
   isProductTypeSupported,
   getSupportedProductTypes,
   getDeviceFeatures,
+  getOscillationAngleProtocol,
+  getFieldMap,
+  getFilterCapacity,
+  DEFAULT_FIELD_MAP,
+  DEFAULT_FILTER_CAPACITY,
+  ENVIRONMENTAL_FIELD_NAMES,
   getDeviceModelName,
   getProductTypeDisplayNames,
   getDevicesBySeries,
@@ -115,6 +121,14 @@ describe('Device Catalog', () => {
       expect(features.frontAirflow).toBe(false);
     });
 
+    it('should give the Link series a single combined filter', () => {
+      for (const productType of ['475', '469', '455']) {
+        expect(getDeviceFeatures(productType).hepaFilter).toBe(true);
+        expect(getDeviceFeatures(productType).carbonFilter).toBe(false);
+      }
+      expect(getDeviceFeatures('438').carbonFilter).toBe(true);
+    });
+
     it('should support night mode for CF1', () => {
       const features = getDeviceFeatures('739');
       expect(features.fan).toBe(true);
@@ -127,6 +141,81 @@ describe('Device Catalog', () => {
     });
   });
 
+  describe('getOscillationAngleProtocol', () => {
+    it('should use ancp presets for TP07/TP09/HP07/HP09', () => {
+      for (const productType of ['438E', '438K', '527E', '527K']) {
+        expect(getOscillationAngleProtocol(productType)).toBe('ancp');
+      }
+    });
+
+    it('should use osal/osau for TP04/DP04/HP04', () => {
+      for (const productType of ['438', '520', '527']) {
+        expect(getOscillationAngleProtocol(productType)).toBe('osal');
+      }
+    });
+
+    it('should default to none for models without angle control', () => {
+      expect(getOscillationAngleProtocol('475')).toBe('none');
+      expect(getOscillationAngleProtocol('739')).toBe('none');
+      expect(getOscillationAngleProtocol('999')).toBe('none');
+    });
+  });
+
+  describe('getFieldMap', () => {
+    it('should use the default field map for models without their own', () => {
+      expect(getFieldMap('438')).toBe(DEFAULT_FIELD_MAP);
+      expect(getFieldMap('999')).toBe(DEFAULT_FIELD_MAP);
+    });
+
+    it('should give Link models air quality indexes and no advanced sensors', () => {
+      const fields = getFieldMap('475');
+      expect(fields.pact).toMatchObject({ state: 'pm25', unit: 'index' });
+      expect(fields.vact).toMatchObject({ state: 'vocIndex' });
+      expect(fields.p25r).toBeUndefined();
+      expect(fields.hchr).toBeUndefined();
+      expect(fields.hmod).toBeUndefined();
+    });
+
+    it('should add heating fields for the Hot+Cool Link', () => {
+      expect(getFieldMap('455').hmod).toMatchObject({ state: 'heatingEnabled', decode: 'heatMode' });
+    });
+
+    it('should give the CF1 no sensor or filter fields', () => {
+      const fields = getFieldMap('739');
+      expect(fields.fpwr).toBeDefined();
+      expect(fields.tact).toBeUndefined();
+      expect(fields.filf).toBeUndefined();
+    });
+
+    it('should decode Link series fields after newer ones in the default map', () => {
+      const order = Object.keys(DEFAULT_FIELD_MAP);
+      expect(order.indexOf('pact')).toBeGreaterThan(order.indexOf('p25r'));
+      expect(order.indexOf('vact')).toBeGreaterThan(order.indexOf('va10'));
+      expect(order.indexOf('fltf')).toBeGreaterThan(order.indexOf('filf'));
+    });
+
+    it('should map only known fields to environmental data', () => {
+      for (const field of ENVIRONMENTAL_FIELD_NAMES) {
+        expect(DEFAULT_FIELD_MAP[field]).toBeDefined();
+      }
+      expect(ENVIRONMENTAL_FIELD_NAMES.has('fpwr')).toBe(false);
+    });
+  });
+
+  describe('getFilterCapacity', () => {
+    it('should use the default capacity for models without their own', () => {
+      expect(getFilterCapacity('438')).toBe(DEFAULT_FILTER_CAPACITY);
+      expect(getFilterCapacity('999')).toBe(DEFAULT_FILTER_CAPACITY);
+      expect(DEFAULT_FILTER_CAPACITY.hepa).toBe(4300);
+    });
+
+    it('should give Humidify+Cool and Big+Quiet filters a year of continuous use', () => {
+      for (const productType of ['358', '358E', '664', '664F']) {
+        expect(getFilterCapacity(productType)).toEqual({ hepa: 8760, carbon: 8760 });
+      }
+    });
+  });
+
   describe('getDeviceModelName', () => {
     it('should return model name for known device', () => {
       const name = getDeviceModelName('438');
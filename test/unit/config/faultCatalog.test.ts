@@ -0,0 +1,106 @@
+/**
+ * Fault Catalog Unit Tests
+ */
+
+import {
+  FAULT_CATALOG,
+  describeFault,
+  getActiveFaults,
+  hasStatusFault,
+} from '../../../src/config/faultCatalog.js';
+import { createDefaultState } from '../../../src/devices/types.js';
+
+describe('Fault Catalog', () => {
+  describe('FAULT_CATALOG', () => {
+    it('should have unique codes', () => {
+      const codes = FAULT_CATALOG.map(fault => fault.code);
+      expect(new Set(codes).size).toBe(codes.length);
+    });
+
+    it('should describe every entry', () => {
+      for (const fault of FAULT_CATALOG) {
+        expect(fault.description).toBeTruthy();
+        expect(['info', 'warning', 'critical']).toContain(fault.severity);
+      }
+    });
+  });
+
+  describe('describeFault', () => {
+    it('should return the catalog entry for a known code', () => {
+      expect(describeFault('fltr')).toEqual({
+        code: 'fltr',
+        description: 'Filter needs replacing',
+        severity: 'warning',
+      });
+    });
+
+    it('should return the catalog entry for a known error code', () => {
+      expect(describeFault('TILT', 'warning')).toEqual({
+        code: 'TILT',
+        description: 'Device is tilted or has been knocked over',
+        severity: 'critical',
+      });
+    });
+
+    it('should describe unknown codes with the fallback severity', () => {
+      expect(describeFault('57C2', 'critical')).toEqual({
+        code: '57C2',
+        description: 'Unrecognised fault code 57C2',
+        severity: 'critical',
+      });
+    });
+  });
+
+  describe('getActiveFaults', () => {
+    it('should return nothing for a healthy device', () => {
+      expect(getActiveFaults({ ...createDefaultState(), errorCode: 'NONE', warningCode: 'NONE', tiltStatus: 'OK' }))
+        .toEqual([]);
+    });
+
+    it('should combine faults, tilt and error/warning codes', () => {
+      const faults = getActiveFaults({
+        ...createDefaultState(),
+        faults: ['tnke'],
+        tiltStatus: 'TILT',
+        errorCode: '57C2',
+        warningCode: 'FLTR',
+      });
+
+      expect(faults.map(fault => [fault.code, fault.severity])).toEqual([
+        ['tnke', 'warning'],
+        ['tilt', 'critical'],
+        ['57C2', 'critical'],
+        ['FLTR', 'warning'],
+      ]);
+    });
+
+    it('should describe a catalogued ercd instead of using the fallback text', () => {
+      const faults = getActiveFaults({ ...createDefaultState(), errorCode: 'TILT' });
+
+      expect(faults).toEqual([
+        { code: 'TILT', description: 'Device is tilted or has been knocked over', severity: 'critical' },
+      ]);
+    });
+
+    it('should not report a wacd code that repeats a CURRENT-FAULTS key', () => {
+      const faults = getActiveFaults({ ...createDefaultState(), faults: ['fltr'], warningCode: 'FLTR' });
+
+      expect(faults.map(fault => fault.code)).toEqual(['fltr']);
+    });
+
+    it('should not report the same code twice', () => {
+      const faults = getActiveFaults({ ...createDefaultState(), faults: ['tilt'], tiltStatus: 'TILT' });
+      expect(faults).toHaveLength(1);
+    });
+  });
+
+  describe('hasStatusFault', () => {
+    it('should be false when only informational faults are active', () => {
+      expect(hasStatusFault({ ...createDefaultState(), faults: ['srmu'] })).toBe(false);
+    });
+
+    it('should be true when a warning is active', () => {
+      expect(hasStatusFault({ ...createDefaultState(), faults: ['srmu', 'fltr'] })).toBe(true);
+    });
+  });
+});
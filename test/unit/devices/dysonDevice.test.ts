@@ -7,6 +7,8 @@ import { vi, type Mocked } from 'vitest';
 import { DysonDevice, DEFAULT_FEATURES, createDefaultState } from '../../../src/devices/dysonDevice.js';
 import type { DeviceInfo, DeviceState, DeviceFeatures, MqttClientFactory } from '../../../src/devices/dysonDevice.js';
 import type { DysonMqttClient, MqttMessage } from '../../../src/protocol/mqttClient.js';
+import { CommandExpiredError } from '../../../src/devices/types.js';
+import { CloudMqttTransport } from '../../../src/protocol/mqttTransport.js';
 
 // Concrete test implementation of abstract DysonDevice
 class TestDevice extends DysonDevice {
@@ -87,9 +89,15 @@ function createMockMqttClient() {
     connect: vi.fn().mockResolvedValue(undefined),
     disconnect: vi.fn().mockResolvedValue(undefined),
     subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
     requestCurrentState: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
     publishCommand: vi.fn().mockResolvedValue(undefined),
+    publish: vi.fn().mockResolvedValue(undefined),
+    getCommandTopic: vi.fn().mockReturnValue('438/ABC-AB-12345678/command'),
     isConnected: vi.fn().mockReturnValue(true),
+    forceReconnect: vi.fn(),
     // Helper methods for testing
     _emit: (event: string, ...args: unknown[]) => {
       const handlers = eventHandlers.get(event) || [];
@@ -155,12 +163,160 @@ describe('DysonDevice', () => {
         'localPassword123',
         '438',
         undefined,
+        undefined,
+        undefined,
+        undefined,
+        device.getReconnectPolicy(),
       );
       expect(mockMqttClient.connect).toHaveBeenCalled();
       expect(mockMqttClient.subscribeToStatus).toHaveBeenCalled();
       expect(mockMqttClient.requestCurrentState).toHaveBeenCalled();
     });
 
+    it('should connect to the address set with setIpAddress', async () => {
+      device.setIpAddress('192.168.1.150');
+
+      await device.connect();
+
+      expect(mockMqttClientFactory.mock.calls[0][0]).toBe('192.168.1.150');
+      expect(device.getIpAddress()).toBe('192.168.1.150');
+    });
+
+    it('should resolve the host name on every connect', async () => {
+      const resolver = vi.fn()
+        .mockResolvedValueOnce('192.168.1.120')
+        .mockResolvedValueOnce('2001:db8::10');
+      device.setHostname('dyson-living-room.local');
+      device.setHostResolver(resolver);
+
+      await device.connect();
+      mockMqttClient.isConnected.mockReturnValue(false);
+      await device.connect();
+
+      expect(resolver).toHaveBeenCalledWith('dyson-living-room.local');
+      expect(mockMqttClientFactory.mock.calls[0][0]).toBe('192.168.1.120');
+      expect(mockMqttClientFactory.mock.calls[1][0]).toBe('2001:db8::10');
+      expect(device.getIpAddress()).toBe('2001:db8::10');
+    });
+
+    it('should fall back to the last address when the host name does not resolve', async () => {
+      device.setHostname('dyson-living-room.local');
+      device.setHostResolver(vi.fn().mockRejectedValue(new Error('ENOTFOUND')));
+
+      await device.connect();
+
+      expect(mockMqttClientFactory.mock.calls[0][0]).toBe('192.168.1.100');
+    });
+
+    it('should reject when the host name does not resolve and no address is known', async () => {
+      const unresolved = new TestDevice(
+        { ...defaultDeviceInfo, ipAddress: undefined, hostname: 'dyson-living-room.local' },
+        mockMqttClientFactory,
+      );
+      unresolved.setHostResolver(vi.fn().mockRejectedValue(new Error('ENOTFOUND')));
+
+      await expect(unresolved.connect()).rejects.toThrow(
+        'Could not resolve dyson-living-room.local for device ABC-AB-12345678: ENOTFOUND',
+      );
+      expect(mockMqttClientFactory).not.toHaveBeenCalled();
+    });
+
+    it('should subscribe to and request current faults', async () => {
+      await device.connect();
+
+      expect(mockMqttClient.subscribeToFaults).toHaveBeenCalled();
+      expect(mockMqttClient.requestCurrentFaults).toHaveBeenCalled();
+    });
+
+    it('should pass the MQTT record path to the client factory', async () => {
+      device.setMqttRecordPath('/var/lib/homebridge/dyson-mqtt-ABC-AB-12345678.jsonl');
+
+      await device.connect();
+
+      expect(mockMqttClientFactory).toHaveBeenCalledWith(
+        '192.168.1.100',
+        'ABC-AB-12345678',
+        'localPassword123',
+        '438',
+        undefined,
+        '/var/lib/homebridge/dyson-mqtt-ABC-AB-12345678.jsonl',
+        undefined,
+        undefined,
+        device.getReconnectPolicy(),
+      );
+    });
+
+    it('should pass the connect variant preference to the client factory', async () => {
+      device.setConnectVariant({ label: 'short-id', pinned: true });
+
+      await device.connect();
+
+      expect(mockMqttClientFactory).toHaveBeenCalledWith(
+        '192.168.1.100',
+        'ABC-AB-12345678',
+        'localPassword123',
+        '438',
+        undefined,
+        undefined,
+        { label: 'short-id', pinned: true },
+        undefined,
+        device.getReconnectPolicy(),
+      );
+    });
+
+    it('should pass the transport to the client factory', async () => {
+      const transport = new CloudMqttTransport({
+        endpoint: 'iot.example.com',
+        clientId: 'client-1',
+        customAuthorizerName: 'authorizer',
+        tokenKey: 'token',
+        tokenValue: 'value',
+        tokenSignature: 'signature',
+      });
+      device.setTransport(transport);
+
+      await device.connect();
+
+      expect(mockMqttClientFactory).toHaveBeenCalledWith(
+        '192.168.1.100',
+        'ABC-AB-12345678',
+        'localPassword123',
+        '438',
+        undefined,
+        undefined,
+        undefined,
+        transport,
+        device.getReconnectPolicy(),
+      );
+      expect(device.getTransportName()).toBe('cloud');
+    });
+
+    it('should open the circuit after the configured number of failures', () => {
+      device.setReconnectPolicy({ maxAttempts: 2 });
+      const policy = device.getReconnectPolicy();
+
+      policy.recordFailure();
+      expect(policy.isCircuitOpen()).toBe(false);
+      policy.recordFailure();
+      expect(policy.isCircuitOpen()).toBe(true);
+    });
+
+    it('should emit reconnectPhase when the reconnection policy changes phase', () => {
+      const phases: string[] = [];
+      device.on('reconnectPhase', (status) => phases.push(status.phase));
+
+      device.getReconnectPolicy().recordAttempt();
+      device.getReconnectPolicy().recordSuccess();
+
+      expect(phases).toEqual(['connecting', 'connected']);
+    });
+
+    it('should subscribe to the software topic', async () => {
+      await device.connect();
+
+      expect(mockMqttClient.subscribeToSoftware).toHaveBeenCalled();
+    });
+
     it('should emit connect event', async () => {
       const connectHandler = vi.fn();
       device.on('connect', connectHandler);
@@ -185,6 +341,25 @@ describe('DysonDevice', () => {
       await expect(deviceWithoutIp.connect()).rejects.toThrow('No IP address');
     });
 
+    it('should connect without an IP address when a transport is set', async () => {
+      const deviceWithoutIp = new TestDevice(
+        { ...defaultDeviceInfo, ipAddress: undefined },
+        mockMqttClientFactory,
+      );
+      deviceWithoutIp.setTransport(new CloudMqttTransport({
+        endpoint: 'iot.example.com',
+        clientId: 'client-1',
+        customAuthorizerName: 'authorizer',
+        tokenKey: 'token',
+        tokenValue: 'value',
+        tokenSignature: 'signature',
+      }));
+
+      await deviceWithoutIp.connect();
+
+      expect(mockMqttClient.connect).toHaveBeenCalled();
+    });
+
     it('should not reconnect if already connected', async () => {
       await device.connect();
 
@@ -283,6 +458,173 @@ describe('DysonDevice', () => {
     });
   });
 
+  describe('forwardCommand', () => {
+    it('should publish the payload unchanged on the command topic', async () => {
+      await device.connect();
+
+      await device.forwardCommand('{"msg":"REQUEST-CURRENT-STATE"}');
+
+      expect(mockMqttClient.publish).toHaveBeenCalledWith(
+        '438/ABC-AB-12345678/command',
+        '{"msg":"REQUEST-CURRENT-STATE"}',
+      );
+    });
+
+    it('should throw error if not connected', async () => {
+      await expect(device.forwardCommand('{}')).rejects.toThrow('Device not connected');
+    });
+  });
+
+  describe('offline command queue', () => {
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      await device.connect();
+      device.setOfflineQueueTtl(30);
+      mockMqttClient.isConnected.mockReturnValue(false);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should hold commands while reconnecting and send them merged on connect', async () => {
+      const first = device.testSendCommand({ fpwr: 'ON', fnsp: '0003' });
+      const second = device.testSendCommand({ fnsp: '0007' });
+
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+
+      mockMqttClient.isConnected.mockReturnValue(true);
+      mockMqttClient._emit('connect');
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+
+      mockMqttClient._emit('resubscribed');
+      await Promise.all([first, second]);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledTimes(1);
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { fpwr: 'ON', fnsp: '0007' } }),
+      );
+    });
+
+    it('should drop commands that expire before reconnecting', async () => {
+      const expiredHandler = vi.fn();
+      device.on('commandExpired', expiredHandler);
+
+      await device.testSendCommand({ fpwr: 'ON' });
+      vi.advanceTimersByTime(20000);
+      const fresh = device.testSendCommand({ nmod: 'ON' });
+      vi.advanceTimersByTime(10000);
+
+      expect(expiredHandler).toHaveBeenCalledWith(expect.any(CommandExpiredError));
+      expect(expiredHandler).toHaveBeenCalledWith(expect.objectContaining({ fields: { fpwr: 'ON' }, ttlMs: 30000 }));
+
+      mockMqttClient.isConnected.mockReturnValue(true);
+      mockMqttClient._emit('connect');
+      mockMqttClient._emit('resubscribed');
+      await fresh;
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { nmod: 'ON' } }),
+      );
+    });
+
+    it('should send commands held for a previous client once a new connect has subscribed', async () => {
+      const queued = device.testSendCommand({ fpwr: 'ON' });
+      const order: string[] = [];
+      mockMqttClient.subscribeToSoftware.mockImplementation(async () => {
+        order.push('subscribe');
+      });
+      mockMqttClient.publishCommand.mockImplementation(async () => {
+        order.push('publish');
+      });
+
+      mockMqttClient.isConnected.mockReturnValue(false);
+      await device.connect();
+      await queued;
+
+      expect(order).toEqual(['subscribe', 'publish']);
+    });
+
+    it('should settle a held command as soon as it is queued', async () => {
+      await expect(device.testSendCommand({ fpwr: 'ON' })).resolves.toBe(false);
+
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+
+    it('should drop queued commands on disconnect', async () => {
+      await device.testSendCommand({ fpwr: 'ON' });
+
+      await device.disconnect();
+      await device.connect();
+
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+
+    it('should report a queued command that fails to send', async () => {
+      const errorHandler = vi.fn();
+      device.on('error', errorHandler);
+      mockMqttClient.publishCommand.mockRejectedValueOnce(new Error('publish failed'));
+      await device.testSendCommand({ fpwr: 'ON' });
+
+      mockMqttClient.isConnected.mockReturnValue(true);
+      mockMqttClient._emit('resubscribed');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(errorHandler).toHaveBeenCalledWith(new Error('Failed to send queued commands: publish failed'));
+    });
+
+    it('should keep queued commands across a disconnect followed by a connect', async () => {
+      const queued = device.testSendCommand({ fpwr: 'ON' });
+
+      await device.disconnect(true);
+      const heldMeanwhile = device.testSendCommand({ nmod: 'ON' });
+      await device.connect();
+      await Promise.all([queued, heldMeanwhile]);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { fpwr: 'ON', nmod: 'ON' } }),
+      );
+    });
+
+    it('should fail immediately when the queue is disabled', async () => {
+      device.setOfflineQueueTtl(0);
+
+      await expect(device.testSendCommand({ fpwr: 'ON' })).rejects.toThrow('Device not connected');
+    });
+
+    it('should fail immediately when never connected', async () => {
+      const unconnected = new TestDevice(defaultDeviceInfo, mockMqttClientFactory);
+      unconnected.setOfflineQueueTtl(30);
+
+      await expect(unconnected.testSendCommand({ fpwr: 'ON' })).rejects.toThrow('Device not connected');
+    });
+
+    it('should fail immediately when the first connect failed', async () => {
+      const unreachable = new TestDevice(defaultDeviceInfo, mockMqttClientFactory);
+      unreachable.setOfflineQueueTtl(30);
+      mockMqttClient.connect.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      await expect(unreachable.connect()).rejects.toThrow('connect ECONNREFUSED');
+
+      await expect(unreachable.testSendCommand({ fpwr: 'ON' })).rejects.toThrow('Device not connected');
+      expect(mockMqttClient.disconnect).toHaveBeenCalled();
+    });
+
+    it('should keep holding commands when a reconnect fails', async () => {
+      mockMqttClient.connect.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+      await expect(device.connect()).rejects.toThrow('connect ECONNREFUSED');
+
+      const queued = device.testSendCommand({ fpwr: 'ON' });
+      mockMqttClient.isConnected.mockReturnValue(false);
+      await device.connect();
+      await queued;
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { fpwr: 'ON' } }),
+      );
+    });
+  });
+
   describe('message handling', () => {
     beforeEach(async () => {
       await device.connect();
@@ -359,6 +701,47 @@ describe('DysonDevice', () => {
       expect(state.no2Index).toBe(1);
     });
 
+    it('should handle CURRENT-FAULTS message', () => {
+      const message: MqttMessage = {
+        topic: '438/ABC-AB-12345678/status/faults',
+        payload: Buffer.from('{}'),
+        data: {
+          msg: 'CURRENT-FAULTS',
+          'product-warnings': { fltr: 'FAIL', tnke: 'OK' },
+        },
+      };
+
+      device.testHandleMessage(message);
+
+      expect(device.getState().faults).toEqual(['fltr']);
+    });
+
+    it('should record the firmware version from the software topic', () => {
+      const stateHandler = vi.fn();
+      device.on('stateChange', stateHandler);
+      const message: MqttMessage = {
+        topic: '438/ABC-AB-12345678/status/software',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-SOFTWARE', version: '21.04.03' },
+      };
+
+      device.testHandleMessage(message);
+      device.testHandleMessage(message);
+
+      expect(device.getState().firmwareVersion).toBe('21.04.03');
+      expect(stateHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the cloud firmware version', () => {
+      const cloudDevice = new TestDevice(
+        { ...defaultDeviceInfo, firmwareVersion: '21.04.03' },
+        mockMqttClientFactory,
+      );
+
+      expect(cloudDevice.getFirmwareVersion()).toBe('21.04.03');
+      expect(device.getFirmwareVersion()).toBeUndefined();
+    });
+
     it('should handle auto mode speed', () => {
       const message: MqttMessage = {
         topic: '438/ABC-AB-12345678/status/current',
@@ -409,6 +792,20 @@ describe('DysonDevice', () => {
       await device.connect();
     });
 
+    it('should re-emit every MQTT message', () => {
+      const messageHandler = vi.fn();
+      device.on('mqttMessage', messageHandler);
+      const message = {
+        topic: '438/ABC-AB-12345678/status/current',
+        payload: Buffer.from('{"msg":"CURRENT-STATE"}'),
+        data: { msg: 'CURRENT-STATE' },
+      };
+
+      mockMqttClient._emit('message', message);
+
+      expect(messageHandler).toHaveBeenCalledWith(message);
+    });
+
     it('should handle MQTT disconnect event', () => {
       const disconnectHandler = vi.fn();
       device.on('disconnect', disconnectHandler);
@@ -459,6 +856,175 @@ describe('DysonDevice', () => {
     });
   });
 
+  describe('stale connection detection', () => {
+    const currentState: MqttMessage = {
+      topic: '438/ABC-AB-12345678/status/current',
+      payload: Buffer.from('{}'),
+      data: { msg: 'CURRENT-STATE', 'product-state': { fpwr: 'ON' } },
+    };
+
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      device.setPollingInterval(10);
+      await device.connect();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should measure the round-trip time of state requests', () => {
+      vi.advanceTimersByTime(250);
+      mockMqttClient._emit('message', currentState);
+
+      const health = device.getConnectionHealth();
+      expect(health.lastRoundTripMs).toBe(250);
+      expect(health.lastMessageAt).toBe(Date.now());
+      expect(health.missedReplies).toBe(0);
+    });
+
+    it('should count unanswered state requests', () => {
+      vi.advanceTimersByTime(20000);
+
+      expect(device.getConnectionHealth().missedReplies).toBe(2);
+      expect(device.getState().connected).toBe(true);
+      expect(mockMqttClient.forceReconnect).not.toHaveBeenCalled();
+    });
+
+    it('should reset missed replies when the device answers', () => {
+      vi.advanceTimersByTime(20000);
+      mockMqttClient._emit('message', currentState);
+
+      expect(device.getConnectionHealth().missedReplies).toBe(0);
+    });
+
+    it('should not count state changes as replies', () => {
+      vi.advanceTimersByTime(10000);
+      mockMqttClient._emit('message', {
+        ...currentState,
+        data: { msg: 'STATE-CHANGE', 'product-state': { fpwr: ['OFF', 'ON'] } },
+      });
+      vi.advanceTimersByTime(10000);
+
+      expect(device.getConnectionHealth().missedReplies).toBe(2);
+    });
+
+    it('should declare the connection stale after the threshold', () => {
+      const staleHandler = vi.fn();
+      const disconnectHandler = vi.fn();
+      device.on('stale', staleHandler);
+      device.on('disconnect', disconnectHandler);
+
+      vi.advanceTimersByTime(30000);
+
+      expect(staleHandler).toHaveBeenCalledWith(expect.objectContaining({ missedReplies: 3 }));
+      expect(device.getState().connected).toBe(false);
+      expect(disconnectHandler).toHaveBeenCalledTimes(1);
+      expect(mockMqttClient.forceReconnect).toHaveBeenCalledTimes(1);
+      expect(device.getConnectionHealth().missedReplies).toBe(0);
+    });
+
+    it('should honour a custom threshold', () => {
+      const staleHandler = vi.fn();
+      device.on('stale', staleHandler);
+      device.setStaleThreshold(1);
+
+      vi.advanceTimersByTime(10000);
+
+      expect(staleHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never declare the connection stale when disabled', () => {
+      const staleHandler = vi.fn();
+      device.on('stale', staleHandler);
+      device.setStaleThreshold(0);
+
+      vi.advanceTimersByTime(100000);
+
+      expect(staleHandler).not.toHaveBeenCalled();
+      expect(mockMqttClient.forceReconnect).not.toHaveBeenCalled();
+    });
+
+    it('should reset missed replies on reconnect', () => {
+      vi.advanceTimersByTime(20000);
+      mockMqttClient._emit('connect');
+
+      expect(device.getConnectionHealth().missedReplies).toBe(0);
+    });
+  });
+
+  describe('adaptive polling', () => {
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      await device.connect();
+      mockMqttClient.requestCurrentState.mockClear();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should use the fixed interval without a policy', () => {
+      device.testUpdateState({ isOn: true });
+
+      expect(device.getPollingIntervalMs()).toBe(60000);
+    });
+
+    it('should poll at the idle interval while off', () => {
+      device.setPollingPolicy({ activeSeconds: 15, idleSeconds: 300 });
+
+      vi.advanceTimersByTime(299000);
+      expect(mockMqttClient.requestCurrentState).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1000);
+      expect(mockMqttClient.requestCurrentState).toHaveBeenCalledTimes(1);
+    });
+
+    it('should poll at the active interval while on', () => {
+      device.testUpdateState({ isOn: true });
+      device.setPollingPolicy({ activeSeconds: 15, idleSeconds: 300 });
+
+      vi.advanceTimersByTime(30000);
+
+      expect(mockMqttClient.requestCurrentState).toHaveBeenCalledTimes(2);
+    });
+
+    it('should bring the next poll forward when the device turns on', () => {
+      device.setPollingPolicy({ activeSeconds: 15, idleSeconds: 300 });
+      vi.advanceTimersByTime(100000);
+
+      device.testUpdateState({ isOn: true });
+      vi.advanceTimersByTime(15000);
+
+      expect(mockMqttClient.requestCurrentState).toHaveBeenCalledTimes(1);
+    });
+
+    it('should poll faster after a command', async () => {
+      device.setPollingPolicy({ activeSeconds: 15, idleSeconds: 300 });
+
+      await device.testSendCommand({ fnsp: '0005' });
+
+      expect(device.getPollingIntervalMs()).toBe(15000);
+    });
+
+    it('should back off once the device is idle', () => {
+      device.testUpdateState({ isOn: true });
+      device.setPollingPolicy({ activeSeconds: 15, idleSeconds: 300 });
+
+      device.testUpdateState({ isOn: false });
+
+      expect(device.getPollingIntervalMs()).toBe(300000);
+    });
+
+    it('should clamp policy intervals', () => {
+      device.setPollingPolicy({ activeSeconds: 1, idleSeconds: 3600 });
+
+      expect(device.getPollingIntervalMs()).toBe(300000);
+      device.testUpdateState({ isOn: true });
+      expect(device.getPollingIntervalMs()).toBe(10000);
+    });
+  });
+
   describe('createDefaultState', () => {
     it('should create valid default state', () => {
       const state = createDefaultState();
@@ -6,6 +6,7 @@ import { vi, type Mocked } from 'vitest';
 
 import { DysonLinkDevice } from '../../../src/devices/dysonLinkDevice.js';
 import { createDevice, isProductTypeSupported, getSupportedProductTypes } from '../../../src/devices/deviceFactory.js';
+import { CommandTimeoutError } from '../../../src/devices/index.js';
 import type { DeviceInfo, MqttClientFactory } from '../../../src/devices/index.js';
 import type { DysonMqttClient, MqttMessage } from '../../../src/protocol/mqttClient.js';
 
@@ -27,8 +28,20 @@ function createMockMqttClient() {
     connect: vi.fn().mockResolvedValue(undefined),
     disconnect: vi.fn().mockResolvedValue(undefined),
     subscribeToStatus: vi.fn().mockResolvedValue(undefined),
+    subscribeToFaults: vi.fn().mockResolvedValue(undefined),
+    subscribeToSoftware: vi.fn().mockResolvedValue(undefined),
     requestCurrentState: vi.fn().mockResolvedValue(undefined),
-    publishCommand: vi.fn().mockResolvedValue(undefined),
+    requestCurrentFaults: vi.fn().mockResolvedValue(undefined),
+    // Echo STATE-SET back as the device would, confirming the command
+    publishCommand: vi.fn(async (command: { msg?: string; data?: Record<string, string> }) => {
+      if (command.msg === 'STATE-SET') {
+        mockClient._emit('message', {
+          topic: 'status',
+          payload: Buffer.from('{}'),
+          data: { msg: 'STATE-CHANGE', 'product-state': command.data },
+        });
+      }
+    }),
     isConnected: vi.fn().mockReturnValue(true),
     _emit: (event: string, ...args: unknown[]) => {
       const handlers = eventHandlers.get(event) || [];
@@ -116,12 +129,12 @@ describe('DysonLinkDevice', () => {
       await device.setFanPower(true);
       await flushMicrotasks();
 
-      // Newer models use fmod only (no auto field)
+      // Newer models use fmod only (no auto field), with the current speed
       expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
         expect.objectContaining({
           msg: 'STATE-SET',
           'mode-reason': 'LAPP',
-          data: { fmod: 'FAN' },
+          data: { fmod: 'FAN', fnsp: '0004' },
         }),
       );
     });
@@ -183,7 +196,7 @@ describe('DysonLinkDevice', () => {
 
       expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
         expect.objectContaining({
-          data: { fmod: 'FAN' },
+          data: { fmod: 'FAN', fnsp: '0004' },
         }),
       );
     });
@@ -359,6 +372,173 @@ describe('DysonLinkDevice', () => {
     });
   });
 
+  describe('setSleepTimer', () => {
+    beforeEach(async () => {
+      await device.connect();
+    });
+
+    it('should send padded minutes', async () => {
+      await device.setSleepTimer(45);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { sltm: '0045' } }),
+      );
+      expect(device.getState().sleepTimer).toBe(45);
+    });
+
+    it('should clamp to the nine hour maximum', async () => {
+      await device.setSleepTimer(1000);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { sltm: '0540' } }),
+      );
+    });
+
+    it('should cancel the timer for 0 minutes', async () => {
+      await device.setSleepTimer(0);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { sltm: 'OFF' } }),
+      );
+    });
+  });
+
+  describe('deep clean and water hardness', () => {
+    let ph01Device: DysonLinkDevice;
+
+    beforeEach(async () => {
+      ph01Device = new DysonLinkDevice({ ...defaultDeviceInfo, productType: '358' }, mockMqttClientFactory);
+      await ph01Device.connect();
+    });
+
+    it('should start a deep clean', async () => {
+      await ph01Device.startDeepClean();
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { clcr: 'CLAC' } }),
+      );
+      expect(ph01Device.getState().deepCleanActive).toBe(true);
+    });
+
+    it('should cancel a deep clean', async () => {
+      await ph01Device.startDeepClean();
+      await ph01Device.cancelDeepClean();
+
+      expect(mockMqttClient.publishCommand).toHaveBeenLastCalledWith(
+        expect.objectContaining({ data: { clcr: 'CLNO' } }),
+      );
+      expect(ph01Device.getState().deepCleanActive).toBe(false);
+    });
+
+    it('should send the water hardness code', async () => {
+      await ph01Device.setWaterHardness('hard');
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { wath: '0675' } }),
+      );
+      expect(ph01Device.getState().waterHardness).toBe('hard');
+    });
+
+    it('should take the water tank and deep clean warnings from the fault report', () => {
+      mockMqttClient._emit('message', {
+        topic: '358/ABC-AB-12345678/status/faults',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-FAULTS', 'product-warnings': { tnke: 'FAIL', cldu: 'OK', fltr: 'OK' } },
+      });
+
+      expect(ph01Device.getState().waterTankEmpty).toBe(true);
+      expect(ph01Device.getState().deepCleanRequired).toBe(false);
+    });
+
+    it('should leave the water tank state unset on models without a humidifier', async () => {
+      await device.connect();
+      mockMqttClient._emit('message', {
+        topic: '438/ABC-AB-12345678/status/faults',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-FAULTS', 'product-warnings': { tnke: 'FAIL' } },
+      });
+
+      expect(device.getState().waterTankEmpty).toBeUndefined();
+      expect(device.getState().faults).toEqual(['tnke']);
+    });
+  });
+
+  describe('resetFilter', () => {
+    beforeEach(async () => {
+      await device.connect();
+    });
+
+    it('should send the filter reset command', async () => {
+      await device.resetFilter('hepa');
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { rstf: 'RSTF' } }),
+      );
+    });
+
+    it('should emit filterReset with the filter type and time', async () => {
+      const handler = vi.fn();
+      device.on('filterReset', handler);
+
+      await device.resetFilter('carbon');
+
+      expect(handler).toHaveBeenCalledWith('carbon', expect.any(Date));
+    });
+  });
+
+  describe('oscillation angles', () => {
+    it('should send osal/osau on TP04', async () => {
+      await device.connect();
+
+      await device.setOscillationAngles(270, 90);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { oson: 'ON', osal: '0090', osau: '0270' } }),
+      );
+    });
+
+    it('should centre a sweep preset on TP04', async () => {
+      await device.connect();
+
+      await device.setOscillationSweep(90);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { oson: 'ON', osal: '0155', osau: '0245' } }),
+      );
+    });
+
+    it('should send ancp presets on TP07', async () => {
+      const tp07 = new DysonLinkDevice({ ...defaultDeviceInfo, productType: '438E' }, mockMqttClientFactory);
+      await tp07.connect();
+
+      await tp07.setOscillationSweep(180);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { oson: 'ON', ancp: '0180' } }),
+      );
+      expect(tp07.getState().oscillationSweep).toBe(180);
+    });
+
+    it('should send a custom ancp range on TP07', async () => {
+      const tp07 = new DysonLinkDevice({ ...defaultDeviceInfo, productType: '438E' }, mockMqttClientFactory);
+      await tp07.connect();
+
+      await tp07.setOscillationAngles(100, 200);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { oson: 'ON', ancp: 'CUST', osal: '0100', osau: '0200' } }),
+      );
+    });
+
+    it('should reject on models without angle control', async () => {
+      const link = new DysonLinkDevice({ ...defaultDeviceInfo, productType: '475' }, mockMqttClientFactory);
+      await link.connect();
+
+      await expect(link.setOscillationAngles(90, 180)).rejects.toThrow('Oscillation angle not supported');
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+  });
+
   describe('setNightMode', () => {
     beforeEach(async () => {
       await device.connect();
@@ -417,6 +597,349 @@ describe('DysonLinkDevice', () => {
     });
   });
 
+  describe('applyState', () => {
+    const currentState = (productState: Record<string, string>): MqttMessage => ({
+      topic: '438/ABC-AB-12345678/status/current',
+      payload: Buffer.from('{}'),
+      data: { msg: 'CURRENT-STATE', 'product-state': productState },
+    });
+
+    beforeEach(async () => {
+      await device.connect();
+    });
+
+    it('should send the whole target as one STATE-SET', async () => {
+      await device.applyState({ isOn: true, fanSpeed: 6, oscillation: true, nightMode: true });
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledTimes(1);
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          msg: 'STATE-SET',
+          data: { fmod: 'FAN', fnsp: '0006', oson: 'ON', nmod: 'ON' },
+        }),
+      );
+    });
+
+    it('should only send values that differ from the current state', async () => {
+      mockMqttClient._emit('message', currentState({ fmod: 'FAN', fnsp: '0006', oson: 'ON', nmod: 'OFF' }));
+
+      await device.applyState({ isOn: true, fanSpeed: 6, oscillation: true, nightMode: true });
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { nmod: 'ON' } }),
+      );
+    });
+
+    it('should send the power and mode fields together when one of them changes', async () => {
+      mockMqttClient._emit('message', currentState({ fmod: 'FAN', fnsp: '0004' }));
+
+      await device.applyState({ fanSpeed: 7 });
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { fmod: 'FAN', fnsp: '0007' } }),
+      );
+    });
+
+    it('should send nothing when the device already matches', async () => {
+      mockMqttClient._emit('message', currentState({ fmod: 'AUTO', oson: 'ON' }));
+
+      await device.applyState({ isOn: true, autoMode: true, oscillation: true });
+
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+
+    it('should use fpwr for models with the fpwr power protocol', async () => {
+      const cf1MqttClient = createMockMqttClient();
+      const cf1Device = new DysonLinkDevice(
+        { ...defaultDeviceInfo, productType: '739' },
+        vi.fn().mockReturnValue(cf1MqttClient),
+      );
+      await cf1Device.connect();
+
+      await cf1Device.applyState({ isOn: true, fanSpeed: 3 });
+
+      expect(cf1MqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { fpwr: 'ON', auto: 'OFF', fnsp: '0003' } }),
+      );
+    });
+
+    it('should leave fan settings out when turning off', async () => {
+      mockMqttClient._emit('message', currentState({ fmod: 'FAN', fnsp: '0004' }));
+
+      await device.applyState({ isOn: false, oscillation: true, nightMode: true });
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { fmod: 'OFF', nmod: 'ON' } }),
+      );
+    });
+
+    it('should merge with setters called in the same tick', async () => {
+      await Promise.all([device.setJetFocus(true), device.applyState({ nightMode: true })]);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledTimes(1);
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { ffoc: 'ON', nmod: 'ON' } }),
+      );
+    });
+
+    it('should encode heating values for heating models', async () => {
+      const hpMqttClient = createMockMqttClient();
+      const hpDevice = new DysonLinkDevice(
+        { ...defaultDeviceInfo, productType: '527' },
+        vi.fn().mockReturnValue(hpMqttClient),
+      );
+      await hpDevice.connect();
+
+      await hpDevice.applyState({ heatingEnabled: true, targetTemperature: 22 });
+
+      expect(hpMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { hmod: 'HEAT', hmax: '2952' } }),
+      );
+    });
+
+    it('should reject heating values on models without heating', async () => {
+      await expect(device.applyState({ heatingEnabled: true })).rejects.toThrow('Heating not supported');
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('state restore after a power outage', () => {
+    const stateMessage = (msg: string, productState: Record<string, string>): MqttMessage => ({
+      topic: '438/ABC-AB-12345678/status/current',
+      payload: Buffer.from('{}'),
+      data: { msg, 'product-state': productState },
+    });
+
+    const previous = { isOn: true, fanSpeed: 6, autoMode: false, oscillation: true };
+
+    it('should report settings to persist once the first state arrives', async () => {
+      const changeHandler = vi.fn();
+      device.on('restorableStateChange', changeHandler);
+      device.enableStateRestore();
+      await device.connect();
+
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'FAN', fnsp: '0004', oson: 'OFF' }));
+      mockMqttClient._emit('message', stateMessage('STATE-CHANGE', { oson: 'ON' }));
+
+      expect(changeHandler).toHaveBeenCalledTimes(2);
+      expect(changeHandler).toHaveBeenNthCalledWith(1, { isOn: true, fanSpeed: 4, autoMode: false, oscillation: false });
+      expect(changeHandler).toHaveBeenLastCalledWith({ isOn: true, fanSpeed: 4, autoMode: false, oscillation: true });
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+
+    it('should restore the previous settings when the device comes back without them after a failed connect', async () => {
+      const rebootHandler = vi.fn();
+      device.on('reboot', rebootHandler);
+      device.enableStateRestore(previous);
+      mockMqttClient.connect.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+      await expect(device.connect()).rejects.toThrow('connect ECONNREFUSED');
+      await device.connect();
+
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'OFF', fnsp: '0004', oson: 'OFF' }));
+      await flushMicrotasks();
+
+      expect(rebootHandler).toHaveBeenCalledWith(previous, { isOn: false, fanSpeed: 4, autoMode: false, oscillation: false });
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { fmod: 'FAN', fnsp: '0006', oson: 'ON' } }),
+      );
+    });
+
+    it('should do nothing when the device reports the previous settings', async () => {
+      const rebootHandler = vi.fn();
+      device.on('reboot', rebootHandler);
+      device.enableStateRestore(previous);
+      mockMqttClient.connect.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+      await expect(device.connect()).rejects.toThrow('connect ECONNREFUSED');
+      await device.connect();
+
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'FAN', fnsp: '0006', oson: 'ON' }));
+      await flushMicrotasks();
+
+      expect(rebootHandler).not.toHaveBeenCalled();
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+
+    it('should restore the previous settings after a power cut the client reconnected through', async () => {
+      const rebootHandler = vi.fn();
+      device.on('reboot', rebootHandler);
+      device.enableStateRestore();
+      await device.connect();
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'FAN', fnsp: '0006', oson: 'ON' }));
+
+      mockMqttClient._emit('disconnect');
+      mockMqttClient._emit('connect');
+      mockMqttClient._emit('resubscribed');
+      expect(mockMqttClient.requestCurrentState).toHaveBeenCalledTimes(2);
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'OFF', fnsp: '0001', oson: 'OFF' }));
+      await flushMicrotasks();
+
+      expect(rebootHandler).toHaveBeenCalledWith(previous, { isOn: false, fanSpeed: 1, autoMode: false, oscillation: false });
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { fmod: 'FAN', fnsp: '0006', oson: 'ON' } }),
+      );
+    });
+
+    it('should keep settings changed with the remote while the plugin was stopped', async () => {
+      const rebootHandler = vi.fn();
+      const changeHandler = vi.fn();
+      device.on('reboot', rebootHandler);
+      device.on('restorableStateChange', changeHandler);
+      device.enableStateRestore(previous);
+      await device.connect();
+
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'OFF', fnsp: '0001', oson: 'OFF' }));
+      await flushMicrotasks();
+
+      expect(rebootHandler).not.toHaveBeenCalled();
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+      expect(changeHandler).toHaveBeenLastCalledWith({ isOn: false, fanSpeed: 1, autoMode: false, oscillation: false });
+    });
+
+    it('should not check after the plugin disconnected and connected again', async () => {
+      const rebootHandler = vi.fn();
+      device.on('reboot', rebootHandler);
+      device.enableStateRestore();
+      await device.connect();
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'FAN', fnsp: '0006', oson: 'ON' }));
+
+      await device.disconnect();
+      await device.connect();
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'OFF', fnsp: '0001', oson: 'OFF' }));
+      await flushMicrotasks();
+
+      expect(rebootHandler).not.toHaveBeenCalled();
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+
+    it('should not restore unless enabled', async () => {
+      const rebootHandler = vi.fn();
+      device.on('reboot', rebootHandler);
+      await device.connect();
+
+      mockMqttClient._emit('message', stateMessage('CURRENT-STATE', { fmod: 'OFF' }));
+      await flushMicrotasks();
+
+      expect(rebootHandler).not.toHaveBeenCalled();
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('command confirmation', () => {
+    const stateChange = (productState: Record<string, string>): MqttMessage => ({
+      topic: '438/ABC-AB-12345678/status/current',
+      payload: Buffer.from('{}'),
+      data: { msg: 'STATE-CHANGE', 'product-state': productState },
+    });
+
+    beforeEach(async () => {
+      await device.connect();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should resolve once the device reports the commanded values', async () => {
+      await expect(device.setNightMode(true)).resolves.toBeUndefined();
+      expect(device.getState().nightMode).toBe(true);
+    });
+
+    it('should settle every setter in a batch with one command', async () => {
+      await Promise.all([device.setNightMode(true), device.setOscillation(true)]);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledTimes(1);
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { nmod: 'ON', oson: 'ON' } }),
+      );
+    });
+
+    it('should wait for a matching state report', async () => {
+      mockMqttClient.publishCommand.mockResolvedValueOnce(undefined);
+      const settled = vi.fn();
+
+      const pending = device.setNightMode(true).then(settled);
+      await flushMicrotasks();
+
+      mockMqttClient._emit('message', stateChange({ oson: 'ON' }));
+      await flushMicrotasks();
+      expect(settled).not.toHaveBeenCalled();
+
+      mockMqttClient._emit('message', stateChange({ nmod: 'ON' }));
+      await pending;
+      expect(settled).toHaveBeenCalled();
+    });
+
+    it('should reject with CommandTimeoutError when the device never confirms', async () => {
+      vi.useFakeTimers();
+      mockMqttClient.publishCommand.mockResolvedValueOnce(undefined);
+      const errorHandler = vi.fn();
+      device.on('commandError', errorHandler);
+
+      const pending = device.setNightMode(true);
+      const assertion = expect(pending).rejects.toBeInstanceOf(CommandTimeoutError);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      await assertion;
+      expect(errorHandler).toHaveBeenCalledWith(expect.any(CommandTimeoutError));
+    });
+
+    it('should reject pending commands on disconnect', async () => {
+      mockMqttClient.publishCommand.mockResolvedValueOnce(undefined);
+
+      const pending = device.setNightMode(true);
+      const assertion = expect(pending).rejects.toThrow('Device disconnected');
+      await flushMicrotasks();
+      await device.disconnect();
+
+      await assertion;
+    });
+
+    it('should send a command queued while reconnecting once subscribed again', async () => {
+      vi.useFakeTimers();
+      device.setOfflineQueueTtl(30);
+      mockMqttClient.isConnected.mockReturnValue(false);
+
+      // Like the real broker, the echo only reaches the plugin once the status topic is subscribed again
+      let isResubscribed = false;
+      const echo = mockMqttClient.publishCommand.getMockImplementation()!;
+      mockMqttClient.publishCommand.mockImplementation(async (command) => {
+        if (isResubscribed) {
+          await echo(command);
+        }
+      });
+
+      await expect(device.setNightMode(true)).resolves.toBeUndefined();
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+
+      mockMqttClient.isConnected.mockReturnValue(true);
+      mockMqttClient._emit('connect');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+
+      isResubscribed = true;
+      mockMqttClient._emit('resubscribed');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockMqttClient.publishCommand).toHaveBeenCalledTimes(1);
+      expect(device.getState().nightMode).toBe(true);
+    });
+
+    it('should not wait for a reply to a command queued while reconnecting', async () => {
+      vi.useFakeTimers();
+      device.setOfflineQueueTtl(300);
+      mockMqttClient.isConnected.mockReturnValue(false);
+      const errorHandler = vi.fn();
+      device.on('commandError', errorHandler);
+
+      await expect(device.setNightMode(true)).resolves.toBeUndefined();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(mockMqttClient.publishCommand).not.toHaveBeenCalled();
+      expect(errorHandler).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleStateMessage', () => {
     beforeEach(async () => {
       await device.connect();
@@ -522,6 +1045,132 @@ describe('DysonLinkDevice', () => {
 
       expect(device.getState()).toEqual(initialState);
     });
+
+    it('should report unrecognised fields once with a sample value', () => {
+      const unknownFieldsHandler = vi.fn();
+      device.on('unknownFields', unknownFieldsHandler);
+
+      const message = (productState: Record<string, string | [string, string]>): MqttMessage => ({
+        topic: '438/ABC-AB-12345678/status/current',
+        payload: Buffer.from('{}'),
+        data: { msg: 'STATE-CHANGE', 'product-state': productState },
+      });
+
+      mockMqttClient._emit('message', message({ fpwr: 'ON', bril: '0002', corf: ['OFF', 'ON'] }));
+      mockMqttClient._emit('message', message({ bril: '0003', psta: 'OFF' }));
+
+      expect(unknownFieldsHandler).toHaveBeenCalledTimes(2);
+      expect(unknownFieldsHandler).toHaveBeenNthCalledWith(1, { bril: '0002', corf: 'ON' });
+      expect(unknownFieldsHandler).toHaveBeenNthCalledWith(2, { psta: 'OFF' });
+    });
+
+    it('should report unrecognised fields again once the firmware version is known', () => {
+      const unknownFieldsHandler = vi.fn();
+      device.on('unknownFields', unknownFieldsHandler);
+
+      const stateChange: MqttMessage = {
+        topic: '438/ABC-AB-12345678/status/current',
+        payload: Buffer.from('{}'),
+        data: { msg: 'STATE-CHANGE', 'product-state': { bril: '0002' } },
+      };
+
+      mockMqttClient._emit('message', stateChange);
+      mockMqttClient._emit('message', {
+        topic: '438/ABC-AB-12345678/status/software',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-SOFTWARE', version: '21.04.03' },
+      });
+      mockMqttClient._emit('message', stateChange);
+      mockMqttClient._emit('message', stateChange);
+
+      expect(unknownFieldsHandler).toHaveBeenCalledTimes(2);
+      expect(device.getFirmwareVersion()).toBe('21.04.03');
+    });
+  });
+
+  describe('change source', () => {
+    const stateChange = (
+      productState: Record<string, string | [string, string]>,
+      modeReason?: string,
+      stateReason?: string,
+    ): MqttMessage => ({
+      topic: '438/ABC-AB-12345678/status/current',
+      payload: Buffer.from('{}'),
+      data: { msg: 'STATE-CHANGE', 'mode-reason': modeReason, 'state-reason': stateReason, 'product-state': productState },
+    });
+
+    beforeEach(async () => {
+      await device.connect();
+    });
+
+    it('should record who made the last change in the state', () => {
+      mockMqttClient._emit('message', stateChange({ fnsp: ['0004', '0007'] }, 'IRC', 'MODE'));
+
+      const state = device.getState();
+      expect(state.changeSource).toBe('remote');
+      expect(state.modeReason).toBe('IRC');
+      expect(state.stateReason).toBe('MODE');
+    });
+
+    it('should emit settingsChange with only the values that changed', () => {
+      const handler = vi.fn();
+      device.on('settingsChange', handler);
+
+      mockMqttClient._emit('message', stateChange({ fpwr: ['OFF', 'ON'], fnsp: ['0004', '0007'], nmod: 'OFF' }, 'RAPP', 'MODE'));
+
+      expect(handler).toHaveBeenCalledWith({
+        source: 'cloud-app',
+        modeReason: 'RAPP',
+        stateReason: 'MODE',
+        changes: { isOn: true, fanSpeed: 7 },
+        isManual: true,
+      });
+    });
+
+    it('should treat changes through the buttons and the remote as manual', () => {
+      const handler = vi.fn();
+      device.on('settingsChange', handler);
+
+      mockMqttClient._emit('message', stateChange({ oson: ['OFF', 'ON'] }, 'PUI', 'MODE'));
+      mockMqttClient._emit('message', stateChange({ nmod: ['OFF', 'ON'] }, 'IRC', 'MODE'));
+
+      expect(handler).toHaveBeenNthCalledWith(1, expect.objectContaining({ source: 'device', isManual: true }));
+      expect(handler).toHaveBeenNthCalledWith(2, expect.objectContaining({ source: 'remote', isManual: true }));
+    });
+
+    it('should not treat local API or auto mode changes as manual', () => {
+      const handler = vi.fn();
+      device.on('settingsChange', handler);
+
+      mockMqttClient._emit('message', stateChange({ fpwr: ['OFF', 'ON'] }, 'LAPP', 'MODE'));
+      mockMqttClient._emit('message', stateChange({ fnsp: ['0004', '0006'] }, 'RAPP', 'ENV'));
+
+      expect(handler).toHaveBeenNthCalledWith(1, expect.objectContaining({ source: 'local-app', isManual: false }));
+      expect(handler).toHaveBeenNthCalledWith(2, expect.objectContaining({ source: 'cloud-app', isManual: false }));
+    });
+
+    it('should not emit settingsChange when nothing changed', () => {
+      const handler = vi.fn();
+      device.on('settingsChange', handler);
+
+      mockMqttClient._emit('message', stateChange({ nmod: 'OFF' }, 'PUI', 'MODE'));
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should not emit settingsChange for CURRENT-STATE replies', () => {
+      const handler = vi.fn();
+      device.on('settingsChange', handler);
+
+      mockMqttClient._emit('message', {
+        topic: '438/ABC-AB-12345678/status/current',
+        payload: Buffer.from('{}'),
+        data: { msg: 'CURRENT-STATE', 'mode-reason': 'PUI', 'state-reason': 'MODE', 'product-state': { fpwr: 'ON' } },
+      });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(device.getState().changeSource).toBe('device');
+    });
   });
 });
 
@@ -0,0 +1,79 @@
+/**
+ * Polling Policy Unit Tests
+ */
+
+import { PollingPolicy, isAirQualityWorsening } from '../../../src/devices/pollingPolicy.js';
+
+describe('Polling Policy', () => {
+  describe('isAirQualityWorsening', () => {
+    it('should detect a rising reading', () => {
+      expect(isAirQualityWorsening({ pm25: 10, vocIndex: 3 }, { pm25: 10, vocIndex: 5 })).toBe(true);
+    });
+
+    it('should ignore a one-unit rise', () => {
+      expect(isAirQualityWorsening({ pm25: 10, vocIndex: 3 }, { pm25: 11, vocIndex: 4 })).toBe(false);
+    });
+
+    it('should ignore falling and unchanged readings', () => {
+      expect(isAirQualityWorsening({ pm25: 10, pm10: 20 }, { pm25: 8, pm10: 20 })).toBe(false);
+    });
+
+    it('should ignore readings missing from either state', () => {
+      expect(isAirQualityWorsening({}, { pm25: 50 })).toBe(false);
+      expect(isAirQualityWorsening({ pm25: 50 }, {})).toBe(false);
+    });
+
+    it('should ignore unrelated fields', () => {
+      expect(isAirQualityWorsening({ fanSpeed: 1 }, { fanSpeed: 10 })).toBe(false);
+    });
+  });
+
+  describe('PollingPolicy', () => {
+    const policy = () => new PollingPolicy({ activeSeconds: 15, idleSeconds: 300 });
+
+    it('should poll at the idle interval while off', () => {
+      expect(policy().getIntervalMs({ isOn: false }, 0)).toBe(300000);
+    });
+
+    it('should poll at the active interval while on', () => {
+      expect(policy().getIntervalMs({ isOn: true }, 0)).toBe(15000);
+    });
+
+    it('should stay active for the activity window after a command', () => {
+      const p = policy();
+      p.recordCommand(1000);
+
+      expect(p.getIntervalMs({ isOn: false }, 1000 + 119000)).toBe(15000);
+      expect(p.getIntervalMs({ isOn: false }, 1000 + 120000)).toBe(300000);
+    });
+
+    it('should stay active after air quality rises', () => {
+      const p = policy();
+      p.recordStateUpdate({ pm25: 5 }, { pm25: 30 }, 0);
+
+      expect(p.isActive({ isOn: false }, 60000)).toBe(true);
+    });
+
+    it('should stay idle while readings jitter by one unit', () => {
+      const p = policy();
+      const readings = [10, 11, 10, 11, 12, 11];
+      readings.slice(1).forEach((pm25, i) => p.recordStateUpdate({ pm25: readings[i] }, { pm25 }, i * 30000));
+
+      expect(p.getIntervalMs({ isOn: false }, 150000)).toBe(300000);
+    });
+
+    it('should not become active when air quality improves', () => {
+      const p = policy();
+      p.recordStateUpdate({ pm25: 30 }, { pm25: 5 }, 0);
+
+      expect(p.isActive({ isOn: false }, 0)).toBe(false);
+    });
+
+    it('should honour a custom activity window', () => {
+      const p = new PollingPolicy({ activeSeconds: 15, idleSeconds: 300, activityWindowSeconds: 10 });
+      p.recordCommand(0);
+
+      expect(p.isActive({ isOn: false }, 10000)).toBe(false);
+    });
+  });
+});
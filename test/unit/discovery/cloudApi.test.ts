@@ -132,6 +132,21 @@ describe('DysonCloudApi', () => {
       expect(body.email).toBe('test@example.com');
     });
 
+    it('should call the China API host for CN accounts', async () => {
+      const chinaApi = new DysonCloudApi({
+        email: 'test@example.com',
+        password: 'testpassword',
+        countryCode: 'CN',
+        timeout: 5000,
+      });
+      mockFetch.mockResolvedValueOnce(mockAuthTokenResponse());
+
+      await chinaApi.authenticate();
+
+      const [authUrl] = mockFetch.mock.calls[0];
+      expect(authUrl).toBe('https://appapi.cp.dyson.cn/v3/userregistration/email/auth');
+    });
+
     it('should throw TWO_FACTOR_REQUIRED when 2FA is needed', async () => {
       // Auth returns challengeId (2FA required)
       mockFetch.mockResolvedValueOnce(mockAuthChallengeResponse());
@@ -288,6 +303,8 @@ describe('DysonCloudApi', () => {
       expect(devices[0].name).toBe('Living Room Fan');
       expect(devices[0].productType).toBe('438');
       expect(devices[0].localCredentials).toBe('local-pass-123');
+      expect(devices[0].version).toBe('21.04.03');
+      expect(devices[0].newVersionAvailable).toBe(false);
 
       expect(devices[1].serial).toBe('XYZ-789-UVW');
       expect(devices[1].productType).toBe('527');
@@ -385,6 +402,52 @@ describe('DysonCloudApi', () => {
     });
   });
 
+  describe('getIotCredentials', () => {
+    beforeEach(async () => {
+      mockFetch.mockResolvedValueOnce(mockAuthTokenResponse('test-token'));
+      await api.authenticate();
+    });
+
+    it('should request and map the IoT credentials for a device', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          Endpoint: 'abc123-ats.iot.eu-west-1.amazonaws.com',
+          IoTCredentials: {
+            ClientId: 'client-uuid',
+            CustomAuthorizerName: 'CustomAuthorizer',
+            TokenKey: 'token',
+            TokenSignature: 'signature==',
+            TokenValue: 'token-value',
+          },
+        }),
+      } as Response);
+
+      const credentials = await api.getIotCredentials('ABC-123-DEF');
+
+      expect(credentials).toEqual({
+        endpoint: 'abc123-ats.iot.eu-west-1.amazonaws.com',
+        clientId: 'client-uuid',
+        customAuthorizerName: 'CustomAuthorizer',
+        tokenKey: 'token',
+        tokenValue: 'token-value',
+        tokenSignature: 'signature==',
+      });
+
+      const [url, options] = mockFetch.mock.calls[1];
+      expect(url).toBe('https://appapi.cp.dyson.com/v2/authorize/iot-credentials');
+      expect((options as RequestInit).method).toBe('POST');
+      expect(JSON.parse((options as RequestInit).body as string)).toEqual({ Serial: 'ABC-123-DEF' });
+      expect((options as RequestInit).headers as Record<string, string>).toHaveProperty('Authorization', 'Bearer test-token');
+    });
+
+    it('should throw error if not authenticated', async () => {
+      api.logout();
+
+      await expect(api.getIotCredentials('ABC-123-DEF')).rejects.toBeInstanceOf(CloudApiError);
+    });
+  });
+
   describe('logout', () => {
     it('should clear authentication state', async () => {
       mockFetch.mockResolvedValueOnce(mockAuthTokenResponse());
@@ -198,6 +198,26 @@ describe('MdnsDiscovery', () => {
       expect(devices.get('ABC-AB-12345678')).toBe('192.168.1.100');
     });
 
+    it('should use a routable IPv6 address when there is no IPv4 address', async () => {
+      const discoverPromise = discovery.discoverDetailed({ timeout: 1000 });
+
+      await Promise.resolve();
+
+      mockBonjour._emitService({
+        name: 'ABC-AB-12345678',
+        host: 'device.local',
+        port: 1883,
+        addresses: ['fe80::1', '2001:db8::10'],
+      });
+
+      vi.advanceTimersByTime(1000);
+
+      const devices = await discoverPromise;
+
+      expect(devices[0].ipAddress).toBe('2001:db8::10');
+      expect(devices[0].addresses).toEqual(['fe80::1', '2001:db8::10']);
+    });
+
     it('should ignore services with invalid serial format', async () => {
       const discoverPromise = discovery.discover({ timeout: 1000 });
 
@@ -288,6 +308,7 @@ describe('MdnsDiscovery', () => {
       expect(devices[0]).toEqual({
         serial: 'ABC-AB-12345678',
         ipAddress: '192.168.1.100',
+        addresses: ['192.168.1.100'],
         hostname: 'dyson-device.local',
         port: 1883,
       });
@@ -0,0 +1,243 @@
+/**
+ * MdnsWatcher Unit Tests
+ */
+
+import { vi } from 'vitest';
+
+import { MdnsWatcher } from '../../../src/discovery/mdnsWatcher.js';
+import type { BonjourFactory } from '../../../src/discovery/mdnsDiscovery.js';
+
+type Handler = (service: unknown) => void;
+
+// Create mock Bonjour implementation; every find() returns a fresh browser
+function createMockBonjour() {
+  const browsers: { handlers: Map<string, Handler[]>; stop: ReturnType<typeof vi.fn> }[] = [];
+
+  const mockBonjour = {
+    find: vi.fn(() => {
+      const handlers = new Map<string, Handler[]>();
+      const browser = {
+        handlers,
+        on: vi.fn((event: string, handler: Handler) => {
+          handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+          return browser;
+        }),
+        stop: vi.fn(),
+      };
+      browsers.push(browser);
+      return browser;
+    }),
+    destroy: vi.fn(),
+    // Helpers to emit events on the current browser
+    _emit: (event: string, service: unknown) => {
+      const current = browsers[browsers.length - 1];
+      (current?.handlers.get(event) ?? []).forEach((handler) => handler(service));
+    },
+    _browsers: browsers,
+  };
+
+  return mockBonjour;
+}
+
+function dysonService(ipAddress: string, serial = 'ABC-AB-12345678') {
+  return {
+    name: `455_${serial}`,
+    host: `${serial}.local`,
+    port: 1883,
+    addresses: [ipAddress],
+  };
+}
+
+describe('MdnsWatcher', () => {
+  let watcher: MdnsWatcher;
+  let mockBonjour: ReturnType<typeof createMockBonjour>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockBonjour = createMockBonjour();
+    watcher = new MdnsWatcher({ interval: 60000 }, vi.fn(() => mockBonjour) as unknown as BonjourFactory);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    vi.useRealTimers();
+  });
+
+  describe('start/stop', () => {
+    it('should browse for Dyson devices once started', () => {
+      watcher.start();
+      watcher.start();
+
+      expect(watcher.isRunning()).toBe(true);
+      expect(mockBonjour.find).toHaveBeenCalledTimes(1);
+      expect(mockBonjour.find).toHaveBeenCalledWith({ type: 'dyson_mqtt' });
+    });
+
+    it('should query again with a fresh browser every interval', () => {
+      watcher.start();
+
+      vi.advanceTimersByTime(60000);
+
+      expect(mockBonjour.find).toHaveBeenCalledTimes(2);
+      expect(mockBonjour._browsers[0].stop).toHaveBeenCalled();
+    });
+
+    it('should release bonjour and forget devices on stop', () => {
+      watcher.start();
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      watcher.stop();
+
+      expect(mockBonjour.destroy).toHaveBeenCalled();
+      expect(watcher.isRunning()).toBe(false);
+      expect(watcher.getDevices()).toEqual([]);
+    });
+
+    it('should find a device by host name regardless of case and trailing dot', () => {
+      watcher.start();
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      expect(watcher.getDeviceByHostname('abc-ab-12345678.local.')?.ipAddress).toBe('192.168.1.100');
+      expect(watcher.getDeviceByHostname('other.local')).toBeUndefined();
+    });
+  });
+
+  describe('events', () => {
+    it('should emit appeared for a new device', () => {
+      const appeared = vi.fn();
+      watcher.on('appeared', appeared);
+      watcher.start();
+
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      expect(appeared).toHaveBeenCalledWith(expect.objectContaining({
+        serial: 'ABC-AB-12345678',
+        ipAddress: '192.168.1.100',
+      }));
+      expect(watcher.getDevice('ABC-AB-12345678')?.ipAddress).toBe('192.168.1.100');
+    });
+
+    it('should emit ipChanged when a known device answers from another address', () => {
+      const appeared = vi.fn();
+      const ipChanged = vi.fn();
+      watcher.on('appeared', appeared);
+      watcher.on('ipChanged', ipChanged);
+      watcher.start();
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      vi.advanceTimersByTime(60000);
+      mockBonjour._emit('up', dysonService('192.168.1.150'));
+
+      expect(appeared).toHaveBeenCalledTimes(1);
+      expect(ipChanged).toHaveBeenCalledWith(
+        expect.objectContaining({ serial: 'ABC-AB-12345678', ipAddress: '192.168.1.150' }),
+        '192.168.1.100',
+      );
+    });
+
+    it('should not emit when a device answers from the same address', () => {
+      const ipChanged = vi.fn();
+      watcher.on('ipChanged', ipChanged);
+      watcher.start();
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      vi.advanceTimersByTime(60000);
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      expect(ipChanged).not.toHaveBeenCalled();
+    });
+
+    it('should emit disappeared when a device says goodbye', () => {
+      const disappeared = vi.fn();
+      watcher.on('disappeared', disappeared);
+      watcher.start();
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      mockBonjour._emit('down', { name: '455_ABC-AB-12345678', addresses: [] });
+
+      expect(disappeared).toHaveBeenCalledWith('ABC-AB-12345678');
+      expect(watcher.getDevice('ABC-AB-12345678')).toBeUndefined();
+    });
+
+    it('should emit disappeared when a device stops answering', () => {
+      const disappeared = vi.fn();
+      watcher.on('disappeared', disappeared);
+      watcher.start();
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      vi.advanceTimersByTime(120000);
+      expect(disappeared).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(60000);
+      expect(disappeared).toHaveBeenCalledWith('ABC-AB-12345678');
+    });
+
+    it('should emit appeared again for a device that came back', () => {
+      const appeared = vi.fn();
+      watcher.on('appeared', appeared);
+      watcher.start();
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+      mockBonjour._emit('down', { name: '455_ABC-AB-12345678', addresses: [] });
+
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      expect(appeared).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('lookup', () => {
+    it('should resolve with the address once the device answers', async () => {
+      watcher.start();
+      const lookup = watcher.lookup('ABC-AB-12345678', 10000);
+
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      await expect(lookup).resolves.toBe('192.168.1.100');
+    });
+
+    it('should resolve immediately when the device answered the current query', async () => {
+      watcher.start();
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+
+      await expect(watcher.lookup('ABC-AB-12345678', 10000)).resolves.toBe('192.168.1.100');
+      expect(mockBonjour.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve null when the device does not answer in time', async () => {
+      watcher.start();
+      const lookup = watcher.lookup('ABC-AB-12345678', 10000);
+
+      vi.advanceTimersByTime(10000);
+
+      await expect(lookup).resolves.toBeNull();
+    });
+
+    it('should share one query between concurrent lookups', async () => {
+      watcher.start();
+      vi.advanceTimersByTime(30000);
+      mockBonjour.find.mockClear();
+
+      const first = watcher.lookup('ABC-AB-12345678', 10000);
+      const second = watcher.lookup('XYZ-XY-87654321', 10000);
+      mockBonjour._emit('up', dysonService('192.168.1.100'));
+      mockBonjour._emit('up', dysonService('192.168.1.101', 'XYZ-XY-87654321'));
+
+      expect(mockBonjour.find).toHaveBeenCalledTimes(1);
+      await expect(first).resolves.toBe('192.168.1.100');
+      await expect(second).resolves.toBe('192.168.1.101');
+    });
+
+    it('should resolve null when not running', async () => {
+      await expect(watcher.lookup('ABC-AB-12345678', 10000)).resolves.toBeNull();
+    });
+
+    it('should resolve waiting lookups with null on stop', async () => {
+      watcher.start();
+      const lookup = watcher.lookup('ABC-AB-12345678', 10000);
+
+      watcher.stop();
+
+      await expect(lookup).resolves.toBeNull();
+    });
+  });
+});
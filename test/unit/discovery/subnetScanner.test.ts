@@ -0,0 +1,209 @@
+/**
+ * SubnetScanner Unit Tests
+ */
+
+import { vi } from 'vitest';
+import type { IClientOptions, MqttClient as MqttClientType } from 'mqtt';
+
+import { SubnetScanner, expandCidr, MAX_SCAN_ADDRESSES } from '../../../src/discovery/subnetScanner.js';
+import type { PortProbe, ScanTarget } from '../../../src/discovery/subnetScanner.js';
+import type { MqttConnectFn } from '../../../src/protocol/mqttClient.js';
+
+// Create a mock MQTT client that accepts or refuses the login on the next tick
+function createMockMqttClient(isAccepted: boolean) {
+  const eventHandlers: Map<string, ((...args: unknown[]) => void)[]> = new Map();
+
+  const mockClient = {
+    on: vi.fn((event: string, handler: (...args: unknown[]) => void) => {
+      eventHandlers.set(event, [...(eventHandlers.get(event) ?? []), handler]);
+      return mockClient;
+    }),
+    end: vi.fn((force?: boolean, opts?: object, callback?: () => void) => {
+      if (typeof callback === 'function') {
+        callback();
+      }
+    }),
+    removeAllListeners: vi.fn(),
+  };
+
+  setImmediate(() => {
+    if (isAccepted) {
+      (eventHandlers.get('connect') ?? []).forEach((handler) => handler());
+    } else {
+      (eventHandlers.get('error') ?? []).forEach((handler) => handler(new Error('Connection refused: Not authorized')));
+    }
+  });
+
+  return mockClient;
+}
+
+const targets: ScanTarget[] = [
+  { serial: 'ABC-AB-12345678', credentials: 'passwordA', productType: '438' },
+  { serial: 'XYZ-XY-87654321', credentials: 'passwordB', productType: '527' },
+];
+
+/** Logins each address accepts, by serial */
+const logins: Record<string, string> = {
+  '10.0.20.5': 'ABC-AB-12345678',
+  '10.0.20.9': 'XYZ-XY-87654321',
+};
+
+describe('expandCidr', () => {
+  it('should list the host addresses of a range', () => {
+    const hosts = expandCidr('10.0.20.0/30');
+
+    expect(hosts).toEqual(['10.0.20.1', '10.0.20.2']);
+  });
+
+  it('should cover a /24 without network and broadcast addresses', () => {
+    const hosts = expandCidr('192.168.20.77/24');
+
+    expect(hosts).toHaveLength(254);
+    expect(hosts[0]).toBe('192.168.20.1');
+    expect(hosts[253]).toBe('192.168.20.254');
+  });
+
+  it('should treat an address without prefix as a single host', () => {
+    expect(expandCidr('10.0.20.5')).toEqual(['10.0.20.5']);
+  });
+
+  it('should cross octet boundaries', () => {
+    const hosts = expandCidr('10.0.0.0/23');
+
+    expect(hosts).toContain('10.0.0.255');
+    expect(hosts).toContain('10.0.1.0');
+    expect(hosts[hosts.length - 1]).toBe('10.0.1.254');
+  });
+
+  it('should reject invalid ranges', () => {
+    expect(() => expandCidr('10.0.300.0/24')).toThrow('Invalid CIDR range');
+    expect(() => expandCidr('10.0.20.0/33')).toThrow('Invalid CIDR range');
+    expect(() => expandCidr('fd00::/64')).toThrow('Invalid CIDR range');
+  });
+});
+
+describe('SubnetScanner', () => {
+  let probePort: ReturnType<typeof vi.fn<PortProbe>>;
+  let mqttConnect: ReturnType<typeof vi.fn<MqttConnectFn>>;
+
+  beforeEach(() => {
+    probePort = vi.fn<PortProbe>(async (host) => host in logins);
+    mqttConnect = vi.fn<MqttConnectFn>((brokerUrl: string, options: IClientOptions) => {
+      const host = new URL(brokerUrl).hostname;
+      return createMockMqttClient(logins[host] === options.username) as unknown as MqttClientType;
+    });
+  });
+
+  it('should find devices by their MQTT login', async () => {
+    const scanner = new SubnetScanner({}, probePort, mqttConnect);
+
+    const found = await scanner.scan(['10.0.20.0/28'], targets);
+
+    expect(found).toEqual(new Map([
+      ['ABC-AB-12345678', '10.0.20.5'],
+      ['XYZ-XY-87654321', '10.0.20.9'],
+    ]));
+  });
+
+  it('should probe the Dyson MQTT port with the configured timeout', async () => {
+    const scanner = new SubnetScanner({ probeTimeout: 250 }, probePort, mqttConnect);
+
+    await scanner.scan(['10.0.20.5'], targets);
+
+    expect(probePort).toHaveBeenCalledWith('10.0.20.5', 1883, 250);
+  });
+
+  it('should only log in to addresses with an open port', async () => {
+    const scanner = new SubnetScanner({}, probePort, mqttConnect);
+
+    await scanner.scan(['10.0.20.0/28'], targets);
+
+    const hosts = new Set(mqttConnect.mock.calls.map(([brokerUrl]) => new URL(brokerUrl).hostname));
+    expect(hosts).toEqual(new Set(['10.0.20.5', '10.0.20.9']));
+  });
+
+  it('should not send credentials to a broker that accepts anonymous clients', async () => {
+    probePort.mockResolvedValue(true);
+    mqttConnect.mockImplementation((brokerUrl: string, options: IClientOptions) => {
+      const isOpenBroker = new URL(brokerUrl).hostname === '10.0.20.7';
+      return createMockMqttClient(isOpenBroker || logins[new URL(brokerUrl).hostname] === options.username) as unknown as MqttClientType;
+    });
+    const scanner = new SubnetScanner({}, probePort, mqttConnect);
+
+    const found = await scanner.scan(['10.0.20.7'], targets);
+
+    expect(found.size).toBe(0);
+    expect(mqttConnect).toHaveBeenCalledTimes(1);
+    expect(mqttConnect.mock.calls[0][1].username).toBeUndefined();
+  });
+
+  it('should not send credentials to a service that does not answer as an MQTT broker', async () => {
+    probePort.mockResolvedValue(true);
+    mqttConnect.mockImplementation((brokerUrl: string, options: IClientOptions) => {
+      if (options.username === undefined && new URL(brokerUrl).hostname === '10.0.20.8') {
+        const client = createMockMqttClient(true);
+        client.on.mockImplementation(() => client);
+        return client as unknown as MqttClientType;
+      }
+      return createMockMqttClient(false) as unknown as MqttClientType;
+    });
+    const scanner = new SubnetScanner({ confirmTimeout: 50 }, probePort, mqttConnect);
+
+    const found = await scanner.scan(['10.0.20.8'], targets);
+
+    expect(found.size).toBe(0);
+    expect(mqttConnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send each login once, with a single connect variant', async () => {
+    const scanner = new SubnetScanner({}, probePort, mqttConnect);
+
+    await scanner.scan(['10.0.20.9'], [targets[0]]);
+
+    const credentialedConnects = mqttConnect.mock.calls.filter(([, options]) => options.username !== undefined);
+    expect(credentialedConnects).toHaveLength(1);
+    expect(credentialedConnects[0][1]).toEqual(expect.objectContaining({ username: 'ABC-AB-12345678', clientId: 'ABC-AB-12345678' }));
+  });
+
+  it('should not report a device whose login no open port accepts', async () => {
+    const scanner = new SubnetScanner({}, probePort, mqttConnect);
+
+    const found = await scanner.scan(['10.0.20.9'], [targets[0]]);
+
+    expect(found.size).toBe(0);
+  });
+
+  it('should probe no more addresses at once than the concurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+    probePort.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setImmediate(resolve));
+      active--;
+      return false;
+    });
+    const scanner = new SubnetScanner({ concurrency: 4 }, probePort, mqttConnect);
+
+    await scanner.scan(['10.0.20.0/27'], targets);
+
+    expect(probePort).toHaveBeenCalledTimes(30);
+    expect(maxActive).toBe(4);
+  });
+
+  it('should refuse ranges larger than the limit', async () => {
+    const scanner = new SubnetScanner({}, probePort, mqttConnect);
+
+    await expect(scanner.scan(['10.0.0.0/16'], targets)).rejects.toThrow(`limit of ${MAX_SCAN_ADDRESSES}`);
+    expect(probePort).not.toHaveBeenCalled();
+  });
+
+  it('should not scan when no devices are missing', async () => {
+    const scanner = new SubnetScanner({}, probePort, mqttConnect);
+
+    const found = await scanner.scan(['10.0.20.0/24'], []);
+
+    expect(found.size).toBe(0);
+    expect(probePort).not.toHaveBeenCalled();
+  });
+});
@@ -5,7 +5,10 @@
 
 
 import { MessageCodec } from '../../../src/protocol/messageCodec.js';
-import type { DysonMessage } from '../../../src/protocol/messageCodec.js';
+import type { DysonMessage, RawStateData } from '../../../src/protocol/messageCodec.js';
+import { DEFAULT_FIELD_MAP } from '../../../src/config/deviceCatalog.js';
+import type { FieldMap } from '../../../src/config/deviceCatalog.js';
+import type { DeviceState } from '../../../src/devices/types.js';
 
 describe('MessageCodec', () => {
   describe('encodeCommand', () => {
@@ -180,6 +183,32 @@ describe('MessageCodec', () => {
       expect(state.oscillationAngleEnd).toBe(270);
     });
 
+    it('should decode osal/osau angles and ancp presets', () => {
+      const message: DysonMessage = {
+        msg: 'CURRENT-STATE',
+        'product-state': {
+          osal: '0135',
+          osau: '0225',
+          ancp: '0090',
+        },
+      };
+
+      const state = MessageCodec.decodeState(message);
+
+      expect(state.oscillationAngleStart).toBe(135);
+      expect(state.oscillationAngleEnd).toBe(225);
+      expect(state.oscillationSweep).toBe(90);
+    });
+
+    it('should decode a custom ancp range as sweep 0', () => {
+      const message: DysonMessage = {
+        msg: 'STATE-CHANGE',
+        'product-state': { ancp: ['0090', 'CUST'] },
+      };
+
+      expect(MessageCodec.decodeState(message).oscillationSweep).toBe(0);
+    });
+
     it('should decode temperature sensor', () => {
       const message: DysonMessage = {
         msg: 'CURRENT-STATE',
@@ -296,6 +325,40 @@ describe('MessageCodec', () => {
       expect(state.targetHumidity).toBe(55);
     });
 
+    it('should decode water hardness and deep clean fields', () => {
+      const message: DysonMessage = {
+        msg: 'CURRENT-STATE',
+        'product-state': {
+          wath: '1350',
+          clcr: 'CLAC',
+          cdrr: '0042',
+          cltr: '0120',
+        },
+      };
+
+      const state = MessageCodec.decodeState(message);
+
+      expect(state.waterHardness).toBe('medium');
+      expect(state.deepCleanActive).toBe(true);
+      expect(state.deepCleanRemaining).toBe(42);
+      expect(state.deepCleanDueIn).toBe(120);
+    });
+
+    it('should decode a finished deep clean as not running and skip unknown hardness values', () => {
+      const message: DysonMessage = {
+        msg: 'CURRENT-STATE',
+        'product-state': {
+          wath: '9999',
+          clcr: 'CLCM',
+        },
+      };
+
+      const state = MessageCodec.decodeState(message);
+
+      expect(state.deepCleanActive).toBe(false);
+      expect(state).not.toHaveProperty('waterHardness');
+    });
+
     it('should decode fan mode AUTO', () => {
       const message: DysonMessage = {
         msg: 'CURRENT-STATE',
@@ -420,6 +483,110 @@ describe('MessageCodec', () => {
     });
   });
 
+  describe('parseRawState with a field map', () => {
+    it('should only decode fields in the map', () => {
+      const fieldMap: FieldMap = {
+        fpwr: { state: 'isOn', decode: 'onOff' },
+        pact: { state: 'pm25', decode: 'integer', unit: 'index' },
+      };
+
+      const state = MessageCodec.parseRawState({ fpwr: 'ON', pact: '0003', p25r: '0012', tact: '2950' }, fieldMap);
+
+      expect(state).toEqual({ isOn: true, pm25: 3 });
+    });
+
+    it('should let a later field win when two write the same property', () => {
+      const state = MessageCodec.parseRawState({ p25r: '0012', pact: '0003' });
+
+      expect(state.pm25).toBe(3);
+    });
+
+    it('should decode a field under a model-specific name', () => {
+      const fieldMap: FieldMap = {
+        flt2: { state: 'carbonFilterLife', decode: 'filterPercent', unit: 'hours' },
+      };
+
+      const state = MessageCodec.parseRawState({ flt2: '0050' }, fieldMap);
+
+      expect(state.carbonFilterLife).toBe(2150);
+    });
+
+    it('should convert filter percentages with the given filter capacity', () => {
+      const state = MessageCodec.parseRawState(
+        { fltf: '0050', cflr: '0025' },
+        DEFAULT_FIELD_MAP,
+        { hepa: 8760, carbon: 4000 },
+      );
+
+      expect(state.hepaFilterLife).toBe(4380);
+      expect(state.carbonFilterLife).toBe(1000);
+    });
+
+    it('should decode the fitted filter types', () => {
+      const state = MessageCodec.parseRawState({ hflt: 'GCOM', cflt: 'NONE' });
+
+      expect(state.hepaFilterType).toBe('combined');
+      expect(state.carbonFilterType).toBe('none');
+    });
+
+    it('should skip unknown filter type codes', () => {
+      const state = MessageCodec.parseRawState({ hflt: 'XXXX', cflt: 'CARF' });
+
+      expect(state.hepaFilterType).toBeUndefined();
+      expect(state.carbonFilterType).toBe('carbon');
+    });
+
+    it('should skip sensor readings that are still initializing', () => {
+      const state = MessageCodec.parseRawState({ p25r: 'INIT', tact: 'OFF', hact: '0045' });
+
+      expect(state.pm25).toBeUndefined();
+      expect(state.temperature).toBeUndefined();
+      expect(state.humidity).toBe(45);
+    });
+
+    it('should only decode sensor fields from environmental data', () => {
+      const state: Partial<DeviceState> = {};
+
+      MessageCodec.parseEnvironmentalData({ tact: '2950', fpwr: 'ON', sltm: 'OFF' }, state);
+
+      expect(state).toEqual({ temperature: 2950, sleepTimer: 0 });
+    });
+  });
+
+  describe('findUnknownFields', () => {
+    it('should return fields the map does not decode with their new value', () => {
+      const unknown = MessageCodec.findUnknownFields({ fpwr: 'ON', bril: '0002', corf: ['OFF', 'ON'] });
+
+      expect(unknown).toEqual({ bril: '0002', corf: 'ON' });
+    });
+
+    it('should check against the given field map', () => {
+      const fieldMap: FieldMap = { fpwr: { state: 'isOn', decode: 'onOff' } };
+
+      expect(MessageCodec.findUnknownFields({ fpwr: 'ON', tact: '2950' }, fieldMap)).toEqual({ tact: '2950' });
+    });
+
+    it('should serialize values that are not strings', () => {
+      const raw = { dial: { mode: 'A' } } as unknown as RawStateData;
+
+      expect(MessageCodec.findUnknownFields(raw)).toEqual({ dial: '{"mode":"A"}' });
+    });
+  });
+
+  describe('parseChangeSource', () => {
+    it('should map known mode-reason codes', () => {
+      expect(MessageCodec.parseChangeSource('LAPP')).toBe('local-app');
+      expect(MessageCodec.parseChangeSource('RAPP')).toBe('cloud-app');
+      expect(MessageCodec.parseChangeSource('PUI')).toBe('device');
+      expect(MessageCodec.parseChangeSource('IRC')).toBe('remote');
+    });
+
+    it('should return unknown for missing or unrecognised codes', () => {
+      expect(MessageCodec.parseChangeSource(undefined)).toBe('unknown');
+      expect(MessageCodec.parseChangeSource('SCHD')).toBe('unknown');
+    });
+  });
+
   describe('encodeFanSpeed', () => {
     it('should encode speed 1 as 0001', () => {
       expect(MessageCodec.encodeFanSpeed(1)).toBe('0001');
@@ -512,6 +679,55 @@ describe('MessageCodec', () => {
     });
   });
 
+  describe('sweepToAngles', () => {
+    it('should centre the sweep in the angle window', () => {
+      expect(MessageCodec.sweepToAngles(90)).toEqual({ start: 155, end: 245 });
+      expect(MessageCodec.sweepToAngles(45)).toEqual({ start: 178, end: 223 });
+    });
+
+    it('should clamp sweeps wider than the window', () => {
+      expect(MessageCodec.sweepToAngles(350)).toEqual({ start: 45, end: 355 });
+    });
+  });
+
+  describe('parseFaults', () => {
+    it('should return codes that are not OK or NONE across all groups', () => {
+      expect(MessageCodec.parseFaults({
+        msg: 'CURRENT-FAULTS',
+        'product-errors': { tilt: 'OK', fltr: 'OK' },
+        'product-warnings': { tnke: 'FAIL', fltr: 'FAIL' },
+        'module-warnings': { srmu: 'NONE' },
+      })).toEqual(['fltr', 'tnke']);
+    });
+
+    it('should read the new value of STATE-CHANGE style pairs', () => {
+      expect(MessageCodec.parseFaults({
+        'product-warnings': { fltr: ['OK', 'FAIL'], tnke: ['FAIL', 'OK'] },
+      })).toEqual(['fltr']);
+    });
+
+    it('should return an empty list when no groups are present', () => {
+      expect(MessageCodec.parseFaults({ msg: 'CURRENT-FAULTS' })).toEqual([]);
+    });
+  });
+
+  describe('parseFirmwareVersion', () => {
+    it('should read a top-level version', () => {
+      expect(MessageCodec.parseFirmwareVersion({ msg: 'CURRENT-SOFTWARE', version: '21.04.03' })).toBe('21.04.03');
+    });
+
+    it('should read a version nested under data', () => {
+      expect(MessageCodec.parseFirmwareVersion({
+        msg: 'CURRENT-SOFTWARE',
+        data: { 'software-version': '438MPF.00.01.007.0002' },
+      })).toBe('438MPF.00.01.007.0002');
+    });
+
+    it('should return undefined when there is no version', () => {
+      expect(MessageCodec.parseFirmwareVersion({ msg: 'SOFTWARE-UPGRADE-STATE' })).toBeUndefined();
+    });
+  });
+
   describe('encodeAngle', () => {
     it('should encode angle with padding', () => {
       expect(MessageCodec.encodeAngle(45)).toBe('0045');
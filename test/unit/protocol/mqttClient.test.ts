@@ -2,15 +2,21 @@
  * DysonMqttClient Unit Tests
  */
 
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { vi, type Mock } from 'vitest';
 
 import {
   DysonMqttClient,
   MQTT_CONNECT_VARIANTS,
   buildClientId,
+  findConnectVariantIndex,
   isRecoverableConnackError,
 } from '../../../src/protocol/mqttClient.js';
 import type { MqttConnectFn } from '../../../src/protocol/mqttClient.js';
+import { CloudMqttTransport, ProxyMqttTransport } from '../../../src/protocol/mqttTransport.js';
+import { ReconnectPolicy } from '../../../src/utils/reconnectPolicy.js';
 import type { MqttClient as MqttClientType, IClientOptions } from 'mqtt';
 
 // Create mock MQTT client
@@ -436,6 +442,42 @@ describe('DysonMqttClient', () => {
         expect(publishedPayload.time).toBeDefined();
       });
     });
+
+    describe('subscribeToFaults', () => {
+      it('should subscribe to the device faults topic', async () => {
+        await client.subscribeToFaults();
+
+        expect(mockMqttClient.subscribe).toHaveBeenCalledWith(
+          '438/ABC-AB-12345678/status/faults',
+          { qos: 0 },
+          expect.any(Function),
+        );
+      });
+    });
+
+    describe('subscribeToSoftware', () => {
+      it('should subscribe to the device software topic', async () => {
+        await client.subscribeToSoftware();
+
+        expect(mockMqttClient.subscribe).toHaveBeenCalledWith(
+          '438/ABC-AB-12345678/status/software',
+          { qos: 0 },
+          expect.any(Function),
+        );
+      });
+    });
+
+    describe('requestCurrentFaults', () => {
+      it('should send REQUEST-CURRENT-FAULTS message', async () => {
+        await client.requestCurrentFaults();
+
+        const publishedPayload = JSON.parse(
+          (mockMqttClient.publish as Mock).mock.calls[0][1] as string,
+        );
+        expect(publishedPayload.msg).toBe('REQUEST-CURRENT-FAULTS');
+        expect(publishedPayload.time).toBeDefined();
+      });
+    });
   });
 
   describe('topic getters', () => {
@@ -446,6 +488,24 @@ describe('DysonMqttClient', () => {
     it('should return correct command topic', () => {
       expect(client.getCommandTopic()).toBe('438/ABC-AB-12345678/command');
     });
+
+    it('should return correct faults topic', () => {
+      expect(client.getFaultsTopic()).toBe('438/ABC-AB-12345678/status/faults');
+    });
+
+    it('should return correct software topic', () => {
+      expect(client.getSoftwareTopic()).toBe('438/ABC-AB-12345678/status/software');
+    });
+
+    it('should put the transport topic prefix in front of every topic', () => {
+      const c = new DysonMqttClient(
+        { ...defaultOptions, transport: new ProxyMqttTransport({ topicPrefix: 'dyson/' }) },
+        mockConnect,
+      );
+
+      expect(c.getStatusTopic()).toBe('dyson/438/ABC-AB-12345678/status/current');
+      expect(c.getCommandTopic()).toBe('dyson/438/ABC-AB-12345678/command');
+    });
   });
 
   describe('getters', () => {
@@ -474,6 +534,44 @@ describe('DysonMqttClient', () => {
     it('should return empty array when no subscriptions', () => {
       expect(client.getSubscribedTopics()).toEqual([]);
     });
+
+    it('should return null recording path when recording is off', () => {
+      expect(client.getRecordingPath()).toBeNull();
+    });
+  });
+
+  describe('recording', () => {
+    let dir: string;
+    let recordPath: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'dyson-mqtt-'));
+      recordPath = join(dir, 'recording.jsonl');
+      client = new DysonMqttClient({ ...defaultOptions, recordPath }, mockConnect);
+
+      const connectPromise = client.connect();
+      mockMqttClient._emit('connect');
+      await connectPromise;
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should record outbound and inbound messages', async () => {
+      await client.requestCurrentState();
+      mockMqttClient._emit('message', '438/ABC-AB-12345678/status/current', Buffer.from('{"msg":"CURRENT-STATE"}'));
+      await client.disconnect();
+
+      const entries = (await readFile(recordPath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+      expect(client.getRecordingPath()).toBe(recordPath);
+      expect(entries.map((e) => [e.direction, e.topic])).toEqual([
+        ['out', '438/ABC-AB-12345678/command'],
+        ['in', '438/ABC-AB-12345678/status/current'],
+      ]);
+      expect(JSON.parse(entries[0].payload).msg).toBe('REQUEST-CURRENT-STATE');
+      expect(entries[1].payload).toBe('{"msg":"CURRENT-STATE"}');
+    });
   });
 
   describe('isConnected', () => {
@@ -587,6 +685,29 @@ describe('DysonMqttClient', () => {
       expect(reconnectFailedHandler).toHaveBeenCalled();
     });
 
+    it('should pace reconnection with a shared reconnection policy', async () => {
+      const policy = new ReconnectPolicy({ baseDelayMs: 5000, jitter: 0 });
+      const customClient = new DysonMqttClient({ ...defaultOptions, reconnectPolicy: policy }, mockConnect);
+      expect(customClient.getReconnectPolicy()).toBe(policy);
+
+      const connectPromise = customClient.connect();
+      mockMqttClient._emit('connect');
+      await connectPromise;
+      expect(policy.getPhase()).toBe('connected');
+
+      mockMqttClient._emit('close');
+      expect(policy.getPhase()).toBe('backing-off');
+
+      vi.advanceTimersByTime(4999);
+      await Promise.resolve();
+      expect(mockConnect).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1);
+      await Promise.resolve();
+      expect(mockConnect).toHaveBeenCalledTimes(2);
+      expect(policy.getPhase()).toBe('connecting');
+    });
+
     it('should not reconnect when autoReconnect is disabled', async () => {
       const reconnectHandler = vi.fn();
       const customClient = new DysonMqttClient(
@@ -628,6 +749,40 @@ describe('DysonMqttClient', () => {
       expect(reconnectHandler).not.toHaveBeenCalled();
     });
 
+    it('should reconnect when forced on an open connection', async () => {
+      const reconnectHandler = vi.fn();
+      client.on('reconnect', reconnectHandler);
+
+      const connectPromise = client.connect();
+      mockMqttClient._emit('connect');
+      await connectPromise;
+
+      client.forceReconnect();
+
+      expect(client.isConnected()).toBe(false);
+      expect(reconnectHandler).toHaveBeenCalledWith(1);
+
+      vi.advanceTimersByTime(1000);
+      await Promise.resolve();
+
+      expect(mockMqttClient.end).toHaveBeenCalledWith(true);
+      expect(mockConnect).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not force a reconnect after intentional disconnect', async () => {
+      const reconnectHandler = vi.fn();
+      client.on('reconnect', reconnectHandler);
+
+      const connectPromise = client.connect();
+      mockMqttClient._emit('connect');
+      await connectPromise;
+      await client.disconnect();
+
+      client.forceReconnect();
+
+      expect(reconnectHandler).not.toHaveBeenCalled();
+    });
+
     it('should reset attempt count on successful reconnect', async () => {
       const connectPromise = client.connect();
       mockMqttClient._emit('connect');
@@ -677,6 +832,36 @@ describe('DysonMqttClient', () => {
       expect(mockMqttClient.subscribe).toHaveBeenCalledTimes(2);
     });
 
+    it('should emit resubscribed only once the broker acknowledged every topic again', async () => {
+      const resubscribedHandler = vi.fn();
+      client.on('resubscribed', resubscribedHandler);
+
+      const connectPromise = client.connect();
+      mockMqttClient._emit('connect');
+      await connectPromise;
+      await client.subscribe('topic1');
+
+      // The broker holds back its SUBACK after the reconnect
+      const pendingAcks: (() => void)[] = [];
+      mockMqttClient.subscribe.mockImplementation((_topic: string, _opts: object, callback: (error?: Error) => void) => {
+        pendingAcks.push(() => callback());
+      });
+
+      mockMqttClient._emit('close');
+      vi.advanceTimersByTime(1000);
+      await Promise.resolve();
+      mockMqttClient._emit('connect');
+      await Promise.resolve();
+
+      expect(pendingAcks).toHaveLength(1);
+      expect(resubscribedHandler).not.toHaveBeenCalled();
+
+      pendingAcks[0]();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(resubscribedHandler).toHaveBeenCalledTimes(1);
+    });
+
     it('should preserve subscribed topics during reconnection', async () => {
       const connectPromise = client.connect();
       mockMqttClient._emit('connect');
@@ -840,6 +1025,131 @@ describe('DysonMqttClient', () => {
       expect(optionsLog[2].clientId).toBe('ABC-AB-12345678');
       expect(c.getActiveVariant()?.label).toBe('short-id');
     });
+
+    it('starts from the preferred variant', async () => {
+      const { connectFn, clients, optionsLog } = makeConnectSequence();
+      const c = new DysonMqttClient({ ...defaultOptions, connectVariant: { label: 'short-id-persistent' } }, connectFn);
+
+      const promise = c.connect();
+      clients[0]._emit('connect');
+      await promise;
+
+      expect(clients.length).toBe(1);
+      expect(optionsLog[0].clean).toBe(false);
+      expect(c.getActiveVariant()?.label).toBe('short-id-persistent');
+    });
+
+    it('falls back along the ladder when the preferred variant is rejected', async () => {
+      const { connectFn, clients } = makeConnectSequence();
+      const c = new DysonMqttClient({ ...defaultOptions, connectVariant: { label: 'short-id' } }, connectFn);
+
+      const promise = c.connect();
+      clients[0]._emit('error', new Error('Connection refused: Identifier rejected'));
+      await vi.advanceTimersByTimeAsync(0);
+      clients[1]._emit('connect');
+      await promise;
+
+      expect(c.getActiveVariant()?.label).toBe('short-id-persistent');
+    });
+
+    it('tries only a pinned variant', async () => {
+      const { connectFn, clients } = makeConnectSequence();
+      const c = new DysonMqttClient({ ...defaultOptions, connectVariant: { label: 'short-id', pinned: true } }, connectFn);
+
+      const promise = c.connect();
+      clients[0]._emit('error', new Error('Connection refused: Identifier rejected'));
+
+      await expect(promise).rejects.toThrow(/Identifier rejected/);
+      expect(clients.length).toBe(1);
+    });
+
+    it('ignores an unknown preferred variant', async () => {
+      const { connectFn, clients } = makeConnectSequence();
+      const c = new DysonMqttClient({ ...defaultOptions, connectVariant: { label: 'bogus', pinned: true } }, connectFn);
+
+      const promise = c.connect();
+      clients[0]._emit('connect');
+      await promise;
+
+      expect(c.getActiveVariant()?.label).toBe('default');
+    });
+  });
+
+  describe('transport', () => {
+    const cloudCredentials = {
+      endpoint: 'iot.example.com',
+      clientId: 'cloud-client-1',
+      customAuthorizerName: 'CustomAuthorizer',
+      tokenKey: 'token',
+      tokenValue: 'token-value',
+      tokenSignature: 'signature==',
+    };
+
+    it('uses the local transport by default', () => {
+      expect(client.getTransportName()).toBe('local');
+    });
+
+    it('connects to the broker of the given transport', async () => {
+      const transport = new CloudMqttTransport(cloudCredentials, { brokerUrl: 'ws://127.0.0.1:8883/mqtt' });
+      const c = new DysonMqttClient({ ...defaultOptions, transport }, mockConnect);
+
+      const promise = c.connect();
+      mockMqttClient._emit('connect');
+      await promise;
+
+      const [brokerUrl, options] = (mockConnect as Mock).mock.calls[0] as [string, IClientOptions];
+      expect(c.getTransportName()).toBe('cloud');
+      expect(brokerUrl).toBe('ws://127.0.0.1:8883/mqtt');
+      expect(options.clientId).toBe('cloud-client-1');
+      expect(options.username).toBeUndefined();
+      expect(options.wsOptions).toEqual({
+        headers: {
+          'X-Amz-CustomAuthorizer-Name': 'CustomAuthorizer',
+          'X-Amz-CustomAuthorizer-Signature': 'signature==',
+          token: 'token-value',
+        },
+      });
+      expect(options.keepalive).toBe(30);
+    });
+
+    it('keeps the same topics on another transport', async () => {
+      const transport = new CloudMqttTransport(cloudCredentials);
+      const c = new DysonMqttClient({ ...defaultOptions, transport }, mockConnect);
+
+      const promise = c.connect();
+      mockMqttClient._emit('connect');
+      await promise;
+      await c.subscribeToStatus();
+
+      expect(mockMqttClient.subscribe).toHaveBeenCalledWith(
+        '438/ABC-AB-12345678/status/current',
+        expect.anything(),
+        expect.any(Function),
+      );
+    });
+
+    it('makes a single attempt on a transport without connect variants', async () => {
+      const connectFn = vi.fn(() => mockMqttClient as unknown as MqttClientType);
+      const transport = new CloudMqttTransport(cloudCredentials);
+      const c = new DysonMqttClient({ ...defaultOptions, transport }, connectFn as unknown as MqttConnectFn);
+
+      const promise = c.connect();
+      mockMqttClient._emit('error', new Error('Connection refused: Identifier rejected'));
+
+      await expect(promise).rejects.toThrow(/Identifier rejected/);
+      expect(connectFn).toHaveBeenCalledTimes(1);
+      expect(c.getActiveVariant()).toBeNull();
+    });
+  });
+
+  describe('findConnectVariantIndex', () => {
+    it('finds a variant by label', () => {
+      expect(MQTT_CONNECT_VARIANTS[findConnectVariantIndex('mqtt5-short-id')].label).toBe('mqtt5-short-id');
+    });
+
+    it('returns -1 for an unknown label', () => {
+      expect(findConnectVariantIndex('bogus')).toBe(-1);
+    });
   });
 
   describe('isRecoverableConnackError', () => {
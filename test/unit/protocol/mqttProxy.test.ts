@@ -0,0 +1,337 @@
+/**
+ * MqttProxy Unit Tests
+ *
+ * Runs the proxy on a free local port and talks to it with a real MQTT client.
+ */
+
+import { EventEmitter } from 'events';
+import { Socket } from 'net';
+import mqtt from 'mqtt';
+import type { IClientOptions, MqttClient } from 'mqtt';
+import { vi } from 'vitest';
+
+import { DysonMqttClient } from '../../../src/protocol/mqttClient.js';
+import { MqttProxy, isValidTopicFilter, matchesTopicFilter } from '../../../src/protocol/mqttProxy.js';
+import { ProxyMqttTransport } from '../../../src/protocol/mqttTransport.js';
+import type { MqttProxyOptions } from '../../../src/protocol/mqttProxy.js';
+
+class FakeDevice extends EventEmitter {
+  readonly productType = '438';
+  readonly forwardCommand = vi.fn(async (_payload: string) => {});
+
+  constructor(private readonly serial = 'ABC-AB-12345678') {
+    super();
+  }
+
+  getSerial(): string {
+    return this.serial;
+  }
+
+  /** Simulate a message arriving on the device's session */
+  receive(topic: string, data: object): void {
+    this.emit('mqttMessage', { topic, payload: Buffer.from(JSON.stringify(data)), data });
+  }
+}
+
+describe('MqttProxy', () => {
+  let proxy: MqttProxy;
+  let device: FakeDevice;
+  let port: number;
+  const clients: MqttClient[] = [];
+
+  async function startProxy(options: MqttProxyOptions = {}): Promise<void> {
+    proxy = new MqttProxy({ port: 0, ...options });
+    port = await proxy.start();
+    proxy.addDevice(device);
+  }
+
+  function connectClient(options: IClientOptions = {}): Promise<MqttClient> {
+    const client = mqtt.connect(`mqtt://127.0.0.1:${port}`, { reconnectPeriod: 0, ...options });
+    clients.push(client);
+    return new Promise((resolve, reject) => {
+      client.once('connect', () => resolve(client));
+      client.once('error', reject);
+    });
+  }
+
+  function nextMessage(client: MqttClient): Promise<{ topic: string; data: unknown }> {
+    return new Promise((resolve) => {
+      client.once('message', (topic, payload) => resolve({ topic, data: JSON.parse(payload.toString()) }));
+    });
+  }
+
+  beforeEach(() => {
+    device = new FakeDevice();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.endAsync(true)));
+    await proxy?.stop();
+  });
+
+  describe('device messages', () => {
+    it('should copy device messages to subscribed clients', async () => {
+      await startProxy();
+      const client = await connectClient();
+      await client.subscribeAsync('438/ABC-AB-12345678/status/current');
+
+      const received = nextMessage(client);
+      device.receive('438/ABC-AB-12345678/status/current', { msg: 'CURRENT-STATE' });
+
+      expect(await received).toEqual({
+        topic: '438/ABC-AB-12345678/status/current',
+        data: { msg: 'CURRENT-STATE' },
+      });
+    });
+
+    it('should match wildcard subscriptions', async () => {
+      await startProxy();
+      const client = await connectClient();
+      await client.subscribeAsync('+/+/status/#');
+
+      const received = nextMessage(client);
+      device.receive('438/ABC-AB-12345678/status/faults', { msg: 'CURRENT-FAULTS' });
+
+      expect((await received).topic).toBe('438/ABC-AB-12345678/status/faults');
+    });
+
+    it('should serve several clients at once', async () => {
+      await startProxy();
+      const first = await connectClient();
+      const second = await connectClient();
+      await first.subscribeAsync('438/ABC-AB-12345678/status/current');
+      await second.subscribeAsync('438/ABC-AB-12345678/status/current');
+
+      const received = Promise.all([nextMessage(first), nextMessage(second)]);
+      device.receive('438/ABC-AB-12345678/status/current', { msg: 'STATE-CHANGE' });
+
+      expect(await received).toHaveLength(2);
+      expect(proxy.getClientCount()).toBe(2);
+    });
+
+    it('should stop copying messages from a removed device', async () => {
+      await startProxy();
+      proxy.removeDevice('ABC-AB-12345678');
+
+      expect(device.listenerCount('mqttMessage')).toBe(0);
+    });
+
+    it('should replace a device added again with the same serial', async () => {
+      await startProxy();
+      const recreated = new FakeDevice();
+      proxy.addDevice(recreated);
+
+      expect(device.listenerCount('mqttMessage')).toBe(0);
+      expect(recreated.listenerCount('mqttMessage')).toBe(1);
+    });
+  });
+
+  describe('commands', () => {
+    it('should send client commands on the device session', async () => {
+      await startProxy();
+      const client = await connectClient();
+      const command = JSON.stringify({ msg: 'STATE-SET', data: { fpwr: 'ON' } });
+
+      await client.publishAsync('438/ABC-AB-12345678/command', command);
+
+      await vi.waitFor(() => expect(device.forwardCommand).toHaveBeenCalledWith(command));
+    });
+
+    it('should refuse commands on other topics', async () => {
+      await startProxy();
+      const denied = vi.fn();
+      proxy.on('denied', denied);
+      const client = await connectClient({ clientId: 'tool-1' });
+
+      await client.publishAsync('438/ABC-AB-12345678/status/current', '{}');
+
+      await vi.waitFor(() => expect(denied).toHaveBeenCalledWith('tool-1', 'publish to 438/ABC-AB-12345678/status/current'));
+      expect(device.forwardCommand).not.toHaveBeenCalled();
+    });
+
+    it('should only forward state requests when read-only', async () => {
+      await startProxy({ isReadOnly: true });
+      const denied = vi.fn();
+      proxy.on('denied', denied);
+      const client = await connectClient();
+      const request = JSON.stringify({ msg: 'REQUEST-CURRENT-STATE' });
+
+      await client.publishAsync('438/ABC-AB-12345678/command', JSON.stringify({ msg: 'STATE-SET', data: { fpwr: 'ON' } }));
+      await client.publishAsync('438/ABC-AB-12345678/command', request);
+
+      await vi.waitFor(() => expect(device.forwardCommand).toHaveBeenCalledWith(request));
+      expect(device.forwardCommand).toHaveBeenCalledTimes(1);
+      expect(denied).toHaveBeenCalledWith(expect.any(String), expect.stringContaining('read-only'));
+    });
+  });
+
+  describe('topic prefix', () => {
+    it('should move device topics under the prefix', async () => {
+      await startProxy({ topicPrefix: 'dyson/' });
+      const client = await connectClient();
+      await client.subscribeAsync('dyson/438/ABC-AB-12345678/status/current');
+
+      const received = nextMessage(client);
+      device.receive('438/ABC-AB-12345678/status/current', { msg: 'CURRENT-STATE' });
+
+      expect((await received).topic).toBe('dyson/438/ABC-AB-12345678/status/current');
+    });
+
+    it('should take commands on the prefixed command topic', async () => {
+      await startProxy({ topicPrefix: 'dyson/' });
+      const client = await connectClient();
+
+      await client.publishAsync('dyson/438/ABC-AB-12345678/command', '{"msg":"REQUEST-CURRENT-STATE"}');
+
+      await vi.waitFor(() => expect(device.forwardCommand).toHaveBeenCalled());
+    });
+
+    it('should refuse subscriptions outside the prefix', async () => {
+      await startProxy({ topicPrefix: 'dyson/' });
+      const client = await connectClient();
+
+      await expect(client.subscribeAsync('#')).rejects.toThrow(/Subscribe error/);
+    });
+  });
+
+  describe('DysonMqttClient through the proxy', () => {
+    it('should request state and receive the reply through the proxy', async () => {
+      await startProxy({ topicPrefix: 'dyson/', username: 'tools', password: 'secret' });
+      const client = new DysonMqttClient({
+        host: '',
+        serial: 'ABC-AB-12345678',
+        credentials: 'unused',
+        productType: '438',
+        autoReconnect: false,
+        transport: new ProxyMqttTransport({ port, topicPrefix: 'dyson/', username: 'tools', password: 'secret' }),
+      });
+      device.forwardCommand.mockImplementation(async () => {
+        device.receive('438/ABC-AB-12345678/status/current', { msg: 'CURRENT-STATE' });
+      });
+
+      try {
+        await client.connect();
+        await client.subscribeToStatus();
+        const received = new Promise((resolve) => client.once('message', resolve));
+        await client.requestCurrentState();
+
+        expect(await received).toMatchObject({
+          topic: 'dyson/438/ABC-AB-12345678/status/current',
+          data: { msg: 'CURRENT-STATE' },
+        });
+      } finally {
+        await client.disconnect();
+      }
+    });
+  });
+
+  describe('login', () => {
+    it('should accept clients with the configured credentials', async () => {
+      await startProxy({ username: 'tools', password: 'secret' });
+
+      await expect(connectClient({ username: 'tools', password: 'secret' })).resolves.toBeDefined();
+    });
+
+    it('should refuse clients with wrong credentials', async () => {
+      await startProxy({ username: 'tools', password: 'secret' });
+
+      await expect(connectClient({ username: 'tools', password: 'wrong' })).rejects.toThrow(/Bad username or password/);
+      await expect(connectClient({ username: 'tools', password: 'secret-and-more' })).rejects.toThrow(/Bad username or password/);
+      await expect(connectClient({ username: 'tool', password: 'secret' })).rejects.toThrow(/Bad username or password/);
+    });
+
+    it('should require the password when only a password is configured', async () => {
+      await startProxy({ password: 'secret' });
+
+      await expect(connectClient()).rejects.toThrow(/Bad username or password/);
+      await expect(connectClient({ username: 'anyone', password: 'secret' })).resolves.toBeDefined();
+    });
+
+    it('should refuse MQTT 5 clients', async () => {
+      await startProxy();
+
+      await expect(connectClient({ protocolVersion: 5 })).rejects.toThrow();
+    });
+  });
+
+  describe('limits', () => {
+    function openSocket(): Promise<Socket> {
+      const socket = new Socket();
+      return new Promise((resolve, reject) => {
+        socket.once('connect', () => resolve(socket));
+        socket.once('error', reject);
+        socket.connect(port, '127.0.0.1');
+      });
+    }
+
+    function waitForClose(socket: Socket): Promise<void> {
+      return new Promise((resolve) => socket.once('close', () => resolve()));
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should drop a client that does not log in in time', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      await startProxy();
+      const socket = await openSocket();
+      let isClosed = false;
+      socket.once('close', () => {
+        isClosed = true;
+      });
+
+      // The proxy may accept the connection a little after the client sees it open
+      for (let i = 0; i < 100 && !isClosed; i++) {
+        vi.advanceTimersByTime(5000);
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      expect(isClosed).toBe(true);
+    });
+
+    it('should drop a client that sends an oversized packet', async () => {
+      const denied = vi.fn();
+      await startProxy();
+      proxy.on('denied', denied);
+      const socket = await openSocket();
+      const closed = waitForClose(socket);
+
+      // PUBLISH header announcing a 1 MB packet, followed by more than the limit
+      socket.write(Buffer.concat([Buffer.from([0x30, 0xc0, 0x84, 0x3d]), Buffer.alloc(70 * 1024)]));
+
+      await closed;
+      expect(denied).toHaveBeenCalledWith('', expect.stringContaining('packet larger than'));
+    });
+  });
+});
+
+describe('matchesTopicFilter', () => {
+  it('should match exact topics', () => {
+    expect(matchesTopicFilter('438/ABC/status/current', '438/ABC/status/current')).toBe(true);
+    expect(matchesTopicFilter('438/ABC/status/current', '438/ABC/status/faults')).toBe(false);
+  });
+
+  it('should match single-level wildcards', () => {
+    expect(matchesTopicFilter('+/ABC/status/+', '438/ABC/status/current')).toBe(true);
+    expect(matchesTopicFilter('+/ABC/+', '438/ABC/status/current')).toBe(false);
+  });
+
+  it('should match multi-level wildcards', () => {
+    expect(matchesTopicFilter('438/#', '438/ABC/status/current')).toBe(true);
+    expect(matchesTopicFilter('#', 'dyson/438/ABC/command')).toBe(true);
+    expect(matchesTopicFilter('455/#', '438/ABC/status/current')).toBe(false);
+  });
+});
+
+describe('isValidTopicFilter', () => {
+  it('should accept well-formed filters', () => {
+    expect(isValidTopicFilter('438/+/status/#')).toBe(true);
+  });
+
+  it('should reject misplaced wildcards', () => {
+    expect(isValidTopicFilter('')).toBe(false);
+    expect(isValidTopicFilter('438/#/status')).toBe(false);
+    expect(isValidTopicFilter('438/AB+/status')).toBe(false);
+  });
+});
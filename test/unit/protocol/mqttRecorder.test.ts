@@ -0,0 +1,72 @@
+/**
+ * MqttRecorder Unit Tests
+ */
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { vi } from 'vitest';
+
+import { MqttRecorder, getRecordingPath } from '../../../src/protocol/mqttRecorder.js';
+
+describe('MqttRecorder', () => {
+  let dir: string;
+  let filePath: string;
+
+  const readEntries = async () => (await readFile(filePath, 'utf8'))
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'dyson-mqtt-'));
+    filePath = join(dir, 'recording.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per message', async () => {
+    const recorder = new MqttRecorder(filePath);
+
+    recorder.record('out', '438/ABC/command', '{"msg":"REQUEST-CURRENT-STATE"}');
+    recorder.record('in', '438/ABC/status/current', Buffer.from('{"msg":"CURRENT-STATE"}'));
+    await recorder.close();
+
+    const entries = await readEntries();
+    expect(entries).toEqual([
+      { timestamp: expect.any(String), direction: 'out', topic: '438/ABC/command', payload: '{"msg":"REQUEST-CURRENT-STATE"}' },
+      { timestamp: expect.any(String), direction: 'in', topic: '438/ABC/status/current', payload: '{"msg":"CURRENT-STATE"}' },
+    ]);
+    expect(Date.parse(entries[0].timestamp)).not.toBeNaN();
+  });
+
+  it('should keep appending after close', async () => {
+    const recorder = new MqttRecorder(filePath);
+
+    recorder.record('in', 'a', '1');
+    await recorder.close();
+    recorder.record('in', 'b', '2');
+    await recorder.close();
+
+    expect((await readEntries()).map((entry) => entry.topic)).toEqual(['a', 'b']);
+  });
+
+  it('should report a write failure once and stop recording', async () => {
+    const onError = vi.fn();
+    const recorder = new MqttRecorder(join(dir, 'missing', 'recording.jsonl'), onError);
+
+    recorder.record('in', 'a', '1');
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    recorder.record('in', 'b', '2');
+    await recorder.close();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should build the per-device recording path', () => {
+    expect(getRecordingPath('/var/lib/homebridge', 'ABC-AB-12345678'))
+      .toBe(join('/var/lib/homebridge', 'dyson-mqtt-ABC-AB-12345678.jsonl'));
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * MqttReplay Unit Tests
+ */
+
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { MqttReplay, parseRecording } from '../../../src/protocol/mqttReplay.js';
+import type { RecordedMessage } from '../../../src/protocol/mqttRecorder.js';
+import { DysonLinkDevice } from '../../../src/devices/dysonLinkDevice.js';
+import type { DeviceInfo } from '../../../src/devices/types.js';
+
+const deviceInfo: DeviceInfo = {
+  serial: 'ABC-AB-12345678',
+  productType: '438',
+  name: 'Living Room',
+  credentials: 'localPassword123',
+  ipAddress: '192.168.1.100',
+};
+
+function entry(direction: RecordedMessage['direction'], topic: string, data: object, timestamp = '2026-01-01T00:00:00.000Z'): RecordedMessage {
+  return { timestamp, direction, topic, payload: JSON.stringify(data) };
+}
+
+const session: RecordedMessage[] = [
+  entry('out', '438/ABC-AB-12345678/command', { msg: 'REQUEST-CURRENT-STATE' }),
+  entry('in', '438/ABC-AB-12345678/status/current', {
+    msg: 'CURRENT-STATE',
+    'product-state': { fpwr: 'ON', fnsp: '0004', oson: 'OFF' },
+  }),
+  entry('in', '438/ABC-AB-12345678/status/current', {
+    msg: 'STATE-CHANGE',
+    'product-state': { fnsp: ['0004', '0007'], oson: ['OFF', 'ON'] },
+  }),
+  entry('in', '438/ABC-AB-12345678/status/current', {
+    msg: 'ENVIRONMENTAL-CURRENT-SENSOR-DATA',
+    data: { hact: '0045' },
+  }),
+];
+
+describe('parseRecording', () => {
+  it('should parse one message per line', () => {
+    const content = session.map((message) => JSON.stringify(message)).join('\n') + '\n';
+    expect(parseRecording(content)).toEqual(session);
+  });
+
+  it('should skip blank, malformed and incomplete lines', () => {
+    const content = [
+      JSON.stringify(session[1]),
+      '',
+      '{"direction":"in","topic":"t"',
+      JSON.stringify({ direction: 'sideways', topic: 't', payload: '{}' }),
+      JSON.stringify(session[2]),
+    ].join('\n');
+
+    expect(parseRecording(content)).toEqual([session[1], session[2]]);
+  });
+});
+
+describe('MqttReplay', () => {
+  it('should replay a recorded session into a DysonLinkDevice', async () => {
+    const replay = new MqttReplay(session);
+    const device = new DysonLinkDevice(deviceInfo, undefined, replay.connect);
+
+    await device.connect();
+    await replay.whenFinished();
+
+    const state = device.getState();
+    expect(state.isOn).toBe(true);
+    expect(state.fanSpeed).toBe(7);
+    expect(state.oscillation).toBe(true);
+    expect(state.humidity).toBe(45);
+
+    await device.disconnect();
+  });
+
+  it('should collect what the plugin publishes instead of replaying recorded commands', async () => {
+    const replay = new MqttReplay(session);
+    const device = new DysonLinkDevice(deviceInfo, undefined, replay.connect);
+
+    await device.connect();
+    await replay.whenFinished();
+
+    const published = replay.published.map((message) => JSON.parse(message.payload).msg);
+    expect(published).toContain('REQUEST-CURRENT-STATE');
+    expect(published).toContain('REQUEST-CURRENT-FAULTS');
+
+    await device.disconnect();
+  });
+
+  it('should load a recording from a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'dyson-replay-'));
+    const filePath = join(dir, 'recording.jsonl');
+    await writeFile(filePath, session.map((message) => JSON.stringify(message)).join('\n'));
+
+    try {
+      const replay = await MqttReplay.fromFile(filePath);
+      const device = new DysonLinkDevice(deviceInfo, undefined, replay.connect);
+
+      await device.connect();
+      await replay.whenFinished();
+
+      expect(device.getState().fanSpeed).toBe(7);
+      await device.disconnect();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep the recorded gaps in realtime mode', async () => {
+    const replay = new MqttReplay([
+      entry('in', 't', { msg: 'CURRENT-STATE', 'product-state': { fnsp: '0002' } }, '2026-01-01T00:00:00.000Z'),
+      entry('in', 't', { msg: 'STATE-CHANGE', 'product-state': { fnsp: ['0002', '0003'] } }, '2026-01-01T00:00:00.050Z'),
+    ], { realtime: true });
+    const device = new DysonLinkDevice(deviceInfo, undefined, replay.connect);
+
+    const started = Date.now();
+    await device.connect();
+    await replay.whenFinished();
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    expect(device.getState().fanSpeed).toBe(3);
+    await device.disconnect();
+  });
+});
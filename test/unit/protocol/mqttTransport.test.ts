@@ -0,0 +1,133 @@
+/**
+ * MQTT Transport Unit Tests
+ */
+
+import { MQTT_CONNECT_VARIANTS } from '../../../src/protocol/mqttClient.js';
+import { CloudMqttTransport, LocalMqttTransport, ProxyMqttTransport } from '../../../src/protocol/mqttTransport.js';
+
+const cloudCredentials = {
+  endpoint: 'abc123-ats.iot.eu-west-1.amazonaws.com',
+  clientId: 'cloud-client-1',
+  customAuthorizerName: 'CustomAuthorizer',
+  tokenKey: 'token',
+  tokenValue: 'token-value',
+  tokenSignature: 'signature==',
+};
+
+describe('LocalMqttTransport', () => {
+  const transport = new LocalMqttTransport('192.168.1.100', 'ABC-AB-12345678', 'localPassword123');
+
+  it('should connect to the device on the Dyson MQTT port', () => {
+    expect(transport.name).toBe('local');
+    expect(transport.usesConnectVariants).toBe(true);
+    expect(transport.getBrokerUrl()).toBe('mqtt://192.168.1.100:1883');
+  });
+
+  it('should authenticate with the serial and local credentials', () => {
+    const options = transport.getConnectOptions(MQTT_CONNECT_VARIANTS[0]);
+
+    expect(options.username).toBe('ABC-AB-12345678');
+    expect(options.password).toBe('localPassword123');
+    expect(options.clientId).toMatch(/^homebridge_ABC-AB-12345678_\d+$/);
+  });
+
+  it('should take the client ID and session settings from the variant', () => {
+    const variant = MQTT_CONNECT_VARIANTS.find((v) => v.label === 'short-id')!;
+    const options = transport.getConnectOptions(variant);
+
+    expect(options.clientId).toBe('ABC-AB-12345678');
+    expect(options.clean).toBe(variant.clean);
+    expect(options.protocolVersion).toBe(variant.protocolVersion);
+  });
+
+  it('should bracket IPv6 addresses in the broker URL', () => {
+    const ipv6 = new LocalMqttTransport('2001:db8::10', 'ABC-AB-12345678', 'localPassword123');
+
+    expect(ipv6.getBrokerUrl()).toBe('mqtt://[2001:db8::10]:1883');
+    expect(ipv6.getConnectOptions(MQTT_CONNECT_VARIANTS[0]).host).toBeUndefined();
+  });
+
+  it('should pass a link-local zone index as the host option', () => {
+    const linkLocal = new LocalMqttTransport('fe80::1%en0', 'ABC-AB-12345678', 'localPassword123');
+
+    expect(linkLocal.getBrokerUrl()).toBe('mqtt://[fe80::1]:1883');
+    expect(linkLocal.getConnectOptions(MQTT_CONNECT_VARIANTS[0]).host).toBe('fe80::1%en0');
+  });
+
+  it('should connect to a host name as given', () => {
+    const named = new LocalMqttTransport('dyson-living-room.local', 'ABC-AB-12345678', 'localPassword123');
+
+    expect(named.getBrokerUrl()).toBe('mqtt://dyson-living-room.local:1883');
+  });
+});
+
+describe('CloudMqttTransport', () => {
+  it('should connect to the endpoint over secure WebSockets', () => {
+    const transport = new CloudMqttTransport(cloudCredentials);
+
+    expect(transport.name).toBe('cloud');
+    expect(transport.usesConnectVariants).toBe(false);
+    expect(transport.getBrokerUrl()).toBe('wss://abc123-ats.iot.eu-west-1.amazonaws.com/mqtt');
+  });
+
+  it('should connect to a stand-in broker when given a broker URL', () => {
+    const transport = new CloudMqttTransport(cloudCredentials, { brokerUrl: 'ws://127.0.0.1:8883/mqtt' });
+
+    expect(transport.getBrokerUrl()).toBe('ws://127.0.0.1:8883/mqtt');
+  });
+
+  it('should authenticate through the custom authorizer headers', () => {
+    const options = new CloudMqttTransport(cloudCredentials).getConnectOptions();
+
+    expect(options.clientId).toBe('cloud-client-1');
+    expect(options.clean).toBe(true);
+    expect(options.protocolVersion).toBe(4);
+    expect(options.username).toBeUndefined();
+    expect(options.wsOptions).toEqual({
+      headers: {
+        'X-Amz-CustomAuthorizer-Name': 'CustomAuthorizer',
+        'X-Amz-CustomAuthorizer-Signature': 'signature==',
+        token: 'token-value',
+      },
+    });
+  });
+});
+
+describe('ProxyMqttTransport', () => {
+  it('should connect to the proxy on this machine by default', () => {
+    const transport = new ProxyMqttTransport();
+
+    expect(transport.name).toBe('proxy');
+    expect(transport.usesConnectVariants).toBe(false);
+    expect(transport.topicPrefix).toBe('');
+    expect(transport.getBrokerUrl()).toBe('mqtt://127.0.0.1:1884');
+  });
+
+  it('should use the proxy settings from the plugin config', () => {
+    const transport = new ProxyMqttTransport({
+      host: '192.168.1.10',
+      port: 11883,
+      username: 'tools',
+      password: 'secret',
+      topicPrefix: 'dyson/',
+    });
+    const options = transport.getConnectOptions(MQTT_CONNECT_VARIANTS[0]);
+
+    expect(transport.getBrokerUrl()).toBe('mqtt://192.168.1.10:11883');
+    expect(transport.topicPrefix).toBe('dyson/');
+    expect(options.username).toBe('tools');
+    expect(options.password).toBe('secret');
+  });
+
+  it('should reach a proxy listening on every interface through the loopback address', () => {
+    expect(new ProxyMqttTransport({ host: '0.0.0.0' }).getBrokerUrl()).toBe('mqtt://127.0.0.1:1884');
+  });
+
+  it('should bracket an IPv6 proxy address in the broker URL', () => {
+    expect(new ProxyMqttTransport({ host: '2001:db8::1' }).getBrokerUrl()).toBe('mqtt://[2001:db8::1]:1884');
+
+    const linkLocal = new ProxyMqttTransport({ host: 'fe80::1%en0' });
+    expect(linkLocal.getBrokerUrl()).toBe('mqtt://[fe80::1]:1884');
+    expect(linkLocal.getConnectOptions(MQTT_CONNECT_VARIANTS[0]).host).toBe('fe80::1%en0');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * UnknownFieldLog Unit Tests
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { vi } from 'vitest';
+
+import { UnknownFieldLog, getUnknownFieldsPath } from '../../../src/protocol/unknownFieldLog.js';
+
+describe('UnknownFieldLog', () => {
+  let dir: string;
+  let filePath: string;
+  let log: UnknownFieldLog;
+
+  const readSummary = async () => JSON.parse(await readFile(filePath, 'utf8'));
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'dyson-unknown-'));
+    filePath = join(dir, 'unknown.json');
+  });
+
+  afterEach(async () => {
+    await log?.flush();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write fields per product type and firmware', async () => {
+    log = new UnknownFieldLog(filePath);
+
+    log.record('438', '21.04.03', { bril: '0002' });
+    log.record('527', undefined, { corf: 'ON' });
+    await log?.flush();
+
+    expect(await readSummary()).toEqual([
+      { productType: '438', firmwareVersion: '21.04.03', fields: { bril: { sample: '0002', firstSeen: expect.any(String) } } },
+      { productType: '527', fields: { corf: { sample: 'ON', firstSeen: expect.any(String) } } },
+    ]);
+  });
+
+  it('should return each field only the first time it is seen', () => {
+    log = new UnknownFieldLog(filePath);
+
+    expect(log.record('438', '1.0', { bril: '0002', corf: 'ON' })).toEqual(['bril', 'corf']);
+    expect(log.record('438', '1.0', { bril: '0003', cdrr: '0060' })).toEqual(['cdrr']);
+    expect(log.record('438', '2.0', { bril: '0003' })).toEqual(['bril']);
+  });
+
+  it('should keep the first sample value', () => {
+    log = new UnknownFieldLog(filePath);
+
+    log.record('438', '1.0', { bril: '0002' });
+    log.record('438', '1.0', { bril: '0003' });
+
+    expect(log.getSummary()[0].fields.bril.sample).toBe('0002');
+  });
+
+  it('should keep fields from an earlier session', async () => {
+    await writeFile(filePath, JSON.stringify([
+      { productType: '438', firmwareVersion: '1.0', fields: { bril: { sample: '0002', firstSeen: '2026-01-01T00:00:00.000Z' } } },
+    ]));
+    log = new UnknownFieldLog(filePath);
+
+    expect(log.record('438', '1.0', { corf: 'ON' })).toEqual(['corf']);
+    await log?.flush();
+
+    const [summary] = await readSummary();
+    expect(Object.keys(summary.fields)).toEqual(['bril', 'corf']);
+    expect(summary.fields.bril.firstSeen).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should report a write failure and keep the summary in memory', async () => {
+    const onError = vi.fn();
+    log = new UnknownFieldLog(join(dir, 'missing', 'unknown.json'), onError);
+
+    log.record('438', '1.0', { bril: '0002' });
+    await log?.flush();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(log.getSummary()).toHaveLength(1);
+  });
+
+  it('should build the summary path from the storage path', () => {
+    expect(getUnknownFieldsPath('/var/lib/homebridge')).toBe(join('/var/lib/homebridge', 'dyson-unknown-fields.json'));
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Host Resolver Unit Tests
+ */
+
+import { isIpAddress, isIPv6Address, resolveHost } from '../../../src/utils/hostResolver.js';
+
+describe('Host Resolver', () => {
+  describe('isIpAddress', () => {
+    it('should accept IPv4 and IPv6 addresses', () => {
+      expect(isIpAddress('192.168.1.100')).toBe(true);
+      expect(isIpAddress('2001:db8::10')).toBe(true);
+      expect(isIpAddress('fe80::1%en0')).toBe(true);
+    });
+
+    it('should reject host names', () => {
+      expect(isIpAddress('dyson-living-room.local')).toBe(false);
+      expect(isIpAddress('dyson.example.com')).toBe(false);
+    });
+  });
+
+  describe('isIPv6Address', () => {
+    it('should only accept IPv6 addresses', () => {
+      expect(isIPv6Address('2001:db8::10')).toBe(true);
+      expect(isIPv6Address('fe80::1%en0')).toBe(true);
+      expect(isIPv6Address('192.168.1.100')).toBe(false);
+      expect(isIPv6Address('dyson-living-room.local')).toBe(false);
+    });
+  });
+
+  describe('resolveHost', () => {
+    it('should return IP addresses as they are', async () => {
+      await expect(resolveHost('192.168.1.100')).resolves.toBe('192.168.1.100');
+      await expect(resolveHost('fe80::1%en0')).resolves.toBe('fe80::1%en0');
+    });
+
+    it('should resolve host names through the system resolver', async () => {
+      await expect(resolveHost('localhost')).resolves.toMatch(/^(127\.0\.0\.1|::1)$/);
+    });
+  });
+});
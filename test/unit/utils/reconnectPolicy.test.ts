@@ -0,0 +1,140 @@
+/**
+ * ReconnectPolicy Unit Tests
+ */
+
+import { vi } from 'vitest';
+
+import { ReconnectPolicy } from '../../../src/utils/reconnectPolicy.js';
+
+/** No jitter: the random source returns 0, so delays are the nominal values */
+const noJitter = (): number => 0;
+
+describe('ReconnectPolicy', () => {
+  describe('backoff', () => {
+    it('should double the delay after each failure', () => {
+      const policy = new ReconnectPolicy({}, noJitter);
+
+      expect(policy.recordDisconnect(0)).toBe(1000);
+      expect(policy.recordFailure(0)).toBe(2000);
+      expect(policy.recordFailure(0)).toBe(4000);
+      expect(policy.getFailures()).toBe(2);
+      expect(policy.getPhase()).toBe('backing-off');
+    });
+
+    it('should cap the delay at the maximum', () => {
+      const policy = new ReconnectPolicy({ maxAttempts: 10, maxDelayMs: 5000 }, noJitter);
+
+      policy.recordFailure();
+      policy.recordFailure();
+      expect(policy.recordFailure()).toBe(5000);
+    });
+
+    it('should record when the next attempt is due', () => {
+      const policy = new ReconnectPolicy({}, noJitter);
+
+      policy.recordFailure(10_000);
+
+      expect(policy.getStatus()).toEqual({ phase: 'backing-off', failures: 1, nextAttemptAt: 12_000 });
+    });
+  });
+
+  describe('jitter', () => {
+    it('should take up to the jitter share off the delay', () => {
+      const policy = new ReconnectPolicy({ jitter: 0.5 }, () => 0.5);
+
+      expect(policy.recordDisconnect()).toBe(750);
+    });
+
+    it('should never exceed the nominal delay', () => {
+      const policy = new ReconnectPolicy({ jitter: 0.2 }, () => 0.999);
+
+      const delay = policy.recordDisconnect();
+      expect(delay).toBeLessThanOrEqual(1000);
+      expect(delay).toBeGreaterThanOrEqual(800);
+    });
+
+    it('should clamp jitter to 0-1', () => {
+      const policy = new ReconnectPolicy({ jitter: 5 }, () => 0.5);
+
+      expect(policy.recordDisconnect()).toBe(500);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should open the circuit after the maximum attempts', () => {
+      const policy = new ReconnectPolicy({ maxAttempts: 2, probeIntervalMs: 60_000 }, noJitter);
+
+      policy.recordFailure();
+      expect(policy.isCircuitOpen()).toBe(false);
+
+      expect(policy.recordFailure()).toBe(60_000);
+      expect(policy.isCircuitOpen()).toBe(true);
+      expect(policy.getPhase()).toBe('circuit-open');
+    });
+
+    it('should keep the circuit open while probes fail', () => {
+      const policy = new ReconnectPolicy({ maxAttempts: 1, probeIntervalMs: 60_000 }, noJitter);
+      policy.recordFailure();
+
+      policy.recordAttempt();
+      expect(policy.getPhase()).toBe('connecting');
+
+      expect(policy.recordFailure()).toBe(60_000);
+      expect(policy.isCircuitOpen()).toBe(true);
+    });
+
+    it('should close the circuit on success', () => {
+      const policy = new ReconnectPolicy({ maxAttempts: 1 }, noJitter);
+      policy.recordFailure();
+
+      policy.recordSuccess();
+
+      expect(policy.getStatus()).toEqual({ phase: 'connected', failures: 0, nextAttemptAt: undefined });
+      expect(policy.recordDisconnect()).toBe(1000);
+    });
+  });
+
+  describe('phaseChange', () => {
+    it('should emit when the phase changes', () => {
+      const policy = new ReconnectPolicy({}, noJitter);
+      const listener = vi.fn();
+      policy.on('phaseChange', listener);
+
+      policy.recordAttempt();
+      policy.recordAttempt();
+      policy.recordSuccess();
+
+      expect(listener.mock.calls.map(([status]) => status.phase)).toEqual(['connecting', 'connected']);
+    });
+
+    it('should emit for every failed probe so the next probe time is current', () => {
+      const policy = new ReconnectPolicy({ maxAttempts: 1 }, noJitter);
+      const listener = vi.fn();
+      policy.on('phaseChange', listener);
+
+      policy.recordFailure();
+      policy.recordFailure();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('configure', () => {
+    it('should keep settings that are left out', () => {
+      const policy = new ReconnectPolicy({ baseDelayMs: 500 }, noJitter);
+
+      policy.configure({ maxAttempts: 3 });
+
+      expect(policy.recordDisconnect()).toBe(500);
+    });
+
+    it('should return to idle on reset', () => {
+      const policy = new ReconnectPolicy({ maxAttempts: 1 }, noJitter);
+      policy.recordFailure();
+
+      policy.reset();
+
+      expect(policy.getStatus()).toEqual({ phase: 'idle', failures: 0, nextAttemptAt: undefined });
+    });
+  });
+});
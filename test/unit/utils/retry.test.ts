@@ -78,6 +78,8 @@ describe('Retry Utilities', () => {
       expect(RECONNECT_DEFAULTS.maxAttempts).toBe(5);
       expect(RECONNECT_DEFAULTS.baseDelay).toBe(1000);
       expect(RECONNECT_DEFAULTS.maxDelay).toBe(30000);
+      expect(RECONNECT_DEFAULTS.jitter).toBe(0.2);
+      expect(RECONNECT_DEFAULTS.probeInterval).toBe(300000);
     });
 
     it('should be frozen/readonly', () => {